@@ -0,0 +1,355 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { getEmailTransport } from './emailTransport';
+import { DEFAULT_TIME_ZONE, atMidnightInZone, getCalendarDate } from './timeZone';
+
+// Inicializar Firebase Admin (solo una vez en el proyecto)
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+interface ExpenseSplitData {
+  categoryId: admin.firestore.DocumentReference;
+  amount: number;
+}
+
+interface ExpenseData {
+  amount: number;
+  categoryId: admin.firestore.DocumentReference;
+  currency: string;
+  date: admin.firestore.Timestamp;
+  splits?: ExpenseSplitData[] | null;
+  userId: string;
+}
+
+type BudgetRollover = 'none' | 'surplus' | 'deficit' | 'both';
+
+interface CategoryData {
+  name: string;
+  currency: string;
+  monthly_limit: number;
+  budgetOverrides?: Record<string, number>;
+  activeMonths?: number[] | null; // 0-11; vacío o ausente = todo el año
+  rollover?: BudgetRollover;
+  createdAt?: admin.firestore.Timestamp;
+  userId: string;
+}
+
+// 1 fromCurrency = rate toCurrency, vigente a partir de `date`
+interface ExchangeRateData {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: admin.firestore.Timestamp;
+}
+
+interface BudgetAlertSettings {
+  enabled: boolean;
+  thresholds: number[]; // Porcentajes del límite mensual
+  email: boolean;
+}
+
+interface UserData {
+  email?: string;
+  language?: string;
+  timeZone?: string;
+  budgetAlerts?: Partial<BudgetAlertSettings>;
+}
+
+// Debe coincidir con DEFAULT_BUDGET_ALERT_SETTINGS de src/lib/firebase/firestore/notifications.ts
+const DEFAULT_SETTINGS: BudgetAlertSettings = { enabled: true, thresholds: [80, 100], email: false };
+
+/**
+ * Reparto del gasto por categoría.
+ * Replica getExpenseAllocations de src/lib/utils/expenseSplits.ts.
+ */
+function getAllocations(expense: ExpenseData): { categoryId: string; amount: number }[] {
+  if (expense.splits && expense.splits.length > 0) {
+    return expense.splits.map((split) => ({ categoryId: split.categoryId.id, amount: split.amount }));
+  }
+  return [{ categoryId: expense.categoryId.id, amount: expense.amount }];
+}
+
+/**
+ * Clave 'YYYY-MM' del mes del gasto en la zona horaria del usuario, como en el navegador.
+ * Replica budgetMonthKey de src/lib/utils/budgetRollover.ts.
+ */
+function getMonthKey(date: Date, timeZone: string): string {
+  const { year, month } = getCalendarDate(date, timeZone);
+  return `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Tasa directa (o inversa) entre dos monedas vigente en la fecha.
+ * Replica findExchangeRate de src/lib/utils/currencyConversion.ts.
+ */
+function findExchangeRate(rates: ExchangeRateData[], from: string, to: string, date: Date): number | null {
+  if (from === to) return 1;
+
+  const target = date.getTime();
+  const candidates = rates
+    .filter((rate) =>
+      rate.rate > 0 &&
+      ((rate.fromCurrency === from && rate.toCurrency === to) ||
+        (rate.fromCurrency === to && rate.toCurrency === from))
+    )
+    .map((rate) => ({
+      time: rate.date.toMillis(),
+      value: rate.fromCurrency === from ? rate.rate : 1 / rate.rate,
+    }))
+    .sort((a, b) => a.time - b.time);
+
+  if (candidates.length === 0) return null;
+
+  const previous = candidates.filter((candidate) => candidate.time <= target);
+  return previous.length > 0 ? previous[previous.length - 1].value : candidates[0].value;
+}
+
+// Replica convertAmount de src/lib/utils/currencyConversion.ts (con una moneda intermedia si hace falta)
+function convertAmount(amount: number, from: string, to: string, date: Date, rates: ExchangeRateData[]): number | null {
+  const direct = findExchangeRate(rates, from, to, date);
+  if (direct !== null) return amount * direct;
+
+  const intermediates = new Set(rates.flatMap((rate) => [rate.fromCurrency, rate.toCurrency]));
+  for (const currency of Array.from(intermediates)) {
+    if (currency === from || currency === to) continue;
+    const first = findExchangeRate(rates, from, currency, date);
+    if (first === null) continue;
+    const second = findExchangeRate(rates, currency, to, date);
+    if (second === null) continue;
+    return amount * first * second;
+  }
+
+  return null;
+}
+
+// Límite de meses hacia atrás que se recorren para calcular el arrastre (MAX_HISTORY_MONTHS del cliente)
+const MAX_HISTORY_MONTHS = 36;
+
+const monthIndex = (year: number, month: number) => year * 12 + month;
+
+const indexToMonthKey = (index: number) => `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+
+// Replica getMonthlyLimit de src/lib/utils/budgetRollover.ts
+function getMonthlyLimit(category: CategoryData, monthKey: string): number {
+  const override = category.budgetOverrides?.[monthKey];
+  return typeof override === 'number' ? override : category.monthly_limit;
+}
+
+// Replica isActiveMonth de src/lib/utils/budgetRollover.ts (month de 0 a 11)
+function isActiveMonth(category: CategoryData, month: number): boolean {
+  return !category.activeMonths || category.activeMonths.length === 0 || category.activeMonths.includes(month);
+}
+
+// Replica getCarryForward de src/lib/utils/budgetRollover.ts
+function getCarryForward(mode: BudgetRollover | undefined, available: number): number {
+  switch (mode) {
+    case 'surplus':
+      return Math.max(available, 0);
+    case 'deficit':
+      return Math.min(available, 0);
+    case 'both':
+      return available;
+    default:
+      return 0;
+  }
+}
+
+// Identidad de lo que afecta a los presupuestos: si no cambió (p. ej. solo la nota), no hay nada que revisar
+function getBudgetFingerprint(expense: ExpenseData | undefined): string {
+  if (!expense) return '';
+  return JSON.stringify([expense.date.toMillis(), expense.currency, getAllocations(expense)]);
+}
+
+function buildAlertEmail(
+  user: UserData,
+  category: CategoryData,
+  threshold: number,
+  spent: number,
+  limit: number
+): { subject: string; text: string } {
+  const amounts = `${spent.toLocaleString()} / ${limit.toLocaleString()} ${category.currency}`;
+  if (user.language === 'en') {
+    return {
+      subject: `Budget alert: ${category.name} reached ${threshold}%`,
+      text: `Your "${category.name}" category has used ${threshold}% of its monthly budget (${amounts}).`,
+    };
+  }
+  return {
+    subject: `Alerta de presupuesto: ${category.name} llegó al ${threshold}%`,
+    text: `Tu categoría "${category.name}" ya usó el ${threshold}% de su presupuesto mensual (${amounts}).`,
+  };
+}
+
+/**
+ * Recalcula el total del mes de una categoría y crea una notificación por cada umbral
+ * cruzado del presupuesto del mes, que incluye el arrastre de los meses anteriores.
+ * Los gastos en otra moneda se convierten a la de la categoría con las tasas del usuario
+ * y los que no tienen tasa no se suman (replica getBudgetAmount del cliente).
+ * Los meses fuera de activeMonths no se revisan.
+ * El ID de la notificación incluye categoría, mes y umbral: cada umbral se notifica
+ * como máximo una vez por mes.
+ */
+async function checkCategoryBudget(
+  userId: string,
+  user: UserData,
+  settings: BudgetAlertSettings,
+  rates: ExchangeRateData[],
+  timeZone: string,
+  categoryId: string,
+  monthKey: string
+): Promise<number> {
+  const categorySnapshot = await db.collection('categories').doc(categoryId).get();
+  if (!categorySnapshot.exists) return 0;
+
+  const category = categorySnapshot.data() as CategoryData;
+  if (category.userId !== userId) return 0;
+
+  const [year, month] = monthKey.split('-').map(Number);
+  const target = monthIndex(year, month - 1);
+
+  // Fuera de los meses activos la categoría no tiene presupuesto
+  if (!isActiveMonth(category, month - 1)) return 0;
+
+  // Con arrastre se recorre el historial desde la creación de la categoría, como getBudgetHistory
+  const createdAt = category.createdAt ? getCalendarDate(category.createdAt.toDate(), timeZone) : null;
+  const createdIndex = createdAt ? monthIndex(createdAt.year, createdAt.month) : target;
+  const first = !category.rollover || category.rollover === 'none'
+    ? target
+    : Math.max(Math.min(createdIndex, target), target - MAX_HISTORY_MONTHS + 1);
+
+  const start = admin.firestore.Timestamp.fromDate(atMidnightInZone(Math.floor(first / 12), first % 12, 1, timeZone));
+  const end = admin.firestore.Timestamp.fromDate(atMidnightInZone(year, month, 1, timeZone));
+
+  // Usa el índice compuesto (userId, date) de firestore.indexes.json
+  const expensesSnapshot = await db
+    .collection('expenses')
+    .where('userId', '==', userId)
+    .where('date', '>=', start)
+    .where('date', '<', end)
+    .orderBy('date', 'desc')
+    .get();
+
+  // Gasto por mes en la moneda de la categoría
+  const spentByMonth = new Map<number, number>();
+  expensesSnapshot.docs.forEach((expenseDoc) => {
+    const expense = expenseDoc.data() as ExpenseData;
+    const amount = getAllocations(expense)
+      .filter((allocation) => allocation.categoryId === categoryId)
+      .reduce((categorySum, allocation) => categorySum + allocation.amount, 0);
+    if (amount === 0) return;
+
+    const date = expense.date.toDate();
+    const converted = convertAmount(amount, expense.currency, category.currency, date, rates);
+    if (converted === null) return;
+
+    const { year: expenseYear, month: expenseMonth } = getCalendarDate(date, timeZone);
+    const index = monthIndex(expenseYear, expenseMonth);
+    spentByMonth.set(index, (spentByMonth.get(index) || 0) + converted);
+  });
+
+  // Presupuesto del mes = límite + arrastre de los meses anteriores (replica getBudgetHistory)
+  let carriedOver = 0;
+  for (let index = first; index < target; index++) {
+    const limit = isActiveMonth(category, index % 12) ? getMonthlyLimit(category, indexToMonthKey(index)) : 0;
+    carriedOver = getCarryForward(category.rollover, limit + carriedOver - (spentByMonth.get(index) || 0));
+  }
+
+  const limit = getMonthlyLimit(category, monthKey) + carriedOver;
+  if (limit <= 0) return 0;
+
+  const spent = spentByMonth.get(target) || 0;
+
+  const percentage = (spent / limit) * 100;
+  const crossed = settings.thresholds.filter((threshold) => percentage >= threshold);
+  const created: number[] = [];
+
+  for (const threshold of crossed) {
+    const notificationRef = db.collection('notifications').doc(`${userId}_${categoryId}_${monthKey}_${threshold}`);
+    try {
+      await notificationRef.create({
+        uid: notificationRef.id,
+        userId,
+        type: 'budgetAlert',
+        categoryId,
+        categoryName: category.name,
+        threshold,
+        spent,
+        limit,
+        currency: category.currency,
+        month: monthKey,
+        read: false,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      created.push(threshold);
+    } catch (error) {
+      // ALREADY_EXISTS: este umbral ya se notificó este mes
+      if ((error as { code?: number }).code === 6) continue;
+      throw error;
+    }
+  }
+
+  if (created.length > 0 && settings.email && user.email) {
+    // Un solo correo por gasto, con el umbral más alto recién cruzado
+    const { subject, text } = buildAlertEmail(user, category, Math.max(...created), spent, limit);
+    try {
+      await getEmailTransport().send({ to: user.email, subject, text });
+    } catch (error) {
+      // La notificación en la app ya quedó creada: un fallo del correo no debe reintentar el trigger
+      console.error(`[BudgetAlerts] Error enviando correo a ${userId}:`, error);
+    }
+  }
+
+  return created.length;
+}
+
+/**
+ * Cloud Function que se ejecuta en cada escritura de un gasto: recalcula el total
+ * mensual de las categorías afectadas y crea notificaciones (y opcionalmente un correo)
+ * cuando se cruzan los umbrales configurados por el usuario en `users.budgetAlerts`.
+ *
+ * Solo revisa el estado posterior: borrar o reducir un gasto nunca cruza un umbral.
+ */
+export const checkBudgetAlerts = functions.firestore
+  .document('expenses/{expenseId}')
+  .onWrite(async (change, context) => {
+    const before = change.before.exists ? (change.before.data() as ExpenseData) : undefined;
+    const after = change.after.exists ? (change.after.data() as ExpenseData) : undefined;
+
+    if (!after || getBudgetFingerprint(before) === getBudgetFingerprint(after)) {
+      return null;
+    }
+
+    try {
+      const userSnapshot = await db.collection('users').doc(after.userId).get();
+      const user = (userSnapshot.data() || {}) as UserData;
+      const settings: BudgetAlertSettings = { ...DEFAULT_SETTINGS, ...user.budgetAlerts };
+
+      if (!settings.enabled || settings.thresholds.length === 0) {
+        return null;
+      }
+
+      const timeZone = user.timeZone || DEFAULT_TIME_ZONE;
+      const monthKey = getMonthKey(after.date.toDate(), timeZone);
+      const categoryIds = Array.from(new Set(getAllocations(after).map((allocation) => allocation.categoryId)));
+
+      const ratesSnapshot = await db.collection('exchangeRates').where('userId', '==', after.userId).get();
+      const rates = ratesSnapshot.docs.map((rateDoc) => rateDoc.data() as ExchangeRateData);
+
+      let createdCount = 0;
+      for (const categoryId of categoryIds) {
+        createdCount += await checkCategoryBudget(after.userId, user, settings, rates, timeZone, categoryId, monthKey);
+      }
+
+      if (createdCount > 0) {
+        console.log(`[BudgetAlerts] Gasto ${context.params.expenseId}: ${createdCount} notificaciones creadas`);
+      }
+
+      return { createdCount };
+    } catch (error) {
+      console.error(`[BudgetAlerts] Error revisando el gasto ${context.params.expenseId}:`, error);
+      throw error;
+    }
+  });
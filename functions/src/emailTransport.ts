@@ -0,0 +1,57 @@
+import * as admin from 'firebase-admin';
+
+// Inicializar Firebase Admin (solo una vez en el proyecto)
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Transporte de correo intercambiable. Para usar un proveedor propio
+ * (SendGrid, SES, SMTP...) basta con implementar `send` y registrarlo
+ * con setEmailTransport al cargar las funciones.
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Por defecto no se envía nada: el correo solo queda en los logs
+const logTransport: EmailTransport = {
+  async send(message) {
+    console.log(`[Email] (sin transporte configurado) Para: ${message.to} - ${message.subject}`);
+  },
+};
+
+// Encola el correo en la colección `mail`, con el formato de la extensión "Trigger Email" de Firebase
+const firestoreMailTransport: EmailTransport = {
+  async send(message) {
+    await admin.firestore().collection('mail').add({
+      to: message.to,
+      message: {
+        subject: message.subject,
+        text: message.text,
+      },
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  },
+};
+
+let customTransport: EmailTransport | null = null;
+
+export function setEmailTransport(transport: EmailTransport | null): void {
+  customTransport = transport;
+}
+
+/**
+ * Transporte activo: el registrado con setEmailTransport o, si no hay,
+ * el indicado por la variable de entorno EMAIL_TRANSPORT ('firestore-mail' o 'log').
+ */
+export function getEmailTransport(): EmailTransport {
+  if (customTransport) return customTransport;
+  return process.env.EMAIL_TRANSPORT === 'firestore-mail' ? firestoreMailTransport : logTransport;
+}
@@ -4,6 +4,19 @@
  * Funciones implementadas:
  * - cleanupInactiveSessions: Limpieza automática cada hora de sesiones inactivas >30 min
  * - cleanupInactiveSessionsManual: Endpoint HTTP para limpieza manual
+ * - materializeRecurringRules: Genera diariamente los gastos/ingresos de las reglas recurrentes vencidas
+ * - postInstallmentPayments: Registra diariamente como gasto las cuotas vencidas y avanza current_installment
+ * - checkBudgetAlerts: Al escribir un gasto, notifica las categorías que cruzan sus umbrales de presupuesto
+ * - updateExpenseRollups: Al escribir un gasto, actualiza el total mensual por categoría en expenseRollups
+ * - updateExpenseTags / updateIncomeTags: Al escribir un movimiento, actualiza los usos por etiqueta en userTags
+ * - migrateRestoredGoalAmount: Al crear una meta con saldo (p. ej. restaurada), lo registra como abono inicial
+ * - migrateLegacyGoalAmounts: Endpoint HTTP para migrar una vez el saldo de las metas anteriores a los abonos
  */
 
 export { cleanupInactiveSessions, cleanupInactiveSessionsManual } from './cleanupInactiveSessions';
+export { materializeRecurringRules } from './materializeRecurringRules';
+export { postInstallmentPayments } from './postInstallmentPayments';
+export { checkBudgetAlerts } from './checkBudgetAlerts';
+export { updateExpenseRollups } from './updateExpenseRollups';
+export { updateExpenseTags, updateIncomeTags } from './updateUserTags';
+export { migrateRestoredGoalAmount, migrateLegacyGoalAmounts } from './migrateLegacyGoalAmounts';
@@ -0,0 +1,301 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { addDaysAtNoon, atNoonInZone, DEFAULT_TIME_ZONE, getCalendarDate } from './timeZone';
+
+// Inicializar Firebase Admin (solo una vez en el proyecto)
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+// Límite de ocurrencias por regla en una sola ejecución (evita bucles si nextRunDate quedó muy atrás)
+const MAX_OCCURRENCES_PER_RUN = 60;
+
+type RecurringFrequency = 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+
+interface RecurringRuleData {
+  uid: string;
+  type: 'expense' | 'income';
+  frequency: RecurringFrequency;
+  dayOfMonth: number;
+  startDate: admin.firestore.Timestamp;
+  endDate?: admin.firestore.Timestamp | null;
+  nextRunDate: admin.firestore.Timestamp;
+  amount: number;
+  currency: string;
+  categoryId?: admin.firestore.DocumentReference | null;
+  source?: string;
+  note?: string;
+  active: boolean;
+  timeZone?: string; // Zona horaria IANA del usuario al crear/editar la regla
+  userId: string;
+}
+
+/**
+ * Calcula la ocurrencia siguiente a `occurrence`.
+ * Replica getNextOccurrence de src/lib/utils/recurrence.ts usando las fechas de calendario
+ * en la zona horaria de la regla, para que coincidan con la vista previa del cliente.
+ */
+function getNextOccurrence(rule: RecurringRuleData, occurrence: Date): Date {
+  const timeZone = rule.timeZone || DEFAULT_TIME_ZONE;
+  const start = getCalendarDate(rule.startDate.toDate(), timeZone);
+  const current = getCalendarDate(occurrence, timeZone);
+
+  if (rule.frequency === 'weekly' || rule.frequency === 'biweekly') {
+    const stepDays = rule.frequency === 'weekly' ? 7 : 14;
+    return addDaysAtNoon(current, stepDays, timeZone);
+  }
+
+  if (rule.frequency === 'yearly') {
+    return atNoonInZone(current.year + 1, start.month, rule.dayOfMonth, timeZone);
+  }
+
+  return atNoonInZone(current.year, current.month + 1, rule.dayOfMonth, timeZone);
+}
+
+/**
+ * Clave de idempotencia: una regla solo puede generar un documento por día
+ * (el día de calendario en la zona horaria de la regla).
+ * Se usa como ID del gasto/ingreso, así una re-ejecución nunca lo duplica.
+ */
+function getOccurrenceKey(rule: RecurringRuleData, occurrence: Date): string {
+  const { year, month, day } = getCalendarDate(occurrence, rule.timeZone || DEFAULT_TIME_ZONE);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${rule.uid}_${year}-${pad(month + 1)}-${pad(day)}`;
+}
+
+interface GoalFundingRuleData {
+  goalId: string;
+  sourcePattern: string;
+  currency: string;
+  percentage: number;
+  active: boolean;
+}
+
+interface GoalData {
+  targetAmount: number;
+  currentAmount: number;
+  currency: string;
+  userId: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+// Replica matchesSourcePattern de src/lib/utils/goalFunding.ts
+function matchesSourcePattern(pattern: string, source: string): boolean {
+  const normalizedPattern = pattern.trim().toLowerCase();
+  const normalizedSource = source.trim().toLowerCase();
+
+  if (!normalizedPattern) return true;
+  if (!normalizedPattern.includes('*')) return normalizedSource.includes(normalizedPattern);
+
+  const regex = new RegExp(`^${normalizedPattern.split('*').map(escapeRegExp).join('.*')}$`);
+  return regex.test(normalizedSource);
+}
+
+/**
+ * Lee (dentro de la transacción) las reglas de financiamiento que aplican al ingreso y sus metas.
+ * Replica getMatchingFundingRules de src/lib/utils/goalFunding.ts.
+ */
+async function getFundingTargets(
+  transaction: admin.firestore.Transaction,
+  rule: RecurringRuleData
+): Promise<{ fundingRule: GoalFundingRuleData; goalRef: admin.firestore.DocumentReference; goal: GoalData }[]> {
+  const rulesSnapshot = await transaction.get(
+    db.collection('goalFundingRules').where('userId', '==', rule.userId)
+  );
+  const matching = rulesSnapshot.docs
+    .map((ruleDoc) => ruleDoc.data() as GoalFundingRuleData)
+    .filter((fundingRule) =>
+      fundingRule.active &&
+      fundingRule.currency === rule.currency &&
+      matchesSourcePattern(fundingRule.sourcePattern, rule.source || '')
+    );
+
+  const targets = [];
+  for (const fundingRule of matching) {
+    const goalRef = db.collection('goals').doc(fundingRule.goalId);
+    const goalSnapshot = await transaction.get(goalRef);
+    if (!goalSnapshot.exists) continue;
+    const goal = goalSnapshot.data() as GoalData;
+    if (goal.userId !== rule.userId || goal.currency !== rule.currency) continue;
+    targets.push({ fundingRule, goalRef, goal });
+  }
+  return targets;
+}
+
+/**
+ * Materializa todas las ocurrencias vencidas de una regla.
+ * Cada ocurrencia se escribe en una transacción junto con el avance de nextRunDate.
+ */
+async function materializeRule(
+  ruleRef: admin.firestore.DocumentReference,
+  now: admin.firestore.Timestamp
+): Promise<number> {
+  let created = 0;
+
+  for (let i = 0; i < MAX_OCCURRENCES_PER_RUN; i++) {
+    const result = await db.runTransaction(async (transaction) => {
+      const ruleSnapshot = await transaction.get(ruleRef);
+      if (!ruleSnapshot.exists) return 'done';
+
+      const rule = ruleSnapshot.data() as RecurringRuleData;
+      if (!rule.active || rule.nextRunDate.toMillis() > now.toMillis()) return 'done';
+
+      const occurrence = rule.nextRunDate.toDate();
+
+      // La regla ya terminó: se desactiva sin generar nada
+      if (rule.endDate && occurrence.getTime() > rule.endDate.toMillis()) {
+        transaction.update(ruleRef, {
+          active: false,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return 'done';
+      }
+
+      const key = getOccurrenceKey(rule, occurrence);
+      const collection = rule.type === 'expense' ? 'expenses' : 'income';
+      const targetRef = db.collection(collection).doc(key);
+      const targetSnapshot = await transaction.get(targetRef);
+
+      // Los ingresos generados pasan por las reglas de financiamiento de metas, igual que en el cliente
+      const fundingTargets = rule.type === 'income' && !targetSnapshot.exists
+        ? await getFundingTargets(transaction, rule)
+        : [];
+
+      let wasCreated = false;
+      if (!targetSnapshot.exists) {
+        const occurrenceTimestamp = admin.firestore.Timestamp.fromDate(occurrence);
+        const baseData = {
+          uid: key,
+          amount: rule.amount,
+          currency: rule.currency,
+          userId: rule.userId,
+          recurringRuleId: rule.uid,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        };
+
+        transaction.create(
+          targetRef,
+          rule.type === 'expense'
+            ? {
+                ...baseData,
+                categoryId: rule.categoryId,
+                date: occurrenceTimestamp,
+                installmentId: null,
+                note: rule.note || '',
+              }
+            : {
+                ...baseData,
+                source: rule.source,
+                receivedAt: occurrenceTimestamp,
+              }
+        );
+        wasCreated = true;
+
+        // Replica applyGoalFundingRules de src/lib/firebase/firestore/goalFundingRules.ts
+        const currentAmounts = new Map<string, number>();
+        for (const { fundingRule, goalRef, goal } of fundingTargets) {
+          const currentAmount = currentAmounts.get(goalRef.id) ?? goal.currentAmount;
+          const remaining = Math.max(0, goal.targetAmount - currentAmount);
+          const amount = Math.min(Math.round(rule.amount * fundingRule.percentage) / 100, remaining);
+          if (amount <= 0) continue;
+
+          const contributionRef = goalRef.collection('contributions').doc();
+          transaction.create(contributionRef, {
+            uid: contributionRef.id,
+            goalId: goalRef.id,
+            amount,
+            date: occurrenceTimestamp,
+            note: null,
+            sourceIncomeId: key,
+            userId: rule.userId,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          currentAmounts.set(goalRef.id, currentAmount + amount);
+          transaction.update(goalRef, {
+            currentAmount: currentAmount + amount,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        }
+      }
+
+      const next = getNextOccurrence(rule, occurrence);
+      const finished = !!rule.endDate && next.getTime() > rule.endDate.toMillis();
+
+      transaction.update(ruleRef, {
+        nextRunDate: admin.firestore.Timestamp.fromDate(next),
+        lastRunDate: admin.firestore.Timestamp.fromDate(occurrence),
+        active: !finished,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return wasCreated ? 'created' : 'skipped';
+    });
+
+    if (result === 'done') break;
+    if (result === 'created') created++;
+  }
+
+  return created;
+}
+
+/**
+ * Cloud Function que se ejecuta diariamente para materializar las reglas
+ * recurrentes (gastos e ingresos) cuya próxima ocurrencia ya venció.
+ *
+ * Es idempotente: el ID de cada documento generado se deriva de la regla y
+ * la fecha de la ocurrencia, por lo que re-ejecutarla no duplica entradas.
+ */
+export const materializeRecurringRules = functions.pubsub
+  .schedule('every day 01:00')
+  .timeZone('America/Costa_Rica') // Ajusta según tu zona horaria
+  .onRun(async () => {
+    const now = admin.firestore.Timestamp.now();
+
+    console.log('[Recurring] Iniciando materialización de reglas recurrentes...');
+
+    try {
+      const dueRulesSnapshot = await db
+        .collection('recurringRules')
+        .where('active', '==', true)
+        .where('nextRunDate', '<=', now)
+        .get();
+
+      if (dueRulesSnapshot.empty) {
+        console.log('[Recurring] No hay reglas pendientes');
+        return null;
+      }
+
+      console.log(`[Recurring] Encontradas ${dueRulesSnapshot.size} reglas pendientes`);
+
+      let createdCount = 0;
+      let failedCount = 0;
+
+      for (const ruleDoc of dueRulesSnapshot.docs) {
+        try {
+          const created = await materializeRule(ruleDoc.ref, now);
+          createdCount += created;
+          console.log(`[Recurring] Regla ${ruleDoc.id}: ${created} entradas creadas`);
+        } catch (error) {
+          // Un fallo en una regla no debe detener al resto
+          failedCount++;
+          console.error(`[Recurring] Error en la regla ${ruleDoc.id}:`, error);
+        }
+      }
+
+      console.log(`[Recurring] ${createdCount} entradas creadas, ${failedCount} reglas con error`);
+
+      return {
+        success: failedCount === 0,
+        createdCount,
+        failedCount,
+        timestamp: now.toDate().toISOString(),
+      };
+    } catch (error) {
+      console.error('[Recurring] Error al materializar reglas:', error);
+      throw error;
+    }
+  });
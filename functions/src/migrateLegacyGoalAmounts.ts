@@ -0,0 +1,122 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// Inicializar Firebase Admin (solo una vez en el proyecto)
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+// Debe coincidir con OPENING_CONTRIBUTION_ID de src/lib/firebase/firestore/goals.ts
+const OPENING_CONTRIBUTION_ID = 'opening';
+
+interface GoalData {
+  currentAmount: number;
+  userId: string;
+  createdAt?: admin.firestore.Timestamp | null;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Registra como abono inicial (ID fijo OPENING_CONTRIBUTION_ID) la parte de currentAmount que
+ * no está respaldada por abonos, así currentAmount siempre es la suma del historial.
+ *
+ * La meta y sus abonos se leen del servidor dentro de la transacción: si otro abono se registra
+ * mientras tanto, la transacción se reintenta con los datos nuevos. Es idempotente: si el abono
+ * inicial ya existe no hace nada.
+ *
+ * @returns true si se creó el abono inicial
+ */
+async function migrateGoal(goalRef: admin.firestore.DocumentReference): Promise<boolean> {
+  const contributionsRef = goalRef.collection('contributions');
+  const openingRef = contributionsRef.doc(OPENING_CONTRIBUTION_ID);
+
+  return db.runTransaction(async (transaction) => {
+    const [goalSnapshot, openingSnapshot, contributionsSnapshot] = await Promise.all([
+      transaction.get(goalRef),
+      transaction.get(openingRef),
+      transaction.get(contributionsRef),
+    ]);
+    if (!goalSnapshot.exists || openingSnapshot.exists) return false;
+
+    const goal = goalSnapshot.data() as GoalData;
+    const contributed = contributionsSnapshot.docs.reduce(
+      (total, contributionDoc) => total + (contributionDoc.get('amount') as number),
+      0
+    );
+    const legacyAmount = roundCents(goal.currentAmount - contributed);
+    if (legacyAmount <= 0) return false;
+
+    transaction.set(openingRef, {
+      uid: OPENING_CONTRIBUTION_ID,
+      goalId: goalRef.id,
+      amount: legacyAmount,
+      date: goal.createdAt || admin.firestore.Timestamp.now(),
+      note: null,
+      sourceIncomeId: null,
+      userId: goal.userId,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+/**
+ * Cloud Function que respalda con un abono inicial las metas creadas con saldo, como las que
+ * restaura una copia de seguridad. Las metas creadas desde la app empiezan en 0 y no se leen.
+ */
+export const migrateRestoredGoalAmount = functions.firestore
+  .document('goals/{goalId}')
+  .onCreate(async (snapshot, context) => {
+    if (!((snapshot.get('currentAmount') as number) > 0)) return null;
+
+    try {
+      if (await migrateGoal(snapshot.ref)) {
+        console.log(`[Goals] Abono inicial creado para la meta ${context.params.goalId}`);
+      }
+    } catch (error) {
+      console.error(`[Goals] Error migrando el saldo de la meta ${context.params.goalId}:`, error);
+      throw error;
+    }
+
+    return null;
+  });
+
+/**
+ * Cloud Function HTTP para ejecutar una vez después del deploy: migra las metas creadas antes
+ * del historial de abonos. Solo crea abonos iniciales que faltan, por lo que repetirla no cambia nada.
+ */
+export const migrateLegacyGoalAmounts = functions.https.onRequest(async (req, res) => {
+  if (req.method !== 'POST') {
+    res.status(405).send('Method Not Allowed');
+    return;
+  }
+
+  try {
+    const goalsSnapshot = await db.collection('goals').where('currentAmount', '>', 0).get();
+
+    let migratedCount = 0;
+    for (const goalDoc of goalsSnapshot.docs) {
+      if (await migrateGoal(goalDoc.ref)) {
+        migratedCount++;
+      }
+    }
+
+    console.log(`[Goals] ${migratedCount} de ${goalsSnapshot.size} metas migradas`);
+
+    res.status(200).json({
+      success: true,
+      message: `${migratedCount} metas migradas`,
+      migratedCount,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Goals] Error migrando metas:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error al migrar metas',
+    });
+  }
+});
@@ -0,0 +1,192 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { atNoonInZone, DEFAULT_TIME_ZONE, getCalendarDate } from './timeZone';
+
+// Inicializar Firebase Admin (solo una vez en el proyecto)
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+interface InstallmentData {
+  uid: string;
+  category_id: admin.firestore.DocumentReference;
+  currency: string;
+  current_installment: number;
+  description: string;
+  installments: number;
+  monthly_amount: number;
+  start_date: admin.firestore.Timestamp;
+  total_amount: number;
+  interest_type?: 'flat' | 'french' | 'german';
+  annual_rate?: number;
+  account_id?: string | null;
+  timeZone?: string; // Zona horaria IANA del usuario al crear/editar el plan
+  userId: string;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Monto de la cuota `number`. Con amortización alemana cada cuota es distinta
+ * (capital fijo más el interés del saldo); el resto usa monthly_amount.
+ * Replica getInstallmentPayment de src/lib/utils/amortization.ts.
+ */
+function getInstallmentPayment(installment: InstallmentData, number: number): number {
+  if (installment.interest_type !== 'german') return installment.monthly_amount;
+
+  const principal = installment.total_amount;
+  const periods = installment.installments;
+  const monthlyRate = (installment.annual_rate || 0) / 100 / 12;
+  let balance = principal;
+
+  for (let current = 1; current <= periods; current++) {
+    const interest = roundCents(balance * monthlyRate);
+    const principalPart = current === periods ? roundCents(balance) : roundCents(principal / periods);
+    if (current === number) return roundCents(principalPart + interest);
+    balance = roundCents(balance - principalPart);
+  }
+
+  return installment.monthly_amount;
+}
+
+/**
+ * Fecha de vencimiento de la cuota `number` (1 = primera cuota, en start_date): mediodía del
+ * día de calendario en la zona horaria del plan, igual que en el navegador del usuario.
+ * Replica getInstallmentDueDate de src/lib/firebase/firestore/installments.ts.
+ */
+function getInstallmentDueDate(installment: InstallmentData, number: number): Date {
+  const timeZone = installment.timeZone || DEFAULT_TIME_ZONE;
+  const start = getCalendarDate(installment.start_date.toDate(), timeZone);
+  return atNoonInZone(start.year, start.month + number - 1, start.day, timeZone);
+}
+
+/**
+ * Clave de idempotencia: cada cuota genera como máximo un gasto.
+ * Debe coincidir con getInstallmentExpenseId del cliente.
+ */
+function getInstallmentExpenseId(installmentUid: string, number: number): string {
+  return `${installmentUid}_${number}`;
+}
+
+/**
+ * Registra todas las cuotas vencidas de un plan.
+ * Cada cuota se registra en una transacción junto con el avance de current_installment.
+ */
+async function postDueInstallments(
+  installmentRef: admin.firestore.DocumentReference,
+  now: admin.firestore.Timestamp
+): Promise<number> {
+  let posted = 0;
+
+  while (true) {
+    const result = await db.runTransaction(async (transaction) => {
+      const installmentSnapshot = await transaction.get(installmentRef);
+      if (!installmentSnapshot.exists) return 'done';
+
+      const installment = installmentSnapshot.data() as InstallmentData;
+      if (installment.current_installment >= installment.installments) return 'done';
+
+      const number = installment.current_installment + 1;
+      const dueDate = getInstallmentDueDate(installment, number);
+      if (dueDate.getTime() > now.toMillis()) return 'done';
+
+      const expenseRef = db.collection('expenses').doc(getInstallmentExpenseId(installment.uid, number));
+      const expenseSnapshot = await transaction.get(expenseRef);
+
+      if (!expenseSnapshot.exists) {
+        transaction.create(expenseRef, {
+          uid: expenseRef.id,
+          amount: getInstallmentPayment(installment, number),
+          categoryId: installment.category_id,
+          currency: installment.currency,
+          date: admin.firestore.Timestamp.fromDate(dueDate),
+          installmentId: installmentRef,
+          note: `${installment.description} (${number}/${installment.installments})`,
+          accountId: installment.account_id || null,
+          userId: installment.userId,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+
+      transaction.update(installmentRef, {
+        current_installment: number,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return expenseSnapshot.exists ? 'skipped' : 'posted';
+    });
+
+    if (result === 'done') break;
+    if (result === 'posted') posted++;
+  }
+
+  return posted;
+}
+
+/**
+ * Cloud Function que se ejecuta diariamente para registrar como gasto cada
+ * cuota cuyo vencimiento mensual (derivado de start_date) ya llegó.
+ *
+ * Es idempotente: el ID del gasto se deriva del plan y el número de cuota,
+ * por lo que re-ejecutarla no duplica pagos.
+ */
+export const postInstallmentPayments = functions.pubsub
+  .schedule('every day 01:30')
+  .timeZone('America/Costa_Rica') // Ajusta según tu zona horaria
+  .onRun(async () => {
+    const now = admin.firestore.Timestamp.now();
+
+    console.log('[Installments] Iniciando registro de cuotas vencidas...');
+
+    try {
+      // Firestore no permite comparar dos campos; los planes completos se descartan en memoria
+      const installmentsSnapshot = await db
+        .collection('installments')
+        .where('start_date', '<=', now)
+        .get();
+
+      const pendingDocs = installmentsSnapshot.docs.filter((installmentDoc) => {
+        const installment = installmentDoc.data() as InstallmentData;
+        return installment.current_installment < installment.installments;
+      });
+
+      if (pendingDocs.length === 0) {
+        console.log('[Installments] No hay planes con cuotas pendientes');
+        return null;
+      }
+
+      console.log(`[Installments] Revisando ${pendingDocs.length} planes con cuotas pendientes`);
+
+      let postedCount = 0;
+      let failedCount = 0;
+
+      for (const installmentDoc of pendingDocs) {
+        try {
+          const posted = await postDueInstallments(installmentDoc.ref, now);
+          postedCount += posted;
+          if (posted > 0) {
+            console.log(`[Installments] Plan ${installmentDoc.id}: ${posted} cuotas registradas`);
+          }
+        } catch (error) {
+          // Un fallo en un plan no debe detener al resto
+          failedCount++;
+          console.error(`[Installments] Error en el plan ${installmentDoc.id}:`, error);
+        }
+      }
+
+      console.log(`[Installments] ${postedCount} cuotas registradas, ${failedCount} planes con error`);
+
+      return {
+        success: failedCount === 0,
+        postedCount,
+        failedCount,
+        timestamp: now.toDate().toISOString(),
+      };
+    } catch (error) {
+      console.error('[Installments] Error al registrar cuotas:', error);
+      throw error;
+    }
+  });
@@ -0,0 +1,79 @@
+/**
+ * Fechas de calendario en la zona horaria del usuario. El cliente guarda las fechas a mediodía
+ * local (atNoon / createLocalDate); estas funciones reproducen ese convenio en el servidor.
+ */
+
+// Zona horaria de los documentos creados antes de guardar `timeZone` (la misma de los cron)
+export const DEFAULT_TIME_ZONE = 'America/Costa_Rica';
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 0-11
+  day: number;
+}
+
+const daysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+};
+
+/**
+ * Fecha de calendario (año, mes, día) de `date` en la zona horaria indicada.
+ */
+export function getCalendarDate(date: Date, timeZone: string): CalendarDate {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(item => item.type === type)?.value);
+  return { year: part('year'), month: part('month') - 1, day: part('day') };
+}
+
+/**
+ * Diferencia en milisegundos entre la hora local de `timeZone` y UTC en el instante `date`.
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(item => item.type === type)?.value);
+  const asUTC = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Mediodía del día indicado en `timeZone`, equivalente a `atNoon` del cliente.
+ * El día se limita al último del mes y los desbordes (día 35, mes 12) se normalizan.
+ */
+export function atNoonInZone(year: number, month: number, day: number, timeZone: string): Date {
+  const normalized = new Date(Date.UTC(year, month, 1));
+  const clampedDay = Math.min(day, daysInMonth(normalized.getUTCFullYear(), normalized.getUTCMonth()));
+  const guess = new Date(Date.UTC(normalized.getUTCFullYear(), normalized.getUTCMonth(), clampedDay, 12, 0, 0, 0));
+  return new Date(guess.getTime() - getTimeZoneOffset(guess, timeZone));
+}
+
+/**
+ * Mediodía en `timeZone` del día que resulta de sumar `days` a una fecha de calendario.
+ */
+export function addDaysAtNoon(date: CalendarDate, days: number, timeZone: string): Date {
+  const target = new Date(Date.UTC(date.year, date.month, date.day + days));
+  return atNoonInZone(target.getUTCFullYear(), target.getUTCMonth(), target.getUTCDate(), timeZone);
+}
+
+/**
+ * Inicio (00:00) del día indicado en `timeZone`; los desbordes (mes 12) se normalizan.
+ */
+export function atMidnightInZone(year: number, month: number, day: number, timeZone: string): Date {
+  const guess = new Date(Date.UTC(year, month, day, 0, 0, 0, 0));
+  const offsetGuess = new Date(guess.getTime() - getTimeZoneOffset(guess, timeZone));
+  // Segunda pasada por si el cambio de horario cae entre la estimación y el resultado
+  return new Date(guess.getTime() - getTimeZoneOffset(offsetGuess, timeZone));
+}
@@ -0,0 +1,125 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { atMidnightInZone, DEFAULT_TIME_ZONE, getCalendarDate } from './timeZone';
+
+// Inicializar Firebase Admin (solo una vez en el proyecto)
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+interface ExpenseSplitData {
+  categoryId: admin.firestore.DocumentReference;
+  amount: number;
+}
+
+interface ExpenseData {
+  amount: number;
+  categoryId: admin.firestore.DocumentReference;
+  date: admin.firestore.Timestamp;
+  splits?: ExpenseSplitData[] | null;
+  userId: string;
+}
+
+/**
+ * Reparto del gasto por categoría.
+ * Replica getExpenseAllocations de src/lib/utils/expenseSplits.ts.
+ */
+function getAllocations(expense: ExpenseData): { categoryId: string; amount: number }[] {
+  if (expense.splits && expense.splits.length > 0) {
+    return expense.splits.map((split) => ({ categoryId: split.categoryId.id, amount: split.amount }));
+  }
+  return [{ categoryId: expense.categoryId.id, amount: expense.amount }];
+}
+
+/**
+ * Clave 'YYYY-MM' del mes del gasto en la zona horaria del usuario, la misma que usa
+ * budgetMonthKey de src/lib/utils/budgetRollover.ts con el mes local del navegador.
+ */
+function getMonthKey(date: Date, timeZone: string): string {
+  const { year, month } = getCalendarDate(date, timeZone);
+  return `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+// Suma (o resta, con sign = -1) las líneas del gasto a los totales por categoría
+function addAllocations(totals: Record<string, number>, expense: ExpenseData, sign: number): void {
+  getAllocations(expense).forEach(({ categoryId, amount }) => {
+    totals[categoryId] = (totals[categoryId] || 0) + sign * amount;
+  });
+}
+
+/**
+ * Recalcula `expenseRollups/{userId}_{YYYY-MM}` con todos los gastos del mes (en la zona horaria
+ * del usuario). Se recalcula en lugar de aplicar incrementos: un evento entregado dos veces o
+ * fuera de orden deja el mismo resultado.
+ */
+async function recomputeRollup(userId: string, monthKey: string, timeZone: string): Promise<void> {
+  const rollupRef = db.collection('expenseRollups').doc(`${userId}_${monthKey}`);
+  const [year, month] = monthKey.split('-').map(Number);
+  const start = admin.firestore.Timestamp.fromDate(atMidnightInZone(year, month - 1, 1, timeZone));
+  const end = admin.firestore.Timestamp.fromDate(atMidnightInZone(year, month, 1, timeZone));
+
+  await db.runTransaction(async (transaction) => {
+    // Usa el índice compuesto (userId, date) de firestore.indexes.json
+    const expensesSnapshot = await transaction.get(
+      db.collection('expenses')
+        .where('userId', '==', userId)
+        .where('date', '>=', start)
+        .where('date', '<', end)
+        .orderBy('date', 'desc')
+    );
+
+    const byCategory: Record<string, number> = {};
+    expensesSnapshot.docs.forEach((expenseDoc) => addAllocations(byCategory, expenseDoc.data() as ExpenseData, 1));
+
+    transaction.set(rollupRef, {
+      userId,
+      month: monthKey,
+      byCategory,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Cloud Function que se ejecuta en cada escritura de un gasto y mantiene el total mensual
+ * por categoría en `expenseRollups`. El resumen del listado de gastos lo lee en una sola
+ * consulta en lugar de una agregación por categoría.
+ *
+ * Los totales suman montos sin convertir y reparten los gastos divididos entre sus categorías.
+ */
+export const updateExpenseRollups = functions.firestore
+  .document('expenses/{expenseId}')
+  .onWrite(async (change, context) => {
+    const before = change.before.exists ? (change.before.data() as ExpenseData) : undefined;
+    const after = change.after.exists ? (change.after.data() as ExpenseData) : undefined;
+    const userId = (after || before)?.userId;
+    if (!userId) return null;
+
+    try {
+      const userSnapshot = await db.collection('users').doc(userId).get();
+      const timeZone = (userSnapshot.get('timeZone') as string | undefined) || DEFAULT_TIME_ZONE;
+
+      // Diferencias por mes y categoría entre el estado anterior y el nuevo
+      const changes: Record<string, Record<string, number>> = {};
+      const collect = (expense: ExpenseData | undefined, sign: number) => {
+        if (!expense) return;
+        const deltas = changes[getMonthKey(expense.date.toDate(), timeZone)] ||= {};
+        addAllocations(deltas, expense, sign);
+      };
+      collect(before, -1);
+      collect(after, 1);
+
+      for (const [monthKey, deltas] of Object.entries(changes)) {
+        // Se redondea a centavos: un cambio que solo toca la nota no produce escrituras
+        if (Object.values(deltas).every((amount) => Math.round(amount * 100) === 0)) continue;
+        await recomputeRollup(userId, monthKey, timeZone);
+      }
+    } catch (error) {
+      console.error(`[ExpenseRollups] Error actualizando el gasto ${context.params.expenseId}:`, error);
+      throw error;
+    }
+
+    return null;
+  });
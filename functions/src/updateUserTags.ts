@@ -0,0 +1,135 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// Inicializar Firebase Admin (solo una vez en el proyecto)
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+interface TaggedMovement {
+  tags?: string[] | null;
+  userId: string;
+}
+
+interface UserTagsData {
+  counts: Record<string, number>;
+  seededAt: admin.firestore.Timestamp;
+  recentEventIds?: string[];
+}
+
+// Eventos ya aplicados que se recuerdan para descartar reenvíos (los triggers se entregan al menos una vez)
+const MAX_RECENT_EVENT_IDS = 100;
+
+// Suma (o resta, con sign = -1) las etiquetas del movimiento a los contadores
+function addTags(counts: Record<string, number>, movement: TaggedMovement | undefined, sign: number): void {
+  (movement?.tags || []).forEach((tag) => {
+    counts[tag] = (counts[tag] || 0) + sign;
+  });
+}
+
+/**
+ * Aplica a `userTags/{userId}` la diferencia de usos por etiqueta y quita las que ya no se usan.
+ *
+ * Si el documento aún no existe se siembra con las etiquetas de todos los gastos e ingresos
+ * del usuario y se guarda el instante de esa lectura en `seededAt`; las escrituras anteriores
+ * a ese instante ya están incluidas y no se vuelven a sumar.
+ *
+ * Los IDs de los últimos eventos aplicados se guardan en `recentEventIds` dentro de la misma
+ * transacción: si el mismo evento se entrega otra vez, no se vuelve a sumar.
+ */
+async function applyTagChange(
+  userId: string,
+  deltas: Record<string, number>,
+  eventId: string,
+  eventTime: admin.firestore.Timestamp
+): Promise<void> {
+  const userTagsRef = db.collection('userTags').doc(userId);
+
+  await db.runTransaction(async (transaction) => {
+    const userTagsSnapshot = await transaction.get(userTagsRef);
+
+    if (!userTagsSnapshot.exists) {
+      // Solo se lee el campo tags de cada movimiento
+      const [expensesSnapshot, incomesSnapshot] = await Promise.all([
+        transaction.get(db.collection('expenses').where('userId', '==', userId).select('tags')),
+        transaction.get(db.collection('income').where('userId', '==', userId).select('tags')),
+      ]);
+
+      const counts: Record<string, number> = {};
+      [...expensesSnapshot.docs, ...incomesSnapshot.docs].forEach((movementDoc) =>
+        addTags(counts, movementDoc.data() as TaggedMovement, 1)
+      );
+
+      transaction.set(userTagsRef, {
+        userId,
+        counts,
+        seededAt: expensesSnapshot.readTime,
+        recentEventIds: [eventId],
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return;
+    }
+
+    const userTags = userTagsSnapshot.data() as UserTagsData;
+    const recentEventIds = userTags.recentEventIds || [];
+    if (eventTime.toMillis() <= userTags.seededAt.toMillis() || recentEventIds.includes(eventId)) return;
+
+    const counts = { ...userTags.counts };
+    Object.entries(deltas).forEach(([tag, delta]) => {
+      const count = (counts[tag] || 0) + delta;
+      if (count > 0) {
+        counts[tag] = count;
+      } else {
+        delete counts[tag];
+      }
+    });
+
+    transaction.update(userTagsRef, {
+      counts,
+      recentEventIds: [...recentEventIds, eventId].slice(-MAX_RECENT_EVENT_IDS),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+// Compara las etiquetas antes y después de la escritura y actualiza los contadores del usuario
+async function handleMovementWrite(
+  change: functions.Change<functions.firestore.DocumentSnapshot>,
+  context: functions.EventContext
+): Promise<null> {
+  const before = change.before.exists ? (change.before.data() as TaggedMovement) : undefined;
+  const after = change.after.exists ? (change.after.data() as TaggedMovement) : undefined;
+  const userId = (after || before)?.userId;
+  if (!userId) return null;
+
+  const deltas: Record<string, number> = {};
+  addTags(deltas, before, -1);
+  addTags(deltas, after, 1);
+  const nonZero = Object.fromEntries(Object.entries(deltas).filter(([, delta]) => delta !== 0));
+  // Un cambio que no toca las etiquetas no produce escrituras
+  if (Object.keys(nonZero).length === 0) return null;
+
+  try {
+    await applyTagChange(userId, nonZero, context.eventId, admin.firestore.Timestamp.fromDate(new Date(context.timestamp)));
+  } catch (error) {
+    console.error(`[UserTags] Error actualizando las etiquetas de ${context.resource.name}:`, error);
+    throw error;
+  }
+
+  return null;
+}
+
+/**
+ * Cloud Functions que mantienen en `userTags/{userId}` cuántos gastos e ingresos usan cada
+ * etiqueta. El selector de etiquetas y los filtros leen ese único documento en lugar de
+ * suscribirse a todos los movimientos del usuario.
+ */
+export const updateExpenseTags = functions.firestore
+  .document('expenses/{expenseId}')
+  .onWrite(handleMovementWrite);
+
+export const updateIncomeTags = functions.firestore
+  .document('income/{incomeId}')
+  .onWrite(handleMovementWrite);
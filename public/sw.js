@@ -0,0 +1,262 @@
+// Service worker de la PWA
+// - Cachea el app shell de las rutas del dashboard para abrir la app sin conexión
+// - Reenvía con Background Sync los gastos creados sin conexión (ver src/lib/pwa/serviceWorker.ts)
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const STATIC_CACHE = `static-${CACHE_VERSION}`;
+
+const SHELL_ROUTES = [
+  '/',
+  '/expenses',
+  '/incomes',
+  '/categories',
+  '/installments',
+  '/recurring',
+  '/goals',
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+];
+
+const EXPENSE_SYNC_TAG = 'expense-queue';
+const DB_NAME = 'expenses-sw';
+const QUEUE_STORE = 'expenseQueue';
+const META_STORE = 'meta';
+
+// ===== Ciclo de vida =====
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_ROUTES))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key !== SHELL_CACHE && key !== STATIC_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// ===== Caché =====
+
+const isShellRequest = (url, request) =>
+  request.mode === 'navigate' || request.headers.get('RSC') === '1' || SHELL_ROUTES.includes(url.pathname);
+
+// Primero red (datos frescos) y, sin conexión, la última versión cacheada
+const networkFirst = async (request, fallbackPath) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request) || (fallbackPath && await cache.match(fallbackPath));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Los archivos de /_next/static llevan hash en el nombre: se pueden servir desde caché
+const cacheFirst = async (request) => {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  // Firestore, Auth y demás servicios externos no se cachean
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (isShellRequest(url, request)) {
+    event.respondWith(networkFirst(request, request.mode === 'navigate' ? '/' : null));
+  }
+});
+
+// ===== IndexedDB =====
+
+const openDatabase = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(QUEUE_STORE, { keyPath: 'uid' });
+    request.result.createObjectStore(META_STORE);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runTransaction = async (storeName, mode, operation) => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const getQueuedExpenses = () => runTransaction(QUEUE_STORE, 'readonly', (store) => store.getAll());
+const putQueuedExpense = (expense) => runTransaction(QUEUE_STORE, 'readwrite', (store) => store.put(expense));
+const deleteQueuedExpense = (uid) => runTransaction(QUEUE_STORE, 'readwrite', (store) => store.delete(uid));
+// El ID token se guarda aquí porque el evento sync puede llegar sin ninguna pestaña abierta.
+// Es el token de corta duración (expiresAt) y se borra al cerrar sesión; nunca el refresh token.
+const getAuth = () => runTransaction(META_STORE, 'readonly', (store) => store.get('auth'));
+const setAuth = (auth) => runTransaction(META_STORE, 'readwrite', (store) =>
+  auth ? store.put(auth, 'auth') : store.delete('auth')
+);
+
+// ===== Background Sync =====
+
+/**
+ * Crea el gasto con la API REST de Firestore. Usa el mismo UID que el SDK y la
+ * precondición exists=false: si el SDK ya lo sincronizó, el servidor lo rechaza
+ * y el gasto no se duplica. Los campos ya vienen en formato REST desde la app
+ * (buildExpenseData en src/lib/firebase/firestore/expenses.ts).
+ *
+ * Devuelve { outcome: 'done' } si ya no hace falta reintentarlo, { outcome: 'retry' } si
+ * hay que esperar un token nuevo o { outcome: 'rejected', status } si el servidor lo
+ * rechazó (queda en la cola para que el usuario lo reintente).
+ */
+const replayExpense = async (expense, auth) => {
+  const documentsPath = `projects/${auth.projectId}/databases/(default)/documents`;
+  const response = await fetch(`https://firestore.googleapis.com/v1/${documentsPath}:commit`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${auth.token}`,
+    },
+    body: JSON.stringify({
+      writes: [{
+        update: {
+          name: `${documentsPath}/expenses/${expense.uid}`,
+          fields: expense.fields,
+        },
+        currentDocument: { exists: false },
+        updateTransforms: expense.serverTimestampFields.map((fieldPath) => ({
+          fieldPath,
+          setToServerValue: 'REQUEST_TIME',
+        })),
+      }],
+    }),
+  });
+
+  if (response.ok) return { outcome: 'done' };
+
+  // Token vencido: se reintenta cuando la app envíe uno nuevo
+  if (response.status === 401) return { outcome: 'retry' };
+
+  // Ya existe: el SDK lo sincronizó primero
+  if (response.status === 409) return { outcome: 'done' };
+
+  if (response.status === 400 || response.status === 403) {
+    const body = await response.json().catch(() => ({}));
+    const status = body.error && body.error.status;
+    if (status === 'ALREADY_EXISTS' || status === 'FAILED_PRECONDITION') return { outcome: 'done' };
+    return { outcome: 'rejected', status: response.status };
+  }
+
+  throw new Error(`Firestore respondió ${response.status}`);
+};
+
+// Avisa a las pestañas abiertas para que lo muestren en el indicador de sincronización
+const notifyRejected = async (expense, status) => {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage({ type: 'EXPENSE_REJECTED', uid: expense.uid, status }));
+};
+
+const replayQueue = async () => {
+  const auth = await getAuth();
+  // Sin sesión o con el token vencido se espera a que la app envíe uno nuevo
+  if (!auth || auth.expiresAt <= Date.now()) return;
+
+  const queue = await getQueuedExpenses();
+  let failed = false;
+
+  for (const expense of queue) {
+    // Solo se reenvían los gastos del usuario con sesión activa; los rechazados esperan al usuario
+    if (expense.userId !== auth.userId || expense.rejectedStatus) continue;
+
+    try {
+      const result = await replayExpense(expense, auth);
+      if (result.outcome === 'done') {
+        await deleteQueuedExpense(expense.uid);
+      } else if (result.outcome === 'rejected') {
+        console.error(`[SW] Gasto ${expense.uid} rechazado (${result.status})`);
+        await putQueuedExpense({ ...expense, rejectedStatus: result.status });
+        await notifyRejected(expense, result.status);
+      }
+    } catch (error) {
+      console.error('[SW] Error al reenviar gasto:', error);
+      failed = true;
+    }
+  }
+
+  // Un error hace que el navegador vuelva a disparar el sync más tarde
+  if (failed) {
+    throw new Error('Quedan gastos pendientes');
+  }
+};
+
+// El usuario pidió reintentar: los gastos rechazados vuelven a la cola normal
+const retryRejected = async () => {
+  const queue = await getQueuedExpenses();
+  for (const expense of queue.filter((item) => item.rejectedStatus)) {
+    await putQueuedExpense({ ...expense, rejectedStatus: null });
+  }
+  await replayQueue();
+};
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === EXPENSE_SYNC_TAG) {
+    event.waitUntil(replayQueue());
+  }
+});
+
+// ===== Mensajes desde la app =====
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+
+  switch (message.type) {
+    case 'AUTH':
+      event.waitUntil(setAuth(message.auth));
+      break;
+    case 'QUEUE_EXPENSE':
+      event.waitUntil(putQueuedExpense(message.expense));
+      break;
+    case 'EXPENSE_SYNCED':
+      event.waitUntil(deleteQueuedExpense(message.uid));
+      break;
+    case 'REPLAY_QUEUE':
+      // Navegadores sin Background Sync: la app avisa al recuperar la conexión
+      event.waitUntil(replayQueue().catch((error) => console.error('[SW] Error en reenvío:', error)));
+      break;
+    case 'RETRY_REJECTED':
+      event.waitUntil(retryRejected().catch((error) => console.error('[SW] Error en reintento:', error)));
+      break;
+  }
+});
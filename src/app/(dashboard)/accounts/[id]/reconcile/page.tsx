@@ -0,0 +1,292 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { reconcileAccount } from '@/lib/firebase/firestore/accounts';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { ArrowLeft, CheckCircle, Scale } from 'lucide-react';
+import { Timestamp } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { es, enUS } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { updateRateLimiter } from '@/lib/utils/rateLimiter';
+import { createLocalDate, dateToLocalString } from '@/lib/utils/dates';
+import { sanitizeNumber } from '@/lib/utils/sanitize';
+import {
+  useAccounts,
+  useCategories,
+  useExchangeRates,
+  useExpenses,
+  useIncomes,
+  useTransfers,
+} from '@/hooks/useUserCollection';
+import { getClearedBalance, getReconciliationCandidates } from '@/lib/utils/reconciliation';
+
+export default function ReconcileAccountPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { t, language } = useLanguage();
+  const accountId = params.id as string;
+
+  const { data: accounts, loading } = useAccounts();
+  const { data: categories } = useCategories();
+  const { data: expenses } = useExpenses();
+  const { data: incomes } = useIncomes();
+  const { data: transfers } = useTransfers();
+  const { data: exchangeRates } = useExchangeRates();
+  const [statementDate, setStatementDate] = useState(dateToLocalString(new Date()));
+  const [statementBalance, setStatementBalance] = useState<number | ''>('');
+  const [expenseIds, setExpenseIds] = useState<Set<string>>(new Set());
+  const [incomeIds, setIncomeIds] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+
+  const account = accounts.find(item => item.uid === accountId);
+  const dateLocale = language === 'en' ? enUS : es;
+
+  useEffect(() => {
+    if (!loading && !account) {
+      toast.error(t.reconciliation.accountNotFound);
+      router.push('/accounts');
+    }
+  }, [loading, account, router, t]);
+
+  if (!account) {
+    return (
+      <ProtectedRoute>
+        <div className="flex items-center justify-center min-h-screen">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-600" />
+        </div>
+      </ProtectedRoute>
+    );
+  }
+
+  const movements = { expenses, incomes, transfers, rates: exchangeRates };
+  const date = statementDate ? createLocalDate(statementDate) : new Date();
+  const candidates = getReconciliationCandidates(account, movements, date);
+  // Solo cuentan las selecciones que siguen dentro del periodo del estado de cuenta
+  const selection = {
+    expenseIds: new Set(candidates.expenses.filter(expense => expenseIds.has(expense.uid)).map(expense => expense.uid)),
+    incomeIds: new Set(candidates.incomes.filter(income => incomeIds.has(income.uid)).map(income => income.uid)),
+  };
+  const clearedBalance = getClearedBalance(account, movements, date, selection);
+  const targetBalance = statementBalance === '' ? null : sanitizeNumber(statementBalance);
+  const difference = targetBalance === null ? null : Math.round((targetBalance - clearedBalance) * 100) / 100;
+  const isBalanced = difference === 0;
+  const allSelected = selection.expenseIds.size === candidates.expenses.length &&
+    selection.incomeIds.size === candidates.incomes.length;
+
+  const getCategoryName = (uid: string) => categories.find(category => category.uid === uid)?.name || '';
+  const formatAmount = (value: number, currency = account.currency) => `${value.toLocaleString()} ${currency}`;
+
+  const toggle = (setter: typeof setExpenseIds, uid: string, checked: boolean) => {
+    setter(previous => {
+      const next = new Set(previous);
+      if (checked) next.add(uid);
+      else next.delete(uid);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    if (allSelected) {
+      setExpenseIds(new Set());
+      setIncomeIds(new Set());
+    } else {
+      setExpenseIds(new Set(candidates.expenses.map(expense => expense.uid)));
+      setIncomeIds(new Set(candidates.incomes.map(income => income.uid)));
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!user || targetBalance === null || !isBalanced || !statementDate) return;
+
+    const rateLimitCheck = updateRateLimiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.accounts.rateLimit.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await reconcileAccount(account.uid, {
+        statementDate: Timestamp.fromDate(date),
+        statementBalance: targetBalance,
+        expenseIds: Array.from(selection.expenseIds),
+        incomeIds: Array.from(selection.incomeIds),
+      });
+      toast.success(t.reconciliation.success);
+      router.push('/accounts');
+    } catch (error) {
+      console.error('Error reconciling account:', error);
+      toast.error(t.reconciliation.error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-cyan-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 p-6">
+        <div className="max-w-5xl mx-auto mt-4">
+          <div className="mb-8">
+            <Button
+              variant="ghost"
+              onClick={() => router.push('/accounts')}
+              className="mb-4"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {t.actions.back}
+            </Button>
+            <h1 className="pb-2 text-3xl sm:text-4xl font-bold bg-gradient-to-r from-blue-600 to-cyan-600 bg-clip-text text-transparent mb-2">
+              {t.reconciliation.title.replace('{name}', account.name)}
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              {t.reconciliation.subtitle}
+            </p>
+            {account.lastReconciledAt && (
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                {t.reconciliation.lastReconciled
+                  .replace('{date}', format(account.lastReconciledAt.toDate(), 'PP', { locale: dateLocale }))
+                  .replace('{amount}', formatAmount(account.lastReconciledBalance ?? 0))}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {/* Datos del estado de cuenta y diferencia */}
+            <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="statementDate">{t.reconciliation.statementDateField}</Label>
+                  <Input
+                    id="statementDate"
+                    type="date"
+                    value={statementDate}
+                    onChange={(e) => setStatementDate(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="statementBalance">
+                    {t.reconciliation.statementBalanceField} ({account.currency})
+                  </Label>
+                  <Input
+                    id="statementBalance"
+                    type="number"
+                    step="0.01"
+                    value={statementBalance}
+                    onChange={(e) => setStatementBalance(e.target.value === '' ? '' : parseFloat(e.target.value))}
+                    placeholder="0"
+                  />
+                </div>
+              </div>
+
+              <div className="mt-6 grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{t.reconciliation.clearedBalance}</p>
+                  <p className="text-xl font-bold text-gray-800 dark:text-gray-200">{formatAmount(clearedBalance)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{t.reconciliation.statementBalance}</p>
+                  <p className="text-xl font-bold text-gray-800 dark:text-gray-200">
+                    {targetBalance === null ? '—' : formatAmount(targetBalance)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{t.reconciliation.difference}</p>
+                  <p className={`text-xl font-bold ${isBalanced ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                    {difference === null ? '—' : formatAmount(difference)}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {/* Movimientos por conciliar */}
+            <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-6">
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">
+                  {t.reconciliation.pendingMovements}
+                </h2>
+                {candidates.expenses.length + candidates.incomes.length > 0 && (
+                  <Button variant="outline" size="sm" onClick={toggleAll}>
+                    {allSelected ? t.reconciliation.clearAll : t.reconciliation.selectAll}
+                  </Button>
+                )}
+              </div>
+
+              {candidates.expenses.length + candidates.incomes.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400">{t.reconciliation.noPendingMovements}</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {candidates.incomes.map((income) => (
+                    <li key={income.uid}>
+                      <label className="flex items-center gap-3 py-2 cursor-pointer">
+                        <Checkbox
+                          checked={selection.incomeIds.has(income.uid)}
+                          onCheckedChange={(checked) => toggle(setIncomeIds, income.uid, checked === true)}
+                        />
+                        <span className="w-24 shrink-0 text-sm text-gray-500 dark:text-gray-400">
+                          {format(income.receivedAt.toDate(), 'PP', { locale: dateLocale })}
+                        </span>
+                        <span className="flex-1 truncate text-gray-800 dark:text-gray-200">{income.source}</span>
+                        <span className="font-medium text-green-600 dark:text-green-400 whitespace-nowrap">
+                          +{formatAmount(income.amount, income.currency)}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                  {candidates.expenses.map((expense) => (
+                    <li key={expense.uid}>
+                      <label className="flex items-center gap-3 py-2 cursor-pointer">
+                        <Checkbox
+                          checked={selection.expenseIds.has(expense.uid)}
+                          onCheckedChange={(checked) => toggle(setExpenseIds, expense.uid, checked === true)}
+                        />
+                        <span className="w-24 shrink-0 text-sm text-gray-500 dark:text-gray-400">
+                          {format(expense.date.toDate(), 'PP', { locale: dateLocale })}
+                        </span>
+                        <span className="flex-1 truncate text-gray-800 dark:text-gray-200">
+                          {expense.note || getCategoryName(expense.categoryId.id)}
+                        </span>
+                        <span className="font-medium text-red-600 dark:text-red-400 whitespace-nowrap">
+                          −{formatAmount(expense.amount, expense.currency)}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-end gap-3">
+              {!isBalanced && targetBalance !== null && (
+                <p className="text-sm text-amber-600 dark:text-amber-400 flex items-center gap-2">
+                  <Scale className="w-4 h-4" />
+                  {t.reconciliation.notBalanced}
+                </p>
+              )}
+              <Button
+                onClick={handleFinish}
+                disabled={!isBalanced || saving}
+                className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white font-semibold shadow-lg shadow-blue-500/50 dark:shadow-blue-900/50"
+              >
+                <CheckCircle className="w-5 h-5 mr-2" />
+                {saving ? t.common.saving : t.reconciliation.finish}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
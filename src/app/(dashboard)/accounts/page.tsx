@@ -0,0 +1,351 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Account } from '@/lib/types/account';
+import { Transfer } from '@/lib/types/transfer';
+import {
+  createAccountDocument,
+  updateAccountDocument,
+  deleteAccountDocument,
+} from '@/lib/firebase/firestore/accounts';
+import { createTransferDocument, deleteTransferDocument } from '@/lib/firebase/firestore/transfers';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import AccountCard from '@/components/accounts/AccountCard';
+import AccountForm, { AccountFormData } from '@/components/accounts/AccountForm';
+import TransferForm, { TransferFormData } from '@/components/accounts/TransferForm';
+import StatementsDialog from '@/components/accounts/StatementsDialog';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { ArrowRight, ArrowRightLeft, Plus, Trash2, Wallet } from 'lucide-react';
+import { format } from 'date-fns';
+import { es, enUS } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { createRateLimiter, updateRateLimiter, deleteRateLimiter } from '@/lib/utils/rateLimiter';
+import {
+  useAccounts,
+  useExchangeRates,
+  useExpenses,
+  useIncomes,
+  useInstallments,
+  useTransfers,
+} from '@/hooks/useUserCollection';
+import { getAccountBalances } from '@/lib/utils/accountBalances';
+import { getCardSummary, hasStatementCycle } from '@/lib/utils/cardStatements';
+
+// Transferencias recientes que se muestran en la página
+const RECENT_TRANSFERS_LIMIT = 20;
+
+export default function AccountsPage() {
+  const { t, language } = useLanguage();
+  const { user } = useAuth();
+  const router = useRouter();
+  const { data: accounts, error: accountsError } = useAccounts();
+  const { data: transfers } = useTransfers();
+  const { data: expenses } = useExpenses();
+  const { data: incomes } = useIncomes();
+  const { data: exchangeRates } = useExchangeRates();
+  const { data: installments } = useInstallments();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [selectedAccount, setSelectedAccount] = useState<Account | null>(null);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [accountToDelete, setAccountToDelete] = useState<string | null>(null);
+  const [transferToDelete, setTransferToDelete] = useState<Transfer | null>(null);
+  const [statementsAccount, setStatementsAccount] = useState<Account | null>(null);
+
+  // Las cuentas se mantienen sincronizadas con Firestore en tiempo real
+  useEffect(() => {
+    if (accountsError) {
+      toast.error(t.accounts.loadError);
+    }
+  }, [accountsError, t]);
+
+  const movements = { expenses, incomes, transfers, rates: exchangeRates };
+  const balances = getAccountBalances(accounts, movements);
+  const recentTransfers = [...transfers]
+    .sort((a, b) => b.date.toMillis() - a.date.toMillis())
+    .slice(0, RECENT_TRANSFERS_LIMIT);
+  const dateLocale = language === 'en' ? enUS : es;
+
+  const getAccountName = (uid: string) => accounts.find(account => account.uid === uid)?.name || '—';
+
+  const handleSubmitAccount = async (data: AccountFormData) => {
+    if (!user) return;
+
+    const limiter = selectedAccount ? updateRateLimiter : createRateLimiter;
+    const rateLimitCheck = limiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.accounts.rateLimit.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      return;
+    }
+
+    try {
+      if (selectedAccount) {
+        await updateAccountDocument(selectedAccount.uid, data);
+        toast.success(t.accounts.updateSuccess);
+      } else {
+        await createAccountDocument({ ...data, userId: user.uid }, `${user.uid}_${Date.now()}`);
+        toast.success(t.accounts.createSuccess);
+      }
+      setSelectedAccount(null);
+      setIsFormOpen(false);
+    } catch (error) {
+      console.error('Error saving account:', error);
+      toast.error(t.accounts.saveError);
+      throw error;
+    }
+  };
+
+  const handleCreateTransfer = async (data: TransferFormData) => {
+    if (!user) return;
+
+    const rateLimitCheck = createRateLimiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.accounts.rateLimit.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      return;
+    }
+
+    try {
+      await createTransferDocument({ ...data, userId: user.uid }, `${user.uid}_${Date.now()}`);
+      setIsTransferOpen(false);
+      toast.success(t.accounts.transferSuccess);
+    } catch (error) {
+      console.error('Error creating transfer:', error);
+      toast.error(t.accounts.transferError);
+      throw error;
+    }
+  };
+
+  const confirmDeleteAccount = async () => {
+    if (!accountToDelete || !user) return;
+
+    const rateLimitCheck = deleteRateLimiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.accounts.rateLimit.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      setAccountToDelete(null);
+      return;
+    }
+
+    try {
+      await deleteAccountDocument(accountToDelete);
+      toast.success(t.accounts.deleteSuccess);
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      toast.error(t.accounts.deleteError);
+    } finally {
+      setAccountToDelete(null);
+    }
+  };
+
+  const confirmDeleteTransfer = async () => {
+    if (!transferToDelete || !user) return;
+
+    const rateLimitCheck = deleteRateLimiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.accounts.rateLimit.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      setTransferToDelete(null);
+      return;
+    }
+
+    try {
+      await deleteTransferDocument(transferToDelete.uid);
+      toast.success(t.accounts.transferDeleteSuccess);
+    } catch (error) {
+      console.error('Error deleting transfer:', error);
+      toast.error(t.accounts.deleteError);
+    } finally {
+      setTransferToDelete(null);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-cyan-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 p-6">
+        <div className="max-w-7xl mx-auto mt-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+            <div>
+              <h1 className="pb-2 text-3xl sm:text-4xl font-bold bg-gradient-to-r from-blue-600 to-cyan-600 bg-clip-text text-transparent mb-2">
+                {t.accounts.title}
+              </h1>
+              <p className="text-gray-600 dark:text-gray-400">
+                {t.accounts.subtitle}
+              </p>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              {accounts.length > 1 && (
+                <Button
+                  variant="outline"
+                  onClick={() => setIsTransferOpen(true)}
+                  className="w-full sm:w-auto"
+                >
+                  <ArrowRightLeft className="w-5 h-5 mr-2" />
+                  {t.accounts.newTransfer}
+                </Button>
+              )}
+              <Button
+                onClick={() => {
+                  setSelectedAccount(null);
+                  setIsFormOpen(true);
+                }}
+                className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white font-semibold shadow-lg shadow-blue-500/50 dark:shadow-blue-900/50 w-full sm:w-auto"
+              >
+                <Plus className="w-5 h-5 mr-2" />
+                {t.accounts.newAccount}
+              </Button>
+            </div>
+          </div>
+
+          {accounts.length === 0 ? (
+            <div className="text-center py-20">
+              <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-12 max-w-md mx-auto">
+                <div className="w-20 h-20 bg-gradient-to-r from-blue-100 to-cyan-100 dark:from-blue-900/30 dark:to-cyan-900/30 rounded-full flex items-center justify-center mx-auto mb-6">
+                  <Wallet className="w-10 h-10 text-blue-600 dark:text-blue-400" />
+                </div>
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-3">
+                  {t.accounts.noAccounts}
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {t.accounts.noAccountsDescription}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {balances.map((accountBalance) => (
+                  <AccountCard
+                    key={accountBalance.account.uid}
+                    accountBalance={accountBalance}
+                    onEdit={(account) => {
+                      setSelectedAccount(account);
+                      setIsFormOpen(true);
+                    }}
+                    onDelete={setAccountToDelete}
+                    cardSummary={
+                      hasStatementCycle(accountBalance.account)
+                        ? getCardSummary(accountBalance.account, movements)
+                        : null
+                    }
+                    onViewStatements={setStatementsAccount}
+                    onReconcile={(account) => router.push(`/accounts/${account.uid}/reconcile`)}
+                  />
+                ))}
+              </div>
+
+              {/* Transferencias recientes */}
+              <div>
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">
+                  {t.accounts.recentTransfers}
+                </h2>
+                {recentTransfers.length === 0 ? (
+                  <p className="text-gray-500 dark:text-gray-400">{t.accounts.noTransfers}</p>
+                ) : (
+                  <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl divide-y divide-gray-100 dark:divide-gray-700">
+                    {recentTransfers.map((transfer) => {
+                      const toCurrency = accounts.find(account => account.uid === transfer.toAccountId)?.currency;
+                      return (
+                        <div key={transfer.uid} className="flex items-center gap-3 p-4">
+                          <div className="flex-1 min-w-0">
+                            <p className="flex items-center gap-2 font-medium text-gray-800 dark:text-gray-200 truncate">
+                              {getAccountName(transfer.fromAccountId)}
+                              <ArrowRight className="w-4 h-4 shrink-0 text-gray-400" />
+                              {getAccountName(transfer.toAccountId)}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                              {format(transfer.date.toDate(), 'PP', { locale: dateLocale })}
+                              {transfer.note ? ` · ${transfer.note}` : ''}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-semibold text-blue-600 dark:text-blue-400">
+                              {transfer.amount.toLocaleString()} {transfer.currency}
+                            </p>
+                            {toCurrency && toCurrency !== transfer.currency && (
+                              <p className="text-xs text-gray-500 dark:text-gray-400">
+                                → {transfer.toAmount.toLocaleString()} {toCurrency}
+                              </p>
+                            )}
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setTransferToDelete(transfer)}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                            aria-label={t.common.delete}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          <AccountForm
+            open={isFormOpen}
+            onClose={() => {
+              setIsFormOpen(false);
+              setSelectedAccount(null);
+            }}
+            onSubmit={handleSubmitAccount}
+            account={selectedAccount}
+          />
+
+          <TransferForm
+            open={isTransferOpen}
+            onClose={() => setIsTransferOpen(false)}
+            onSubmit={handleCreateTransfer}
+            accounts={accounts}
+          />
+
+          <StatementsDialog
+            open={!!statementsAccount}
+            onClose={() => setStatementsAccount(null)}
+            account={statementsAccount}
+            movements={movements}
+            installments={installments}
+          />
+
+          <ConfirmDialog
+            open={!!accountToDelete}
+            onOpenChange={(open) => !open && setAccountToDelete(null)}
+            title={t.accounts.deleteConfirmTitle}
+            description={t.accounts.deleteConfirmDescription}
+            onConfirm={confirmDeleteAccount}
+            confirmText={t.common.delete}
+            cancelText={t.common.cancel}
+            variant="destructive"
+          />
+
+          <ConfirmDialog
+            open={!!transferToDelete}
+            onOpenChange={(open) => !open && setTransferToDelete(null)}
+            title={t.accounts.transferDeleteConfirmTitle}
+            description={t.accounts.transferDeleteConfirmDescription}
+            onConfirm={confirmDeleteTransfer}
+            confirmText={t.common.delete}
+            cancelText={t.common.cancel}
+            variant="destructive"
+          />
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
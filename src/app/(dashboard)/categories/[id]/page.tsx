@@ -24,6 +24,9 @@ import { ArrowLeft, TrendingDown, AlertTriangle, CheckCircle, Plus, Filter } fro
 import { toast } from 'sonner';
 import { doc, Timestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase/client';
+import { useCategories, useExchangeRates } from '@/hooks/useUserCollection';
+import { toExpenseSplits } from '@/lib/utils/expenseSplits';
+import { getBudgetAmount, getBudgetHistory, getMonthlyLimit } from '@/lib/utils/budgetRollover';
 
 export default function CategoryDetailPage() {
   const params = useParams();
@@ -33,6 +36,9 @@ export default function CategoryDetailPage() {
   const categoryId = params.id as string;
 
   const [category, setCategory] = useState<Category | null>(null);
+  // Todas las categorías, para poder dividir un gasto entre esta y otras
+  const { data: categories } = useCategories();
+  const { data: exchangeRates } = useExchangeRates();
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [loading, setLoading] = useState(true);
   const [isFormOpen, setIsFormOpen] = useState(false);
@@ -97,7 +103,7 @@ export default function CategoryDetailPage() {
   const handleCreate = async (data: any) => {
     if (!user || !category) return;
     try {
-      const categoryRef = doc(db, 'categories', categoryId);
+      const categoryRef = doc(db, 'categories', data.categoryId || categoryId);
       const expenseUid = `${user.uid}_${Date.now()}`;
 
       await createExpenseDocument(
@@ -107,6 +113,9 @@ export default function CategoryDetailPage() {
           currency: data.currency,
           date: data.date,
           note: data.note,
+          splits: toExpenseSplits(data.splits),
+          accountId: data.accountId || null,
+          tags: data.tags || [],
           userId: user.uid,
         },
         expenseUid
@@ -124,7 +133,7 @@ export default function CategoryDetailPage() {
   const handleUpdate = async (data: any) => {
     if (!selectedExpense) return;
     try {
-      const categoryRef = doc(db, 'categories', categoryId);
+      const categoryRef = doc(db, 'categories', data.categoryId || categoryId);
 
       await updateExpenseDocument(selectedExpense.uid, {
         amount: data.amount,
@@ -132,6 +141,11 @@ export default function CategoryDetailPage() {
         currency: data.currency,
         date: data.date,
         note: data.note,
+        splits: toExpenseSplits(data.splits),
+        accountId: data.accountId || null,
+        tags: data.tags || [],
+        // Solo se envía si el formulario quitó la conciliación; si no, el gasto la conserva
+        ...('reconciledAt' in data ? { reconciledAt: data.reconciledAt } : {}),
       });
       await loadExpenses();
       setSelectedExpense(null);
@@ -197,12 +211,22 @@ export default function CategoryDetailPage() {
     return expenseMonth === parseInt(selectedMonth) && expenseYear === parseInt(selectedYear);
   }) : [];
 
-  // Calcular estadísticas con gastos filtrados
-  const totalSpent = filteredExpenses.reduce((sum, expense) => sum + expense.amount, 0);
-  const limit = category.monthly_limit;
-  const percentage = limit > 0 ? (totalSpent / limit) * 100 : 0;
-  const isOverLimit = totalSpent > limit && limit > 0;
-  const isNearLimit = percentage >= 80 && !isOverLimit && limit > 0;
+  // Calcular estadísticas con gastos filtrados (de un gasto dividido solo cuenta la parte de esta categoría,
+  // convertida a la moneda de la categoría)
+  const totalSpent = filteredExpenses.reduce((sum, expense) => sum + getBudgetAmount(expense, category, exchangeRates), 0);
+
+  // Presupuesto con arrastre: disponible = límite + arrastrado - gastado
+  const hasRollover = !!category.rollover && category.rollover !== 'none';
+  const budgetHistory = hasRollover
+    ? getBudgetHistory(category, expenses, exchangeRates, parseInt(selectedYear), parseInt(selectedMonth))
+    : [];
+  const carriedOver = hasRollover ? budgetHistory[budgetHistory.length - 1].carriedOver : 0;
+  const monthlyLimit = getMonthlyLimit(category, parseInt(selectedYear), parseInt(selectedMonth));
+  const limit = monthlyLimit + carriedOver;
+  const hasBudget = monthlyLimit > 0 || carriedOver !== 0;
+  const isOverLimit = totalSpent > limit && hasBudget;
+  const percentage = limit > 0 ? (totalSpent / limit) * 100 : isOverLimit ? 100 : 0;
+  const isNearLimit = percentage >= 80 && !isOverLimit && hasBudget;
   const remaining = limit - totalSpent;
 
   return (
@@ -312,11 +336,21 @@ export default function CategoryDetailPage() {
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600 dark:text-gray-400">Límite Mensual:</span>
                     <span className="text-lg font-semibold text-blue-600 dark:text-blue-400">
-                      {limit.toLocaleString()} {category.currency}
+                      {monthlyLimit.toLocaleString()} {category.currency}
                     </span>
                   </div>
+                  {hasRollover && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-gray-600 dark:text-gray-400">Arrastrado del mes anterior:</span>
+                      <span className={`text-lg font-semibold ${carriedOver < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                        {carriedOver > 0 ? '+' : ''}{carriedOver.toLocaleString()} {category.currency}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between items-center">
-                    <span className="text-sm text-gray-600 dark:text-gray-400">Restante:</span>
+                    <span className="text-sm text-gray-600 dark:text-gray-400">
+                      {hasRollover ? 'Disponible este mes:' : 'Restante:'}
+                    </span>
                     <span className={`text-lg font-semibold ${isOverLimit ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
                       {remaining.toLocaleString()} {category.currency}
                     </span>
@@ -326,7 +360,7 @@ export default function CategoryDetailPage() {
             </div>
 
             {/* Barra de progreso */}
-            {limit > 0 && (
+            {hasBudget && (
               <div className="mt-6 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-6">
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
@@ -377,6 +411,46 @@ export default function CategoryDetailPage() {
                 </div>
               </div>
             )}
+
+            {/* Historial del arrastre (últimos 6 meses) */}
+            {hasRollover && (
+              <div className="mt-6 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-6">
+                <span className="text-lg font-semibold text-gray-800 dark:text-gray-200">
+                  Historial del Presupuesto
+                </span>
+                <div className="mt-4 overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                        <th className="py-2 pr-4 font-medium">Mes</th>
+                        <th className="py-2 pr-4 font-medium text-right">Límite</th>
+                        <th className="py-2 pr-4 font-medium text-right">Arrastrado</th>
+                        <th className="py-2 pr-4 font-medium text-right">Gastado</th>
+                        <th className="py-2 font-medium text-right">Disponible</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {budgetHistory.slice(-6).reverse().map((entry) => (
+                        <tr
+                          key={`${entry.year}-${entry.month}`}
+                          className="border-b border-gray-100 dark:border-gray-700/50 last:border-0"
+                        >
+                          <td className="py-2 pr-4">{monthNames[entry.month]} {entry.year}</td>
+                          <td className="py-2 pr-4 text-right">{entry.limit.toLocaleString()}</td>
+                          <td className={`py-2 pr-4 text-right ${entry.carriedOver < 0 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                            {entry.carriedOver.toLocaleString()}
+                          </td>
+                          <td className="py-2 pr-4 text-right">{entry.spent.toLocaleString()}</td>
+                          <td className={`py-2 text-right font-semibold ${entry.available < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                            {entry.available.toLocaleString()} {category.currency}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Lista de gastos */}
@@ -414,6 +488,7 @@ export default function CategoryDetailPage() {
                     key={expense.uid}
                     expense={expense}
                     category={category}
+                    categories={categories}
                     onEdit={handleEdit}
                     onDelete={handleDelete}
                   />
@@ -427,7 +502,8 @@ export default function CategoryDetailPage() {
             onClose={handleCloseForm}
             onSubmit={selectedExpense ? handleUpdate : handleCreate}
             expense={selectedExpense}
-            categories={[category]}
+            categories={categories.length > 0 ? categories : [category]}
+            defaultCategoryId={categoryId}
           />
 
           <ConfirmDialog
@@ -1,18 +1,15 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { Category, UpdateCategoryData } from '@/lib/types/category';
-import { Expense } from '@/lib/types/expense';
 import {
   createCategoryDocument,
-  getUserCategories,
   updateCategoryDocument,
   deleteCategoryDocument,
 } from '@/lib/firebase/firestore/categories';
 import { createCategoryDocumentDebug } from '@/lib/firebase/firestore/categories-debug';
-import { getUserExpenses } from '@/lib/firebase/firestore/expenses';
 import { doc } from 'firebase/firestore';
 import { db } from '@/lib/firebase/client';
 import { Button } from '@/components/ui/button';
@@ -26,13 +23,15 @@ import { toast } from 'sonner';
 import { format, startOfMonth, endOfMonth } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { createRateLimiter, updateRateLimiter, deleteRateLimiter } from '@/lib/utils/rateLimiter';
+import { useCategories, useExchangeRates, useExpenses } from '@/hooks/useUserCollection';
+import { getBudgetAmount, getBudgetForMonth } from '@/lib/utils/budgetRollover';
 
 export default function CategoriesPage() {
   const { user } = useAuth();
   const { t, language } = useLanguage();
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: categories, loading, error: categoriesError } = useCategories();
+  const { data: expenses } = useExpenses();
+  const { data: exchangeRates } = useExchangeRates();
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
@@ -51,36 +50,12 @@ export default function CategoriesPage() {
 
   const years = Array.from({ length: 5 }, (_, i) => currentDate.getFullYear() - i);
 
-  const loadCategories = useCallback(async () => {
-    if (!user) return;
-    try {
-      setLoading(true);
-      const userCategories = await getUserCategories(user.uid);
-      setCategories(userCategories);
-    } catch (error) {
-      console.error('Error loading categories:', error);
-      toast.error(t.categories.loadError);
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
-
-  const loadExpenses = useCallback(async () => {
-    if (!user) return;
-    try {
-      const userExpenses = await getUserExpenses(user.uid);
-      setExpenses(userExpenses);
-    } catch (error) {
-      console.error('Error loading expenses:', error);
-    }
-  }, [user]);
-
+  // Las categorías y gastos se mantienen sincronizados con Firestore en tiempo real
   useEffect(() => {
-    if (user) {
-      loadCategories();
-      loadExpenses();
+    if (categoriesError) {
+      toast.error(t.categories.loadError);
     }
-  }, [user, loadCategories, loadExpenses]);
+  }, [categoriesError, t]);
 
   const handleCreate = async (data: UpdateCategoryData) => {
     if (!user) return;
@@ -108,10 +83,11 @@ export default function CategoriesPage() {
           type: data.type!,
           userId: user.uid,
           activeMonths: data.activeMonths,
+          rollover: data.rollover,
+          budgetOverrides: data.budgetOverrides,
         },
         categoryUid
       );
-      await loadCategories();
       setIsFormOpen(false);
       toast.success(t.categories.createSuccess);
     } catch (error) {
@@ -137,7 +113,6 @@ export default function CategoriesPage() {
 
     try {
       await updateCategoryDocument(selectedCategory.uid, data);
-      await loadCategories();
       setSelectedCategory(null);
       setIsFormOpen(false);
       toast.success(t.categories.updateSuccess);
@@ -171,7 +146,6 @@ export default function CategoriesPage() {
 
     try {
       await deleteCategoryDocument(categoryToDelete);
-      await loadCategories();
       toast.success(t.categories.deleteSuccess);
     } catch (error) {
       console.error('Error deleting category:', error);
@@ -201,18 +175,15 @@ export default function CategoriesPage() {
     return expenseDate >= monthStart && expenseDate <= monthEnd;
   });
 
-  // Calcular gastos por categoría (basado en gastos filtrados del mes)
-  const expensesByCategory = filteredExpenses.reduce((acc, expense) => {
-    const categoryId = typeof expense.categoryId === 'string'
-      ? expense.categoryId
-      : expense.categoryId.id;
+  // Gasto del mes en la moneda de la categoría (los divididos se reparten por línea), igual que checkBudgetAlerts
+  const getSpent = (category: Category) =>
+    filteredExpenses.reduce((sum, expense) => sum + getBudgetAmount(expense, category, exchangeRates), 0);
 
-    if (!acc[categoryId]) {
-      acc[categoryId] = 0;
-    }
-    acc[categoryId] += expense.amount;
-    return acc;
-  }, {} as Record<string, number>);
+  // Arrastre de meses anteriores para las categorías con rollover
+  const getCarriedOver = (category: Category) => {
+    if (!category.rollover || category.rollover === 'none') return 0;
+    return getBudgetForMonth(category, expenses, exchangeRates, selectedYear, selectedMonth).carriedOver;
+  };
 
   return (
     <ProtectedRoute>
@@ -319,7 +290,8 @@ export default function CategoriesPage() {
                   <CategoryCard
                     key={category.uid}
                     category={category}
-                    spent={expensesByCategory[category.uid] || 0}
+                    spent={getSpent(category)}
+                    carriedOver={getCarriedOver(category)}
                     onEdit={handleEdit}
                     onDelete={handleDelete}
                     selectedMonth={selectedMonth}
@@ -1,18 +1,23 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { Expense } from '@/lib/types/expense';
 import { Category } from '@/lib/types/category';
 import {
   createExpenseDocument,
   getUserExpenses,
+  getUserExpensesPage,
+  getExpenseSummaryByMonth,
   updateExpenseDocument,
   deleteExpenseDocument,
-  getTotalExpensesByCurrency,
+  createExpenseDocumentsBatch,
+  ExpenseSummary,
 } from '@/lib/firebase/firestore/expenses';
-import { getUserCategories } from '@/lib/firebase/firestore/categories';
-import { doc, Timestamp } from 'firebase/firestore';
+import { getUserIncomes, createIncomeDocumentsBatch } from '@/lib/firebase/firestore/income';
+import { applyGoalFundingRulesToIncomes } from '@/lib/firebase/firestore/goalFundingRules';
+import { doc, DocumentReference, QueryDocumentSnapshot, Timestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase/client';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
@@ -20,29 +25,67 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import ExpenseCard from '@/components/expenses/ExpenseCard';
 import ExpenseForm from '@/components/expenses/ExpenseForm';
+import ImportWizard, { ImportHistory, ImportSelection } from '@/components/import/ImportWizard';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
-import { Plus, TrendingDown, AlertTriangle, CheckCircle, Calendar } from 'lucide-react';
+import { Plus, TrendingDown, AlertTriangle, CheckCircle, Calendar, Upload, Tag } from 'lucide-react';
 import { toast } from 'sonner';
-import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { format, min, startOfDay, startOfMonth, endOfMonth, subMonths } from 'date-fns';
 import { es, enUS } from 'date-fns/locale';
 import { createRateLimiter, updateRateLimiter, deleteRateLimiter } from '@/lib/utils/rateLimiter';
+import { getIncomeSource } from '@/lib/utils/importReview';
+import { SUPPORTED_CURRENCIES } from '@/lib/utils/currencyConversion';
+import { sanitizeString } from '@/lib/utils/sanitize';
+import { toExpenseSplits } from '@/lib/utils/expenseSplits';
+import { getMonthlyLimit } from '@/lib/utils/budgetRollover';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { useCategories, useUserTags } from '@/hooks/useUserCollection';
+import { getUserTagList } from '@/lib/utils/tags';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { trackWrite } from '@/lib/firebase/firestore/pendingWrites';
+import { queueExpenseForBackgroundSync } from '@/lib/pwa/serviceWorker';
+
+const isNewExpenseShortcut = () =>
+  typeof window !== 'undefined' && new URLSearchParams(window.location.search).get('action') === 'new';
+
+// Cantidad de gastos por página del listado
+const PAGE_SIZE = 30;
+
+// Meses de historial mínimos que se cargan al importar, para sugerir categorías
+const IMPORT_HISTORY_MONTHS = 12;
+
+const EMPTY_SUMMARY: ExpenseSummary = { totalsByCurrency: {}, totalsByCategory: {}, count: 0 };
+
+// Valor del Select para "todas las etiquetas" (Radix no admite value="")
+const ALL_TAGS = 'all';
 
 export default function ExpensesPage() {
   const { t, language } = useLanguage();
   const { user } = useAuth();
+  const router = useRouter();
   const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [summary, setSummary] = useState<ExpenseSummary>(EMPTY_SUMMARY);
+  const { data: categories, loading: categoriesLoading, error: categoriesError } = useCategories();
+  const { pendingIds } = useSyncStatus();
   const [loading, setLoading] = useState(true);
-  const [isFormOpen, setIsFormOpen] = useState(false);
+  // El acceso directo "Nuevo gasto" de la PWA abre /expenses?action=new
+  const [isFormOpen, setIsFormOpen] = useState(isNewExpenseShortcut);
   const [selectedExpense, setSelectedExpense] = useState<Expense | null>(null);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
   const [expenseToDelete, setExpenseToDelete] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   // Estado para el filtro de mes
   const currentDate = new Date();
   const [selectedMonth, setSelectedMonth] = useState(currentDate.getMonth());
   const [selectedYear, setSelectedYear] = useState(currentDate.getFullYear());
+  // Filtro por etiqueta: se aplica al listado, no a los totales del mes
+  const [selectedTag, setSelectedTag] = useState(ALL_TAGS);
+  const { data: userTags } = useUserTags();
+  const tagOptions = getUserTagList(userTags[0]).sort((a, b) => a.localeCompare(b));
+  const tagFilter = selectedTag === ALL_TAGS ? undefined : selectedTag;
 
   // Generar lista de meses y años disponibles
   const dateLocale = language === 'en' ? enUS : es;
@@ -53,35 +96,79 @@ export default function ExpensesPage() {
 
   const years = Array.from({ length: 5 }, (_, i) => currentDate.getFullYear() - i);
 
+  // Rango del mes seleccionado
+  const monthStart = startOfMonth(new Date(selectedYear, selectedMonth));
+  const monthEnd = endOfMonth(new Date(selectedYear, selectedMonth));
+
+  // Carga la primera página del mes y los totales (calculados en el servidor)
   const loadExpenses = useCallback(async () => {
     if (!user) return;
+    const startDate = startOfMonth(new Date(selectedYear, selectedMonth));
+    const endDate = endOfMonth(new Date(selectedYear, selectedMonth));
     try {
       setLoading(true);
-      const userExpenses = await getUserExpenses(user.uid);
-      setExpenses(userExpenses);
+      const [page, monthSummary] = await Promise.all([
+        getUserExpensesPage(user.uid, { pageSize: PAGE_SIZE, startDate, endDate, tag: tagFilter }),
+        getExpenseSummaryByMonth(
+          user.uid,
+          selectedYear,
+          selectedMonth,
+          SUPPORTED_CURRENCIES,
+          categories.map(category => category.uid)
+        ),
+      ]);
+      setExpenses(page.expenses);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+      setSummary(monthSummary);
     } catch (error) {
       toast.error(t.expenses.loadError);
     } finally {
       setLoading(false);
     }
-  }, [user, t]);
+  }, [user, t, selectedMonth, selectedYear, categories, tagFilter]);
 
-  const loadCategories = useCallback(async () => {
-    if (!user) return;
+  const loadMoreExpenses = async () => {
+    if (!user || !cursor) return;
     try {
-      const userCategories = await getUserCategories(user.uid);
-      setCategories(userCategories);
+      setLoadingMore(true);
+      const page = await getUserExpensesPage(user.uid, {
+        pageSize: PAGE_SIZE,
+        cursor,
+        startDate: monthStart,
+        endDate: monthEnd,
+        tag: tagFilter,
+      });
+      setExpenses(prev => [...prev, ...page.expenses]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
     } catch (error) {
+      toast.error(t.expenses.loadError);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Quitar ?action=new de la URL para que recargar no vuelva a abrir el formulario
+  useEffect(() => {
+    if (isNewExpenseShortcut()) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, []);
+
+  // Las categorías se sincronizan en tiempo real; los gastos se paginan bajo demanda
+  useEffect(() => {
+    if (categoriesError) {
       toast.error(t.expenses.loadCategoriesError);
     }
-  }, [user, t]);
+  }, [categoriesError, t]);
 
+  // Los totales por categoría necesitan las categorías ya cargadas
   useEffect(() => {
-    if (user) {
+    if (user && !categoriesLoading) {
       loadExpenses();
-      loadCategories();
     }
-  }, [user, loadExpenses, loadCategories]);
+  }, [user, categoriesLoading, loadExpenses]);
 
   const handleCreate = async (data: any) => {
     if (!user) return;
@@ -106,14 +193,25 @@ export default function ExpensesPage() {
         currency: data.currency,
         date: data.date,
         note: data.note,
+        splits: toExpenseSplits(data.splits),
+        accountId: data.accountId || null,
+        tags: data.tags || [],
         userId: user.uid,
       };
 
-      await createExpenseDocument(expenseData, expenseUid);
+      // Sin conexión la escritura queda encolada y no se espera la confirmación del servidor
+      const write = createExpenseDocument(expenseData, expenseUid);
+      const result = await trackWrite('expenses', expenseUid, write);
 
-      await loadExpenses();
       setIsFormOpen(false);
-      toast.success(t.expenses.createSuccess);
+      if (result === 'queued') {
+        // Respaldo: el service worker lo reenvía aunque la app se cierre antes de reconectar
+        queueExpenseForBackgroundSync(expenseUid, expenseData, write);
+        toast.info(t.sync.savedOffline);
+      } else {
+        toast.success(t.expenses.createSuccess);
+      }
+      await loadExpenses();
     } catch (error: any) {
       toast.error(t.expenses.createError);
       throw error;
@@ -136,23 +234,115 @@ export default function ExpensesPage() {
     try {
       const categoryRef = doc(db, 'categories', data.categoryId);
 
-      await updateExpenseDocument(selectedExpense.uid, {
+      const result = await trackWrite('expenses', selectedExpense.uid, updateExpenseDocument(selectedExpense.uid, {
         amount: data.amount,
         categoryId: categoryRef as any,
         currency: data.currency,
         date: data.date,
         note: data.note,
-      });
-      await loadExpenses();
+        splits: toExpenseSplits(data.splits),
+        accountId: data.accountId || null,
+        tags: data.tags || [],
+        // Solo se envía si el formulario quitó la conciliación; si no, el gasto la conserva
+        ...('reconciledAt' in data ? { reconciledAt: data.reconciledAt } : {}),
+      }));
       setSelectedExpense(null);
       setIsFormOpen(false);
-      toast.success(t.expenses.updateSuccess);
+      if (result === 'queued') {
+        toast.info(t.sync.savedOffline);
+      } else {
+        toast.success(t.expenses.updateSuccess);
+      }
+      await loadExpenses();
     } catch (error) {
       toast.error(t.expenses.updateError);
       throw error;
     }
   };
 
+  // Historial para detectar duplicados desde la transacción más antigua del archivo (un extracto
+  // OFX viejo se compara por FITID con sus propios meses) y, como mínimo, los últimos
+  // IMPORT_HISTORY_MONTHS meses para sugerir categorías
+  const loadImportHistory = async (earliestDate: Date): Promise<ImportHistory> => {
+    if (!user) return { expenses: [], incomes: [] };
+    const since = min([startOfDay(earliestDate), subMonths(startOfMonth(new Date()), IMPORT_HISTORY_MONTHS)]);
+    const [expenses, incomes] = await Promise.all([
+      getUserExpenses(user.uid, since),
+      getUserIncomes(user.uid, since),
+    ]);
+    return { expenses, incomes };
+  };
+
+  const handleImport = async (selections: ImportSelection[]) => {
+    if (!user) return;
+
+    // Una importación cuenta como una sola creación para el rate limit
+    const rateLimitCheck = createRateLimiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.expenses.rateLimitCreate.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      return;
+    }
+
+    try {
+      const batchId = `${user.uid}_${Date.now()}`;
+
+      const expenseEntries = selections
+        .filter(({ transaction }) => transaction.type === 'expense')
+        .map(({ transaction, categoryId }, index) => ({
+          uid: `${batchId}_e${index}`,
+          data: {
+            amount: transaction.amount,
+            categoryId: doc(db, 'categories', categoryId!) as DocumentReference<Category>,
+            currency: transaction.currency,
+            date: Timestamp.fromDate(transaction.date),
+            note: sanitizeString(transaction.description).slice(0, 500),
+            fitId: transaction.fitId,
+            userId: user.uid,
+          },
+        }));
+
+      const incomeEntries = selections
+        .filter(({ transaction }) => transaction.type === 'income')
+        .map(({ transaction }, index) => ({
+          uid: `${batchId}_i${index}`,
+          data: {
+            amount: transaction.amount,
+            currency: transaction.currency,
+            source: getIncomeSource(sanitizeString(transaction.description), t.import.defaultIncomeSource),
+            receivedAt: Timestamp.fromDate(transaction.date),
+            fitId: transaction.fitId,
+            userId: user.uid,
+          },
+        }));
+
+      const [expenseCount, incomeCount] = await Promise.all([
+        createExpenseDocumentsBatch(expenseEntries),
+        createIncomeDocumentsBatch(incomeEntries),
+      ]);
+
+      // Los ingresos importados también pasan por las reglas de financiamiento de metas
+      try {
+        await applyGoalFundingRulesToIncomes(incomeEntries.map(({ uid, data }) => ({ ...data, uid })));
+      } catch {
+        toast.error(t.goalFunding.applyError);
+      }
+
+      await loadExpenses();
+      setIsImportOpen(false);
+      toast.success(
+        t.import.importSuccess
+          .replace('{expenses}', expenseCount.toString())
+          .replace('{incomes}', incomeCount.toString())
+      );
+    } catch (error) {
+      toast.error(t.import.importError);
+      throw error;
+    }
+  };
+
   const handleDelete = (uid: string) => {
     setExpenseToDelete(uid);
     setConfirmDialogOpen(true);
@@ -174,9 +364,13 @@ export default function ExpensesPage() {
     }
 
     try {
-      await deleteExpenseDocument(expenseToDelete);
+      const result = await trackWrite('expenses', expenseToDelete, deleteExpenseDocument(expenseToDelete));
+      if (result === 'queued') {
+        toast.info(t.sync.savedOffline);
+      } else {
+        toast.success(t.expenses.deleteSuccess);
+      }
       await loadExpenses();
-      toast.success(t.expenses.deleteSuccess);
     } catch (error) {
       toast.error(t.expenses.deleteError);
     } finally {
@@ -195,30 +389,9 @@ export default function ExpensesPage() {
     setSelectedExpense(null);
   };
 
-  // Filtrar gastos por mes seleccionado
-  const monthStart = startOfMonth(new Date(selectedYear, selectedMonth));
-  const monthEnd = endOfMonth(new Date(selectedYear, selectedMonth));
-
-  const filteredExpenses = expenses.filter(expense => {
-    const expenseDate = expense.date.toDate ? expense.date.toDate() : new Date(expense.date as any);
-    return expenseDate >= monthStart && expenseDate <= monthEnd;
-  });
-
-  // Calcular totales por moneda (basado en gastos filtrados)
-  const totalsByCurrency = getTotalExpensesByCurrency(filteredExpenses);
-
-  // Calcular gastos por categoría (basado en gastos filtrados)
-  const expensesByCategory = filteredExpenses.reduce((acc, expense) => {
-    const categoryId = typeof expense.categoryId === 'string'
-      ? expense.categoryId
-      : expense.categoryId.id;
-
-    if (!acc[categoryId]) {
-      acc[categoryId] = 0;
-    }
-    acc[categoryId] += expense.amount;
-    return acc;
-  }, {} as Record<string, number>);
+  // Totales del mes (incluyen los gastos de páginas aún no cargadas)
+  const totalsByCurrency = summary.totalsByCurrency;
+  const expensesByCategory = summary.totalsByCategory;
 
   // Función para obtener la categoría de un gasto
   const getCategoryForExpense = (expense: Expense): Category | undefined => {
@@ -231,7 +404,7 @@ export default function ExpensesPage() {
   // Calcular estadísticas de categorías con límites
   const categoryStats = categories.map(category => {
     const spent = expensesByCategory[category.uid] || 0;
-    const limit = category.monthly_limit;
+    const limit = getMonthlyLimit(category, selectedYear, selectedMonth);
     const percentage = limit > 0 ? (spent / limit) * 100 : 0;
     const isOverLimit = spent > limit;
     const isNearLimit = percentage >= 80 && !isOverLimit;
@@ -260,16 +433,26 @@ export default function ExpensesPage() {
                   {t.expenses.subtitle}
                 </p>
               </div>
-              <Button
-                onClick={() => {
-                  setSelectedExpense(null);
-                  setIsFormOpen(true);
-                }}
-                className="bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-700 hover:to-rose-700 text-white font-semibold shadow-lg shadow-red-500/50 dark:shadow-red-900/50 w-full sm:w-auto"
-              >
-                <Plus className="w-5 h-5 mr-2" />
-                {t.expenses.newExpense}
-              </Button>
+              <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                <Button
+                  variant="outline"
+                  onClick={() => setIsImportOpen(true)}
+                  className="w-full sm:w-auto"
+                >
+                  <Upload className="w-5 h-5 mr-2" />
+                  {t.import.openButton}
+                </Button>
+                <Button
+                  onClick={() => {
+                    setSelectedExpense(null);
+                    setIsFormOpen(true);
+                  }}
+                  className="bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-700 hover:to-rose-700 text-white font-semibold shadow-lg shadow-red-500/50 dark:shadow-red-900/50 w-full sm:w-auto"
+                >
+                  <Plus className="w-5 h-5 mr-2" />
+                  {t.expenses.newExpense}
+                </Button>
+              </div>
             </div>
 
             {/* Filtro de mes y año */}
@@ -310,12 +493,34 @@ export default function ExpensesPage() {
                       ))}
                     </SelectContent>
                   </Select>
+                  {tagOptions.length > 0 && (
+                    <Select value={selectedTag} onValueChange={setSelectedTag}>
+                      <SelectTrigger className="w-full sm:w-[180px]">
+                        <Tag className="w-4 h-4 text-gray-500" />
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_TAGS}>{t.tags.allTags}</SelectItem>
+                        {tagOptions.map((tag) => (
+                          <SelectItem key={tag} value={tag}>
+                            {tag}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </div>
+                {tagOptions.length > 0 && (
+                  <Button variant="outline" size="sm" onClick={() => router.push('/tags')}>
+                    <Tag className="w-4 h-4 mr-2" />
+                    {t.tags.openReport}
+                  </Button>
+                )}
               </div>
             </div>
 
             {/* Cards de resumen */}
-            {filteredExpenses.length > 0 && (
+            {summary.count > 0 && (
               <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
                 {/* Total de gastos */}
                 <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-6">
@@ -342,7 +547,7 @@ export default function ExpensesPage() {
                     <div>
                       <p className="text-sm text-gray-600 dark:text-gray-400">{t.expenses.totalRecords}</p>
                       <p className="text-3xl font-bold text-gray-800 dark:text-gray-200">
-                        {filteredExpenses.length}
+                        {summary.count}
                       </p>
                     </div>
                     <div>
@@ -420,7 +625,7 @@ export default function ExpensesPage() {
             )}
           </div>
 
-          {filteredExpenses.length === 0 ? (
+          {expenses.length === 0 ? (
             <div className="text-center py-20">
               <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-12 max-w-md mx-auto">
                 <div className="w-20 h-20 bg-gradient-to-r from-red-100 to-rose-100 dark:from-red-900/30 dark:to-rose-900/30 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -446,19 +651,32 @@ export default function ExpensesPage() {
           ) : (
             <div>
               <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">
-                {t.expenses.expensesOf} {months[selectedMonth].label.charAt(0).toUpperCase() + months[selectedMonth].label.slice(1)} {selectedYear} ({filteredExpenses.length})
+                {t.expenses.expensesOf} {months[selectedMonth].label.charAt(0).toUpperCase() + months[selectedMonth].label.slice(1)} {selectedYear} ({summary.count})
               </h2>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredExpenses.map((expense) => (
+                {expenses.map((expense) => (
                   <ExpenseCard
                     key={expense.uid}
                     expense={expense}
                     category={getCategoryForExpense(expense)}
+                    categories={categories}
+                    pending={pendingIds.has(expense.uid)}
                     onEdit={handleEdit}
                     onDelete={handleDelete}
                   />
                 ))}
               </div>
+              {hasMore && (
+                <div className="flex justify-center mt-8">
+                  <Button
+                    variant="outline"
+                    onClick={loadMoreExpenses}
+                    disabled={loadingMore}
+                  >
+                    {loadingMore ? t.expenses.loadingMore : t.expenses.loadMore}
+                  </Button>
+                </div>
+              )}
             </div>
           )}
 
@@ -470,6 +688,14 @@ export default function ExpensesPage() {
             categories={categories}
           />
 
+          <ImportWizard
+            open={isImportOpen}
+            onClose={() => setIsImportOpen(false)}
+            onImport={handleImport}
+            categories={categories}
+            loadHistory={loadImportHistory}
+          />
+
           <ConfirmDialog
             open={confirmDialogOpen}
             onOpenChange={setConfirmDialogOpen}
@@ -1,15 +1,15 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
-import Goal from '@/lib/types/goal';
+import Goal, { GoalContribution } from '@/lib/types/goal';
 import {
   createGoalDocument,
-  getUserGoals,
   updateGoalDocument,
   deleteGoalDocument,
   addContributionToGoal,
+  undoGoalContribution,
   isGoalComplete,
 } from '@/lib/firebase/firestore/goals';
 import { doc } from 'firebase/firestore';
@@ -18,43 +18,52 @@ import { Button } from '@/components/ui/button';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import GoalCard from '@/components/goals/GoalCard';
 import GoalForm from '@/components/goals/GoalForm';
-import ContributionDialog from '@/components/goals/ContributionDialog';
+import ContributionDialog, { ContributionFormData } from '@/components/goals/ContributionDialog';
+import FundingRulesDialog, { FundingRuleFormData } from '@/components/goals/FundingRulesDialog';
+import { GoalFundingRule } from '@/lib/types/goalFundingRule';
+import {
+  createGoalFundingRuleDocument,
+  deleteGoalFundingRuleDocument,
+  updateGoalFundingRuleDocument,
+} from '@/lib/firebase/firestore/goalFundingRules';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
-import { Plus, Target, TrendingUp, CheckCircle2, Clock } from 'lucide-react';
+import { Plus, Target, TrendingUp, CheckCircle2, Clock, Workflow } from 'lucide-react';
 import { toast } from 'sonner';
 import { createRateLimiter, updateRateLimiter, deleteRateLimiter } from '@/lib/utils/rateLimiter';
+import {
+  useAllGoalContributions,
+  useExchangeRates,
+  useExpenses,
+  useGoalFundingRules,
+  useGoals,
+  useIncomes,
+} from '@/hooks/useUserCollection';
+import { getAverageMonthlySavings, getGoalForecast } from '@/lib/utils/goalForecast';
 
 export default function GoalsPage() {
   const { user } = useAuth();
   const { t } = useLanguage();
-  const [goals, setGoals] = useState<Goal[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: goals, error: goalsError } = useGoals();
+  const { data: contributions } = useAllGoalContributions();
+  const { data: incomes } = useIncomes();
+  const { data: expenses } = useExpenses();
+  const { data: exchangeRates } = useExchangeRates();
+  const { data: fundingRules } = useGoalFundingRules();
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedGoal, setSelectedGoal] = useState<Goal | null>(null);
   const [isContributionOpen, setIsContributionOpen] = useState(false);
   const [goalForContribution, setGoalForContribution] = useState<Goal | null>(null);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
   const [goalToDelete, setGoalToDelete] = useState<string | null>(null);
+  const [isFundingRulesOpen, setIsFundingRulesOpen] = useState(false);
+  const [contributionToUndo, setContributionToUndo] = useState<{ goal: Goal; contribution: GoalContribution } | null>(null);
 
-  const loadGoals = useCallback(async () => {
-    if (!user) return;
-    try {
-      setLoading(true);
-      const userGoals = await getUserGoals(user.uid);
-      setGoals(userGoals);
-    } catch (error) {
-      console.error('Error loading goals:', error);
-      toast.error(t.goals.loadError);
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
-
+  // Las metas se mantienen sincronizadas con Firestore en tiempo real
   useEffect(() => {
-    if (user) {
-      loadGoals();
+    if (goalsError) {
+      toast.error(t.goals.loadError);
     }
-  }, [user, loadGoals]);
+  }, [goalsError, t]);
 
   const handleCreate = async (data: any) => {
     if (!user) return;
@@ -82,7 +91,6 @@ export default function GoalsPage() {
         },
         goalUid
       );
-      await loadGoals();
       setIsFormOpen(false);
       toast.success(t.goals.createSuccess);
     } catch (error) {
@@ -112,7 +120,6 @@ export default function GoalsPage() {
         currency: data.currency,
         dueDate: data.dueDate,
       });
-      await loadGoals();
       setSelectedGoal(null);
       setIsFormOpen(false);
       toast.success(t.goals.updateSuccess);
@@ -145,7 +152,6 @@ export default function GoalsPage() {
 
     try {
       await deleteGoalDocument(goalToDelete);
-      await loadGoals();
       toast.success(t.goals.deleteSuccess);
     } catch (error) {
       console.error('Error deleting goal:', error);
@@ -171,11 +177,10 @@ export default function GoalsPage() {
     setIsContributionOpen(true);
   };
 
-  const handleContributionSubmit = async (amount: number) => {
-    if (!goalForContribution) return;
+  const handleContributionSubmit = async (data: ContributionFormData) => {
+    if (!goalForContribution || !user) return;
     try {
-      await addContributionToGoal(goalForContribution.uid, amount);
-      await loadGoals();
+      await addContributionToGoal(goalForContribution.uid, { ...data, userId: user.uid });
       toast.success(t.goals.contributionSuccess);
     } catch (error) {
       console.error('Error adding contribution:', error);
@@ -184,6 +189,104 @@ export default function GoalsPage() {
     }
   };
 
+  const confirmUndoContribution = async () => {
+    if (!contributionToUndo || !user) return;
+
+    // Verificar rate limit para eliminación
+    const rateLimitCheck = deleteRateLimiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.goals.rateLimitDelete.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      setContributionToUndo(null);
+      return;
+    }
+
+    try {
+      await undoGoalContribution(contributionToUndo.goal.uid, contributionToUndo.contribution.uid);
+      toast.success(t.goals.undoSuccess);
+    } catch (error) {
+      console.error('Error undoing contribution:', error);
+      toast.error(t.goals.undoError);
+    } finally {
+      setContributionToUndo(null);
+    }
+  };
+
+  const handleCreateFundingRule = async (data: FundingRuleFormData) => {
+    if (!user) return;
+
+    // Verificar rate limit para creación
+    const rateLimitCheck = createRateLimiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.goals.rateLimitCreate.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      return;
+    }
+
+    const goal = goals.find(item => item.uid === data.goalId);
+    if (!goal) return;
+
+    try {
+      await createGoalFundingRuleDocument(
+        {
+          goalId: goal.uid,
+          sourcePattern: data.sourcePattern,
+          currency: goal.currency,
+          percentage: data.percentage,
+          active: true,
+          userId: user.uid,
+        },
+        `${user.uid}_${Date.now()}`
+      );
+      toast.success(t.goalFunding.createSuccess);
+    } catch (error) {
+      console.error('Error creating funding rule:', error);
+      toast.error(t.goalFunding.saveError);
+      throw error;
+    }
+  };
+
+  const handleToggleFundingRule = async (rule: GoalFundingRule, active: boolean) => {
+    try {
+      await updateGoalFundingRuleDocument(rule.uid, { active });
+    } catch (error) {
+      console.error('Error toggling funding rule:', error);
+      toast.error(t.goalFunding.saveError);
+    }
+  };
+
+  const handleDeleteFundingRule = async (rule: GoalFundingRule) => {
+    if (!user) return;
+
+    // Verificar rate limit para eliminación
+    const rateLimitCheck = deleteRateLimiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.goals.rateLimitDelete.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      return;
+    }
+
+    try {
+      await deleteGoalFundingRuleDocument(rule.uid);
+      toast.success(t.goalFunding.deleteSuccess);
+    } catch (error) {
+      console.error('Error deleting funding rule:', error);
+      toast.error(t.goalFunding.deleteError);
+    }
+  };
+
+  // Proyección de cada meta: abonos de la meta o, si no tiene, el ahorro mensual promedio
+  const getForecast = (goal: Goal) => getGoalForecast(goal, {
+    contributions: contributions.filter(contribution => contribution.goalId === goal.uid),
+    monthlySavings: getAverageMonthlySavings(incomes, expenses, goal.currency, exchangeRates),
+  });
+
   // Separar objetivos en activos y completados
   const activeGoals = goals.filter(goal => !isGoalComplete(goal));
   const completedGoals = goals.filter(goal => isGoalComplete(goal));
@@ -212,16 +315,28 @@ export default function GoalsPage() {
                   {t.goals.subtitle}
                 </p>
               </div>
-              <Button
-                onClick={() => {
-                  setSelectedGoal(null);
-                  setIsFormOpen(true);
-                }}
-                className="bg-gradient-to-r from-amber-600 to-yellow-600 hover:from-amber-700 hover:to-yellow-700 text-white font-semibold shadow-lg shadow-amber-500/50 dark:shadow-amber-900/50 w-full sm:w-auto"
-              >
-                <Plus className="w-5 h-5 mr-2" />
-                {t.goals.newGoal}
-              </Button>
+              <div className="flex flex-col sm:flex-row gap-2">
+                {goals.length > 0 && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsFundingRulesOpen(true)}
+                    className="w-full sm:w-auto"
+                  >
+                    <Workflow className="w-5 h-5 mr-2" />
+                    {t.goalFunding.openRules}
+                  </Button>
+                )}
+                <Button
+                  onClick={() => {
+                    setSelectedGoal(null);
+                    setIsFormOpen(true);
+                  }}
+                  className="bg-gradient-to-r from-amber-600 to-yellow-600 hover:from-amber-700 hover:to-yellow-700 text-white font-semibold shadow-lg shadow-amber-500/50 dark:shadow-amber-900/50 w-full sm:w-auto"
+                >
+                  <Plus className="w-5 h-5 mr-2" />
+                  {t.goals.newGoal}
+                </Button>
+              </div>
             </div>
 
             {/* Cards de resumen */}
@@ -314,9 +429,11 @@ export default function GoalsPage() {
                       <GoalCard
                         key={goal.uid}
                         goal={goal}
+                        forecast={getForecast(goal)}
                         onEdit={handleEdit}
                         onDelete={handleDelete}
                         onAddContribution={handleAddContribution}
+                        onUndoContribution={(goal, contribution) => setContributionToUndo({ goal, contribution })}
                       />
                     ))}
                   </div>
@@ -335,9 +452,11 @@ export default function GoalsPage() {
                       <GoalCard
                         key={goal.uid}
                         goal={goal}
+                        forecast={getForecast(goal)}
                         onEdit={handleEdit}
                         onDelete={handleDelete}
                         onAddContribution={handleAddContribution}
+                        onUndoContribution={(goal, contribution) => setContributionToUndo({ goal, contribution })}
                       />
                     ))}
                   </div>
@@ -360,6 +479,17 @@ export default function GoalsPage() {
             goal={goalForContribution}
           />
 
+          <FundingRulesDialog
+            open={isFundingRulesOpen}
+            onClose={() => setIsFundingRulesOpen(false)}
+            goals={goals}
+            rules={fundingRules}
+            incomes={incomes}
+            onCreate={handleCreateFundingRule}
+            onToggle={handleToggleFundingRule}
+            onDelete={handleDeleteFundingRule}
+          />
+
           <ConfirmDialog
             open={confirmDialogOpen}
             onOpenChange={setConfirmDialogOpen}
@@ -370,6 +500,22 @@ export default function GoalsPage() {
             cancelText={t.common.cancel}
             variant="destructive"
           />
+
+          <ConfirmDialog
+            open={!!contributionToUndo}
+            onOpenChange={(open) => !open && setContributionToUndo(null)}
+            title={t.goals.undoConfirmTitle}
+            description={t.goals.undoConfirmDescription.replace(
+              '{amount}',
+              contributionToUndo
+                ? `${contributionToUndo.contribution.amount.toLocaleString()} ${contributionToUndo.goal.currency}`
+                : ''
+            )}
+            onConfirm={confirmUndoContribution}
+            confirmText={t.goals.undo}
+            cancelText={t.common.cancel}
+            variant="destructive"
+          />
         </div>
       </div>
     </ProtectedRoute>
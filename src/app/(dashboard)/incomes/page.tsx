@@ -1,14 +1,14 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Income, UpdateIncomeData } from '@/lib/types/income';
 import {
   createIncomeDocument,
-  getUserIncomes,
   updateIncomeDocument,
   deleteIncomeDocument,
 } from '@/lib/firebase/firestore/income';
+import { applyGoalFundingRules } from '@/lib/firebase/firestore/goalFundingRules';
 import { doc, Timestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase/client';
 import { Button } from '@/components/ui/button';
@@ -22,13 +22,16 @@ import { toast } from 'sonner';
 import { format, startOfMonth, endOfMonth } from 'date-fns';
 import { es, enUS } from 'date-fns/locale';
 import { createRateLimiter, updateRateLimiter, deleteRateLimiter } from '@/lib/utils/rateLimiter';
+import { useIncomes } from '@/hooks/useUserCollection';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { trackWrite } from '@/lib/firebase/firestore/pendingWrites';
 import { useLanguage } from '@/contexts/LanguageContext';
 
 export default function IncomesPage() {
   const { t, language } = useLanguage();
   const { user } = useAuth();
-  const [incomes, setIncomes] = useState<Income[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: incomes, loading, error: incomesError } = useIncomes();
+  const { pendingIds } = useSyncStatus();
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedIncome, setSelectedIncome] = useState<Income | null>(null);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
@@ -48,25 +51,12 @@ export default function IncomesPage() {
 
   const years = Array.from({ length: 5 }, (_, i) => currentDate.getFullYear() - i);
 
-  const loadIncomes = useCallback(async () => {
-    if (!user) return;
-    try {
-      setLoading(true);
-      const userIncomes = await getUserIncomes(user.uid);
-      setIncomes(userIncomes);
-    } catch (error) {
-      console.error('Error loading incomes:', error);
-      toast.error(t.incomes.loadError);
-    } finally {
-      setLoading(false);
-    }
-  }, [user, t]);
-
+  // Los ingresos se mantienen sincronizados con Firestore en tiempo real
   useEffect(() => {
-    if (user) {
-      loadIncomes();
+    if (incomesError) {
+      toast.error(t.incomes.loadError);
     }
-  }, [user, loadIncomes]);
+  }, [incomesError, t]);
 
   const handleCreate = async (data: UpdateIncomeData & { receivedAt: Timestamp }) => {
     if (!user) return;
@@ -83,20 +73,34 @@ export default function IncomesPage() {
 
     try {
       const incomeUid = `${user.uid}_${Date.now()}`;
+      const incomeData = {
+        source: data.source!,
+        amount: data.amount!,
+        currency: data.currency!,
+        receivedAt: data.receivedAt,
+        accountId: data.accountId || null,
+        tags: data.tags || [],
+        userId: user.uid,
+      };
 
-      await createIncomeDocument(
-        {
-          source: data.source!,
-          amount: data.amount!,
-          currency: data.currency!,
-          receivedAt: data.receivedAt,
-          userId: user.uid,
-        },
-        incomeUid
+      // Sin conexión la escritura queda encolada y no se espera la confirmación del servidor
+      const write = createIncomeDocument(incomeData, incomeUid);
+      const result = await trackWrite('income', incomeUid, write);
+
+      // Las reglas de financiamiento de metas se aplican cuando el ingreso llega al servidor
+      // (también si quedó encolado); un fallo no invalida el ingreso, pero se informa
+      write.then(
+        () => applyGoalFundingRules({ ...incomeData, uid: incomeUid })
+          .catch(() => toast.error(t.goalFunding.applyError)),
+        () => undefined
       );
-      await loadIncomes();
+
       setIsFormOpen(false);
-      toast.success(t.incomes.createSuccess);
+      if (result === 'queued') {
+        toast.info(t.sync.savedOffline);
+      } else {
+        toast.success(t.incomes.createSuccess);
+      }
     } catch (error) {
       console.error('Error creating income:', error);
       toast.error(t.incomes.createError);
@@ -118,11 +122,14 @@ export default function IncomesPage() {
     }
 
     try {
-      await updateIncomeDocument(selectedIncome.uid, data);
-      await loadIncomes();
+      const result = await trackWrite('income', selectedIncome.uid, updateIncomeDocument(selectedIncome.uid, data));
       setSelectedIncome(null);
       setIsFormOpen(false);
-      toast.success(t.incomes.updateSuccess);
+      if (result === 'queued') {
+        toast.info(t.sync.savedOffline);
+      } else {
+        toast.success(t.incomes.updateSuccess);
+      }
     } catch (error) {
       console.error('Error updating income:', error);
       toast.error(t.incomes.updateError);
@@ -151,9 +158,12 @@ export default function IncomesPage() {
     }
 
     try {
-      await deleteIncomeDocument(incomeToDelete);
-      await loadIncomes();
-      toast.success(t.incomes.deleteSuccess);
+      const result = await trackWrite('income', incomeToDelete, deleteIncomeDocument(incomeToDelete));
+      if (result === 'queued') {
+        toast.info(t.sync.savedOffline);
+      } else {
+        toast.success(t.incomes.deleteSuccess);
+      }
     } catch (error) {
       console.error('Error deleting income:', error);
       toast.error(t.incomes.deleteError);
@@ -321,6 +331,7 @@ export default function IncomesPage() {
                 <IncomeCard
                   key={income.uid}
                   income={income}
+                  pending={pendingIds.has(income.uid)}
                   onEdit={handleEdit}
                   onDelete={handleDelete}
                 />
@@ -1,71 +1,48 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { Installment } from '@/lib/types/installment';
-import { Category } from '@/lib/types/category';
 import {
   createInstallmentDocument,
-  getUserInstallments,
   updateInstallmentDocument,
   deleteInstallmentDocument,
-  updateCurrentInstallment,
+  payNextInstallment,
   getRemainingAmount,
 } from '@/lib/firebase/firestore/installments';
-import { getUserCategories } from '@/lib/firebase/firestore/categories';
 import { doc, Timestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase/client';
 import { Button } from '@/components/ui/button';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import InstallmentCard from '@/components/installments/InstallmentCard';
 import InstallmentForm from '@/components/installments/InstallmentForm';
+import AmortizationScheduleDialog from '@/components/installments/AmortizationScheduleDialog';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
-import { Plus, CreditCard } from 'lucide-react';
+import { Plus, CreditCard, Calculator } from 'lucide-react';
 import { toast } from 'sonner';
 import { createRateLimiter, updateRateLimiter, deleteRateLimiter } from '@/lib/utils/rateLimiter';
+import { useCategories, useInstallments } from '@/hooks/useUserCollection';
 
 export default function InstallmentsPage() {
   const { t } = useLanguage();
   const { user } = useAuth();
-  const [installments, setInstallments] = useState<Installment[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const { data: installments, loading, error: installmentsError } = useInstallments();
+  const { data: categories } = useCategories();
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedInstallment, setSelectedInstallment] = useState<Installment | null>(null);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
   const [installmentToDelete, setInstallmentToDelete] = useState<string | null>(null);
+  const [scheduleInstallment, setScheduleInstallment] = useState<Installment | null>(null);
 
-  const loadInstallments = useCallback(async () => {
-    if (!user) return;
-    try {
-      setLoading(true);
-      const userInstallments = await getUserInstallments(user.uid);
-      setInstallments(userInstallments);
-    } catch (error) {
-      console.error('Error loading installments:', error);
-      toast.error(t.installments.loadError);
-    } finally {
-      setLoading(false);
-    }
-  }, [user, t]);
-
-  const loadCategories = useCallback(async () => {
-    if (!user) return;
-    try {
-      const userCategories = await getUserCategories(user.uid);
-      setCategories(userCategories);
-    } catch (error) {
-      console.error('Error loading categories:', error);
-    }
-  }, [user]);
-
+  // Las deudas y categorías se mantienen sincronizadas con Firestore en tiempo real
   useEffect(() => {
-    if (user) {
-      loadInstallments();
-      loadCategories();
+    if (installmentsError) {
+      toast.error(t.installments.loadError);
     }
-  }, [user, loadInstallments, loadCategories]);
+  }, [installmentsError, t]);
 
   const handleCreate = async (data: any) => {
     if (!user) return;
@@ -96,10 +73,12 @@ export default function InstallmentsPage() {
           start_date: data.start_date,
           userId: user.uid,
           tax: data.tax || 0,
+          interest_type: data.interest_type,
+          annual_rate: data.annual_rate || 0,
+          account_id: data.account_id || null,
         },
         installmentUid
       );
-      await loadInstallments();
       setIsFormOpen(false);
       toast.success(t.installments.createSuccess);
     } catch (error) {
@@ -135,8 +114,10 @@ export default function InstallmentsPage() {
         currency: data.currency,
         start_date: data.start_date,
         tax: data.tax || 0,
+        interest_type: data.interest_type,
+        annual_rate: data.annual_rate || 0,
+        account_id: data.account_id || null,
       });
-      await loadInstallments();
       setSelectedInstallment(null);
       setIsFormOpen(false);
       toast.success(t.installments.updateSuccess);
@@ -169,7 +150,6 @@ export default function InstallmentsPage() {
 
     try {
       await deleteInstallmentDocument(installmentToDelete);
-      await loadInstallments();
       toast.success(t.installments.deleteSuccess);
     } catch (error) {
       console.error('Error deleting installment:', error);
@@ -187,9 +167,8 @@ export default function InstallmentsPage() {
     }
 
     try {
-      const newCurrent = installment.current_installment + 1;
-      await updateCurrentInstallment(installment.uid, newCurrent);
-      await loadInstallments();
+      // Crea el gasto de la cuota y avanza current_installment en una transacción
+      const newCurrent = await payNextInstallment(installment.uid);
 
       if (newCurrent >= installment.installments) {
         toast.success(t.installments.allInstallmentsPaid);
@@ -240,16 +219,28 @@ export default function InstallmentsPage() {
                   {t.installments.subtitlePage}
                 </p>
               </div>
-              <Button
-                onClick={() => {
-                  setSelectedInstallment(null);
-                  setIsFormOpen(true);
-                }}
-                className="bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white font-semibold shadow-lg shadow-orange-500/50 dark:shadow-orange-900/50 w-full sm:w-auto"
-              >
-                <Plus className="w-5 h-5 mr-2" />
-                {t.installments.newDebtInstallment}
-              </Button>
+              <div className="flex flex-col sm:flex-row gap-2">
+                {activeInstallments.length > 0 && (
+                  <Button
+                    variant="outline"
+                    onClick={() => router.push('/installments/planner')}
+                    className="w-full sm:w-auto"
+                  >
+                    <Calculator className="w-5 h-5 mr-2" />
+                    {t.installments.openPlanner}
+                  </Button>
+                )}
+                <Button
+                  onClick={() => {
+                    setSelectedInstallment(null);
+                    setIsFormOpen(true);
+                  }}
+                  className="bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white font-semibold shadow-lg shadow-orange-500/50 dark:shadow-orange-900/50 w-full sm:w-auto"
+                >
+                  <Plus className="w-5 h-5 mr-2" />
+                  {t.installments.newDebtInstallment}
+                </Button>
+              </div>
             </div>
 
             {/* Cards de resumen */}
@@ -332,6 +323,7 @@ export default function InstallmentsPage() {
                         onEdit={handleEdit}
                         onDelete={handleDelete}
                         onPayInstallment={handlePayInstallment}
+                        onViewSchedule={setScheduleInstallment}
                       />
                     ))}
                   </div>
@@ -352,6 +344,7 @@ export default function InstallmentsPage() {
                         onEdit={handleEdit}
                         onDelete={handleDelete}
                         onPayInstallment={handlePayInstallment}
+                        onViewSchedule={setScheduleInstallment}
                       />
                     ))}
                   </div>
@@ -368,6 +361,12 @@ export default function InstallmentsPage() {
             categories={categories}
           />
 
+          <AmortizationScheduleDialog
+            open={!!scheduleInstallment}
+            onClose={() => setScheduleInstallment(null)}
+            installment={scheduleInstallment}
+          />
+
           <ConfirmDialog
             open={confirmDialogOpen}
             onOpenChange={setConfirmDialogOpen}
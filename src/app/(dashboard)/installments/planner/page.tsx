@@ -0,0 +1,198 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import PayoffStrategyCard from '@/components/installments/PayoffStrategyCard';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { ArrowLeft, Calculator, CreditCard } from 'lucide-react';
+import { toast } from 'sonner';
+import { useInstallments } from '@/hooks/useUserCollection';
+import { sanitizeNumber } from '@/lib/utils/sanitize';
+import { PAYOFF_STRATEGIES, simulatePayoff, toPayoffDebt } from '@/lib/utils/debtPayoff';
+
+export default function DebtPlannerPage() {
+  const { t } = useLanguage();
+  const router = useRouter();
+  const { data: installments, loading, error: installmentsError } = useInstallments();
+  const [selectedCurrency, setSelectedCurrency] = useState('');
+  const [extraPayment, setExtraPayment] = useState<number | ''>('');
+
+  useEffect(() => {
+    if (installmentsError) {
+      toast.error(t.installments.loadError);
+    }
+  }, [installmentsError, t]);
+
+  // Solo se simulan deudas de una misma moneda, porque comparten el presupuesto mensual
+  const activeInstallments = installments.filter(i => i.current_installment < i.installments);
+  const currencies = Array.from(new Set(activeInstallments.map(i => i.currency)));
+  const currency = currencies.includes(selectedCurrency) ? selectedCurrency : currencies[0] || '';
+
+  const debts = activeInstallments
+    .filter(i => i.currency === currency)
+    .map(toPayoffDebt)
+    .filter(debt => debt.balance > 0);
+  const extra = extraPayment === '' ? 0 : Math.max(0, sanitizeNumber(extraPayment));
+  const minimumTotal = debts.reduce((sum, debt) => sum + debt.minimumPayment, 0);
+
+  const results = PAYOFF_STRATEGIES.map(strategy => simulatePayoff(debts, strategy, extra));
+  const [snowball, avalanche] = results;
+  const interestDifference = Math.abs(snowball.totalInterest - avalanche.totalInterest);
+  const bestStrategy = interestDifference > 0.005
+    ? (avalanche.totalInterest < snowball.totalInterest ? 'avalanche' : 'snowball')
+    : null;
+
+  const formatAmount = (value: number) =>
+    value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-orange-50 via-white to-red-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 p-6">
+        <div className="max-w-7xl mx-auto mt-4">
+          <div className="mb-8">
+            <Button
+              variant="ghost"
+              onClick={() => router.push('/installments')}
+              className="mb-4"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {t.actions.back}
+            </Button>
+            <h1 className="pb-2 text-3xl sm:text-4xl font-bold bg-gradient-to-r from-orange-600 to-red-600 bg-clip-text text-transparent mb-2">
+              {t.debtPlanner.title}
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              {t.debtPlanner.subtitle}
+            </p>
+          </div>
+
+          {!loading && debts.length === 0 ? (
+            <div className="text-center py-20">
+              <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-12 max-w-md mx-auto">
+                <div className="w-20 h-20 bg-gradient-to-r from-orange-100 to-red-100 dark:from-orange-900/30 dark:to-red-900/30 rounded-full flex items-center justify-center mx-auto mb-6">
+                  <CreditCard className="w-10 h-10 text-orange-600 dark:text-orange-400" />
+                </div>
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-3">
+                  {t.debtPlanner.noDebts}
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {t.debtPlanner.noDebtsDescription}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Parámetros de la simulación */}
+              <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <div className="space-y-2">
+                    <Label>{t.debtPlanner.currencyField}</Label>
+                    <Select value={currency} onValueChange={setSelectedCurrency}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {currencies.map((item) => (
+                          <SelectItem key={item} value={item}>
+                            {item}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="extraPayment">{t.debtPlanner.extraPaymentField}</Label>
+                    <Input
+                      id="extraPayment"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={extraPayment}
+                      onChange={(e) => setExtraPayment(e.target.value === '' ? '' : parseFloat(e.target.value))}
+                      placeholder="0"
+                    />
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <div className="w-12 h-12 bg-gradient-to-r from-red-100 to-orange-100 dark:from-red-900/30 dark:to-orange-900/30 rounded-full flex items-center justify-center">
+                      <Calculator className="w-6 h-6 text-red-600 dark:text-red-400" />
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">{t.debtPlanner.monthlyBudget}</p>
+                      <p className="text-2xl font-bold text-red-600 dark:text-red-400">
+                        {formatAmount(minimumTotal + extra)} {currency}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+                <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">{t.debtPlanner.budgetHelp}</p>
+              </div>
+
+              {/* Deudas incluidas */}
+              <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-6">
+                <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-3">
+                  {t.debtPlanner.includedDebts.replace('{count}', debts.length.toString())}
+                </h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                        <th className="py-2 pr-3 font-medium">{t.installments.description}</th>
+                        <th className="py-2 pr-3 font-medium text-right">{t.debtPlanner.balance}</th>
+                        <th className="py-2 pr-3 font-medium text-right">{t.debtPlanner.monthlyRate}</th>
+                        <th className="py-2 font-medium text-right">{t.debtPlanner.minimumPayment}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {debts.map((debt) => (
+                        <tr key={debt.uid} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-800 dark:text-gray-200">
+                          <td className="py-1.5 pr-3">{debt.description}</td>
+                          <td className="py-1.5 pr-3 text-right">{formatAmount(debt.balance)}</td>
+                          <td className="py-1.5 pr-3 text-right">{(debt.monthlyRate * 100).toFixed(2)}%</td>
+                          <td className="py-1.5 text-right">{formatAmount(debt.minimumPayment)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Comparación */}
+              {debts.length > 0 && (
+                <p className="text-center text-gray-700 dark:text-gray-300">
+                  {bestStrategy
+                    ? t.debtPlanner.comparison
+                        .replace('{strategy}', t.debtPlanner.strategies[bestStrategy])
+                        .replace('{amount}', `${formatAmount(interestDifference)} ${currency}`)
+                    : t.debtPlanner.sameInterest}
+                </p>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {results.map((result) => (
+                  <PayoffStrategyCard
+                    key={result.strategy}
+                    result={result}
+                    debts={debts}
+                    currency={currency}
+                    isBest={bestStrategy === result.strategy}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,336 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { RecurringRule } from '@/lib/types/recurringRule';
+import { Category } from '@/lib/types/category';
+import {
+  createRecurringRuleDocument,
+  updateRecurringRuleDocument,
+  deleteRecurringRuleDocument,
+} from '@/lib/firebase/firestore/recurringRules';
+import { getLocalTimeZone, getOccurrenceOnOrAfter, RecurrenceSchedule } from '@/lib/utils/recurrence';
+import { doc, DocumentReference, Timestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase/client';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import RecurringRuleCard from '@/components/recurring/RecurringRuleCard';
+import RecurringRuleForm, { RecurringRuleFormData } from '@/components/recurring/RecurringRuleForm';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { Plus, Repeat, TrendingDown, TrendingUp } from 'lucide-react';
+import { toast } from 'sonner';
+import { createRateLimiter, updateRateLimiter, deleteRateLimiter } from '@/lib/utils/rateLimiter';
+import { useCategories, useRecurringRules } from '@/hooks/useUserCollection';
+
+// Próxima ocurrencia a materializar: nunca en el pasado, para no generar movimientos retroactivos
+const computeNextRunDate = (schedule: RecurrenceSchedule): Timestamp => {
+  return Timestamp.fromDate(getOccurrenceOnOrAfter(schedule, new Date()));
+};
+
+export default function RecurringPage() {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { data: rules, loading, error: rulesError } = useRecurringRules();
+  const { data: categories } = useCategories();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<RecurringRule | null>(null);
+  const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
+  const [ruleToDelete, setRuleToDelete] = useState<string | null>(null);
+
+  // Las reglas y categorías se mantienen sincronizadas con Firestore en tiempo real
+  useEffect(() => {
+    if (rulesError) {
+      toast.error(t.recurring.loadError);
+    }
+  }, [rulesError, t]);
+
+  const handleCreate = async (data: RecurringRuleFormData) => {
+    if (!user) return;
+
+    // Verificar rate limit para creación
+    const rateLimitCheck = createRateLimiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.recurring.rateLimitCreate.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      return;
+    }
+
+    try {
+      const ruleUid = `${user.uid}_${Date.now()}`;
+
+      await createRecurringRuleDocument(
+        {
+          type: data.type,
+          frequency: data.frequency,
+          dayOfMonth: data.dayOfMonth,
+          startDate: data.startDate,
+          endDate: data.endDate,
+          nextRunDate: computeNextRunDate({
+            frequency: data.frequency,
+            dayOfMonth: data.dayOfMonth,
+            startDate: data.startDate.toDate(),
+          }),
+          amount: data.amount,
+          currency: data.currency,
+          categoryId: data.type === 'expense' ? doc(db, 'categories', data.categoryId) as DocumentReference<Category> : null,
+          source: data.source,
+          note: data.note,
+          active: true,
+          timeZone: getLocalTimeZone(),
+          userId: user.uid,
+        },
+        ruleUid
+      );
+      setIsFormOpen(false);
+      toast.success(t.recurring.createSuccess);
+    } catch (error) {
+      console.error('Error creating recurring rule:', error);
+      toast.error(t.recurring.createError);
+      throw error;
+    }
+  };
+
+  const handleUpdate = async (data: RecurringRuleFormData) => {
+    if (!selectedRule || !user) return;
+
+    // Verificar rate limit para actualización
+    const rateLimitCheck = updateRateLimiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.recurring.rateLimitUpdate.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      return;
+    }
+
+    try {
+      await updateRecurringRuleDocument(selectedRule.uid, {
+        frequency: data.frequency,
+        dayOfMonth: data.dayOfMonth,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        nextRunDate: computeNextRunDate({
+          frequency: data.frequency,
+          dayOfMonth: data.dayOfMonth,
+          startDate: data.startDate.toDate(),
+        }),
+        amount: data.amount,
+        currency: data.currency,
+        categoryId: selectedRule.type === 'expense' ? doc(db, 'categories', data.categoryId) as DocumentReference<Category> : null,
+        source: data.source,
+        note: data.note,
+        // La próxima fecha se calculó en la zona horaria de este dispositivo
+        timeZone: getLocalTimeZone(),
+      });
+      setSelectedRule(null);
+      setIsFormOpen(false);
+      toast.success(t.recurring.updateSuccess);
+    } catch (error) {
+      console.error('Error updating recurring rule:', error);
+      toast.error(t.recurring.updateError);
+      throw error;
+    }
+  };
+
+  const handleToggleActive = async (rule: RecurringRule, active: boolean) => {
+    if (!user) return;
+
+    const rateLimitCheck = updateRateLimiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.recurring.rateLimitUpdate.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      return;
+    }
+
+    try {
+      // Al reactivar, se salta lo que quedó pendiente mientras estuvo pausada
+      await updateRecurringRuleDocument(
+        rule.uid,
+        active
+          ? {
+              active,
+              nextRunDate: computeNextRunDate({
+                frequency: rule.frequency,
+                dayOfMonth: rule.dayOfMonth,
+                startDate: rule.startDate.toDate(),
+              }),
+              timeZone: getLocalTimeZone(),
+            }
+          : { active }
+      );
+      toast.success(active ? t.recurring.resumedSuccess : t.recurring.pausedSuccess);
+    } catch (error) {
+      console.error('Error toggling recurring rule:', error);
+      toast.error(t.recurring.updateError);
+    }
+  };
+
+  const handleDelete = (uid: string) => {
+    setRuleToDelete(uid);
+    setConfirmDialogOpen(true);
+  };
+
+  const confirmDelete = async () => {
+    if (!ruleToDelete || !user) return;
+
+    // Verificar rate limit para eliminación
+    const rateLimitCheck = deleteRateLimiter.checkLimit(user.uid);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.recurring.rateLimitDelete.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      setConfirmDialogOpen(false);
+      setRuleToDelete(null);
+      return;
+    }
+
+    try {
+      await deleteRecurringRuleDocument(ruleToDelete);
+      toast.success(t.recurring.deleteSuccess);
+    } catch (error) {
+      console.error('Error deleting recurring rule:', error);
+      toast.error(t.recurring.deleteError);
+    } finally {
+      setConfirmDialogOpen(false);
+      setRuleToDelete(null);
+    }
+  };
+
+  const handleEdit = (rule: RecurringRule) => {
+    setSelectedRule(rule);
+    setIsFormOpen(true);
+  };
+
+  const handleCloseForm = () => {
+    setIsFormOpen(false);
+    setSelectedRule(null);
+  };
+
+  const getCategoryForRule = (rule: RecurringRule): Category | undefined => {
+    if (!rule.categoryId) return undefined;
+    return categories.find(cat => cat.uid === rule.categoryId!.id);
+  };
+
+  const expenseRules = rules.filter(rule => rule.type === 'expense');
+  const incomeRules = rules.filter(rule => rule.type === 'income');
+
+  const renderRules = (list: RecurringRule[]) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {list.map((rule) => (
+        <RecurringRuleCard
+          key={rule.uid}
+          rule={rule}
+          category={getCategoryForRule(rule)}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+          onToggleActive={handleToggleActive}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-sky-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 p-6">
+        <div className="max-w-7xl mx-auto mt-4">
+          <div className="mb-8">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+              <div>
+                <h1 className="pb-2 text-3xl sm:text-4xl font-bold bg-gradient-to-r from-indigo-600 to-sky-600 bg-clip-text text-transparent mb-2">
+                  {t.recurring.title}
+                </h1>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {t.recurring.subtitle}
+                </p>
+              </div>
+              <Button
+                onClick={() => {
+                  setSelectedRule(null);
+                  setIsFormOpen(true);
+                }}
+                className="bg-gradient-to-r from-indigo-600 to-sky-600 hover:from-indigo-700 hover:to-sky-700 text-white font-semibold shadow-lg shadow-indigo-500/50 dark:shadow-indigo-900/50 w-full sm:w-auto"
+              >
+                <Plus className="w-5 h-5 mr-2" />
+                {t.recurring.newRule}
+              </Button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-20">
+              <p className="text-gray-600 dark:text-gray-400">{t.common.loading}</p>
+            </div>
+          ) : rules.length === 0 ? (
+            <div className="text-center py-20">
+              <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-12 max-w-md mx-auto">
+                <div className="w-20 h-20 bg-gradient-to-r from-indigo-100 to-sky-100 dark:from-indigo-900/30 dark:to-sky-900/30 rounded-full flex items-center justify-center mx-auto mb-6">
+                  <Repeat className="w-10 h-10 text-indigo-600 dark:text-indigo-400" />
+                </div>
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-3">
+                  {t.recurring.noRules}
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  {t.recurring.startRules}
+                </p>
+                <Button
+                  onClick={() => setIsFormOpen(true)}
+                  className="bg-gradient-to-r from-indigo-600 to-sky-600 hover:from-indigo-700 hover:to-sky-700 text-white font-semibold shadow-lg shadow-indigo-500/50 dark:shadow-indigo-900/50"
+                >
+                  <Plus className="w-5 h-5 mr-2" />
+                  {t.recurring.createFirstRule}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {expenseRules.length > 0 && (
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4 flex items-center gap-2">
+                    <TrendingDown className="w-6 h-6 text-red-600" />
+                    {t.recurring.expenseRulesCount.replace('{count}', expenseRules.length.toString())}
+                  </h2>
+                  {renderRules(expenseRules)}
+                </div>
+              )}
+
+              {incomeRules.length > 0 && (
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4 flex items-center gap-2">
+                    <TrendingUp className="w-6 h-6 text-green-600" />
+                    {t.recurring.incomeRulesCount.replace('{count}', incomeRules.length.toString())}
+                  </h2>
+                  {renderRules(incomeRules)}
+                </div>
+              )}
+            </div>
+          )}
+
+          <RecurringRuleForm
+            open={isFormOpen}
+            onClose={handleCloseForm}
+            onSubmit={selectedRule ? handleUpdate : handleCreate}
+            rule={selectedRule}
+            categories={categories}
+          />
+
+          <ConfirmDialog
+            open={confirmDialogOpen}
+            onOpenChange={setConfirmDialogOpen}
+            title={t.recurring.deleteConfirmTitle}
+            description={t.recurring.deleteConfirmDescription}
+            onConfirm={confirmDelete}
+            confirmText={t.common.delete}
+            cancelText={t.common.cancel}
+            variant="destructive"
+          />
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
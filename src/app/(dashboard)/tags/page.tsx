@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { ArrowLeft, Tag } from 'lucide-react';
+import { endOfDay, startOfMonth } from 'date-fns';
+import { toast } from 'sonner';
+import { useExpenses, useIncomes } from '@/hooks/useUserCollection';
+import { createLocalDate, dateToLocalString } from '@/lib/utils/dates';
+import { getTagTotals } from '@/lib/utils/tags';
+
+export default function TagReportPage() {
+  const { t } = useLanguage();
+  const router = useRouter();
+  const { data: expenses, loading: expensesLoading, error: expensesError } = useExpenses();
+  const { data: incomes, loading: incomesLoading } = useIncomes();
+  const [startDate, setStartDate] = useState(dateToLocalString(startOfMonth(new Date())));
+  const [endDate, setEndDate] = useState(dateToLocalString(new Date()));
+
+  useEffect(() => {
+    if (expensesError) {
+      toast.error(t.expenses.loadError);
+    }
+  }, [expensesError, t]);
+
+  const isValidRange = !!startDate && !!endDate && startDate <= endDate;
+  const tagTotals = isValidRange
+    ? getTagTotals(expenses, incomes, createLocalDate(startDate), endOfDay(createLocalDate(endDate)))
+    : [];
+  const loading = expensesLoading || incomesLoading;
+
+  const renderTotals = (totals: Record<string, number>, className: string) => {
+    const entries = Object.entries(totals);
+    if (entries.length === 0) return <span className="text-gray-400">—</span>;
+    return entries.map(([currency, total]) => (
+      <p key={currency} className={className}>
+        {total.toLocaleString()} {currency}
+      </p>
+    ));
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-cyan-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 p-6">
+        <div className="max-w-5xl mx-auto mt-4">
+          <div className="mb-8">
+            <Button
+              variant="ghost"
+              onClick={() => router.push('/expenses')}
+              className="mb-4"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {t.actions.back}
+            </Button>
+            <h1 className="pb-2 text-3xl sm:text-4xl font-bold bg-gradient-to-r from-blue-600 to-cyan-600 bg-clip-text text-transparent mb-2">
+              {t.tags.reportTitle}
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              {t.tags.reportSubtitle}
+            </p>
+          </div>
+
+          <div className="space-y-6">
+            {/* Rango de fechas */}
+            <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="tagStartDate">{t.tags.startDateField}</Label>
+                  <Input
+                    id="tagStartDate"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tagEndDate">{t.tags.endDateField}</Label>
+                  <Input
+                    id="tagEndDate"
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </div>
+              </div>
+              {!isValidRange && (
+                <p className="mt-3 text-sm text-amber-600 dark:text-amber-400">{t.tags.rangeValidation}</p>
+              )}
+            </div>
+
+            {/* Totales por etiqueta */}
+            <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-6">
+              {loading ? (
+                <div className="flex justify-center py-10">
+                  <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-blue-600" />
+                </div>
+              ) : tagTotals.length === 0 ? (
+                <div className="text-center py-10">
+                  <Tag className="w-10 h-10 mx-auto mb-3 text-blue-600 dark:text-blue-400" />
+                  <p className="text-gray-600 dark:text-gray-400">{t.tags.noTaggedMovements}</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                        <th className="py-2 pr-3 font-medium">{t.tags.tagColumn}</th>
+                        <th className="py-2 pr-3 font-medium text-right">{t.tags.movementsColumn}</th>
+                        <th className="py-2 pr-3 font-medium text-right">{t.tags.expensesColumn}</th>
+                        <th className="py-2 font-medium text-right">{t.tags.incomesColumn}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {tagTotals.map((item) => (
+                        <tr key={item.tag} className="border-b border-gray-100 dark:border-gray-700/50 align-top text-gray-800 dark:text-gray-200">
+                          <td className="py-2 pr-3">
+                            <span className="inline-flex items-center gap-1 rounded-full bg-blue-100 dark:bg-blue-900/30 px-2 py-0.5 text-xs font-medium text-blue-700 dark:text-blue-300">
+                              <Tag className="w-3 h-3" />
+                              {item.tag}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-3 text-right">{item.count}</td>
+                          <td className="py-2 pr-3 text-right">
+                            {renderTotals(item.expenses, 'font-medium text-red-600 dark:text-red-400')}
+                          </td>
+                          <td className="py-2 text-right">
+                            {renderTotals(item.incomes, 'font-medium text-green-600 dark:text-green-400')}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">{t.tags.multipleTagsNote}</p>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
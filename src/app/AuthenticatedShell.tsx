@@ -5,6 +5,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import Navbar from "@/components/layout/Navbar";
 import { useIdleTimeout } from "@/hooks/useIdleTimeout";
 import { useSessionActivity } from "@/hooks/useSessionActivity";
+import { useServiceWorker } from "@/hooks/useServiceWorker";
 
 interface AuthenticatedShellProps {
   children: ReactNode;
@@ -22,6 +23,9 @@ export function AuthenticatedShell({ children }: AuthenticatedShellProps) {
   // Actualizar lastActive cada 5 minutos
   useSessionActivity(5 * 60 * 1000);
 
+  // PWA: caché del app shell y reenvío de gastos creados sin conexión
+  useServiceWorker();
+
   // Evita flicker durante la validación inicial de Firebase
   if (loading) {
     return null;
@@ -0,0 +1,48 @@
+import type { MetadataRoute } from 'next';
+import { headers } from 'next/headers';
+import esTranslations from '@/i18n/locales/es.json';
+import enTranslations from '@/i18n/locales/en.json';
+
+const translations: Record<string, typeof esTranslations> = {
+  es: esTranslations,
+  en: enTranslations,
+};
+
+// Igual que LanguageContext: idioma del navegador si está soportado, si no español
+async function getManifestLanguage(): Promise<string> {
+  const acceptLanguage = (await headers()).get('accept-language') || '';
+  const supported = acceptLanguage
+    .split(',')
+    .map((entry) => entry.split(';')[0].trim().split('-')[0].toLowerCase())
+    .find((lang) => lang in translations);
+  return supported || 'es';
+}
+
+// Web manifest de la PWA (Next lo sirve en /manifest.webmanifest)
+export default async function manifest(): Promise<MetadataRoute.Manifest> {
+  const t = translations[await getManifestLanguage()].manifest;
+
+  return {
+    name: t.name,
+    short_name: t.shortName,
+    description: t.description,
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#2563eb',
+    icons: [
+      { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/icons/icon-maskable.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' },
+    ],
+    shortcuts: [
+      {
+        name: t.newExpense,
+        short_name: t.newExpenseShort,
+        description: t.newExpenseDescription,
+        url: '/expenses?action=new',
+        icons: [{ src: '/icons/add-expense.svg', sizes: 'any', type: 'image/svg+xml' }],
+      },
+    ],
+  };
+}
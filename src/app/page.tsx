@@ -1,18 +1,20 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { Category } from '@/lib/types/category';
 import { Expense } from '@/lib/types/expense';
 import { Income } from '@/lib/types/income';
-import { Installment } from '@/lib/types/installment';
-import Goal from '@/lib/types/goal';
-import { getUserCategories } from '@/lib/firebase/firestore/categories';
-import { getUserExpenses } from '@/lib/firebase/firestore/expenses';
-import { getUserIncomes } from '@/lib/firebase/firestore/income';
-import { getUserInstallments, getRemainingAmount } from '@/lib/firebase/firestore/installments';
-import { getUserGoals, getGoalProgress } from '@/lib/firebase/firestore/goals';
+import { getTotalExpensesByCurrency } from '@/lib/firebase/firestore/expenses';
+import { sumIncomesByCurrency } from '@/lib/firebase/firestore/income';
+import { CurrencyConversion, convertAmount, sumByCurrency } from '@/lib/utils/currencyConversion';
+import { getCategoryAmount, getExpenseAllocations } from '@/lib/utils/expenseSplits';
+import { getBudgetAmount, getMonthlyLimit } from '@/lib/utils/budgetRollover';
+import { Timestamp } from 'firebase/firestore';
+import { getRemainingAmount } from '@/lib/firebase/firestore/installments';
+import { getDebtFreeDate, getInstallmentBalanceAt } from '@/lib/utils/debtProjection';
+import { getGoalProgress } from '@/lib/firebase/firestore/goals';
+import { getAverageMonthlySavings, getGoalForecast } from '@/lib/utils/goalForecast';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -50,9 +52,22 @@ import {
   Legend,
   ResponsiveContainer
 } from 'recharts';
-import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { format, startOfMonth, endOfMonth, subMonths, addMonths, differenceInCalendarMonths } from 'date-fns';
 import { es, enUS } from 'date-fns/locale';
 import { useLanguage } from '@/contexts/LanguageContext';
+import {
+  useCategories,
+  useExpenses,
+  useIncomes,
+  useInstallments,
+  useGoals,
+  useExchangeRates,
+  useAllGoalContributions,
+  useAccounts,
+  useTransfers,
+} from '@/hooks/useUserCollection';
+import { getAccountBalances } from '@/lib/utils/accountBalances';
+import { ACCOUNT_TYPE_ICONS } from '@/components/accounts/AccountCard';
 
 // Chart visibility configuration type
 interface ChartVisibility {
@@ -68,6 +83,9 @@ interface ChartVisibility {
   chart10: boolean; // Heatmap de Gastos
 }
 
+// Meses máximos de proyección en el gráfico de evolución de deudas
+const MAX_DEBT_PROJECTION_MONTHS = 24;
+
 const DEFAULT_CHART_VISIBILITY: ChartVisibility = {
   chart1: true,
   chart2: true,
@@ -85,12 +103,18 @@ export default function DashboardPage() {
   const { t, language } = useLanguage();
   const { user } = useAuth();
   const router = useRouter();
-  const [loading, setLoading] = useState(true);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [incomes, setIncomes] = useState<Income[]>([]);
-  const [installments, setInstallments] = useState<Installment[]>([]);
-  const [goals, setGoals] = useState<Goal[]>([]);
+  // Colecciones sincronizadas en tiempo real (compartidas con las demás páginas)
+  const { data: categories, loading: categoriesLoading } = useCategories();
+  const { data: expenses, loading: expensesLoading } = useExpenses();
+  const { data: incomes, loading: incomesLoading } = useIncomes();
+  const { data: installments, loading: installmentsLoading } = useInstallments();
+  const { data: goals, loading: goalsLoading } = useGoals();
+  const { data: exchangeRates, loading: ratesLoading } = useExchangeRates();
+  const { data: goalContributions } = useAllGoalContributions();
+  const { data: accounts } = useAccounts();
+  const { data: transfers } = useTransfers();
+  const loading = categoriesLoading || expensesLoading || incomesLoading ||
+    installmentsLoading || goalsLoading || ratesLoading;
 
   // Estado para el filtro de mes
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
@@ -148,36 +172,11 @@ export default function DashboardPage() {
 
   const years = Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - i);
 
-  const loadData = useCallback(async () => {
-    if (!user) return;
-    try {
-      setLoading(true);
-      const [categoriesData, expensesData, incomesData, installmentsData, goalsData] = await Promise.all([
-        getUserCategories(user.uid),
-        getUserExpenses(user.uid),
-        getUserIncomes(user.uid),
-        getUserInstallments(user.uid),
-        getUserGoals(user.uid)
-      ]);
-      setCategories(categoriesData);
-      setExpenses(expensesData);
-      setIncomes(incomesData);
-      setInstallments(installmentsData);
-      setGoals(goalsData);
-    } catch (error) {
-      console.error('Error loading dashboard data:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
-
   useEffect(() => {
-    if (user) {
-      loadData();
-    } else {
+    if (!user) {
       router.push('/login');
     }
-  }, [user, loadData, router]);
+  }, [user, router]);
 
   if (loading) {
     return (
@@ -197,6 +196,15 @@ export default function DashboardPage() {
   const monthStart = startOfMonth(new Date(selectedYear, selectedMonth));
   const monthEnd = endOfMonth(new Date(selectedYear, selectedMonth));
 
+  // Saldo de cada cuenta al cierre del mes seleccionado. Las transferencias solo
+  // mueven saldo entre cuentas: no forman parte de los totales de gastos e ingresos
+  const accountBalances = getAccountBalances(
+    accounts,
+    { expenses, incomes, transfers, rates: exchangeRates },
+    monthEnd,
+    monthStart
+  );
+
   // Filtrar datos del mes actual
   const currentMonthExpenses = expenses.filter(expense => {
     const expenseDate = expense.date.toDate ? expense.date.toDate() : new Date(expense.date as any);
@@ -208,21 +216,51 @@ export default function DashboardPage() {
     return incomeDate >= monthStart && incomeDate <= monthEnd;
   });
 
-  // Totales por moneda
-  const totalExpensesByCurrency = currentMonthExpenses.reduce((acc, expense) => {
-    acc[expense.currency] = (acc[expense.currency] || 0) + expense.amount;
-    return acc;
-  }, {} as Record<string, number>);
+  // Conversion a la moneda base del perfil (si el usuario eligio una)
+  const conversion: CurrencyConversion | null = user?.baseCurrency
+    ? { baseCurrency: user.baseCurrency, rates: exchangeRates }
+    : null;
+
+  // Monedas sin tasa hacia la moneda base: sus montos se excluyen de los graficos en lugar de sumarse sin convertir
+  const missingRateCurrencies = new Set<string>();
+
+  // Monto en moneda base usando la tasa de la fecha de la transaccion; sin tasa cuenta como 0
+  const toBaseAmount = (amount: number, currency: string, date: Timestamp | Date) => {
+    if (!conversion) return amount;
+    const converted = convertAmount(amount, currency, conversion.baseCurrency, date, conversion.rates);
+    if (converted === null) {
+      missingRateCurrencies.add(currency);
+      return 0;
+    }
+    return converted;
+  };
+  const expenseAmount = (expense: Expense) => toBaseAmount(expense.amount, expense.currency, expense.date);
+  const incomeAmount = (income: Income) => toBaseAmount(income.amount, income.currency, income.receivedAt);
+  // Parte del gasto asignada a una categoría (un gasto dividido reparte su monto entre varias)
+  const expenseCategoryAmount = (expense: Expense, categoryId: string) =>
+    toBaseAmount(getCategoryAmount(expense, categoryId), expense.currency, expense.date);
 
-  const totalIncomesByCurrency = currentMonthIncomes.reduce((acc, income) => {
-    acc[income.currency] = (acc[income.currency] || 0) + income.amount;
-    return acc;
-  }, {} as Record<string, number>);
+  // Totales por moneda
+  const totalExpensesByCurrency = getTotalExpensesByCurrency(currentMonthExpenses, conversion);
+
+  const totalIncomesByCurrency = sumIncomesByCurrency(currentMonthIncomes, conversion);
+
+  // Las deudas pendientes se convierten con la tasa vigente hoy
+  const totalDebtsByCurrency = sumByCurrency(
+    installments.map(installment => ({
+      amount: getRemainingAmount(installment),
+      currency: installment.currency,
+      date: new Date(),
+    })),
+    conversion
+  );
 
-  const totalDebtsByCurrency = installments.reduce((acc, installment) => {
-    acc[installment.currency] = (acc[installment.currency] || 0) + getRemainingAmount(installment);
-    return acc;
-  }, {} as Record<string, number>);
+  // Hay montos que quedaron en su moneda original por falta de tasa
+  const hasUnconvertedAmounts = !!conversion && [
+    ...Object.keys(totalIncomesByCurrency),
+    ...Object.keys(totalExpensesByCurrency),
+    ...Object.keys(totalDebtsByCurrency),
+  ].some(currency => currency !== conversion.baseCurrency);
 
   // Balance por moneda
   const currencies = Array.from(new Set([
@@ -239,19 +277,18 @@ export default function DashboardPage() {
 
   // Gastos por categoría
   const expensesByCategory = currentMonthExpenses.reduce((acc, expense) => {
-    const categoryId = typeof expense.categoryId === 'string'
-      ? expense.categoryId
-      : expense.categoryId.id;
-
-    const category = categories.find(cat => cat.uid === categoryId);
-    if (category) {
-      const existing = acc.find(item => item.name === category.name);
-      if (existing) {
-        existing.value += expense.amount;
-      } else {
-        acc.push({ name: category.name, value: expense.amount });
+    getExpenseAllocations(expense).forEach(({ categoryId, amount }) => {
+      const category = categories.find(cat => cat.uid === categoryId);
+      if (category) {
+        const value = toBaseAmount(amount, expense.currency, expense.date);
+        const existing = acc.find(item => item.name === category.name);
+        if (existing) {
+          existing.value += value;
+        } else {
+          acc.push({ name: category.name, value });
+        }
       }
-    }
+    });
     return acc;
   }, [] as Array<{ name: string; value: number }>);
 
@@ -265,12 +302,12 @@ export default function DashboardPage() {
     const monthExpenses = expenses.filter(expense => {
       const expenseDate = expense.date.toDate ? expense.date.toDate() : new Date(expense.date as any);
       return expenseDate >= start && expenseDate <= end;
-    }).reduce((sum, expense) => sum + expense.amount, 0);
+    }).reduce((sum, expense) => sum + expenseAmount(expense), 0);
 
     const monthIncomes = incomes.filter(income => {
       const incomeDate = income.receivedAt.toDate ? income.receivedAt.toDate() : new Date(income.receivedAt as any);
       return incomeDate >= start && incomeDate <= end;
-    }).reduce((sum, income) => sum + income.amount, 0);
+    }).reduce((sum, income) => sum + incomeAmount(income), 0);
 
     return {
       month: format(date, 'MMM', { locale: localSelected }),
@@ -282,22 +319,19 @@ export default function DashboardPage() {
 
   // Top categorías con más gastos (filtradas por mes seleccionado)
   const topCategories = categories.map(category => {
+    // En la moneda de la categoría, como el presupuesto y las alertas
     const spent = currentMonthExpenses
-      .filter(expense => {
-        const categoryId = typeof expense.categoryId === 'string'
-          ? expense.categoryId
-          : expense.categoryId.id;
-        return categoryId === category.uid;
-      })
-      .reduce((sum, expense) => sum + expense.amount, 0);
+      .reduce((sum, expense) => sum + getBudgetAmount(expense, category, exchangeRates), 0);
 
-    const percentage = category.monthly_limit > 0 ? (spent / category.monthly_limit) * 100 : 0;
-    const isOverLimit = spent > category.monthly_limit && category.monthly_limit > 0;
-    const isNearLimit = percentage >= 80 && !isOverLimit && category.monthly_limit > 0;
+    const limit = getMonthlyLimit(category, selectedYear, selectedMonth);
+    const percentage = limit > 0 ? (spent / limit) * 100 : 0;
+    const isOverLimit = spent > limit && limit > 0;
+    const isNearLimit = percentage >= 80 && !isOverLimit && limit > 0;
 
     return {
       category,
       spent,
+      limit,
       percentage,
       isOverLimit,
       isNearLimit
@@ -332,12 +366,12 @@ export default function DashboardPage() {
     const monthIncomes = incomes.filter(income => {
       const incomeDate = income.receivedAt.toDate ? income.receivedAt.toDate() : new Date(income.receivedAt as any);
       return incomeDate >= start && incomeDate <= end;
-    }).reduce((sum, income) => sum + income.amount, 0);
+    }).reduce((sum, income) => sum + incomeAmount(income), 0);
 
     const monthExpenses = expenses.filter(expense => {
       const expenseDate = expense.date.toDate ? expense.date.toDate() : new Date(expense.date as any);
       return expenseDate >= start && expenseDate <= end;
-    }).reduce((sum, expense) => sum + expense.amount, 0);
+    }).reduce((sum, expense) => sum + expenseAmount(expense), 0);
 
     return {
       month: format(date, 'MMM', { locale: localSelected }),
@@ -359,33 +393,34 @@ export default function DashboardPage() {
   const goalsProgressData = goals.map(goal => ({
     name: goal.title.length > 20 ? goal.title.substring(0, 20) + '...' : goal.title,
     progreso: getGoalProgress(goal),
+    // En riesgo si al ritmo actual (abonos o ahorro promedio) no se llega a la fecha límite
+    status: getGoalForecast(goal, {
+      contributions: goalContributions.filter(contribution => contribution.goalId === goal.uid),
+      monthlySavings: getAverageMonthlySavings(incomes, expenses, goal.currency, exchangeRates),
+    }).status,
   })).slice(0, 5);
+  const goalsAtRiskCount = goalsProgressData.filter(goal => goal.status === 'atRisk').length;
 
   // Chart 5: Gastos Fijos vs Variables (BarChart Vertical)
   const fixedVsVariableData = categories.reduce((acc, category) => {
     const categoryExpenses = currentMonthExpenses
-      .filter(expense => {
-        const categoryId = typeof expense.categoryId === 'string'
-          ? expense.categoryId
-          : expense.categoryId.id;
-        return categoryId === category.uid;
-      })
-      .reduce((sum, expense) => sum + expense.amount, 0);
+      .reduce((sum, expense) => sum + expenseCategoryAmount(expense, category.uid), 0);
 
-    if (category.type === 'fixed') {
-      acc[0].total += categoryExpenses;
-    } else {
-      acc[1].total += categoryExpenses;
-    }
+    // Presupuesto del mes (con su límite específico si lo tiene) en la moneda base
+    const categoryBudget = toBaseAmount(getMonthlyLimit(category, selectedYear, selectedMonth), category.currency, monthStart);
+
+    const group = category.type === 'fixed' ? acc[0] : acc[1];
+    group.total += categoryExpenses;
+    group.budget += categoryBudget;
     return acc;
   }, [
-    { type: t.dashboard.chartLabels.fixed, total: 0 },
-    { type: t.dashboard.chartLabels.variable, total: 0 }
+    { type: t.dashboard.chartLabels.fixed, total: 0, budget: 0 },
+    { type: t.dashboard.chartLabels.variable, total: 0, budget: 0 }
   ]);
 
   // Chart 6: Top 5 Gastos Individuales (BarChart Horizontal)
   const top5ExpensesData = [...currentMonthExpenses]
-    .sort((a, b) => b.amount - a.amount)
+    .sort((a, b) => expenseAmount(b) - expenseAmount(a))
     .slice(0, 5)
     .map(expense => {
       const category = categories.find(cat => {
@@ -394,26 +429,42 @@ export default function DashboardPage() {
           : expense.categoryId.id;
         return cat.uid === categoryId;
       });
-      const displayName = expense.note || category?.name || 'Gasto sin nota';
+      const categoryName = expense.splits && expense.splits.length > 0
+        ? t.expenses.splitLabel
+        : category?.name;
+      const displayName = expense.note || categoryName || 'Gasto sin nota';
       return {
         name: displayName.length > 25 ? displayName.substring(0, 25) + '...' : displayName,
-        monto: expense.amount,
-        categoria: category?.name || 'Sin categoria',
+        monto: expenseAmount(expense),
+        categoria: categoryName || 'Sin categoria',
       };
     });
 
-  // Chart 7: Evolucion de Deudas (LineChart) - Deuda total mes a mes
-  const debtEvolutionData = Array.from({ length: 6 }, (_, i) => {
-    const date = subMonths(selectedDate, 5 - i);
-    const monthLabel = format(date, 'MMM', { locale: localSelected });
+  // Chart 7: Evolucion de Deudas (LineChart) - Capital pendiente al cierre de cada mes
+  // y proyección (una cuota por mes) hasta quedar libre de deudas
+  const today = new Date();
+  const debtFreeDate = getDebtFreeDate(installments, today);
+  const projectionMonths = debtFreeDate
+    ? Math.min(MAX_DEBT_PROJECTION_MONTHS, Math.max(0, differenceInCalendarMonths(debtFreeDate, selectedDate)))
+    : 0;
+  const debtEvolutionData = Array.from({ length: 6 + projectionMonths }, (_, i) => {
+    const date = addMonths(selectedDate, i - 5);
+    const monthEnd = endOfMonth(date);
+    const monthLabel = format(date, i < 6 ? 'MMM' : 'MMM yy', { locale: localSelected });
+
+    const totalDebt = installments.reduce(
+      (sum, inst) => sum + toBaseAmount(getInstallmentBalanceAt(inst, monthEnd, today), inst.currency, monthEnd),
+      0
+    );
 
-    // For simplicity, we'll show current total debt for all months
-    // In a real scenario, you'd track historical debt data
-    const totalDebt = installments.reduce((sum, inst) => sum + getRemainingAmount(inst), 0);
+    // El mes actual pertenece a ambas series para que las líneas queden unidas
+    const isCurrentOrPast = differenceInCalendarMonths(date, today) <= 0;
+    const isCurrentOrFuture = differenceInCalendarMonths(date, today) >= 0;
 
     return {
       month: monthLabel,
-      deuda: totalDebt,
+      deuda: isCurrentOrPast ? totalDebt : null,
+      proyeccion: isCurrentOrFuture && debtFreeDate ? totalDebt : null,
     };
   });
 
@@ -421,9 +472,9 @@ export default function DashboardPage() {
   const incomeDistributionData = currentMonthIncomes.reduce((acc, income) => {
     const existing = acc.find(item => item.name === income.source);
     if (existing) {
-      existing.value += income.amount;
+      existing.value += incomeAmount(income);
     } else {
-      acc.push({ name: income.source, value: income.amount });
+      acc.push({ name: income.source, value: incomeAmount(income) });
     }
     return acc;
   }, [] as Array<{ name: string; value: number }>);
@@ -446,18 +497,18 @@ export default function DashboardPage() {
   const currentVsPreviousData = [
     {
       category: t.dashboard.chartLabels.incomes,
-      mesAnterior: previousMonthIncomes.reduce((sum, inc) => sum + inc.amount, 0),
-      mesActual: currentMonthIncomes.reduce((sum, inc) => sum + inc.amount, 0),
+      mesAnterior: previousMonthIncomes.reduce((sum, inc) => sum + incomeAmount(inc), 0),
+      mesActual: currentMonthIncomes.reduce((sum, inc) => sum + incomeAmount(inc), 0),
     },
     {
       category: t.dashboard.chartLabels.expenses,
-      mesAnterior: previousMonthExpenses.reduce((sum, exp) => sum + exp.amount, 0),
-      mesActual: currentMonthExpenses.reduce((sum, exp) => sum + exp.amount, 0),
+      mesAnterior: previousMonthExpenses.reduce((sum, exp) => sum + expenseAmount(exp), 0),
+      mesActual: currentMonthExpenses.reduce((sum, exp) => sum + expenseAmount(exp), 0),
     },
     {
       category: t.dashboard.chartLabels.balance,
-      mesAnterior: previousMonthIncomes.reduce((sum, inc) => sum + inc.amount, 0) - previousMonthExpenses.reduce((sum, exp) => sum + exp.amount, 0),
-      mesActual: currentMonthIncomes.reduce((sum, inc) => sum + inc.amount, 0) - currentMonthExpenses.reduce((sum, exp) => sum + exp.amount, 0),
+      mesAnterior: previousMonthIncomes.reduce((sum, inc) => sum + incomeAmount(inc), 0) - previousMonthExpenses.reduce((sum, exp) => sum + expenseAmount(exp), 0),
+      mesActual: currentMonthIncomes.reduce((sum, inc) => sum + incomeAmount(inc), 0) - currentMonthExpenses.reduce((sum, exp) => sum + expenseAmount(exp), 0),
     },
   ];
 
@@ -470,11 +521,8 @@ export default function DashboardPage() {
 
       const monthExpenses = expenses.filter(expense => {
         const expenseDate = expense.date.toDate ? expense.date.toDate() : new Date(expense.date as any);
-        const categoryId = typeof expense.categoryId === 'string'
-          ? expense.categoryId
-          : expense.categoryId.id;
-        return expenseDate >= start && expenseDate <= end && categoryId === category.uid;
-      }).reduce((sum, expense) => sum + expense.amount, 0);
+        return expenseDate >= start && expenseDate <= end;
+      }).reduce((sum, expense) => sum + expenseCategoryAmount(expense, category.uid), 0);
 
       return {
         month: format(date, 'MMM', { locale: localSelected }),
@@ -516,6 +564,14 @@ export default function DashboardPage() {
                   
                   {t.dashboard.summaryLegend} {format(new Date(selectedYear, selectedMonth), "MMMM yyyy", { locale: localSelected })}
                 </p>
+                {conversion && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {t.dashboard.amountsConvertedTo.replace('{currency}', conversion.baseCurrency)}
+                    {hasUnconvertedAmounts && ` ${t.dashboard.missingExchangeRates}`}
+                    {missingRateCurrencies.size > 0 &&
+                      ` ${t.dashboard.chartsMissingRates.replace('{currencies}', Array.from(missingRateCurrencies).join(', '))}`}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -741,6 +797,39 @@ export default function DashboardPage() {
             </Card>
           </div>
 
+          {/* Saldos por cuenta */}
+          {accountBalances.length > 0 && (
+            <Card className="border-0 shadow-lg bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm mb-8">
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle>{t.dashboard.accountBalances}</CardTitle>
+                <Button variant="outline" size="sm" onClick={() => router.push('/accounts')}>
+                  {t.dashboard.manageAccounts}
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                  {accountBalances.map(({ account, balance, change }) => {
+                    const Icon = ACCOUNT_TYPE_ICONS[account.type];
+                    return (
+                      <div key={account.uid} className="p-4 rounded-lg bg-slate-50 dark:bg-gray-900/40">
+                        <p className="flex items-center gap-2 text-sm font-medium text-gray-600 dark:text-gray-400 truncate">
+                          <Icon className="w-4 h-4 shrink-0" />
+                          {account.name}
+                        </p>
+                        <p className={`text-2xl font-bold ${balance >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                          {balance.toLocaleString()} <span className="text-xs font-normal text-gray-500">{account.currency}</span>
+                        </p>
+                        <p className={`text-xs ${change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                          {t.dashboard.accountMonthChange.replace('{amount}', `${change >= 0 ? '+' : ''}${change.toLocaleString()}`)}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Charts Grid - Responsive based on visibility */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
             {/* Chart 1: Historial de Ultimos 6 Meses */}
@@ -866,29 +955,56 @@ export default function DashboardPage() {
                 </CardHeader>
                 <CardContent>
                   {goalsProgressData.length > 0 ? (
-                    <ResponsiveContainer width="100%" height={300}>
-                      <BarChart data={goalsProgressData} layout="vertical" margin={{ left: 10, right: 10 }}>
-                        <CartesianGrid stroke="rgba(148, 163, 184, 0.2)" horizontal={false} />
-                        <XAxis
-                          type="number"
-                          domain={[0, 100]}
-                          tickLine={false}
-                          axisLine={false}
-                          tick={{ fill: "#64748b", fontSize: 10 }}
-                        />
-                        <YAxis
-                          dataKey="name"
-                          type="category"
-                          width={window.innerWidth < 640 ? 100 : 150}
-                          tickLine={false}
-                          axisLine={false}
-                          tick={{ fill: "#64748b", fontSize: window.innerWidth < 640 ? 10 : 11 }}
-                        />
-                        <Tooltip {...tooltipStyle} />
-                        <Legend wrapperStyle={{ fontSize: '12px' }} />
-                        <Bar dataKey="progreso" fill="#f59e0b" radius={[0, 6, 6, 0]} name={t.dashboard.chartLabels.progress} />
-                      </BarChart>
-                    </ResponsiveContainer>
+                    <>
+                      <ResponsiveContainer width="100%" height={300}>
+                        <BarChart data={goalsProgressData} layout="vertical" margin={{ left: 10, right: 10 }}>
+                          <CartesianGrid stroke="rgba(148, 163, 184, 0.2)" horizontal={false} />
+                          <XAxis
+                            type="number"
+                            domain={[0, 100]}
+                            tickLine={false}
+                            axisLine={false}
+                            tick={{ fill: "#64748b", fontSize: 10 }}
+                          />
+                          <YAxis
+                            dataKey="name"
+                            type="category"
+                            width={window.innerWidth < 640 ? 100 : 150}
+                            tickLine={false}
+                            axisLine={false}
+                            tick={{ fill: "#64748b", fontSize: window.innerWidth < 640 ? 10 : 11 }}
+                          />
+                          <Tooltip {...tooltipStyle} />
+                          <Bar dataKey="progreso" radius={[0, 6, 6, 0]} name={t.dashboard.chartLabels.progress}>
+                            {goalsProgressData.map((goal, index) => (
+                              <Cell
+                                key={`goal-${index}`}
+                                fill={goal.status === 'atRisk' ? '#ef4444' : goal.status === 'completed' ? '#22c55e' : '#f59e0b'}
+                              />
+                            ))}
+                          </Bar>
+                        </BarChart>
+                      </ResponsiveContainer>
+                      <div className="flex flex-wrap items-center justify-center gap-4 mt-2 text-xs text-slate-600 dark:text-gray-400">
+                        <span className="flex items-center gap-1">
+                          <span className="w-2.5 h-2.5 rounded-full bg-amber-500" />
+                          {t.dashboard.chartLabels.onTrack}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <span className="w-2.5 h-2.5 rounded-full bg-red-500" />
+                          {t.dashboard.chartLabels.atRisk}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <span className="w-2.5 h-2.5 rounded-full bg-green-500" />
+                          {t.dashboard.chartLabels.completed}
+                        </span>
+                        {goalsAtRiskCount > 0 && (
+                          <span className="font-medium text-red-600 dark:text-red-400">
+                            {t.dashboard.goalsAtRisk.replace('{count}', goalsAtRiskCount.toString())}
+                          </span>
+                        )}
+                      </div>
+                    </>
                   ) : (
                     <div className="h-[300px] flex items-center justify-center text-slate-400">
                       {t.dashboard.noGoalsRegistered}
@@ -923,6 +1039,7 @@ export default function DashboardPage() {
                       <Tooltip {...tooltipStyle} />
                       <Legend />
                       <Bar dataKey="total" fill="#8b5cf6" radius={[6, 6, 0, 0]} name={t.dashboard.chartLabels.total} />
+                      <Bar dataKey="budget" fill="#cbd5e1" radius={[6, 6, 0, 0]} name={t.dashboard.chartLabels.budget} />
                     </BarChart>
                   </ResponsiveContainer>
                 </CardContent>
@@ -993,8 +1110,14 @@ export default function DashboardPage() {
                       <Tooltip {...tooltipStyle} />
                       <Legend />
                       <Line type="monotone" dataKey="deuda" stroke="#ef4444" strokeWidth={2.5} dot={false} activeDot={{ r: 5 }} name={t.dashboard.chartLabels.totalDebt} />
+                      <Line type="monotone" dataKey="proyeccion" stroke="#ef4444" strokeWidth={2} strokeDasharray="6 4" dot={false} activeDot={{ r: 5 }} name={t.dashboard.chartLabels.debtProjection} />
                     </LineChart>
                   </ResponsiveContainer>
+                  <p className="mt-2 text-sm text-center text-slate-600 dark:text-gray-400">
+                    {debtFreeDate
+                      ? t.dashboard.debtFreeBy.replace('{date}', format(debtFreeDate, 'MMMM yyyy', { locale: localSelected }))
+                      : t.dashboard.noPendingDebt}
+                  </p>
                 </CardContent>
               </Card>
             )}
@@ -1142,7 +1265,7 @@ export default function DashboardPage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {topCategories.map(({ category, spent, percentage, isOverLimit, isNearLimit }) => (
+                  {topCategories.map(({ category, spent, limit, percentage, isOverLimit, isNearLimit }) => (
                     <div key={category.uid} className="space-y-2">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-2">
@@ -1164,7 +1287,7 @@ export default function DashboardPage() {
                             <span className={isOverLimit ? 'text-red-600' : 'text-gray-800 dark:text-gray-200'}>
                               {spent.toLocaleString()}
                             </span>
-                            <span className="text-gray-500 dark:text-gray-400"> / {category.monthly_limit.toLocaleString()} {category.currency}</span>
+                            <span className="text-gray-500 dark:text-gray-400"> / {limit.toLocaleString()} {category.currency}</span>
                           </p>
                           <p className="text-xs text-gray-500 dark:text-gray-400">
                             {percentage.toFixed(0)}% {t.dashboard.percentageUsed}
@@ -0,0 +1,148 @@
+import { Account, AccountType } from '@/lib/types/account';
+import { AccountBalance } from '@/lib/utils/accountBalances';
+import { CardSummary } from '@/lib/utils/cardStatements';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Banknote, CreditCard, FileText, Landmark, Pencil, PiggyBank, Scale, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { es, enUS } from 'date-fns/locale';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+export const ACCOUNT_TYPE_ICONS: Record<AccountType, typeof Landmark> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  creditCard: CreditCard,
+  cash: Banknote,
+};
+
+interface AccountCardProps {
+  accountBalance: AccountBalance;
+  onEdit: (account: Account) => void;
+  onDelete: (uid: string) => void;
+  cardSummary?: CardSummary | null; // Solo tarjetas con ciclo de facturación
+  onViewStatements?: (account: Account) => void;
+  onReconcile?: (account: Account) => void;
+}
+
+export default function AccountCard({
+  accountBalance,
+  onEdit,
+  onDelete,
+  cardSummary,
+  onViewStatements,
+  onReconcile,
+}: AccountCardProps) {
+  const { t, language } = useLanguage();
+  const dateLocale = language === 'en' ? enUS : es;
+  const { account, balance, unconverted } = accountBalance;
+  const Icon = ACCOUNT_TYPE_ICONS[account.type];
+
+  return (
+    <Card className="shadow-lg border-0 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm hover:shadow-xl transition-all duration-200">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2 text-xl font-semibold truncate">
+            <Icon className="w-5 h-5 text-blue-600 dark:text-blue-400 shrink-0" />
+            {account.name}
+          </span>
+          <span className="text-sm font-normal text-blue-600 dark:text-blue-400 bg-blue-100 dark:bg-blue-900/30 px-3 py-1 rounded-full whitespace-nowrap">
+            {t.accounts.types[account.type]}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {cardSummary ? t.accounts.currentBalanceLabel : t.accounts.balanceLabel}
+          </span>
+          <span className={`text-2xl font-bold ${balance >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+            {balance.toLocaleString()} {account.currency}
+          </span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-gray-600 dark:text-gray-400">{t.accounts.openingBalanceLabel}</span>
+          <span className="text-sm font-medium">
+            {account.openingBalance.toLocaleString()} {account.currency}
+          </span>
+        </div>
+        {cardSummary && (
+          <div className="space-y-2 pt-2 border-t border-gray-100 dark:border-gray-700">
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600 dark:text-gray-400">{t.accounts.statementBalanceLabel}</span>
+              <span className="text-sm font-semibold text-red-600 dark:text-red-400">
+                {cardSummary.statementBalance.toLocaleString()} {account.currency}
+              </span>
+            </div>
+            {cardSummary.dueDate && (
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {t.accounts.amountDueLabel.replace('{date}', format(cardSummary.dueDate, 'PP', { locale: dateLocale }))}
+                </span>
+                <span className={`text-sm font-semibold ${cardSummary.amountDue > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-green-600 dark:text-green-400'}`}>
+                  {cardSummary.amountDue > 0
+                    ? `${cardSummary.amountDue.toLocaleString()} ${account.currency}`
+                    : t.accounts.statementPaid}
+                </span>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {t.accounts.nextClosing.replace('{date}', format(cardSummary.nextClosingDate, 'PP', { locale: dateLocale }))}
+            </p>
+          </div>
+        )}
+        {account.lastReconciledAt && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {t.accounts.lastReconciled.replace('{date}', format(account.lastReconciledAt.toDate(), 'PP', { locale: dateLocale }))}
+          </p>
+        )}
+        {unconverted > 0 && (
+          <p className="text-xs text-amber-600 dark:text-amber-400">
+            {t.accounts.unconvertedWarning.replace('{count}', unconverted.toString())}
+          </p>
+        )}
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-2">
+        {cardSummary && onViewStatements && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1 hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:text-blue-600 dark:hover:text-blue-400 hover:border-blue-300 dark:hover:border-blue-700 transition-all"
+            onClick={() => onViewStatements(account)}
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            {t.accounts.statements}
+          </Button>
+        )}
+        {onReconcile && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1 hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:text-blue-600 dark:hover:text-blue-400 hover:border-blue-300 dark:hover:border-blue-700 transition-all"
+            onClick={() => onReconcile(account)}
+          >
+            <Scale className="w-4 h-4 mr-2" />
+            {t.accounts.reconcile}
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1 hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:text-blue-600 dark:hover:text-blue-400 hover:border-blue-300 dark:hover:border-blue-700 transition-all"
+          onClick={() => onEdit(account)}
+        >
+          <Pencil className="w-4 h-4 mr-2" />
+          {t.common.edit}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1 hover:bg-red-50 dark:hover:bg-red-900/20 hover:text-red-600 dark:hover:text-red-400 hover:border-red-300 dark:hover:border-red-700 transition-all"
+          onClick={() => onDelete(account.uid)}
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          {t.common.delete}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
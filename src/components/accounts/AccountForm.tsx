@@ -0,0 +1,270 @@
+import { useState, useEffect } from 'react';
+import { Account, AccountType } from '@/lib/types/account';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { sanitizeNumber, sanitizeWithMaxLength } from '@/lib/utils/sanitize';
+import { ACCOUNT_TYPES } from '@/lib/utils/accountBalances';
+import { SUPPORTED_CURRENCIES } from '@/lib/utils/currencyConversion';
+import { toast } from 'sonner';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+export interface AccountFormData {
+  name: string;
+  type: AccountType;
+  currency: string;
+  openingBalance: number;
+  closingDay: number | null;
+  paymentDueDay: number | null;
+}
+
+interface AccountFormProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (data: AccountFormData) => Promise<void>;
+  account?: Account | null;
+}
+
+export default function AccountForm({ open, onClose, onSubmit, account }: AccountFormProps) {
+  const { t } = useLanguage();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<{
+    name: string;
+    type: AccountType;
+    currency: string;
+    openingBalance: number | '';
+    closingDay: number | '';
+    paymentDueDay: number | '';
+  }>({
+    name: '',
+    type: 'checking',
+    currency: 'CRC',
+    openingBalance: '',
+    closingDay: '',
+    paymentDueDay: '',
+  });
+
+  useEffect(() => {
+    if (account) {
+      setFormData({
+        name: account.name,
+        type: account.type,
+        currency: account.currency,
+        openingBalance: account.openingBalance,
+        closingDay: account.closingDay ?? '',
+        paymentDueDay: account.paymentDueDay ?? '',
+      });
+    } else {
+      setFormData({
+        name: '',
+        type: 'checking',
+        currency: 'CRC',
+        openingBalance: '',
+        closingDay: '',
+        paymentDueDay: '',
+      });
+    }
+  }, [account, open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const sanitizedName = sanitizeWithMaxLength(formData.name, 100);
+    // El saldo inicial puede ser negativo (tarjeta de crédito con deuda)
+    const openingBalance = sanitizeNumber(formData.openingBalance);
+
+    if (!sanitizedName) {
+      toast.error(t.accounts.nameValidation);
+      return;
+    }
+
+    if (Math.abs(openingBalance) >= 1000000000) {
+      toast.error(t.accounts.openingBalanceValidation);
+      return;
+    }
+
+    // El ciclo de facturación solo aplica a tarjetas de crédito
+    const isCreditCard = formData.type === 'creditCard';
+    const closingDay = isCreditCard && formData.closingDay !== '' ? Math.trunc(Number(formData.closingDay)) : null;
+    const paymentDueDay = isCreditCard && formData.paymentDueDay !== '' ? Math.trunc(Number(formData.paymentDueDay)) : null;
+    const isValidDay = (day: number | null) => day === null || (day >= 1 && day <= 31);
+
+    if (!isValidDay(closingDay) || !isValidDay(paymentDueDay) || (closingDay === null) !== (paymentDueDay === null)) {
+      toast.error(t.accounts.cycleDaysValidation);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSubmit({
+        name: sanitizedName,
+        type: formData.type,
+        currency: formData.currency,
+        openingBalance,
+        closingDay,
+        paymentDueDay,
+      });
+    } catch (error) {
+      console.error('Error submitting account:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px] bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-cyan-600 bg-clip-text text-transparent">
+            {account ? t.accounts.formTitleEdit : t.accounts.formTitleNew}
+          </DialogTitle>
+          <DialogDescription>{t.accounts.formDescription}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="accountName">{t.accounts.nameField}</Label>
+              <Input
+                id="accountName"
+                placeholder={t.accounts.namePlaceholder}
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="bg-white dark:bg-gray-900"
+                maxLength={100}
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t.accounts.typeField}</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => setFormData({ ...formData, type: value as AccountType })}
+                >
+                  <SelectTrigger className="bg-white dark:bg-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACCOUNT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {t.accounts.types[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t.accounts.currencyField}</Label>
+                <Select
+                  value={formData.currency}
+                  onValueChange={(value) => setFormData({ ...formData, currency: value })}
+                >
+                  <SelectTrigger className="bg-white dark:bg-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <SelectItem key={currency} value={currency}>
+                        {t.currencies[currency as keyof typeof t.currencies]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="openingBalance">{t.accounts.openingBalanceField}</Label>
+              <Input
+                id="openingBalance"
+                type="number"
+                step="0.01"
+                placeholder="0"
+                value={formData.openingBalance}
+                onChange={(e) =>
+                  setFormData({ ...formData, openingBalance: e.target.value === '' ? '' : parseFloat(e.target.value) })
+                }
+                className="bg-white dark:bg-gray-900"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t.accounts.openingBalanceHelp}</p>
+            </div>
+
+            {formData.type === 'creditCard' && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="closingDay">{t.accounts.closingDayField}</Label>
+                    <Input
+                      id="closingDay"
+                      type="number"
+                      min="1"
+                      max="31"
+                      step="1"
+                      value={formData.closingDay}
+                      onChange={(e) =>
+                        setFormData({ ...formData, closingDay: e.target.value === '' ? '' : parseInt(e.target.value) })
+                      }
+                      className="bg-white dark:bg-gray-900"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentDueDay">{t.accounts.paymentDueDayField}</Label>
+                    <Input
+                      id="paymentDueDay"
+                      type="number"
+                      min="1"
+                      max="31"
+                      step="1"
+                      value={formData.paymentDueDay}
+                      onChange={(e) =>
+                        setFormData({ ...formData, paymentDueDay: e.target.value === '' ? '' : parseInt(e.target.value) })
+                      }
+                      className="bg-white dark:bg-gray-900"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{t.accounts.cycleDaysHelp}</p>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={loading}
+              className="hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              {t.common.cancel}
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading}
+              className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white font-semibold shadow-lg shadow-blue-500/50 dark:shadow-blue-900/50"
+            >
+              {loading ? t.common.saving : account ? t.common.update : t.common.create}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,54 @@
+import { Account } from '@/lib/types/account';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAccounts } from '@/hooks/useUserCollection';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+// Valor del Select para "sin cuenta" (Radix no admite value="")
+const NO_ACCOUNT = 'none';
+
+interface AccountSelectProps {
+  value: string | null;
+  onChange: (account: Account | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Selector opcional de cuenta para gastos, ingresos y deudas.
+ * No se muestra si el usuario aún no tiene cuentas.
+ */
+export default function AccountSelect({ value, onChange, disabled = false }: AccountSelectProps) {
+  const { t } = useLanguage();
+  const { data: accounts } = useAccounts();
+
+  if (accounts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="account">{t.accounts.accountField}</Label>
+      <Select
+        value={value || NO_ACCOUNT}
+        onValueChange={(uid) => onChange(accounts.find(account => account.uid === uid) || null)}
+        disabled={disabled}
+      >
+        <SelectTrigger id="account" className="bg-white dark:bg-gray-900">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_ACCOUNT}>{t.accounts.noAccount}</SelectItem>
+          {accounts.map((account) => (
+            <SelectItem key={account.uid} value={account.uid}>
+              {account.name} ({account.currency})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
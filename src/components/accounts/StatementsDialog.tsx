@@ -0,0 +1,142 @@
+import { Account } from '@/lib/types/account';
+import { Installment } from '@/lib/types/installment';
+import { AccountMovements } from '@/lib/utils/accountBalances';
+import { CardStatement, getCardStatements } from '@/lib/utils/cardStatements';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { format } from 'date-fns';
+import { es, enUS } from 'date-fns/locale';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface StatementsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  account: Account | null;
+  movements: AccountMovements;
+  installments: Installment[];
+}
+
+const STATUS_STYLES: Record<CardStatement['status'], string> = {
+  closed: 'text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700',
+  open: 'text-blue-600 dark:text-blue-400 bg-blue-100 dark:bg-blue-900/30',
+  upcoming: 'text-amber-600 dark:text-amber-400 bg-amber-100 dark:bg-amber-900/30',
+};
+
+export default function StatementsDialog({ open, onClose, account, movements, installments }: StatementsDialogProps) {
+  const { t, language } = useLanguage();
+  const dateLocale = language === 'en' ? enUS : es;
+
+  const statements = account ? getCardStatements(account, movements, installments) : [];
+  const formatDate = (date: Date) => format(date, 'PP', { locale: dateLocale });
+  const formatAmount = (value: number) => `${value.toLocaleString()} ${account?.currency || ''}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-cyan-600 bg-clip-text text-transparent">
+            {t.accounts.statementsTitle.replace('{name}', account?.name || '')}
+          </DialogTitle>
+          <DialogDescription>{t.accounts.statementsDescription}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {statements.map((statement) => (
+            <div
+              key={statement.closingDate.getTime()}
+              className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-3"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="font-semibold text-gray-800 dark:text-gray-200">
+                    {formatDate(statement.start)} – {formatDate(statement.closingDate)}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {t.accounts.statementDueDate.replace('{date}', formatDate(statement.dueDate))}
+                  </p>
+                </div>
+                <span className={`text-xs px-3 py-1 rounded-full ${STATUS_STYLES[statement.status]}`}>
+                  {t.accounts.statementStatus[statement.status]}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">{t.accounts.statementCharges}</p>
+                  <p className="font-medium text-red-600 dark:text-red-400">{formatAmount(statement.chargesTotal)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">{t.accounts.statementPayments}</p>
+                  <p className="font-medium text-green-600 dark:text-green-400">{formatAmount(statement.paymentsTotal)}</p>
+                </div>
+                {statement.status !== 'upcoming' && (
+                  <div>
+                    <p className="text-gray-500 dark:text-gray-400">
+                      {statement.status === 'closed' ? t.accounts.statementBalanceLabel : t.accounts.currentBalanceLabel}
+                    </p>
+                    <p className="font-medium text-gray-800 dark:text-gray-200">
+                      {formatAmount(Math.max(0, -statement.balance))}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {statement.charges.length > 0 && (
+                <ul className="text-sm divide-y divide-gray-100 dark:divide-gray-700/50">
+                  {statement.charges.map((expense) => (
+                    <li key={expense.uid} className="flex justify-between gap-3 py-1">
+                      <span className="truncate text-gray-700 dark:text-gray-300">
+                        {format(expense.date.toDate(), 'd MMM', { locale: dateLocale })} · {expense.note || t.accounts.statementCharge}
+                      </span>
+                      <span className="whitespace-nowrap">
+                        {expense.amount.toLocaleString()} {expense.currency}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {statement.installments.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                    {t.accounts.statementInstallments}
+                  </p>
+                  <ul className="text-sm divide-y divide-gray-100 dark:divide-gray-700/50">
+                    {statement.installments.map((item) => (
+                      <li key={`${item.installment.uid}_${item.number}`} className="flex justify-between gap-3 py-1">
+                        <span className="truncate text-gray-700 dark:text-gray-300">
+                          {item.installment.description} ·{' '}
+                          {t.accounts.installmentNumber
+                            .replace('{number}', item.number.toString())
+                            .replace('{total}', item.installment.installments.toString())}
+                        </span>
+                        <span className={`whitespace-nowrap ${item.posted ? 'text-gray-500 dark:text-gray-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                          {item.amount.toLocaleString()} {item.installment.currency}
+                          {!item.posted && ` · ${t.accounts.installmentPending}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  {statement.pendingInstallmentsTotal > 0 && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400">
+                      {t.accounts.pendingInstallmentsTotal.replace('{amount}', formatAmount(statement.pendingInstallmentsTotal))}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {statement.charges.length === 0 && statement.installments.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">{t.accounts.statementEmpty}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState, useEffect } from 'react';
+import { Account } from '@/lib/types/account';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Timestamp } from 'firebase/firestore';
+import { createLocalDate, dateToLocalString } from '@/lib/utils/dates';
+import { sanitizeNumber, sanitizeWithMaxLength } from '@/lib/utils/sanitize';
+import { convertAmount } from '@/lib/utils/currencyConversion';
+import { useExchangeRates } from '@/hooks/useUserCollection';
+import { toast } from 'sonner';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+export interface TransferFormData {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  currency: string;
+  toAmount: number;
+  date: Timestamp;
+  note: string;
+}
+
+interface TransferFormProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (data: TransferFormData) => Promise<void>;
+  accounts: Account[];
+}
+
+export default function TransferForm({ open, onClose, onSubmit, accounts }: TransferFormProps) {
+  const { t } = useLanguage();
+  const { data: exchangeRates } = useExchangeRates();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<{
+    fromAccountId: string;
+    toAccountId: string;
+    amount: number | '';
+    toAmount: number | '';
+    date: string;
+    note: string;
+  }>({
+    fromAccountId: '',
+    toAccountId: '',
+    amount: '',
+    toAmount: '',
+    date: '',
+    note: '',
+  });
+
+  useEffect(() => {
+    setFormData({
+      fromAccountId: accounts[0]?.uid || '',
+      toAccountId: accounts[1]?.uid || '',
+      amount: '',
+      toAmount: '',
+      date: dateToLocalString(new Date()),
+      note: '',
+    });
+  }, [accounts, open]);
+
+  const fromAccount = accounts.find(account => account.uid === formData.fromAccountId);
+  const toAccount = accounts.find(account => account.uid === formData.toAccountId);
+  const isCrossCurrency = !!fromAccount && !!toAccount && fromAccount.currency !== toAccount.currency;
+
+  // Monto sugerido en la moneda de destino según las tasas registradas
+  const suggestedToAmount = isCrossCurrency && formData.amount !== '' && formData.date
+    ? convertAmount(
+        Number(formData.amount),
+        fromAccount.currency,
+        toAccount.currency,
+        createLocalDate(formData.date),
+        exchangeRates
+      )
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = sanitizeNumber(formData.amount);
+    const toAmount = isCrossCurrency
+      ? sanitizeNumber(formData.toAmount === '' ? suggestedToAmount ?? '' : formData.toAmount)
+      : amount;
+
+    if (!fromAccount || !toAccount || fromAccount.uid === toAccount.uid) {
+      toast.error(t.accounts.transferAccountsValidation);
+      return;
+    }
+
+    if (amount <= 0 || toAmount <= 0) {
+      toast.error(t.accounts.transferAmountValidation);
+      return;
+    }
+
+    if (!formData.date) {
+      toast.error(t.accounts.transferDateValidation);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSubmit({
+        fromAccountId: fromAccount.uid,
+        toAccountId: toAccount.uid,
+        amount,
+        currency: fromAccount.currency,
+        toAmount: Math.round(toAmount * 100) / 100,
+        date: Timestamp.fromDate(createLocalDate(formData.date)),
+        note: formData.note ? sanitizeWithMaxLength(formData.note, 500) : '',
+      });
+    } catch (error) {
+      console.error('Error submitting transfer:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderAccountOptions = () =>
+    accounts.map((account) => (
+      <SelectItem key={account.uid} value={account.uid}>
+        {account.name} ({account.currency})
+      </SelectItem>
+    ));
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px] bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-cyan-600 bg-clip-text text-transparent">
+            {t.accounts.transferTitle}
+          </DialogTitle>
+          <DialogDescription>{t.accounts.transferDescription}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t.accounts.fromAccountField}</Label>
+                <Select
+                  value={formData.fromAccountId}
+                  onValueChange={(value) => setFormData({ ...formData, fromAccountId: value, toAmount: '' })}
+                >
+                  <SelectTrigger className="bg-white dark:bg-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>{renderAccountOptions()}</SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t.accounts.toAccountField}</Label>
+                <Select
+                  value={formData.toAccountId}
+                  onValueChange={(value) => setFormData({ ...formData, toAccountId: value, toAmount: '' })}
+                >
+                  <SelectTrigger className="bg-white dark:bg-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>{renderAccountOptions()}</SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="transferAmount">
+                  {t.accounts.transferAmountField}{fromAccount ? ` (${fromAccount.currency})` : ''}
+                </Label>
+                <Input
+                  id="transferAmount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) =>
+                    setFormData({ ...formData, amount: e.target.value === '' ? '' : parseFloat(e.target.value) })
+                  }
+                  className="bg-white dark:bg-gray-900"
+                  required
+                />
+              </div>
+              {isCrossCurrency && (
+                <div className="space-y-2">
+                  <Label htmlFor="transferToAmount">
+                    {t.accounts.transferToAmountField} ({toAccount.currency})
+                  </Label>
+                  <Input
+                    id="transferToAmount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    placeholder={suggestedToAmount !== null ? suggestedToAmount.toFixed(2) : ''}
+                    value={formData.toAmount}
+                    onChange={(e) =>
+                      setFormData({ ...formData, toAmount: e.target.value === '' ? '' : parseFloat(e.target.value) })
+                    }
+                    className="bg-white dark:bg-gray-900"
+                    required={suggestedToAmount === null}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="transferDate">{t.accounts.transferDateField}</Label>
+              <Input
+                id="transferDate"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                className="bg-white dark:bg-gray-900"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="transferNote">{t.accounts.transferNoteField}</Label>
+              <Textarea
+                id="transferNote"
+                value={formData.note}
+                onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                className="bg-white dark:bg-gray-900 min-h-[60px]"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={loading}
+              className="hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              {t.common.cancel}
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading}
+              className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white font-semibold shadow-lg shadow-blue-500/50 dark:shadow-blue-900/50"
+            >
+              {loading ? t.common.saving : t.accounts.transferButton}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,22 +5,32 @@ import { Progress } from '@/components/ui/progress';
 import { Pencil, Trash2, AlertTriangle, CheckCircle } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { getMonthlyLimit } from '@/lib/utils/budgetRollover';
 
 interface CategoryCardProps {
   category: Category;
   spent?: number;
+  carriedOver?: number; // Arrastre del mes anterior (solo categorías con rollover)
   onEdit: (category: Category) => void;
   onDelete: (uid: string) => void;
   selectedMonth?: number;
   selectedYear?: number;
 }
 
-export default function CategoryCard({ category, spent = 0, onEdit, onDelete, selectedMonth, selectedYear }: CategoryCardProps) {
+export default function CategoryCard({ category, spent = 0, carriedOver = 0, onEdit, onDelete, selectedMonth, selectedYear }: CategoryCardProps) {
   const router = useRouter();
-  const limit = category.monthly_limit;
-  const percentage = limit > 0 ? (spent / limit) * 100 : 0;
-  const isOverLimit = spent > limit && limit > 0;
-  const isNearLimit = percentage >= 80 && !isOverLimit && limit > 0;
+  const hasRollover = !!category.rollover && category.rollover !== 'none';
+  // Límite del mes mostrado (puede tener un valor específico) más lo arrastrado del mes anterior
+  const monthlyLimit = selectedMonth !== undefined && selectedYear !== undefined
+    ? getMonthlyLimit(category, selectedYear, selectedMonth)
+    : category.monthly_limit;
+  const limit = monthlyLimit + carriedOver;
+  const available = limit - spent;
+  // Un exceso arrastrado puede dejar el presupuesto en cero o negativo: igual cuenta como límite
+  const hasBudget = monthlyLimit > 0 || carriedOver !== 0;
+  const isOverLimit = hasBudget && spent > limit;
+  const percentage = limit > 0 ? (spent / limit) * 100 : isOverLimit ? 100 : 0;
+  const isNearLimit = percentage >= 80 && !isOverLimit && hasBudget;
   const { t } = useLanguage();
   
   const handleCardClick = () => {
@@ -54,16 +64,32 @@ export default function CategoryCard({ category, spent = 0, onEdit, onDelete, se
         <div className="flex justify-between items-center">
           <span className="text-sm text-gray-600 dark:text-gray-400">{t.categories.monthlyLimit}</span>
           <span className="text-lg font-semibold text-blue-600 dark:text-blue-400">
-            {category.monthly_limit.toLocaleString()} {category.currency}
+            {monthlyLimit.toLocaleString()} {category.currency}
           </span>
         </div>
+        {hasRollover && (
+          <>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600 dark:text-gray-400">{t.categories.carriedOver}</span>
+              <span className={`text-sm font-medium ${carriedOver < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                {carriedOver > 0 ? '+' : ''}{carriedOver.toLocaleString()} {category.currency}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600 dark:text-gray-400">{t.categories.availableThisMonth}</span>
+              <span className={`text-sm font-semibold ${available < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-800 dark:text-gray-200'}`}>
+                {available.toLocaleString()} {category.currency}
+              </span>
+            </div>
+          </>
+        )}
         <div className="flex justify-between items-center">
           <span className="text-sm text-gray-600 dark:text-gray-400">{t.categories.currency}:</span>
           <span className="text-sm font-medium">{category.currency}</span>
         </div>
 
         {/* Barra de progreso de gastos */}
-        {limit > 0 && (
+        {hasBudget && (
           <div className="pt-2 space-y-2">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
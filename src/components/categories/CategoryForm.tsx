@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Category, UpdateCategoryData } from '@/lib/types/category';
+import { BudgetRollover, Category, UpdateCategoryData } from '@/lib/types/category';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -21,6 +21,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { sanitizeNumber, sanitizeWithMaxLength } from '@/lib/utils/sanitize';
+import { budgetMonthKey } from '@/lib/utils/budgetRollover';
 import { toast } from 'sonner';
 
 interface CategoryFormProps {
@@ -39,13 +40,19 @@ export default function CategoryForm({ open, onClose, onSubmit, category }: Cate
     monthly_limit: number | '';
     type: string;
     activeMonths: number[];
+    rollover: BudgetRollover;
+    budgetOverrides: Record<string, number | ''>;
   }>({
     name: '',
     currency: 'CRC',
     monthly_limit: '',
     type: 'fixed',
     activeMonths: [],
+    rollover: 'none',
+    budgetOverrides: {},
   });
+  // Año que se está editando en la grilla de límites por mes
+  const [overrideYear, setOverrideYear] = useState(new Date().getFullYear());
 
   const monthNames = [
     t.months.january, t.months.february, t.months.march, t.months.april,
@@ -61,6 +68,8 @@ export default function CategoryForm({ open, onClose, onSubmit, category }: Cate
         monthly_limit: category.monthly_limit,
         type: category.type,
         activeMonths: category.activeMonths || [],
+        rollover: category.rollover || 'none',
+        budgetOverrides: { ...category.budgetOverrides },
       });
     } else {
       setFormData({
@@ -69,10 +78,25 @@ export default function CategoryForm({ open, onClose, onSubmit, category }: Cate
         monthly_limit: '',
         type: 'fixed',
         activeMonths: [],
+        rollover: 'none',
+        budgetOverrides: {},
       });
     }
+    setOverrideYear(new Date().getFullYear());
   }, [category, open]);
 
+  const overrideYears = Array.from({ length: 4 }, (_, i) => new Date().getFullYear() - 1 + i);
+
+  const handleOverrideChange = (month: number, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      budgetOverrides: {
+        ...prev.budgetOverrides,
+        [budgetMonthKey(overrideYear, month)]: value === '' ? '' : parseFloat(value),
+      },
+    }));
+  };
+
   const handleMonthToggle = (monthIndex: number) => {
     setFormData(prev => {
       const activeMonths = prev.activeMonths.includes(monthIndex)
@@ -107,6 +131,18 @@ export default function CategoryForm({ open, onClose, onSubmit, category }: Cate
         return;
       }
 
+      // Los meses sin valor usan el límite general
+      const budgetOverrides: Record<string, number> = {};
+      for (const [key, value] of Object.entries(formData.budgetOverrides)) {
+        if (value === '') continue;
+        const amount = sanitizeNumber(value);
+        if (amount < 0) {
+          toast.error(t.validation.amountGreaterThanZero);
+          return;
+        }
+        budgetOverrides[key] = amount;
+      }
+
       setLoading(true);
       await onSubmit({
         name: sanitizedName,
@@ -114,6 +150,8 @@ export default function CategoryForm({ open, onClose, onSubmit, category }: Cate
         monthly_limit: sanitizedLimit,
         type: formData.type,
         activeMonths: formData.activeMonths,
+        rollover: formData.rollover,
+        budgetOverrides,
       });
     } catch (error: any) {
       console.error('Error submitting category:', error);
@@ -125,7 +163,7 @@ export default function CategoryForm({ open, onClose, onSubmit, category }: Cate
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px] bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
         <DialogHeader>
           <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
             {category ? t.categories.editCategory : t.categories.newCategory}
@@ -205,6 +243,66 @@ export default function CategoryForm({ open, onClose, onSubmit, category }: Cate
               </div>
             </div>
 
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>{t.categories.monthlyOverrides}</Label>
+                <Select
+                  value={overrideYear.toString()}
+                  onValueChange={(value) => setOverrideYear(parseInt(value))}
+                >
+                  <SelectTrigger className="w-[100px] h-7 text-xs bg-white dark:bg-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {overrideYears.map((year) => (
+                      <SelectItem key={year} value={year.toString()}>
+                        {year}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t.categories.monthlyOverridesHelp}</p>
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 p-4 bg-gray-50 dark:bg-gray-900 rounded-lg">
+                {monthNames.map((month, index) => (
+                  <div key={index} className="space-y-1">
+                    <label htmlFor={`override-${index}`} className="text-xs font-medium">
+                      {month}
+                    </label>
+                    <Input
+                      id={`override-${index}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder={formData.monthly_limit === '' ? '' : formData.monthly_limit.toString()}
+                      value={formData.budgetOverrides[budgetMonthKey(overrideYear, index)] ?? ''}
+                      onChange={(e) => handleOverrideChange(index, e.target.value)}
+                      className="h-8 text-sm bg-white dark:bg-gray-800"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rollover">{t.categories.rollover}</Label>
+              <Select
+                value={formData.rollover}
+                onValueChange={(value) => setFormData({ ...formData, rollover: value as BudgetRollover })}
+              >
+                <SelectTrigger id="rollover" className="bg-white dark:bg-gray-900">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t.categories.rolloverModes.none}</SelectItem>
+                  <SelectItem value="surplus">{t.categories.rolloverModes.surplus}</SelectItem>
+                  <SelectItem value="deficit">{t.categories.rolloverModes.deficit}</SelectItem>
+                  <SelectItem value="both">{t.categories.rolloverModes.both}</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t.categories.rolloverHelp}</p>
+            </div>
+
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label>{t.categories.activeMonth}</Label>
@@ -2,20 +2,27 @@ import { Expense } from '@/lib/types/expense';
 import { Category } from '@/lib/types/category';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Pencil, Trash2, Calendar, DollarSign, Tag, FileText } from 'lucide-react';
+import { Pencil, Trash2, Calendar, DollarSign, Tag, FileText, CloudOff, Split } from 'lucide-react';
 import { format } from 'date-fns';
 import { es, enUS } from 'date-fns/locale';
 import { useLanguage } from '@/contexts/LanguageContext';
+import TagList from '@/components/tags/TagList';
 
 interface ExpenseCardProps {
   expense: Expense;
   category?: Category;
+  categories?: Category[]; // Para mostrar los nombres de las líneas de un gasto dividido
+  pending?: boolean; // Cambios guardados localmente que aún no llegan al servidor
   onEdit: (expense: Expense) => void;
   onDelete: (uid: string) => void;
 }
 
-export default function ExpenseCard({ expense, category, onEdit, onDelete }: ExpenseCardProps) {
+export default function ExpenseCard({ expense, category, categories = [], pending = false, onEdit, onDelete }: ExpenseCardProps) {
   const { t, language } = useLanguage();
+  const splits = expense.splits && expense.splits.length > 0 ? expense.splits : null;
+
+  const getCategoryName = (categoryId: string) =>
+    categories.find(cat => cat.uid === categoryId)?.name || t.expenses.noCategory;
 
   const formatDate = (timestamp: any) => {
     if (!timestamp) return 'N/A';
@@ -29,10 +36,22 @@ export default function ExpenseCard({ expense, category, onEdit, onDelete }: Exp
     <Card className="shadow-lg border-0 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm hover:shadow-xl transition-all duration-200">
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
-          <span className="text-xl font-semibold truncate">{category?.name || t.expenses.noCategory}</span>
-          <span className="text-sm font-normal text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30 px-3 py-1 rounded-full">
-            {t.expenses.expenseLabel}
+          <span className="text-xl font-semibold truncate">
+            {splits ? t.expenses.splitLabel : category?.name || t.expenses.noCategory}
           </span>
+          {pending ? (
+            <span
+              className="flex items-center gap-1 text-sm font-normal text-amber-700 dark:text-amber-400 bg-amber-100 dark:bg-amber-900/30 px-3 py-1 rounded-full"
+              title={t.sync.pendingDescription}
+            >
+              <CloudOff className="w-3.5 h-3.5" />
+              {t.sync.pendingBadge}
+            </span>
+          ) : (
+            <span className="text-sm font-normal text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30 px-3 py-1 rounded-full">
+              {t.expenses.expenseLabel}
+            </span>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-3">
@@ -52,6 +71,25 @@ export default function ExpenseCard({ expense, category, onEdit, onDelete }: Exp
           </span>
           <span className="text-sm font-medium">{formatDate(expense.date)}</span>
         </div>
+        {splits && (
+          <div className="pt-2 border-t border-gray-200 dark:border-gray-700 space-y-1">
+            <span className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2 mb-1">
+              <Split className="w-4 h-4" />
+              {t.expenses.splitLinesLabel}
+            </span>
+            {splits.map((split, index) => (
+              <div key={index} className="flex justify-between items-center text-sm">
+                <span className="truncate">
+                  {getCategoryName(split.categoryId.id)}
+                  {split.note && <span className="text-gray-500 dark:text-gray-400 italic"> · {split.note}</span>}
+                </span>
+                <span className="font-medium">
+                  {split.amount.toLocaleString()} {expense.currency}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
         {expense.note && (
           <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
             <span className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2 mb-1">
@@ -61,6 +99,7 @@ export default function ExpenseCard({ expense, category, onEdit, onDelete }: Exp
             <p className="text-sm text-gray-700 dark:text-gray-300 italic">{expense.note}</p>
           </div>
         )}
+        <TagList tags={expense.tags} />
       </CardContent>
       <CardFooter className="flex gap-2">
         <Button
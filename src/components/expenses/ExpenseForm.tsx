@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import {
   Dialog,
   DialogContent,
@@ -21,10 +22,17 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Timestamp } from 'firebase/firestore';
+import { Lock, LockOpen, Plus, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { es, enUS } from 'date-fns/locale';
 import { createLocalDate, dateToLocalString } from '@/lib/utils/dates';
 import { sanitizeString, sanitizeNumber, sanitizeWithMaxLength } from '@/lib/utils/sanitize';
+import { MAX_EXPENSE_SPLITS, validateSplits } from '@/lib/utils/expenseSplits';
+import { changesReconciledFields, isReconciled } from '@/lib/utils/reconciliation';
 import { toast } from 'sonner';
 import { useLanguage } from '@/contexts/LanguageContext';
+import AccountSelect from '@/components/accounts/AccountSelect';
+import TagPicker from '@/components/tags/TagPicker';
 
 interface ExpenseFormProps {
   open: boolean;
@@ -32,26 +40,45 @@ interface ExpenseFormProps {
   onSubmit: (data: any) => Promise<void>;
   expense?: Expense | null;
   categories: Category[];
+  defaultCategoryId?: string; // Categoría preseleccionada al crear (p. ej. desde el detalle de una categoría)
 }
 
-export default function ExpenseForm({ open, onClose, onSubmit, expense, categories }: ExpenseFormProps) {
-  const { t } = useLanguage();
+type SplitLine = { categoryId: string; amount: number | ''; note: string };
+
+const emptySplitLine = (categoryId = ''): SplitLine => ({ categoryId, amount: '', note: '' });
+
+export default function ExpenseForm({ open, onClose, onSubmit, expense, categories, defaultCategoryId }: ExpenseFormProps) {
+  const { t, language } = useLanguage();
+  const dateLocale = language === 'en' ? enUS : es;
   const [loading, setLoading] = useState(false);
+  // Un gasto conciliado no se edita salvo que el usuario lo desbloquee explícitamente
+  const [unlocked, setUnlocked] = useState(false);
+  const isLocked = !!expense && isReconciled(expense) && !unlocked;
+  const reconciledDate = expense?.reconciledAt
+    ? format(expense.reconciledAt.toDate(), 'PP', { locale: dateLocale })
+    : '';
+  const [isSplit, setIsSplit] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitLine[]>([]);
   const [formData, setFormData] = useState<{
     categoryId: string;
     amount: number | '';
     currency: string;
     date: string;
     note: string;
+    accountId: string | null;
+    tags: string[];
   }>({
     categoryId: '',
     amount: '',
     currency: 'CRC',
     date: '',
     note: '',
+    accountId: null,
+    tags: [],
   });
 
   useEffect(() => {
+    setUnlocked(false);
     if (expense) {
       // Obtener el ID de la categoría desde la referencia
       const categoryId = typeof expense.categoryId === 'string'
@@ -64,24 +91,67 @@ export default function ExpenseForm({ open, onClose, onSubmit, expense, categori
         currency: expense.currency,
         date: dateToLocalString(expense.date),
         note: expense.note || '',
+        accountId: expense.accountId || null,
+        tags: expense.tags || [],
       });
+      setIsSplit(Boolean(expense.splits && expense.splits.length > 0));
+      setSplitLines((expense.splits || []).map(split => ({
+        categoryId: split.categoryId.id,
+        amount: split.amount,
+        note: split.note || '',
+      })));
     } else {
       // Si solo hay una categoría, pre-seleccionarla
-      const defaultCategoryId = categories.length === 1 ? categories[0].uid : '';
-      const defaultCurrency = categories.length === 1 ? categories[0].currency : 'CRC';
+      const defaultCategory = defaultCategoryId
+        ? categories.find(category => category.uid === defaultCategoryId)
+        : categories.length === 1 ? categories[0] : undefined;
 
       setFormData({
-        categoryId: defaultCategoryId,
+        categoryId: defaultCategory?.uid || '',
         amount: '',
-        currency: defaultCurrency,
+        currency: defaultCategory?.currency || 'CRC',
         date: dateToLocalString(new Date()),
         note: '',
+        accountId: null,
+        tags: [],
       });
+      setIsSplit(false);
+      setSplitLines([]);
     }
-  }, [expense, open, categories]);
+  }, [expense, open, categories, defaultCategoryId]);
+
+  // Solo un cambio de monto, fecha o cuenta saca al gasto de la conciliación
+  const clearsReconciliation = (amount: number) => !!expense && isReconciled(expense) && changesReconciledFields(
+    { amount: expense.amount, date: dateToLocalString(expense.date), accountId: expense.accountId || null },
+    { amount, date: formData.date, accountId: formData.accountId }
+  );
+  const willClearReconciliation = unlocked && clearsReconciliation(Number(formData.amount) || 0);
+
+  const splitTotal = splitLines.reduce((sum, line) => sum + (Number(line.amount) || 0), 0);
+  const remainingToSplit = (Number(formData.amount) || 0) - splitTotal;
+
+  const handleSplitToggle = (checked: boolean) => {
+    setIsSplit(checked);
+    if (checked && splitLines.length === 0) {
+      // La primera línea parte de la categoría y el monto ya elegidos
+      setSplitLines([
+        { categoryId: formData.categoryId, amount: formData.amount, note: '' },
+        emptySplitLine(),
+      ]);
+    }
+  };
+
+  const updateSplitLine = (index: number, changes: Partial<SplitLine>) => {
+    setSplitLines(lines => lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const removeSplitLine = (index: number) => {
+    setSplitLines(lines => lines.filter((_, i) => i !== index));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (isLocked) return;
 
     try {
       // Sanitizar y validar inputs
@@ -94,7 +164,20 @@ export default function ExpenseForm({ open, onClose, onSubmit, expense, categori
         return;
       }
 
-      if (!formData.categoryId) {
+      const splits = isSplit
+        ? splitLines.map(line => ({
+            categoryId: line.categoryId,
+            amount: sanitizeNumber(line.amount),
+            note: line.note ? sanitizeWithMaxLength(line.note, 100) : '',
+          }))
+        : null;
+
+      if (splits && !validateSplits(splits, sanitizedAmount)) {
+        toast.error(t.expenses.splitValidation);
+        return;
+      }
+
+      if (!splits && !formData.categoryId) {
         toast.error(t.expenses.categoryValidation);
         return;
       }
@@ -106,13 +189,22 @@ export default function ExpenseForm({ open, onClose, onSubmit, expense, categori
 
       setLoading(true);
       const dateObj = createLocalDate(formData.date);
+      const clearReconciliation = clearsReconciliation(sanitizedAmount);
       await onSubmit({
-        categoryId: formData.categoryId,
+        // En un gasto dividido la categoría principal es la de la primera línea
+        categoryId: splits ? splits[0].categoryId : formData.categoryId,
+        splits,
         amount: sanitizedAmount,
         currency: formData.currency,
         date: Timestamp.fromDate(dateObj),
         note: sanitizedNote,
+        accountId: formData.accountId,
+        tags: formData.tags,
+        ...(clearReconciliation ? { reconciledAt: null } : {}),
       });
+      if (clearReconciliation) {
+        toast.warning(t.reconciliation.removedWarning);
+      }
     } catch (error: any) {
       console.error('Error submitting expense:', error);
       toast.error(error.message || t.expenses.saveError);
@@ -133,25 +225,44 @@ export default function ExpenseForm({ open, onClose, onSubmit, expense, categori
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="category">{t.expenses.categoryField}</Label>
-              <Select
-                value={formData.categoryId}
-                onValueChange={(value) => setFormData({ ...formData, categoryId: value })}
-              >
-                <SelectTrigger className="bg-white dark:bg-gray-900">
-                  <SelectValue placeholder={t.expenses.selectCategoryPlaceholder} />
-                </SelectTrigger>
-                <SelectContent>
-                  {categories.map((category) => (
-                    <SelectItem key={category.uid} value={category.uid}>
-                      {category.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+          {isLocked && (
+            <div className="mt-4 flex items-start gap-3 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-3">
+              <Lock className="w-4 h-4 mt-0.5 shrink-0 text-amber-600 dark:text-amber-400" />
+              <p className="flex-1 text-sm text-amber-700 dark:text-amber-300">
+                {t.reconciliation.lockedNotice.replace('{date}', reconciledDate)}
+              </p>
+              <Button type="button" variant="outline" size="sm" onClick={() => setUnlocked(true)}>
+                <LockOpen className="w-4 h-4 mr-1" />
+                {t.reconciliation.unlock}
+              </Button>
             </div>
+          )}
+          {unlocked && (
+            <p className="mt-4 text-xs text-amber-600 dark:text-amber-400">
+              {willClearReconciliation ? t.reconciliation.willUnreconcileNotice : t.reconciliation.unlockedNotice}
+            </p>
+          )}
+          <fieldset disabled={isLocked} className="space-y-4 py-4">
+            {!isSplit && (
+              <div className="space-y-2">
+                <Label htmlFor="category">{t.expenses.categoryField}</Label>
+                <Select
+                  value={formData.categoryId}
+                  onValueChange={(value) => setFormData({ ...formData, categoryId: value })}
+                >
+                  <SelectTrigger className="bg-white dark:bg-gray-900">
+                    <SelectValue placeholder={t.expenses.selectCategoryPlaceholder} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.uid} value={category.uid}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
 
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <div className="space-y-2">
@@ -192,6 +303,98 @@ export default function ExpenseForm({ open, onClose, onSubmit, expense, categori
               </div>
             </div>
 
+            <div className="flex items-center justify-between">
+              <Label htmlFor="split">{t.expenses.splitToggle}</Label>
+              <Switch id="split" checked={isSplit} onCheckedChange={handleSplitToggle} />
+            </div>
+
+            {isSplit && (
+              <div className="space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                {splitLines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_7rem_auto] gap-2 items-start">
+                    <Select
+                      value={line.categoryId}
+                      onValueChange={(value) => updateSplitLine(index, { categoryId: value })}
+                    >
+                      <SelectTrigger className="bg-white dark:bg-gray-900">
+                        <SelectValue placeholder={t.expenses.selectCategoryPlaceholder} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.uid} value={category.uid}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      placeholder={t.expenses.amountPlaceholder}
+                      value={line.amount}
+                      onChange={(e) =>
+                        updateSplitLine(index, { amount: e.target.value === '' ? '' : parseFloat(e.target.value) })
+                      }
+                      className="bg-white dark:bg-gray-900"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeSplitLine(index)}
+                      disabled={splitLines.length <= 2}
+                      aria-label={t.expenses.removeSplitLine}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                    <Input
+                      placeholder={t.expenses.splitNotePlaceholder}
+                      value={line.note}
+                      onChange={(e) => updateSplitLine(index, { note: e.target.value })}
+                      className="col-span-2 bg-white dark:bg-gray-900 h-8 text-sm"
+                    />
+                  </div>
+                ))}
+                <div className="flex items-center justify-between">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSplitLines(lines => [...lines, emptySplitLine()])}
+                    disabled={splitLines.length >= MAX_EXPENSE_SPLITS}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    {t.expenses.addSplitLine}
+                  </Button>
+                  <span
+                    className={`text-sm font-medium ${
+                      Math.round(remainingToSplit * 100) === 0
+                        ? 'text-green-600 dark:text-green-400'
+                        : 'text-amber-600 dark:text-amber-400'
+                    }`}
+                  >
+                    {t.expenses.splitRemaining.replace(
+                      '{amount}',
+                      `${(Math.round(remainingToSplit * 100) / 100).toLocaleString()} ${formData.currency}`
+                    )}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            <AccountSelect
+              value={formData.accountId}
+              onChange={(account) => setFormData({
+                ...formData,
+                accountId: account?.uid || null,
+                // Un gasto nuevo toma la moneda de la cuenta
+                currency: account && !expense ? account.currency : formData.currency,
+              })}
+            />
+
+            <TagPicker value={formData.tags} onChange={(tags) => setFormData({ ...formData, tags })} />
+
             <div className="space-y-2">
               <Label htmlFor="date">{t.expenses.dateField}</Label>
               <Input
@@ -214,7 +417,7 @@ export default function ExpenseForm({ open, onClose, onSubmit, expense, categori
                 className="bg-white dark:bg-gray-900 min-h-[80px]"
               />
             </div>
-          </div>
+          </fieldset>
 
           <DialogFooter>
             <Button
@@ -228,7 +431,7 @@ export default function ExpenseForm({ open, onClose, onSubmit, expense, categori
             </Button>
             <Button
               type="submit"
-              disabled={loading}
+              disabled={loading || isLocked}
               className="bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-700 hover:to-rose-700 text-white font-semibold shadow-lg shadow-red-500/50 dark:shadow-red-900/50"
             >
               {loading ? t.expenses.savingButton : expense ? t.expenses.updateButton : t.expenses.createButton}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import Goal from '@/lib/types/goal';
+import { Timestamp } from 'firebase/firestore';
+import Goal, { CreateGoalContributionData } from '@/lib/types/goal';
 import {
   Dialog,
   DialogContent,
@@ -9,22 +10,48 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { TrendingUp } from 'lucide-react';
 import { getRemainingAmount, getGoalProgress } from '@/lib/firebase/firestore/goals';
+import { createLocalDate, dateToLocalString } from '@/lib/utils/dates';
+import { useIncomes } from '@/hooks/useUserCollection';
+import ContributionTimeline from './ContributionTimeline';
+
+export type ContributionFormData = Omit<CreateGoalContributionData, 'userId'>;
 
 interface ContributionDialogProps {
   open: boolean;
   onClose: () => void;
-  onSubmit: (amount: number) => Promise<void>;
+  onSubmit: (data: ContributionFormData) => Promise<void>;
   goal: Goal | null;
 }
 
+// Cantidad de ingresos recientes que se ofrecen como origen del abono
+const MAX_SOURCE_INCOMES = 20;
+const NO_SOURCE = 'none';
+
 export default function ContributionDialog({ open, onClose, onSubmit, goal }: ContributionDialogProps) {
+  const { data: incomes } = useIncomes();
   const [amount, setAmount] = useState<number>(0);
+  const [date, setDate] = useState(() => dateToLocalString(new Date()));
+  const [note, setNote] = useState('');
+  const [sourceIncomeId, setSourceIncomeId] = useState(NO_SOURCE);
   const [loading, setLoading] = useState(false);
 
   if (!goal) return null;
 
+  // Solo ingresos en la moneda de la meta, más recientes primero
+  const sourceIncomes = incomes
+    .filter(income => income.currency === goal.currency)
+    .sort((a, b) => b.receivedAt.toMillis() - a.receivedAt.toMillis())
+    .slice(0, MAX_SOURCE_INCOMES);
+
   const remaining = getRemainingAmount(goal);
   const currentProgress = getGoalProgress(goal);
 
@@ -33,8 +60,15 @@ export default function ContributionDialog({ open, onClose, onSubmit, goal }: Co
     setLoading(true);
 
     try {
-      await onSubmit(amount);
+      await onSubmit({
+        amount,
+        date: Timestamp.fromDate(createLocalDate(date)),
+        note: note.trim() || undefined,
+        sourceIncomeId: sourceIncomeId === NO_SOURCE ? undefined : sourceIncomeId,
+      });
       setAmount(0);
+      setNote('');
+      setSourceIncomeId(NO_SOURCE);
       onClose();
     } catch (error) {
       console.error('Error adding contribution:', error);
@@ -47,7 +81,7 @@ export default function ContributionDialog({ open, onClose, onSubmit, goal }: Co
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[450px]">
+      <DialogContent className="sm:max-w-[450px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-amber-600 to-yellow-600 bg-clip-text text-transparent flex items-center gap-2">
             <TrendingUp className="w-6 h-6 text-amber-600" />
@@ -96,6 +130,46 @@ export default function ContributionDialog({ open, onClose, onSubmit, goal }: Co
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="contributionDate">Fecha</Label>
+                <Input
+                  id="contributionDate"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Ingreso de origen</Label>
+                <Select value={sourceIncomeId} onValueChange={setSourceIncomeId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SOURCE}>Ninguno</SelectItem>
+                    {sourceIncomes.map((income) => (
+                      <SelectItem key={income.uid} value={income.uid}>
+                        {income.source} ({income.amount.toLocaleString()})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="contributionNote">Nota (opcional)</Label>
+              <Input
+                id="contributionNote"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={500}
+                placeholder="Ej: Aguinaldo"
+              />
+            </div>
+
             {/* Preview del nuevo progreso */}
             {amount > 0 && (
               <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg space-y-1">
@@ -138,6 +212,11 @@ export default function ContributionDialog({ open, onClose, onSubmit, goal }: Co
               </Button>
             </div>
           </form>
+
+          {/* Historial de abonos */}
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+            <ContributionTimeline goal={goal} limit={5} />
+          </div>
         </div>
       </DialogContent>
     </Dialog>
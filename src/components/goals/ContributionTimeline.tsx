@@ -0,0 +1,91 @@
+import Goal, { GoalContribution } from '@/lib/types/goal';
+import { Button } from '@/components/ui/button';
+import { Undo2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { es, enUS } from 'date-fns/locale';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useGoalContributions, useIncomes } from '@/hooks/useUserCollection';
+import { OPENING_CONTRIBUTION_ID } from '@/lib/firebase/firestore/goals';
+
+interface ContributionTimelineProps {
+  goal: Goal;
+  limit?: number;
+  onUndo?: (goal: Goal, contribution: GoalContribution) => void;
+}
+
+export default function ContributionTimeline({ goal, limit, onUndo }: ContributionTimelineProps) {
+  const { t, language } = useLanguage();
+  const { data: contributions, loading } = useGoalContributions(goal.uid);
+  const { data: incomes } = useIncomes();
+
+  const dateLocale = language === 'en' ? enUS : es;
+  const dateFormat = language === 'en' ? 'MMM d, yyyy' : "d 'de' MMM, yyyy";
+
+  // Más recientes primero
+  const sortedContributions = [...contributions].sort((a, b) => b.date.toMillis() - a.date.toMillis());
+  const visibleContributions = limit ? sortedContributions.slice(0, limit) : sortedContributions;
+
+  const getSourceLabel = (contribution: GoalContribution) => {
+    if (contribution.uid === OPENING_CONTRIBUTION_ID) return t.goals.openingContribution;
+    if (!contribution.sourceIncomeId) return null;
+    const income = incomes.find(item => item.uid === contribution.sourceIncomeId);
+    return income ? t.goals.contributionFromIncome.replace('{source}', income.source) : null;
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+        {t.goals.contributionHistory}
+      </p>
+
+      {visibleContributions.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t.goals.noContributions}</p>
+      ) : (
+        <ol className="relative border-l border-amber-200 dark:border-amber-800 ml-1.5 space-y-3">
+          {visibleContributions.map((contribution) => {
+            const sourceLabel = getSourceLabel(contribution);
+            return (
+              <li key={contribution.uid} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-amber-500 border-2 border-white dark:border-gray-800" />
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-green-600 dark:text-green-400">
+                      +{contribution.amount.toLocaleString()} {goal.currency}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {format(contribution.date.toDate(), dateFormat, { locale: dateLocale })}
+                      {sourceLabel && ` · ${sourceLabel}`}
+                    </p>
+                    {contribution.note && (
+                      <p className="text-xs text-gray-600 dark:text-gray-300 truncate">{contribution.note}</p>
+                    )}
+                  </div>
+                  {onUndo && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onUndo(goal, contribution)}
+                      title={t.goals.undoContribution}
+                      aria-label={t.goals.undoContribution}
+                      className="h-7 px-2 text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    >
+                      <Undo2 className="w-3.5 h-3.5" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {limit && sortedContributions.length > limit && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {t.goals.moreContributions.replace('{count}', (sortedContributions.length - limit).toString())}
+        </p>
+      )}
+    </div>
+  );
+}
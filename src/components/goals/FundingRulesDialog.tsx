@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import Goal from '@/lib/types/goal';
+import { GoalFundingRule } from '@/lib/types/goalFundingRule';
+import { Income } from '@/lib/types/income';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2, Workflow } from 'lucide-react';
+import { toast } from 'sonner';
+import { sanitizeNumber, sanitizeWithMaxLength } from '@/lib/utils/sanitize';
+import { FUNDING_PREVIEW_MONTHS, getFundingPreview } from '@/lib/utils/goalFunding';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+export interface FundingRuleFormData {
+  goalId: string;
+  sourcePattern: string;
+  percentage: number;
+}
+
+interface FundingRulesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  goals: Goal[];
+  rules: GoalFundingRule[];
+  incomes: Income[];
+  onCreate: (data: FundingRuleFormData) => Promise<void>;
+  onToggle: (rule: GoalFundingRule, active: boolean) => Promise<void>;
+  onDelete: (rule: GoalFundingRule) => Promise<void>;
+}
+
+export default function FundingRulesDialog({
+  open,
+  onClose,
+  goals,
+  rules,
+  incomes,
+  onCreate,
+  onToggle,
+  onDelete,
+}: FundingRulesDialogProps) {
+  const { t } = useLanguage();
+  const [goalId, setGoalId] = useState('');
+  const [sourcePattern, setSourcePattern] = useState('');
+  const [percentage, setPercentage] = useState<number | ''>('');
+  const [loading, setLoading] = useState(false);
+
+  const preview = getFundingPreview(rules.filter(rule => rule.active), goals, incomes);
+
+  const getGoalTitle = (uid: string) => goals.find(goal => goal.uid === uid)?.title || '—';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = sanitizeNumber(percentage);
+    if (!goalId) {
+      toast.error(t.goalFunding.goalValidation);
+      return;
+    }
+    if (value <= 0 || value > 100) {
+      toast.error(t.goalFunding.percentageValidation);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onCreate({
+        goalId,
+        sourcePattern: sanitizeWithMaxLength(sourcePattern, 100),
+        percentage: value,
+      });
+      setSourcePattern('');
+      setPercentage('');
+    } catch (error) {
+      console.error('Error saving funding rule:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-amber-600 to-yellow-600 bg-clip-text text-transparent flex items-center gap-2">
+            <Workflow className="w-6 h-6 text-amber-600" />
+            {t.goalFunding.title}
+          </DialogTitle>
+          <DialogDescription>{t.goalFunding.description}</DialogDescription>
+        </DialogHeader>
+
+        {/* Nueva regla */}
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_6rem_auto] gap-3 items-end">
+          <div className="space-y-2">
+            <Label>{t.goalFunding.goalField}</Label>
+            <Select value={goalId} onValueChange={setGoalId}>
+              <SelectTrigger>
+                <SelectValue placeholder={t.goalFunding.goalPlaceholder} />
+              </SelectTrigger>
+              <SelectContent>
+                {goals.map((goal) => (
+                  <SelectItem key={goal.uid} value={goal.uid}>
+                    {goal.title} ({goal.currency})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sourcePattern">{t.goalFunding.sourcePatternField}</Label>
+            <Input
+              id="sourcePattern"
+              value={sourcePattern}
+              onChange={(e) => setSourcePattern(e.target.value)}
+              placeholder={t.goalFunding.sourcePatternPlaceholder}
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="percentage">%</Label>
+            <Input
+              id="percentage"
+              type="number"
+              min="0.01"
+              max="100"
+              step="0.01"
+              value={percentage}
+              onChange={(e) => setPercentage(e.target.value === '' ? '' : parseFloat(e.target.value))}
+              placeholder="10"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={loading}
+            className="bg-gradient-to-r from-amber-600 to-yellow-600 hover:from-amber-700 hover:to-yellow-700 text-white"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </form>
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t.goalFunding.sourcePatternHelp}</p>
+
+        {/* Reglas existentes */}
+        <div className="space-y-2">
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">{t.goalFunding.noRules}</p>
+          ) : (
+            rules.map((rule) => (
+              <div
+                key={rule.uid}
+                className="flex items-center gap-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20"
+              >
+                <div className="flex-1 min-w-0 text-sm">
+                  <p className="font-medium text-gray-800 dark:text-gray-200 truncate">
+                    {t.goalFunding.ruleSummary
+                      .replace('{percentage}', rule.percentage.toString())
+                      .replace('{source}', rule.sourcePattern || t.goalFunding.anySource)
+                      .replace('{currency}', rule.currency)}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    → {getGoalTitle(rule.goalId)}
+                  </p>
+                </div>
+                <Switch
+                  checked={rule.active}
+                  onCheckedChange={(active) => onToggle(rule, active)}
+                  aria-label={t.goalFunding.active}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDelete(rule)}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Vista previa con los ingresos recientes */}
+        {preview.length > 0 && (
+          <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              {t.goalFunding.previewTitle.replace('{months}', FUNDING_PREVIEW_MONTHS.toString())}
+            </p>
+            {preview.map(({ goal, total, uncappedTotal, incomeCount }) => (
+              <div key={goal.uid} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-gray-600 dark:text-gray-400 truncate">{goal.title}</span>
+                <span className="text-right">
+                  <span className="font-semibold text-green-600 dark:text-green-400">
+                    {total.toLocaleString()} {goal.currency}
+                  </span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {t.goalFunding.previewIncomes.replace('{count}', incomeCount.toString())}
+                    {uncappedTotal > total && ` · ${t.goalFunding.previewCapped}`}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,21 +1,25 @@
-import Goal from '@/lib/types/goal';
+import Goal, { GoalContribution } from '@/lib/types/goal';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
-import { Edit2, Trash2, Target, Calendar, TrendingUp, CheckCircle2 } from 'lucide-react';
+import { Edit2, Trash2, Target, Calendar, TrendingUp, CheckCircle2, AlertTriangle } from 'lucide-react';
 import { getGoalProgress, getRemainingAmount, getDaysRemaining, isGoalComplete } from '@/lib/firebase/firestore/goals';
 import { format } from 'date-fns';
 import { es, enUS } from 'date-fns/locale';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { GoalForecast } from '@/lib/utils/goalForecast';
+import ContributionTimeline from './ContributionTimeline';
 
 interface GoalCardProps {
   goal: Goal;
+  forecast: GoalForecast;
   onEdit: (goal: Goal) => void;
   onDelete: (uid: string) => void;
   onAddContribution: (goal: Goal) => void;
+  onUndoContribution: (goal: Goal, contribution: GoalContribution) => void;
 }
 
-export default function GoalCard({ goal, onEdit, onDelete, onAddContribution }: GoalCardProps) {
+export default function GoalCard({ goal, forecast, onEdit, onDelete, onAddContribution, onUndoContribution }: GoalCardProps) {
   const { t, language } = useLanguage();
   const progress = getGoalProgress(goal);
   const remaining = getRemainingAmount(goal);
@@ -119,6 +123,42 @@ export default function GoalCard({ goal, onEdit, onDelete, onAddContribution }:
           </div>
         )}
 
+        {/* Proyeccion */}
+        {!completed && (
+          <div className="space-y-1.5 text-sm">
+            <div className={`flex items-center gap-1 font-medium ${
+              forecast.status === 'onTrack'
+                ? 'text-green-600 dark:text-green-400'
+                : 'text-red-600 dark:text-red-400'
+            }`}>
+              {forecast.status === 'onTrack'
+                ? <CheckCircle2 className="w-4 h-4" />
+                : <AlertTriangle className="w-4 h-4" />}
+              <span>{forecast.status === 'onTrack' ? t.goals.onTrack : t.goals.atRisk}</span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-gray-600 dark:text-gray-400">{t.goals.requiredMonthly}</span>
+              <span className="font-semibold text-gray-800 dark:text-gray-200">
+                {Math.ceil(forecast.requiredMonthly).toLocaleString()} {goal.currency}
+              </span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-gray-600 dark:text-gray-400">{t.goals.projectedCompletion}</span>
+              <span className="font-semibold text-gray-800 dark:text-gray-200">
+                {forecast.projectedDate
+                  ? format(forecast.projectedDate, dateFormat, { locale: dateLocale })
+                  : t.goals.noSavingPace}
+              </span>
+            </div>
+            {forecast.source && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {(forecast.source === 'contributions' ? t.goals.paceFromContributions : t.goals.paceFromSavings)
+                  .replace('{amount}', `${Math.round(forecast.monthlyRate).toLocaleString()} ${goal.currency}`)}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Fecha limite */}
         <div className="flex items-center gap-2 text-sm">
           <Calendar className="w-4 h-4 text-gray-500" />
@@ -164,6 +204,9 @@ export default function GoalCard({ goal, onEdit, onDelete, onAddContribution }:
           </div>
         )}
 
+        {/* Historial de abonos */}
+        <ContributionTimeline goal={goal} limit={3} onUndo={onUndoContribution} />
+
         {/* Boton de abono */}
         {!completed && (
           <Button
@@ -0,0 +1,524 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Expense } from '@/lib/types/expense';
+import { Income } from '@/lib/types/income';
+import { Category } from '@/lib/types/category';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CsvColumnMapping,
+  CsvDateFormat,
+  detectDelimiter,
+  guessColumnMapping,
+  mapCsvRows,
+  parseCsv,
+} from '@/lib/utils/csvImport';
+import {
+  ImportedTransaction,
+  findDuplicateExpense,
+  findDuplicateIncome,
+  isImportableTransaction,
+  suggestCategoryId,
+} from '@/lib/utils/importReview';
+import { isOfxContent, parseOfx } from '@/lib/utils/ofxImport';
+import { SUPPORTED_CURRENCIES } from '@/lib/utils/currencyConversion';
+import { Upload, FileSpreadsheet, AlertTriangle, Copy } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+// Fila seleccionada para importar, con la categoría elegida (solo gastos)
+export interface ImportSelection {
+  transaction: ImportedTransaction;
+  categoryId: string | null;
+}
+
+// Movimientos existentes contra los que se buscan duplicados y se sugieren categorías
+export interface ImportHistory {
+  expenses: Expense[];
+  incomes: Income[];
+}
+
+interface ReviewRow extends ImportSelection {
+  key: number;
+  selected: boolean;
+  duplicate: boolean;
+  importable: boolean;
+}
+
+interface ImportWizardProps {
+  open: boolean;
+  onClose: () => void;
+  onImport: (selections: ImportSelection[]) => Promise<void>;
+  categories: Category[];
+  // Carga el historial desde la fecha de la transacción más antigua del archivo
+  loadHistory: (earliestDate: Date) => Promise<ImportHistory>;
+}
+
+type WizardStep = 'upload' | 'mapping' | 'preview';
+
+type SourceFormat = 'csv' | 'ofx';
+
+// Valor de Select para "sin columna" (Radix no admite value vacío)
+const NO_COLUMN = '-1';
+
+const EMPTY_MAPPING: CsvColumnMapping = { date: null, amount: null, description: null, currency: null };
+
+export default function ImportWizard({
+  open,
+  onClose,
+  onImport,
+  categories,
+  loadHistory,
+}: ImportWizardProps) {
+  const { t } = useLanguage();
+  const [loading, setLoading] = useState(false);
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sourceFormat, setSourceFormat] = useState<SourceFormat>('csv');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(EMPTY_MAPPING);
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('DD/MM/YYYY');
+  const [defaultCurrency, setDefaultCurrency] = useState('CRC');
+  const [negativeIsExpense, setNegativeIsExpense] = useState(true);
+  const [reviewRows, setReviewRows] = useState<ReviewRow[]>([]);
+  const [skippedRows, setSkippedRows] = useState(0);
+
+  useEffect(() => {
+    if (!open) {
+      setStep('upload');
+      setFileName('');
+      setCsvRows([]);
+      setMapping(EMPTY_MAPPING);
+      setReviewRows([]);
+      setSkippedRows(0);
+    }
+  }, [open]);
+
+  const columnCount = csvRows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnLabels = Array.from({ length: columnCount }, (_, i) =>
+    hasHeader && csvRows[0]?.[i] ? csvRows[0][i] : t.import.columnLabel.replace('{number}', (i + 1).toString())
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+
+      // OFX/QFX trae los campos ya identificados: se salta la asignación de columnas
+      if (isOfxContent(text)) {
+        const transactions = parseOfx(text);
+        if (transactions.length === 0) {
+          toast.error(t.import.emptyFile);
+          return;
+        }
+
+        setFileName(file.name);
+        setSourceFormat('ofx');
+        setSkippedRows(0);
+        await showReview(transactions);
+        return;
+      }
+
+      const rows = parseCsv(text, detectDelimiter(text));
+      if (rows.length === 0) {
+        toast.error(t.import.emptyFile);
+        return;
+      }
+
+      setFileName(file.name);
+      setSourceFormat('csv');
+      setCsvRows(rows);
+      setMapping(guessColumnMapping(rows[0]));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error(t.import.readError);
+    }
+  };
+
+  const buildReviewRows = (
+    transactions: ImportedTransaction[],
+    { expenses: existingExpenses, incomes: existingIncomes }: ImportHistory
+  ): ReviewRow[] => {
+    const seenFitIds = new Set<string>();
+
+    return transactions.map((transaction, index) => {
+      const categoryId = transaction.type === 'expense'
+        ? suggestCategoryId(transaction.description, categories, existingExpenses)
+        : null;
+      // Un FITID repetido dentro del mismo archivo también es un duplicado
+      const repeatedInFile = !!transaction.fitId && seenFitIds.has(transaction.fitId);
+      if (transaction.fitId) seenFitIds.add(transaction.fitId);
+      const duplicate = repeatedInFile || (transaction.type === 'expense'
+        ? !!findDuplicateExpense(transaction, existingExpenses)
+        : !!findDuplicateIncome(transaction, existingIncomes));
+      const importable = isImportableTransaction(transaction, categoryId);
+
+      return {
+        key: index,
+        transaction,
+        categoryId,
+        duplicate,
+        importable,
+        selected: importable && !duplicate,
+      };
+    });
+  };
+
+  // Carga el historial que cubre todas las fechas del archivo y pasa a la revisión
+  const showReview = async (transactions: ImportedTransaction[]) => {
+    setLoading(true);
+    try {
+      const earliestDate = transactions.reduce(
+        (earliest, transaction) => (transaction.date < earliest ? transaction.date : earliest),
+        new Date()
+      );
+      const history = await loadHistory(earliestDate);
+      setReviewRows(buildReviewRows(transactions, history));
+      setStep('preview');
+    } catch (error) {
+      console.error('Error loading import history:', error);
+      toast.error(t.import.loadError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMappingContinue = async () => {
+    if (mapping.date === null || mapping.amount === null) {
+      toast.error(t.import.mappingValidation);
+      return;
+    }
+
+    const results = mapCsvRows(
+      csvRows,
+      { mapping, dateFormat, defaultCurrency, hasHeader, negativeIsExpense },
+      SUPPORTED_CURRENCIES
+    );
+    const transactions = results
+      .map(result => result.transaction)
+      .filter((transaction): transaction is ImportedTransaction => transaction !== null);
+
+    setSkippedRows(results.length - transactions.length);
+    await showReview(transactions);
+  };
+
+  const updateRow = (key: number, changes: Partial<ReviewRow>) => {
+    setReviewRows(rows => rows.map(row => {
+      if (row.key !== key) return row;
+      const updated = { ...row, ...changes };
+      updated.importable = isImportableTransaction(updated.transaction, updated.categoryId);
+      if (!updated.importable) updated.selected = false;
+      return updated;
+    }));
+  };
+
+  const selectedRows = useMemo(() => reviewRows.filter(row => row.selected), [reviewRows]);
+  const duplicateCount = reviewRows.filter(row => row.duplicate).length;
+
+  const handleImport = async () => {
+    if (selectedRows.length === 0) {
+      toast.error(t.import.noRowsSelected);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await onImport(selectedRows.map(({ transaction, categoryId }) => ({ transaction, categoryId })));
+    } catch (error) {
+      console.error('Error importing rows:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderColumnSelect = (field: keyof CsvColumnMapping, optional: boolean) => (
+    <div className="space-y-2">
+      <Label>{t.import.fields[field]}</Label>
+      <Select
+        value={mapping[field] === null ? NO_COLUMN : mapping[field]!.toString()}
+        onValueChange={(value) => setMapping({ ...mapping, [field]: value === NO_COLUMN ? null : parseInt(value) })}
+      >
+        <SelectTrigger className="bg-white dark:bg-gray-900">
+          <SelectValue placeholder={t.import.selectColumnPlaceholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NO_COLUMN}>{t.import.noColumn}</SelectItem>}
+          {columnLabels.map((label, index) => (
+            <SelectItem key={index} value={index.toString()}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-red-600 to-rose-600 bg-clip-text text-transparent">
+            {t.import.title}
+          </DialogTitle>
+          <DialogDescription>
+            {t.import.steps[step]}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="py-4">
+            <label
+              htmlFor="import-file"
+              className="flex flex-col items-center justify-center gap-3 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-2xl p-10 cursor-pointer hover:border-red-400 dark:hover:border-red-500 transition-colors"
+            >
+              <Upload className="w-10 h-10 text-red-600 dark:text-red-400" />
+              <span className="font-semibold text-gray-800 dark:text-gray-200">{t.import.chooseFile}</span>
+              <span className="text-sm text-gray-500 dark:text-gray-400">{t.import.supportedFormats}</span>
+            </label>
+            <input
+              id="import-file"
+              type="file"
+              accept=".csv,.ofx,.qfx,text/csv"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-4 py-4">
+            <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <FileSpreadsheet className="w-4 h-4" />
+              {fileName}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="has-header"
+                checked={hasHeader}
+                onCheckedChange={(checked) => setHasHeader(checked === true)}
+              />
+              <Label htmlFor="has-header">{t.import.hasHeader}</Label>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {renderColumnSelect('date', false)}
+              {renderColumnSelect('amount', false)}
+              {renderColumnSelect('description', true)}
+              {renderColumnSelect('currency', true)}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t.import.dateFormatField}</Label>
+                <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as CsvDateFormat)}>
+                  <SelectTrigger className="bg-white dark:bg-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
+                    <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
+                    <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t.import.defaultCurrencyField}</Label>
+                <Select value={defaultCurrency} onValueChange={setDefaultCurrency}>
+                  <SelectTrigger className="bg-white dark:bg-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <SelectItem key={currency} value={currency}>
+                        {currency}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="negative-is-expense"
+                checked={negativeIsExpense}
+                onCheckedChange={(checked) => setNegativeIsExpense(checked === true)}
+              />
+              <Label htmlFor="negative-is-expense">{t.import.negativeIsExpense}</Label>
+            </div>
+
+            {/* Vista previa de las primeras filas del archivo */}
+            <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    {columnLabels.map((label, index) => (
+                      <th key={index} className="px-3 py-2 text-left font-semibold whitespace-nowrap">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {csvRows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + 5).map((row, rowIndex) => (
+                    <tr key={rowIndex} className="border-t border-gray-200 dark:border-gray-700">
+                      {columnLabels.map((_, index) => (
+                        <td key={index} className="px-3 py-2 whitespace-nowrap">{row[index] || ''}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4 py-4">
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span className="text-gray-700 dark:text-gray-300">
+                {t.import.selectedCount
+                  .replace('{selected}', selectedRows.length.toString())
+                  .replace('{total}', reviewRows.length.toString())}
+              </span>
+              {duplicateCount > 0 && (
+                <span className="flex items-center gap-1 text-yellow-600 dark:text-yellow-400">
+                  <Copy className="w-4 h-4" />
+                  {t.import.duplicatesFound.replace('{count}', duplicateCount.toString())}
+                </span>
+              )}
+              {skippedRows > 0 && (
+                <span className="flex items-center gap-1 text-red-600 dark:text-red-400">
+                  <AlertTriangle className="w-4 h-4" />
+                  {t.import.skippedRows.replace('{count}', skippedRows.toString())}
+                </span>
+              )}
+            </div>
+
+            <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    <th className="px-3 py-2"></th>
+                    <th className="px-3 py-2 text-left font-semibold">{t.import.fields.date}</th>
+                    <th className="px-3 py-2 text-left font-semibold">{t.import.fields.description}</th>
+                    <th className="px-3 py-2 text-right font-semibold">{t.import.fields.amount}</th>
+                    <th className="px-3 py-2 text-left font-semibold">{t.import.categoryColumn}</th>
+                    <th className="px-3 py-2 text-left font-semibold">{t.import.statusColumn}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reviewRows.map((row) => {
+                    const isExpense = row.transaction.type === 'expense';
+                    return (
+                      <tr key={row.key} className="border-t border-gray-200 dark:border-gray-700">
+                        <td className="px-3 py-2">
+                          <Checkbox
+                            checked={row.selected}
+                            disabled={!row.importable}
+                            onCheckedChange={(checked) => updateRow(row.key, { selected: checked === true })}
+                          />
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">{format(row.transaction.date, 'yyyy-MM-dd')}</td>
+                        <td className="px-3 py-2 max-w-[220px] truncate">{row.transaction.description}</td>
+                        <td className={`px-3 py-2 text-right whitespace-nowrap font-medium ${isExpense ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                          {isExpense ? '-' : '+'}{row.transaction.amount.toLocaleString()} {row.transaction.currency}
+                        </td>
+                        <td className="px-3 py-2 min-w-[160px]">
+                          {isExpense ? (
+                            <Select
+                              value={row.categoryId || ''}
+                              onValueChange={(value) => updateRow(row.key, { categoryId: value, selected: true })}
+                            >
+                              <SelectTrigger className="h-8 bg-white dark:bg-gray-900">
+                                <SelectValue placeholder={t.expenses.selectCategoryPlaceholder} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {categories.map((category) => (
+                                  <SelectItem key={category.uid} value={category.uid}>
+                                    {category.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <span className="text-gray-500 dark:text-gray-400">{t.import.incomeRow}</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {row.duplicate ? (
+                            <span className="text-yellow-600 dark:text-yellow-400">{t.import.statusDuplicate}</span>
+                          ) : !row.importable ? (
+                            <span className="text-red-600 dark:text-red-400">
+                              {isExpense && !row.categoryId ? t.import.statusMissingCategory : t.import.statusInvalid}
+                            </span>
+                          ) : (
+                            <span className="text-green-600 dark:text-green-400">{t.import.statusNew}</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {step !== 'upload' && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setStep(step === 'preview' && sourceFormat === 'csv' ? 'mapping' : 'upload')}
+              disabled={loading}
+            >
+              {t.import.back}
+            </Button>
+          )}
+          {step === 'mapping' && (
+            <Button
+              type="button"
+              onClick={handleMappingContinue}
+              disabled={loading}
+              className="bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-700 hover:to-rose-700 text-white"
+            >
+              {t.import.continue}
+            </Button>
+          )}
+          {step === 'preview' && (
+            <Button
+              type="button"
+              onClick={handleImport}
+              disabled={loading || selectedRows.length === 0}
+              className="bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-700 hover:to-rose-700 text-white"
+            >
+              {loading
+                ? t.import.importing
+                : t.import.importButton.replace('{count}', selectedRows.length.toString())}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
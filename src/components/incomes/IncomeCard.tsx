@@ -1,18 +1,20 @@
 import { Income } from '@/lib/types/income';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Pencil, Trash2, Calendar, DollarSign } from 'lucide-react';
+import { Pencil, Trash2, Calendar, DollarSign, CloudOff } from 'lucide-react';
 import { format } from 'date-fns';
 import { es, enUS } from 'date-fns/locale';
 import { useLanguage } from '@/contexts/LanguageContext';
+import TagList from '@/components/tags/TagList';
 
 interface IncomeCardProps {
   income: Income;
+  pending?: boolean; // Cambios guardados localmente que aún no llegan al servidor
   onEdit: (income: Income) => void;
   onDelete: (uid: string) => void;
 }
 
-export default function IncomeCard({ income, onEdit, onDelete }: IncomeCardProps) {
+export default function IncomeCard({ income, pending = false, onEdit, onDelete }: IncomeCardProps) {
   const { t, language } = useLanguage();
 
   const formatDate = (timestamp: any) => {
@@ -28,9 +30,19 @@ export default function IncomeCard({ income, onEdit, onDelete }: IncomeCardProps
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           <span className="text-xl font-semibold">{income.source}</span>
-          <span className="text-sm font-normal text-green-600 dark:text-green-400 bg-green-100 dark:bg-green-900/30 px-3 py-1 rounded-full">
-            {t.incomes.incomeLabel}
-          </span>
+          {pending ? (
+            <span
+              className="flex items-center gap-1 text-sm font-normal text-amber-700 dark:text-amber-400 bg-amber-100 dark:bg-amber-900/30 px-3 py-1 rounded-full"
+              title={t.sync.pendingDescription}
+            >
+              <CloudOff className="w-3.5 h-3.5" />
+              {t.sync.pendingBadge}
+            </span>
+          ) : (
+            <span className="text-sm font-normal text-green-600 dark:text-green-400 bg-green-100 dark:bg-green-900/30 px-3 py-1 rounded-full">
+              {t.incomes.incomeLabel}
+            </span>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-3">
@@ -54,6 +66,7 @@ export default function IncomeCard({ income, onEdit, onDelete }: IncomeCardProps
           <span className="text-sm text-gray-600 dark:text-gray-400">{t.incomes.currencyLabel}</span>
           <span className="text-sm font-medium">{income.currency}</span>
         </div>
+        <TagList tags={income.tags} />
       </CardContent>
       <CardFooter className="flex gap-2">
         <Button
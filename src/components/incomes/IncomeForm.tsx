@@ -23,6 +23,12 @@ import { createLocalDate, dateToLocalString } from '@/lib/utils/dates';
 import { sanitizeNumber, sanitizeWithMaxLength } from '@/lib/utils/sanitize';
 import { toast } from 'sonner';
 import { useLanguage } from '@/contexts/LanguageContext';
+import AccountSelect from '@/components/accounts/AccountSelect';
+import TagPicker from '@/components/tags/TagPicker';
+import { changesReconciledFields, isReconciled } from '@/lib/utils/reconciliation';
+import { Lock, LockOpen } from 'lucide-react';
+import { format } from 'date-fns';
+import { es, enUS } from 'date-fns/locale';
 
 interface IncomeFormProps {
   open: boolean;
@@ -32,27 +38,41 @@ interface IncomeFormProps {
 }
 
 export default function IncomeForm({ open, onClose, onSubmit, income }: IncomeFormProps) {
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
+  const dateLocale = language === 'en' ? enUS : es;
   const [loading, setLoading] = useState(false);
+  // Un ingreso conciliado no se edita salvo que el usuario lo desbloquee explícitamente
+  const [unlocked, setUnlocked] = useState(false);
+  const isLocked = !!income && isReconciled(income) && !unlocked;
+  const reconciledDate = income?.reconciledAt
+    ? format(income.reconciledAt.toDate(), 'PP', { locale: dateLocale })
+    : '';
   const [formData, setFormData] = useState<{
     source: string;
     amount: number | '';
     currency: string;
     receivedAt: string;
+    accountId: string | null;
+    tags: string[];
   }>({
     source: '',
     amount: '',
     currency: 'CRC',
     receivedAt: '',
+    accountId: null,
+    tags: [],
   });
 
   useEffect(() => {
+    setUnlocked(false);
     if (income) {
       setFormData({
         source: income.source,
         amount: income.amount,
         currency: income.currency,
         receivedAt: dateToLocalString(income.receivedAt),
+        accountId: income.accountId || null,
+        tags: income.tags || [],
       });
     } else {
       setFormData({
@@ -60,12 +80,22 @@ export default function IncomeForm({ open, onClose, onSubmit, income }: IncomeFo
         amount: '',
         currency: 'CRC',
         receivedAt: dateToLocalString(new Date()),
+        accountId: null,
+        tags: [],
       });
     }
   }, [income, open]);
 
+  // Solo un cambio de monto, fecha o cuenta saca al ingreso de la conciliación
+  const clearsReconciliation = (amount: number) => !!income && isReconciled(income) && changesReconciledFields(
+    { amount: income.amount, date: dateToLocalString(income.receivedAt), accountId: income.accountId || null },
+    { amount, date: formData.receivedAt, accountId: formData.accountId }
+  );
+  const willClearReconciliation = unlocked && clearsReconciliation(Number(formData.amount) || 0);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (isLocked) return;
 
     try {
       // Sanitizar y validar inputs
@@ -89,12 +119,19 @@ export default function IncomeForm({ open, onClose, onSubmit, income }: IncomeFo
 
       setLoading(true);
       const receivedAtDate = createLocalDate(formData.receivedAt);
+      const clearReconciliation = clearsReconciliation(sanitizedAmount);
       await onSubmit({
         source: sanitizedSource,
         amount: sanitizedAmount,
         currency: formData.currency,
         receivedAt: Timestamp.fromDate(receivedAtDate),
+        accountId: formData.accountId,
+        tags: formData.tags,
+        ...(clearReconciliation ? { reconciledAt: null } : {}),
       });
+      if (clearReconciliation) {
+        toast.warning(t.reconciliation.removedWarning);
+      }
     } catch (error: any) {
       console.error('Error submitting income:', error);
       toast.error(error.message || t.incomes.saveError);
@@ -115,7 +152,24 @@ export default function IncomeForm({ open, onClose, onSubmit, income }: IncomeFo
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
-          <div className="space-y-4 py-4">
+          {isLocked && (
+            <div className="mt-4 flex items-start gap-3 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-3">
+              <Lock className="w-4 h-4 mt-0.5 shrink-0 text-amber-600 dark:text-amber-400" />
+              <p className="flex-1 text-sm text-amber-700 dark:text-amber-300">
+                {t.reconciliation.lockedNotice.replace('{date}', reconciledDate)}
+              </p>
+              <Button type="button" variant="outline" size="sm" onClick={() => setUnlocked(true)}>
+                <LockOpen className="w-4 h-4 mr-1" />
+                {t.reconciliation.unlock}
+              </Button>
+            </div>
+          )}
+          {unlocked && (
+            <p className="mt-4 text-xs text-amber-600 dark:text-amber-400">
+              {willClearReconciliation ? t.reconciliation.willUnreconcileNotice : t.reconciliation.unlockedNotice}
+            </p>
+          )}
+          <fieldset disabled={isLocked} className="space-y-4 py-4">
             <div className="space-y-2">
               <Label htmlFor="source">{t.incomes.sourceField}</Label>
               <Input
@@ -167,6 +221,18 @@ export default function IncomeForm({ open, onClose, onSubmit, income }: IncomeFo
               </div>
             </div>
 
+            <AccountSelect
+              value={formData.accountId}
+              onChange={(account) => setFormData({
+                ...formData,
+                accountId: account?.uid || null,
+                // Un ingreso nuevo toma la moneda de la cuenta
+                currency: account && !income ? account.currency : formData.currency,
+              })}
+            />
+
+            <TagPicker value={formData.tags} onChange={(tags) => setFormData({ ...formData, tags })} />
+
             <div className="space-y-2">
               <Label htmlFor="receivedAt">{t.incomes.receivedDateField}</Label>
               <Input
@@ -178,7 +244,7 @@ export default function IncomeForm({ open, onClose, onSubmit, income }: IncomeFo
                 required
               />
             </div>
-          </div>
+          </fieldset>
 
           <DialogFooter>
             <Button
@@ -192,7 +258,7 @@ export default function IncomeForm({ open, onClose, onSubmit, income }: IncomeFo
             </Button>
             <Button
               type="submit"
-              disabled={loading}
+              disabled={loading || isLocked}
               className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 text-white font-semibold shadow-lg shadow-green-500/50 dark:shadow-green-900/50"
             >
               {loading ? t.incomes.savingButton : income ? t.incomes.updateButton : t.incomes.createButton}
@@ -0,0 +1,99 @@
+import { Installment } from '@/lib/types/installment';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { format } from 'date-fns';
+import { es, enUS } from 'date-fns/locale';
+import { getInstallmentDueDate } from '@/lib/firebase/firestore/installments';
+import { getInstallmentSchedule, getInterestType } from '@/lib/utils/amortization';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface AmortizationScheduleDialogProps {
+  open: boolean;
+  onClose: () => void;
+  installment: Installment | null;
+}
+
+export default function AmortizationScheduleDialog({ open, onClose, installment }: AmortizationScheduleDialogProps) {
+  const { t, language } = useLanguage();
+
+  if (!installment) return null;
+
+  const schedule = getInstallmentSchedule(installment);
+  const totalInterest = schedule.reduce((sum, row) => sum + row.interest, 0);
+  const totalPaid = schedule.reduce((sum, row) => sum + row.payment, 0);
+  const dateLocale = language === 'en' ? enUS : es;
+  const formatAmount = (value: number) =>
+    value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[720px] bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-orange-600 to-red-600 bg-clip-text text-transparent">
+            {t.installments.scheduleTitle}
+          </DialogTitle>
+          <DialogDescription>
+            {installment.description} · {t.installments.interestTypes[getInterestType(installment)]}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-gray-600 dark:text-gray-400">{t.installments.totalInterest}</p>
+            <p className="font-semibold text-red-600 dark:text-red-400">
+              {formatAmount(totalInterest)} {installment.currency}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-600 dark:text-gray-400">{t.installments.totalToPay}</p>
+            <p className="font-semibold text-gray-800 dark:text-gray-200">
+              {formatAmount(totalPaid)} {installment.currency}
+            </p>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                <th className="py-2 pr-3 font-medium">#</th>
+                <th className="py-2 pr-3 font-medium">{t.installments.scheduleDate}</th>
+                <th className="py-2 pr-3 font-medium text-right">{t.installments.schedulePayment}</th>
+                <th className="py-2 pr-3 font-medium text-right">{t.installments.schedulePrincipal}</th>
+                <th className="py-2 pr-3 font-medium text-right">{t.installments.scheduleInterest}</th>
+                <th className="py-2 font-medium text-right">{t.installments.scheduleBalance}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {schedule.map((row) => {
+                const paid = row.number <= installment.current_installment;
+                return (
+                  <tr
+                    key={row.number}
+                    className={`border-b border-gray-100 dark:border-gray-700/50 ${
+                      paid ? 'text-gray-400 dark:text-gray-500' : 'text-gray-800 dark:text-gray-200'
+                    }`}
+                  >
+                    <td className="py-1.5 pr-3">{row.number}</td>
+                    <td className="py-1.5 pr-3 whitespace-nowrap">
+                      {format(getInstallmentDueDate(installment, row.number), 'MMM yyyy', { locale: dateLocale })}
+                    </td>
+                    <td className="py-1.5 pr-3 text-right font-medium">{formatAmount(row.payment)}</td>
+                    <td className="py-1.5 pr-3 text-right">{formatAmount(row.principal)}</td>
+                    <td className="py-1.5 pr-3 text-right">{formatAmount(row.interest)}</td>
+                    <td className="py-1.5 text-right">{formatAmount(row.balance)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
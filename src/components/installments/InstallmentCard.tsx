@@ -1,10 +1,11 @@
 import { Installment } from '@/lib/types/installment';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Pencil, Trash2, Calendar, DollarSign, TrendingUp } from 'lucide-react';
+import { Pencil, Trash2, Calendar, DollarSign, TrendingUp, TableProperties } from 'lucide-react';
 import { format } from 'date-fns';
 import { es, enUS } from 'date-fns/locale';
 import { getInstallmentProgress, getRemainingAmount } from '@/lib/firebase/firestore/installments';
+import { getInstallmentPayment, getInterestType } from '@/lib/utils/amortization';
 import { useLanguage } from '@/contexts/LanguageContext';
 
 interface InstallmentCardProps {
@@ -12,9 +13,10 @@ interface InstallmentCardProps {
   onEdit: (installment: Installment) => void;
   onDelete: (uid: string) => void;
   onPayInstallment: (installment: Installment) => void;
+  onViewSchedule: (installment: Installment) => void;
 }
 
-export default function InstallmentCard({ installment, onEdit, onDelete, onPayInstallment }: InstallmentCardProps) {
+export default function InstallmentCard({ installment, onEdit, onDelete, onPayInstallment, onViewSchedule }: InstallmentCardProps) {
   const { t, language } = useLanguage();
 
   const formatDate = (timestamp: any) => {
@@ -28,6 +30,11 @@ export default function InstallmentCard({ installment, onEdit, onDelete, onPayIn
   const progress = getInstallmentProgress(installment);
   const remainingAmount = getRemainingAmount(installment);
   const isComplete = installment.current_installment >= installment.installments;
+  const interestType = getInterestType(installment);
+  // Con amortización alemana la cuota cambia cada mes: se muestra la siguiente
+  const nextPayment = isComplete
+    ? installment.monthly_amount
+    : getInstallmentPayment(installment, installment.current_installment + 1);
 
   return (
     <Card className={`shadow-lg border-0 backdrop-blur-sm hover:shadow-xl transition-all duration-200 ${
@@ -70,10 +77,19 @@ export default function InstallmentCard({ installment, onEdit, onDelete, onPayIn
             {t.installments.monthlyPaymentLabel}
           </span>
           <span className="text-lg font-bold text-orange-600 dark:text-orange-400">
-            {installment.monthly_amount.toLocaleString()} {installment.currency}
+            {nextPayment.toLocaleString()} {installment.currency}
           </span>
         </div>
 
+        {interestType !== 'flat' && (
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-gray-600 dark:text-gray-400">{t.installments.interestTypes[interestType]}</span>
+            <span className="text-sm font-medium">
+              {t.installments.annualRateValue.replace('{rate}', (installment.annual_rate || 0).toString())}
+            </span>
+          </div>
+        )}
+
         <div className="flex justify-between items-center">
           <span className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2">
             <TrendingUp className="w-4 h-4" />
@@ -118,6 +134,16 @@ export default function InstallmentCard({ installment, onEdit, onDelete, onPayIn
           <Pencil className="w-4 h-4 mr-2" />
           {t.installments.editButton}
         </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-none hover:bg-orange-50 dark:hover:bg-orange-900/20 hover:text-orange-600 dark:hover:text-orange-400 hover:border-orange-300 dark:hover:border-orange-700 transition-all"
+          onClick={() => onViewSchedule(installment)}
+          title={t.installments.scheduleTitle}
+          aria-label={t.installments.scheduleTitle}
+        >
+          <TableProperties className="w-4 h-4" />
+        </Button>
         <Button
           variant="outline"
           size="sm"
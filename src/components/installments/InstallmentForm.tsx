@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Installment, UpdateInstallmentData } from '@/lib/types/installment';
+import { Installment, InstallmentInterestType, UpdateInstallmentData } from '@/lib/types/installment';
 import { Category } from '@/lib/types/category';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -23,8 +23,10 @@ import {
 import { Timestamp } from 'firebase/firestore';
 import { createLocalDate, dateToLocalString } from '@/lib/utils/dates';
 import { sanitizeNumber, sanitizeWithMaxLength } from '@/lib/utils/sanitize';
+import { buildAmortizationSchedule, getInterestType, INTEREST_TYPES } from '@/lib/utils/amortization';
 import { toast } from 'sonner';
 import { useLanguage } from '@/contexts/LanguageContext';
+import AccountSelect from '@/components/accounts/AccountSelect';
 
 interface InstallmentFormProps {
   open: boolean;
@@ -46,6 +48,9 @@ export default function InstallmentForm({ open, onClose, onSubmit, installment,
     currency: string;
     start_date: string;
     tax: number | '';
+    interest_type: InstallmentInterestType;
+    annual_rate: number | '';
+    account_id: string | null;
   }>({
     description: '',
     category_id: '',
@@ -55,6 +60,9 @@ export default function InstallmentForm({ open, onClose, onSubmit, installment,
     currency: 'CRC',
     start_date: '',
     tax: '',
+    interest_type: 'flat',
+    annual_rate: '',
+    account_id: null,
   });
 
   useEffect(() => {
@@ -73,6 +81,9 @@ export default function InstallmentForm({ open, onClose, onSubmit, installment,
         currency: installment.currency,
         start_date: dateToLocalString(installment.start_date),
         tax: installment.tax || 0,
+        interest_type: getInterestType(installment),
+        annual_rate: installment.annual_rate || '',
+        account_id: installment.account_id || null,
       });
     } else {
       setFormData({
@@ -84,26 +95,31 @@ export default function InstallmentForm({ open, onClose, onSubmit, installment,
         currency: 'CRC',
         start_date: dateToLocalString(new Date()),
         tax: '',
+        interest_type: 'flat',
+        annual_rate: '',
+        account_id: null,
       });
     }
   }, [installment, open]);
 
-  const calculateMonthlyAmount = () => {
-    const total = typeof formData.total_amount === 'number' ? formData.total_amount : 0;
-    const tax = typeof formData.tax === 'number' ? formData.tax : 0;
-    const installmentsCount = typeof formData.installments === 'number' ? formData.installments : 0;
-
-    if (installmentsCount > 0 && total > 0) {
-      const totalWithTax = total + (total * tax / 100);
-      return totalWithTax / installmentsCount;
-    }
-    return 0;
+  // Tabla de amortización con los valores actuales del formulario
+  const calculateSchedule = () => {
+    return buildAmortizationSchedule({
+      principal: typeof formData.total_amount === 'number' ? formData.total_amount : 0,
+      periods: typeof formData.installments === 'number' ? formData.installments : 0,
+      interestType: formData.interest_type,
+      annualRate: typeof formData.annual_rate === 'number' ? formData.annual_rate : 0,
+      flatRate: typeof formData.tax === 'number' ? formData.tax : 0,
+    });
   };
 
-  const calculateTotalWithTax = () => {
-    const total = typeof formData.total_amount === 'number' ? formData.total_amount : 0;
-    const tax = typeof formData.tax === 'number' ? formData.tax : 0;
-    return total + (total * tax / 100);
+  const schedule = calculateSchedule();
+  const totalInterest = schedule.reduce((sum, row) => sum + row.interest, 0);
+  const totalWithInterest = schedule.reduce((sum, row) => sum + row.payment, 0);
+
+  // Primera cuota (con amortización alemana las siguientes son menores)
+  const calculateMonthlyAmount = () => {
+    return schedule.length > 0 ? schedule[0].payment : 0;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -115,7 +131,8 @@ export default function InstallmentForm({ open, onClose, onSubmit, installment,
       const sanitizedTotalAmount = sanitizeNumber(formData.total_amount);
       const sanitizedInstallments = sanitizeNumber(formData.installments);
       const sanitizedCurrentInstallment = sanitizeNumber(formData.current_installment);
-      const sanitizedTax = sanitizeNumber(formData.tax);
+      const sanitizedTax = formData.interest_type === 'flat' ? sanitizeNumber(formData.tax) : 0;
+      const sanitizedAnnualRate = formData.interest_type === 'flat' ? 0 : sanitizeNumber(formData.annual_rate);
 
       if (!sanitizedDescription || sanitizedDescription.length < 3) {
         toast.error(t.installments.descriptionValidation);
@@ -132,6 +149,11 @@ export default function InstallmentForm({ open, onClose, onSubmit, installment,
         return;
       }
 
+      if (sanitizedAnnualRate < 0 || sanitizedAnnualRate > 200) {
+        toast.error(t.installments.annualRateValidation);
+        return;
+      }
+
       if (!formData.category_id) {
         toast.error(t.installments.categoryValidation);
         return;
@@ -156,6 +178,9 @@ export default function InstallmentForm({ open, onClose, onSubmit, installment,
         currency: formData.currency,
         start_date: Timestamp.fromDate(startDateObj),
         tax: sanitizedTax,
+        interest_type: formData.interest_type,
+        annual_rate: sanitizedAnnualRate,
+        account_id: formData.account_id,
       });
     } catch (error: any) {
       console.error('Error submitting installment:', error);
@@ -211,24 +236,65 @@ export default function InstallmentForm({ open, onClose, onSubmit, installment,
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="tax">{t.installments.taxField}</Label>
-              <Input
-                id="tax"
-                type="number"
-                min="0"
-                step="0.01"
-                placeholder={t.installments.taxPlaceholder}
-                value={formData.tax}
-                onChange={(e) =>
-                  setFormData({ ...formData, tax: e.target.value === '' ? '' : parseFloat(e.target.value) })
-                }
-                className="bg-white dark:bg-gray-900"
-              />
+              <Label htmlFor="interest_type">{t.installments.interestTypeField}</Label>
+              <Select
+                value={formData.interest_type}
+                onValueChange={(value) => setFormData({ ...formData, interest_type: value as InstallmentInterestType })}
+              >
+                <SelectTrigger id="interest_type" className="bg-white dark:bg-gray-900">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INTEREST_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {t.installments.interestTypes[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <p className="text-xs text-gray-500 dark:text-gray-400">
-                {t.installments.taxHelp}
+                {t.installments.interestTypeHelp[formData.interest_type]}
               </p>
             </div>
 
+            {formData.interest_type === 'flat' ? (
+              <div className="space-y-2">
+                <Label htmlFor="tax">{t.installments.taxField}</Label>
+                <Input
+                  id="tax"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder={t.installments.taxPlaceholder}
+                  value={formData.tax}
+                  onChange={(e) =>
+                    setFormData({ ...formData, tax: e.target.value === '' ? '' : parseFloat(e.target.value) })
+                  }
+                  className="bg-white dark:bg-gray-900"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {t.installments.taxHelp}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="annual_rate">{t.installments.annualRateField}</Label>
+                <Input
+                  id="annual_rate"
+                  type="number"
+                  min="0"
+                  max="200"
+                  step="0.01"
+                  placeholder="18"
+                  value={formData.annual_rate}
+                  onChange={(e) =>
+                    setFormData({ ...formData, annual_rate: e.target.value === '' ? '' : parseFloat(e.target.value) })
+                  }
+                  className="bg-white dark:bg-gray-900"
+                />
+              </div>
+            )}
+
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="total_amount">{t.installments.totalAmountField}</Label>
@@ -315,21 +381,26 @@ export default function InstallmentForm({ open, onClose, onSubmit, installment,
               />
             </div>
 
+            <AccountSelect
+              value={formData.account_id}
+              onChange={(account) => setFormData({ ...formData, account_id: account?.uid || null })}
+            />
+
             {/* Información calculada */}
             <div className="bg-orange-50 dark:bg-orange-900/20 p-4 rounded-lg border border-orange-200 dark:border-orange-800">
               <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 {t.installments.calculatedInfo}
               </p>
               <div className="space-y-1">
-                {(typeof formData.tax === 'number' && formData.tax > 0) && (
+                {totalInterest > 0 && (
                   <p className="text-sm text-gray-600 dark:text-gray-400">
-                    {t.installments.totalWithTax} <span className="font-semibold">
-                      {calculateTotalWithTax().toLocaleString()} {formData.currency}
+                    {formData.interest_type === 'flat' ? t.installments.totalWithTax : t.installments.totalWithInterest} <span className="font-semibold">
+                      {totalWithInterest.toLocaleString()} {formData.currency}
                     </span>
                   </p>
                 )}
                 <p className="text-sm text-gray-600 dark:text-gray-400">
-                  {t.installments.monthlyPayment} <span className="font-semibold text-orange-600 dark:text-orange-400">
+                  {formData.interest_type === 'german' ? t.installments.firstPayment : t.installments.monthlyPayment} <span className="font-semibold text-orange-600 dark:text-orange-400">
                     {calculateMonthlyAmount().toLocaleString()} {formData.currency}
                   </span>
                 </p>
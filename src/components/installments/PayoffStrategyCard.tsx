@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { es, enUS } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, ChevronDown, ChevronUp, Trophy } from 'lucide-react';
+import { PayoffDebt, PayoffResult } from '@/lib/utils/debtPayoff';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface PayoffStrategyCardProps {
+  result: PayoffResult;
+  debts: PayoffDebt[];
+  currency: string;
+  isBest?: boolean;
+}
+
+export default function PayoffStrategyCard({ result, debts, currency, isBest = false }: PayoffStrategyCardProps) {
+  const { t, language } = useLanguage();
+  const [showPlan, setShowPlan] = useState(false);
+
+  const dateLocale = language === 'en' ? enUS : es;
+  const formatAmount = (value: number) =>
+    value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const getDescription = (uid: string | null) => debts.find(debt => debt.uid === uid)?.description || '—';
+
+  return (
+    <div
+      className={`bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-2xl shadow-xl p-6 space-y-4 ${
+        isBest ? 'ring-2 ring-green-500/60' : ''
+      }`}
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-bold text-gray-800 dark:text-gray-200">
+            {t.debtPlanner.strategies[result.strategy]}
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {t.debtPlanner.strategyHelp[result.strategy]}
+          </p>
+        </div>
+        {isBest && (
+          <span className="flex items-center gap-1 text-xs font-semibold px-2 py-1 rounded-full bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400 whitespace-nowrap">
+            <Trophy className="w-3 h-3" />
+            {t.debtPlanner.lowestInterest}
+          </span>
+        )}
+      </div>
+
+      {/* Resumen */}
+      <div className="grid grid-cols-3 gap-3 text-sm">
+        <div>
+          <p className="text-gray-600 dark:text-gray-400">{t.debtPlanner.payoffDate}</p>
+          <p className="font-semibold text-gray-800 dark:text-gray-200">
+            {result.payoffDate
+              ? format(result.payoffDate, 'MMM yyyy', { locale: dateLocale })
+              : t.debtPlanner.neverPaidOff}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600 dark:text-gray-400">{t.debtPlanner.totalInterest}</p>
+          <p className="font-semibold text-red-600 dark:text-red-400">
+            {formatAmount(result.totalInterest)} {currency}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600 dark:text-gray-400">{t.debtPlanner.totalPaid}</p>
+          <p className="font-semibold text-gray-800 dark:text-gray-200">
+            {formatAmount(result.totalPaid)} {currency}
+          </p>
+        </div>
+      </div>
+
+      {/* Orden de pago */}
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">{t.debtPlanner.payoffOrder}</p>
+        {result.payoffOrder.map((item, index) => (
+          <div key={item.uid} className="flex items-center justify-between gap-3 text-sm">
+            <span className="text-gray-600 dark:text-gray-400 truncate">
+              {index + 1}. {item.description}
+            </span>
+            <span className="text-gray-800 dark:text-gray-200 whitespace-nowrap">
+              {format(item.date, 'MMM yyyy', { locale: dateLocale })}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Plan mes a mes */}
+      <Button variant="outline" size="sm" onClick={() => setShowPlan(!showPlan)} className="w-full">
+        {showPlan ? <ChevronUp className="w-4 h-4 mr-2" /> : <ChevronDown className="w-4 h-4 mr-2" />}
+        {showPlan ? t.debtPlanner.hidePlan : t.debtPlanner.showPlan}
+      </Button>
+
+      {showPlan && (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                <th className="py-2 pr-3 font-medium">{t.debtPlanner.planMonth}</th>
+                <th className="py-2 pr-3 font-medium">{t.debtPlanner.planFocus}</th>
+                <th className="py-2 pr-3 font-medium text-right">{t.debtPlanner.planPayment}</th>
+                <th className="py-2 pr-3 font-medium text-right">{t.debtPlanner.planInterest}</th>
+                <th className="py-2 font-medium text-right">{t.debtPlanner.planBalance}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.months.map((row) => (
+                <tr key={row.month} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-800 dark:text-gray-200">
+                  <td className="py-1.5 pr-3 whitespace-nowrap">
+                    {format(row.date, 'MMM yyyy', { locale: dateLocale })}
+                  </td>
+                  <td className="py-1.5 pr-3">
+                    <span className="block truncate max-w-[10rem]">{getDescription(row.focusId)}</span>
+                    {row.paidOffIds.length > 0 && (
+                      <span className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+                        <CheckCircle2 className="w-3 h-3" />
+                        {t.debtPlanner.paidOff.replace('{debts}', row.paidOffIds.map(getDescription).join(', '))}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-3 text-right font-medium">{formatAmount(row.payment)}</td>
+                  <td className="py-1.5 pr-3 text-right">{formatAmount(row.interest)}</td>
+                  <td className="py-1.5 text-right">{formatAmount(row.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,11 +12,15 @@ import {
   TrendingUp,
   CreditCard,
   Target,
+  Repeat,
+  Wallet,
   LogOut,
   Menu,
   X
 } from 'lucide-react';
 import { toast } from 'sonner';
+import SyncStatusIndicator from '@/components/layout/SyncStatusIndicator';
+import NotificationInbox from '@/components/layout/NotificationInbox';
 
 export default function Navbar() {
   const { user, signOut } = useAuth();
@@ -32,6 +36,8 @@ export default function Navbar() {
     { href: '/expenses', label: t.nav.expenses, icon: TrendingDown },
     { href: '/incomes', label: t.nav.incomes, icon: TrendingUp },
     { href: '/installments', label: t.nav.installments, icon: CreditCard },
+    { href: '/accounts', label: t.nav.accounts, icon: Wallet },
+    { href: '/recurring', label: t.nav.recurring, icon: Repeat },
     { href: '/goals', label: t.nav.goals, icon: Target },
   ];
 
@@ -119,6 +125,12 @@ export default function Navbar() {
 
           {/* User Profile */}
           <div className="flex items-center gap-4">
+            {/* Estado de sincronización (escrituras pendientes sin conexión) */}
+            <SyncStatusIndicator />
+
+            {/* Alertas de presupuesto */}
+            <NotificationInbox />
+
             {/* Mobile menu button */}
             <button
               onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { AlertTriangle, Bell, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { es, enUS } from 'date-fns/locale';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useNotifications } from '@/hooks/useUserCollection';
+import { AppNotification } from '@/lib/types/notification';
+import {
+  deleteNotificationDocument,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from '@/lib/firebase/firestore/notifications';
+
+// Cantidad máxima de notificaciones que se muestran en la bandeja
+const MAX_VISIBLE = 20;
+
+export default function NotificationInbox() {
+  const { t, language } = useLanguage();
+  const router = useRouter();
+  const { data: notifications } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const dateLocale = language === 'en' ? enUS : es;
+  const unreadCount = notifications.filter(notification => !notification.read).length;
+
+  // Más recientes primero (createdAt es null mientras el servidor no lo confirma: va arriba)
+  const sortedNotifications = [...notifications]
+    .sort((a, b) =>
+      (b.createdAt?.toMillis() ?? Number.MAX_SAFE_INTEGER) - (a.createdAt?.toMillis() ?? Number.MAX_SAFE_INTEGER)
+    )
+    .slice(0, MAX_VISIBLE);
+
+  // Cerrar la bandeja cuando se hace click fuera
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const getMessage = (notification: AppNotification) => {
+    const template = notification.threshold >= 100 ? t.notifications.overBudget : t.notifications.nearBudget;
+    return template
+      .replace('{category}', notification.categoryName)
+      .replace('{threshold}', notification.threshold.toString());
+  };
+
+  const getMonthLabel = (month: string) => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return format(new Date(year, monthNumber - 1, 1), 'MMMM yyyy', { locale: dateLocale });
+  };
+
+  const handleOpenNotification = async (notification: AppNotification) => {
+    setIsOpen(false);
+    const [year, monthNumber] = notification.month.split('-').map(Number);
+    router.push(`/categories/${notification.categoryId}?month=${monthNumber - 1}&year=${year}`);
+
+    if (!notification.read) {
+      try {
+        await markNotificationRead(notification.uid);
+      } catch {
+        toast.error(t.notifications.updateError);
+      }
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsRead(notifications);
+    } catch {
+      toast.error(t.notifications.updateError);
+    }
+  };
+
+  const handleDelete = async (e: React.MouseEvent, uid: string) => {
+    e.stopPropagation();
+    try {
+      await deleteNotificationDocument(uid);
+    } catch {
+      toast.error(t.notifications.deleteError);
+    }
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={t.notifications.title}
+        aria-label={t.notifications.title}
+        className="relative p-2 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700 animate-in fade-in slide-in-from-top-2 duration-200">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <span className="font-semibold text-gray-800 dark:text-gray-200">{t.notifications.title}</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {t.notifications.markAllRead}
+              </button>
+            )}
+          </div>
+
+          {sortedNotifications.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+              {t.notifications.empty}
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {sortedNotifications.map((notification) => (
+                <li
+                  key={notification.uid}
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`flex gap-3 px-4 py-3 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors ${
+                    notification.read ? '' : 'bg-blue-50/60 dark:bg-blue-900/10'
+                  }`}
+                >
+                  <AlertTriangle
+                    className={`w-4 h-4 mt-0.5 shrink-0 ${
+                      notification.threshold >= 100 ? 'text-red-600' : 'text-yellow-600'
+                    }`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${notification.read ? 'text-gray-600 dark:text-gray-400' : 'font-medium text-gray-800 dark:text-gray-200'}`}>
+                      {getMessage(notification)}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                      {notification.spent.toLocaleString()} / {notification.limit.toLocaleString()} {notification.currency}
+                      {' · '}
+                      {getMonthLabel(notification.month)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={(e) => handleDelete(e, notification.uid)}
+                    aria-label={t.notifications.delete}
+                    className="self-start p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { AlertTriangle, CloudCheck, CloudOff, RefreshCw } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { clearSyncErrors } from '@/lib/firebase/firestore/pendingWrites';
+import { retryRejectedExpenses } from '@/lib/pwa/serviceWorker';
+
+export default function SyncStatusIndicator() {
+  const { t } = useLanguage();
+  const { online, pendingIds, failedCount } = useSyncStatus();
+  const pendingCount = pendingIds.size;
+
+  if (failedCount > 0) {
+    const message = t.sync.failed.replace('{count}', failedCount.toString());
+    return (
+      <button
+        onClick={() => {
+          clearSyncErrors();
+          // Los gastos rechazados al reenviarlos desde el service worker se vuelven a intentar
+          retryRejectedExpenses();
+        }}
+        title={message}
+        aria-label={message}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+      >
+        <AlertTriangle className="w-4 h-4" />
+        <span className="hidden lg:inline">{t.sync.failedShort}</span>
+      </button>
+    );
+  }
+
+  if (!online) {
+    const message = pendingCount > 0
+      ? t.sync.offlinePending.replace('{count}', pendingCount.toString())
+      : t.sync.offline;
+    return (
+      <span
+        title={message}
+        aria-label={message}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-sm text-gray-600 dark:text-gray-400 bg-gray-100 dark:bg-gray-800"
+      >
+        <CloudOff className="w-4 h-4" />
+        <span className="hidden lg:inline">{t.sync.offline}</span>
+        {pendingCount > 0 && <span className="font-semibold">{pendingCount}</span>}
+      </span>
+    );
+  }
+
+  if (pendingCount > 0) {
+    const message = t.sync.syncing.replace('{count}', pendingCount.toString());
+    return (
+      <span
+        title={message}
+        aria-label={message}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-sm text-amber-700 dark:text-amber-400"
+      >
+        <RefreshCw className="w-4 h-4 animate-spin" />
+        <span className="font-semibold">{pendingCount}</span>
+      </span>
+    );
+  }
+
+  return (
+    <span
+      title={t.sync.synced}
+      aria-label={t.sync.synced}
+      className="flex items-center px-2 py-1 text-green-600 dark:text-green-400"
+    >
+      <CloudCheck className="w-4 h-4" />
+    </span>
+  );
+}
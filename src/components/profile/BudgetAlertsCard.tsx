@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Bell, Save } from "lucide-react";
+import { toast } from "sonner";
+import { BudgetAlertSettings } from "@/lib/types/notification";
+import { DEFAULT_BUDGET_ALERT_SETTINGS } from "@/lib/firebase/firestore/notifications";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+interface BudgetAlertsCardProps {
+  settings?: BudgetAlertSettings;
+  onSave: (settings: BudgetAlertSettings) => Promise<void>;
+}
+
+// Convierte "80, 100" en [80, 100]; devuelve null si algún valor no es un porcentaje válido
+const parseThresholds = (text: string): number[] | null => {
+  const values = text.split(',').map(value => value.trim()).filter(Boolean).map(Number);
+  if (values.length === 0 || values.length > 5) return null;
+  if (values.some(value => !Number.isInteger(value) || value < 1 || value > 500)) return null;
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+};
+
+export default function BudgetAlertsCard({ settings, onSave }: BudgetAlertsCardProps) {
+  const { t } = useLanguage();
+  const current = settings || DEFAULT_BUDGET_ALERT_SETTINGS;
+  const [enabled, setEnabled] = useState(current.enabled);
+  const [email, setEmail] = useState(current.email);
+  const [thresholdsText, setThresholdsText] = useState(current.thresholds.join(', '));
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    const thresholds = parseThresholds(thresholdsText);
+    if (!thresholds) {
+      toast.error(t.budgetAlerts.thresholdsValidation);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await onSave({ enabled, thresholds, email });
+      setThresholdsText(thresholds.join(', '));
+      toast.success(t.budgetAlerts.saveSuccess);
+    } catch (error) {
+      console.error('Error saving budget alert settings:', error);
+      toast.error(t.profile.updateError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Bell className="w-5 h-5 text-amber-600" />
+          {t.budgetAlerts.title}
+        </CardTitle>
+        <CardDescription className="mt-1">
+          {t.budgetAlerts.description}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="budget-alerts-enabled">{t.budgetAlerts.enabled}</Label>
+          <Switch id="budget-alerts-enabled" checked={enabled} onCheckedChange={setEnabled} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="budget-alerts-thresholds">{t.budgetAlerts.thresholds}</Label>
+          <Input
+            id="budget-alerts-thresholds"
+            value={thresholdsText}
+            onChange={(e) => setThresholdsText(e.target.value)}
+            placeholder="80, 100"
+            disabled={!enabled}
+            className="bg-white dark:bg-gray-900"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t.budgetAlerts.thresholdsHelp}</p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="budget-alerts-email">{t.budgetAlerts.email}</Label>
+          <Switch id="budget-alerts-email" checked={email} onCheckedChange={setEmail} disabled={!enabled} />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? t.common.saving : t.common.save}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
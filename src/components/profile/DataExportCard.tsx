@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Download, FileJson, FileSpreadsheet, FileText } from "lucide-react";
+import { toast } from "sonner";
+import { buildExportFile, downloadFile, ExportFormat, gatherUserData } from "@/lib/utils/dataExport";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+interface DataExportCardProps {
+  userId: string;
+}
+
+export default function DataExportCard({ userId }: DataExportCardProps) {
+  const { t } = useLanguage();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setExporting(exportFormat);
+    try {
+      const data = await gatherUserData(userId);
+      const { fileName, content, mimeType } = buildExportFile(data, exportFormat);
+      downloadFile(fileName, content, mimeType);
+      toast.success(t.dataExport.exportSuccess);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error(t.dataExport.exportError);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const options: { format: ExportFormat; label: string; description: string; icon: typeof FileText }[] = [
+    { format: 'csv', label: t.dataExport.csv, description: t.dataExport.csvDescription, icon: FileText },
+    { format: 'json', label: t.dataExport.json, description: t.dataExport.jsonDescription, icon: FileJson },
+    { format: 'xlsx', label: t.dataExport.xlsx, description: t.dataExport.xlsxDescription, icon: FileSpreadsheet },
+  ];
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Download className="w-5 h-5 text-blue-600" />
+          {t.dataExport.title}
+        </CardTitle>
+        <CardDescription className="mt-1">
+          {t.dataExport.description}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {options.map(({ format, label, description, icon: Icon }) => (
+          <Button
+            key={format}
+            variant="outline"
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+            className="h-auto flex-col items-start gap-1 p-4 text-left whitespace-normal"
+          >
+            <span className="flex items-center gap-2 font-semibold">
+              <Icon className="w-4 h-4 text-blue-600" />
+              {exporting === format ? t.dataExport.exporting : label}
+            </span>
+            <span className="text-xs font-normal text-gray-500 dark:text-gray-400">{description}</span>
+          </Button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { AlertTriangle, ArchiveRestore, Upload, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { gatherUserData } from "@/lib/utils/dataExport";
+import { parseBackupArchive, planRestore, RestoreCollection, RestoreIssue, RestorePlan } from "@/lib/utils/dataRestore";
+import { restoreBackupDocuments } from "@/lib/firebase/firestore/backup";
+import { createRateLimiter } from "@/lib/utils/rateLimiter";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+interface DataRestoreCardProps {
+  userId: string;
+}
+
+const COLLECTIONS: RestoreCollection[] = ['categories', 'installments', 'goals', 'accounts', 'expenses', 'income', 'transfers'];
+
+export default function DataRestoreCard({ userId }: DataRestoreCardProps) {
+  const { t } = useLanguage();
+  const [fileName, setFileName] = useState('');
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setAnalyzing(true);
+    setPlan(null);
+    try {
+      const archive = parseBackupArchive(await file.text());
+      // Dry-run: se compara contra los datos actuales sin escribir nada
+      const existing = await gatherUserData(userId);
+      setFileName(file.name);
+      setPlan(planRestore(archive, existing, userId));
+    } catch (error) {
+      console.error('Error analyzing backup:', error);
+      toast.error(t.dataRestore.invalidFile);
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!plan) return;
+    setConfirmOpen(false);
+
+    const rateLimitCheck = createRateLimiter.checkLimit(userId);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.dataRestore.rateLimitCreate.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      const written = await restoreBackupDocuments(plan.documents);
+      toast.success(t.dataRestore.restoreSuccess.replace('{count}', written.toString()));
+      setPlan(null);
+      setFileName('');
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error(t.dataRestore.restoreError);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const renderIssues = (issues: RestoreIssue[], tone: 'warning' | 'error') => (
+    <ul className="max-h-40 overflow-y-auto space-y-1 text-sm">
+      {issues.map((issue, index) => (
+        <li
+          key={index}
+          className={`flex items-start gap-2 ${tone === 'warning' ? 'text-yellow-700 dark:text-yellow-400' : 'text-red-600 dark:text-red-400'}`}
+        >
+          {tone === 'warning'
+            ? <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            : <XCircle className="w-4 h-4 mt-0.5 shrink-0" />}
+          <span>
+            <span className="font-medium">{t.dataRestore.collections[issue.collection]}:</span>{' '}
+            {issue.label} — {t.dataRestore.reasons[issue.reason]}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <ArchiveRestore className="w-5 h-5 text-blue-600" />
+          {t.dataRestore.title}
+        </CardTitle>
+        <CardDescription className="mt-1">
+          {t.dataRestore.description}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label
+          htmlFor="restore-file"
+          className="flex items-center justify-center gap-2 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-4 cursor-pointer hover:border-blue-400 dark:hover:border-blue-500 transition-colors text-sm font-medium"
+        >
+          <Upload className="w-4 h-4 text-blue-600" />
+          {analyzing ? t.dataRestore.analyzing : fileName || t.dataRestore.chooseFile}
+        </label>
+        <input
+          id="restore-file"
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileChange}
+          disabled={analyzing || restoring}
+        />
+
+        {plan && (
+          <div className="space-y-4">
+            <div>
+              <p className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-2">{t.dataRestore.dryRunTitle}</p>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {COLLECTIONS.map((collection) => (
+                  <div key={collection} className="rounded-lg bg-blue-50 dark:bg-blue-900/20 p-2 text-center">
+                    <p className="text-lg font-bold text-blue-700 dark:text-blue-300">{plan.counts[collection]}</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">{t.dataRestore.collections[collection]}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {plan.conflicts.length > 0 && (
+              <div>
+                <p className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                  {t.dataRestore.conflictsTitle.replace('{count}', plan.conflicts.length.toString())}
+                </p>
+                {renderIssues(plan.conflicts, 'warning')}
+              </div>
+            )}
+
+            {plan.invalid.length > 0 && (
+              <div>
+                <p className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                  {t.dataRestore.invalidTitle.replace('{count}', plan.invalid.length.toString())}
+                </p>
+                {renderIssues(plan.invalid, 'error')}
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setPlan(null);
+                  setFileName('');
+                }}
+                disabled={restoring}
+                className="w-full sm:flex-1"
+              >
+                {t.common.cancel}
+              </Button>
+              <Button
+                onClick={() => setConfirmOpen(true)}
+                disabled={restoring || plan.documents.length === 0}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold shadow-lg w-full sm:flex-1"
+              >
+                {restoring
+                  ? t.dataRestore.restoring
+                  : t.dataRestore.restoreButton.replace('{count}', plan.documents.length.toString())}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <ConfirmDialog
+          open={confirmOpen}
+          onOpenChange={setConfirmOpen}
+          title={t.dataRestore.confirmTitle}
+          description={t.dataRestore.confirmDescription}
+          onConfirm={handleRestore}
+          confirmText={t.dataRestore.confirmButton}
+          cancelText={t.common.cancel}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowRightLeft, Plus, Trash2 } from "lucide-react";
+import { Timestamp } from "firebase/firestore";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ExchangeRate } from "@/lib/types/exchangeRate";
+import {
+  createExchangeRateDocument,
+  deleteExchangeRateDocument,
+  getUserExchangeRates,
+} from "@/lib/firebase/firestore/exchangeRates";
+import { SUPPORTED_CURRENCIES } from "@/lib/utils/currencyConversion";
+import { createLocalDate, dateToLocalString } from "@/lib/utils/dates";
+import { sanitizeNumber } from "@/lib/utils/sanitize";
+import { createRateLimiter, deleteRateLimiter } from "@/lib/utils/rateLimiter";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+interface ExchangeRatesCardProps {
+  userId: string;
+  baseCurrency?: string;
+  onBaseCurrencyChange: (currency: string) => Promise<void>;
+}
+
+export default function ExchangeRatesCard({ userId, baseCurrency, onBaseCurrencyChange }: ExchangeRatesCardProps) {
+  const { t } = useLanguage();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<{
+    fromCurrency: string;
+    toCurrency: string;
+    rate: number | '';
+    date: string;
+  }>({
+    fromCurrency: 'USD',
+    toCurrency: baseCurrency && baseCurrency !== 'USD' ? baseCurrency : 'CRC',
+    rate: '',
+    date: dateToLocalString(new Date()),
+  });
+
+  const loadRates = useCallback(async () => {
+    try {
+      const userRates = await getUserExchangeRates(userId);
+      // Más recientes primero
+      userRates.sort((a, b) => b.date.toMillis() - a.date.toMillis());
+      setRates(userRates);
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+      toast.error(t.exchangeRates.loadError);
+    }
+  }, [userId, t]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  const handleBaseCurrencyChange = async (value: string) => {
+    try {
+      await onBaseCurrencyChange(value);
+      toast.success(t.exchangeRates.baseCurrencyUpdated);
+    } catch (error) {
+      console.error('Error updating base currency:', error);
+      toast.error(t.profile.updateError);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const sanitizedRate = sanitizeNumber(formData.rate);
+    if (!sanitizedRate || sanitizedRate <= 0) {
+      toast.error(t.exchangeRates.rateValidation);
+      return;
+    }
+
+    if (formData.fromCurrency === formData.toCurrency) {
+      toast.error(t.exchangeRates.sameCurrencyValidation);
+      return;
+    }
+
+    if (!formData.date) {
+      toast.error(t.exchangeRates.dateValidation);
+      return;
+    }
+
+    const rateLimitCheck = createRateLimiter.checkLimit(userId);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.exchangeRates.rateLimitCreate.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await createExchangeRateDocument(
+        {
+          fromCurrency: formData.fromCurrency,
+          toCurrency: formData.toCurrency,
+          rate: sanitizedRate,
+          date: Timestamp.fromDate(createLocalDate(formData.date)),
+          userId,
+        },
+        `${userId}_${Date.now()}`
+      );
+      await loadRates();
+      setFormData({ ...formData, rate: '' });
+      toast.success(t.exchangeRates.createSuccess);
+    } catch (error) {
+      console.error('Error creating exchange rate:', error);
+      toast.error(t.exchangeRates.createError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (uid: string) => {
+    const rateLimitCheck = deleteRateLimiter.checkLimit(userId);
+    if (!rateLimitCheck.allowed) {
+      toast.error(
+        t.exchangeRates.rateLimitDelete.replace('{seconds}', rateLimitCheck.retryAfter?.toString() || '0'),
+        { duration: 5000 }
+      );
+      return;
+    }
+
+    try {
+      await deleteExchangeRateDocument(uid);
+      await loadRates();
+      toast.success(t.exchangeRates.deleteSuccess);
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast.error(t.exchangeRates.deleteError);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <ArrowRightLeft className="w-5 h-5 text-blue-600" />
+          {t.exchangeRates.title}
+        </CardTitle>
+        <CardDescription className="mt-1">
+          {t.exchangeRates.description}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">{t.exchangeRates.baseCurrency}</Label>
+          <Select value={baseCurrency || ''} onValueChange={handleBaseCurrencyChange}>
+            <SelectTrigger className="w-full bg-white dark:bg-gray-900">
+              <SelectValue placeholder={t.exchangeRates.noBaseCurrency} />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPORTED_CURRENCIES.map((currency) => (
+                <SelectItem key={currency} value={currency}>
+                  {t.currencies[currency as keyof typeof t.currencies]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t.exchangeRates.baseCurrencyHint}</p>
+        </div>
+
+        <form onSubmit={handleAdd} className="space-y-4 pt-4 border-t">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t.exchangeRates.fromCurrency}</Label>
+              <Select
+                value={formData.fromCurrency}
+                onValueChange={(value) => setFormData({ ...formData, fromCurrency: value })}
+              >
+                <SelectTrigger className="bg-white dark:bg-gray-900">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map((currency) => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.exchangeRates.toCurrency}</Label>
+              <Select
+                value={formData.toCurrency}
+                onValueChange={(value) => setFormData({ ...formData, toCurrency: value })}
+              >
+                <SelectTrigger className="bg-white dark:bg-gray-900">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map((currency) => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate">{t.exchangeRates.rate}</Label>
+              <Input
+                id="rate"
+                type="number"
+                min="0.000001"
+                step="any"
+                placeholder={t.exchangeRates.ratePlaceholder}
+                value={formData.rate}
+                onChange={(e) =>
+                  setFormData({ ...formData, rate: e.target.value === '' ? '' : parseFloat(e.target.value) })
+                }
+                className="bg-white dark:bg-gray-900"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rateDate">{t.exchangeRates.date}</Label>
+              <Input
+                id="rateDate"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                className="bg-white dark:bg-gray-900"
+                required
+              />
+            </div>
+          </div>
+          <Button
+            type="submit"
+            disabled={saving}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold shadow-lg w-full sm:w-auto"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {saving ? t.common.saving : t.exchangeRates.addRate}
+          </Button>
+        </form>
+
+        <div className="space-y-2">
+          {rates.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t.exchangeRates.noRates}</p>
+          ) : (
+            rates.map((rate) => (
+              <div
+                key={rate.uid}
+                className="flex items-center justify-between p-3 rounded-lg bg-gray-50 dark:bg-gray-900/50"
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    1 {rate.fromCurrency} = {rate.rate.toLocaleString()} {rate.toCurrency}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {format(rate.date.toDate(), 'yyyy-MM-dd')}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(rate.uid)}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -19,6 +19,10 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { ThemeSwitch } from "@/components/theme/ThemeSwitch";
+import ExchangeRatesCard from "@/components/profile/ExchangeRatesCard";
+import DataExportCard from "@/components/profile/DataExportCard";
+import DataRestoreCard from "@/components/profile/DataRestoreCard";
+import BudgetAlertsCard from "@/components/profile/BudgetAlertsCard";
 
 interface ProfileContentProps {
   user: User;
@@ -156,6 +160,25 @@ export default function ProfileContent({ user, onSave }: ProfileContentProps) {
             )}
           </CardContent>
         </Card>
+
+        {/* Currency conversion */}
+        <ExchangeRatesCard
+          userId={user.uid}
+          baseCurrency={user.baseCurrency}
+          onBaseCurrencyChange={(currency) => onSave({ baseCurrency: currency })}
+        />
+
+        {/* Budget alerts */}
+        <BudgetAlertsCard
+          settings={user.budgetAlerts}
+          onSave={(budgetAlerts) => onSave({ budgetAlerts })}
+        />
+
+        {/* Data export */}
+        <DataExportCard userId={user.uid} />
+
+        {/* Backup restore */}
+        <DataRestoreCard userId={user.uid} />
       </div>
 
       {/* Sidebar - 1 column on large screens */}
@@ -0,0 +1,112 @@
+import { RecurringRule } from '@/lib/types/recurringRule';
+import { Category } from '@/lib/types/category';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Pencil, Trash2, Calendar, DollarSign, Repeat, CalendarX } from 'lucide-react';
+import { format } from 'date-fns';
+import { es, enUS } from 'date-fns/locale';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface RecurringRuleCardProps {
+  rule: RecurringRule;
+  category?: Category;
+  onEdit: (rule: RecurringRule) => void;
+  onDelete: (uid: string) => void;
+  onToggleActive: (rule: RecurringRule, active: boolean) => void;
+}
+
+export default function RecurringRuleCard({ rule, category, onEdit, onDelete, onToggleActive }: RecurringRuleCardProps) {
+  const { t, language } = useLanguage();
+  const isExpense = rule.type === 'expense';
+
+  const dateLocale = language === 'en' ? enUS : es;
+  const dateFormat = language === 'en' ? "MMMM d, yyyy" : "d 'de' MMMM, yyyy";
+
+  const title = isExpense ? category?.name || t.expenses.noCategory : rule.source;
+  const schedule = rule.frequency === 'monthly' || rule.frequency === 'yearly'
+    ? `${t.recurring.frequencies[rule.frequency]} · ${t.recurring.onDay.replace('{day}', rule.dayOfMonth.toString())}`
+    : t.recurring.frequencies[rule.frequency];
+
+  return (
+    <Card className={`shadow-lg border-0 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm hover:shadow-xl transition-all duration-200 ${rule.active ? '' : 'opacity-60'}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="text-xl font-semibold truncate">{title}</span>
+          <span
+            className={`text-sm font-normal px-3 py-1 rounded-full whitespace-nowrap ${
+              isExpense
+                ? 'text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30'
+                : 'text-green-600 dark:text-green-400 bg-green-100 dark:bg-green-900/30'
+            }`}
+          >
+            {t.recurring.types[rule.type]}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2">
+            <DollarSign className="w-4 h-4" />
+            {t.recurring.amountLabel}
+          </span>
+          <span className={`text-2xl font-bold ${isExpense ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+            {rule.amount.toLocaleString()} {rule.currency}
+          </span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2">
+            <Repeat className="w-4 h-4" />
+            {t.recurring.frequencyLabel}
+          </span>
+          <span className="text-sm font-medium">{schedule}</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2">
+            <Calendar className="w-4 h-4" />
+            {t.recurring.nextRunLabel}
+          </span>
+          <span className="text-sm font-medium">
+            {rule.active ? format(rule.nextRunDate.toDate(), dateFormat, { locale: dateLocale }) : t.recurring.paused}
+          </span>
+        </div>
+        {rule.endDate && (
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2">
+              <CalendarX className="w-4 h-4" />
+              {t.recurring.endDateLabel}
+            </span>
+            <span className="text-sm font-medium">{format(rule.endDate.toDate(), dateFormat, { locale: dateLocale })}</span>
+          </div>
+        )}
+        <div className="flex justify-between items-center pt-2 border-t border-gray-200 dark:border-gray-700">
+          <span className="text-sm text-gray-600 dark:text-gray-400">{t.recurring.activeLabel}</span>
+          <Switch
+            checked={rule.active}
+            onCheckedChange={(checked) => onToggleActive(rule, checked)}
+          />
+        </div>
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1 hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:text-blue-600 dark:hover:text-blue-400 hover:border-blue-300 dark:hover:border-blue-700 transition-all"
+          onClick={() => onEdit(rule)}
+        >
+          <Pencil className="w-4 h-4 mr-2" />
+          {t.common.edit}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1 hover:bg-red-50 dark:hover:bg-red-900/20 hover:text-red-600 dark:hover:text-red-400 hover:border-red-300 dark:hover:border-red-700 transition-all"
+          onClick={() => onDelete(rule.uid)}
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          {t.common.delete}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,381 @@
+import { useState, useEffect } from 'react';
+import { RecurringRule, RecurringFrequency, RecurringRuleType } from '@/lib/types/recurringRule';
+import { Category } from '@/lib/types/category';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Timestamp } from 'firebase/firestore';
+import { createLocalDate, dateToLocalString } from '@/lib/utils/dates';
+import { sanitizeNumber, sanitizeWithMaxLength } from '@/lib/utils/sanitize';
+import { SUPPORTED_CURRENCIES } from '@/lib/utils/currencyConversion';
+import { toast } from 'sonner';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+export interface RecurringRuleFormData {
+  type: RecurringRuleType;
+  frequency: RecurringFrequency;
+  dayOfMonth: number;
+  startDate: Timestamp;
+  endDate: Timestamp | null;
+  amount: number;
+  currency: string;
+  categoryId: string;
+  source: string;
+  note: string;
+}
+
+interface RecurringRuleFormProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (data: RecurringRuleFormData) => Promise<void>;
+  rule?: RecurringRule | null;
+  categories: Category[];
+}
+
+const FREQUENCIES: RecurringFrequency[] = ['weekly', 'biweekly', 'monthly', 'yearly'];
+
+export default function RecurringRuleForm({ open, onClose, onSubmit, rule, categories }: RecurringRuleFormProps) {
+  const { t } = useLanguage();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState<{
+    type: RecurringRuleType;
+    frequency: RecurringFrequency;
+    dayOfMonth: number | '';
+    startDate: string;
+    endDate: string;
+    amount: number | '';
+    currency: string;
+    categoryId: string;
+    source: string;
+    note: string;
+  }>({
+    type: 'expense',
+    frequency: 'monthly',
+    dayOfMonth: 1,
+    startDate: '',
+    endDate: '',
+    amount: '',
+    currency: 'CRC',
+    categoryId: '',
+    source: '',
+    note: '',
+  });
+
+  useEffect(() => {
+    if (rule) {
+      setFormData({
+        type: rule.type,
+        frequency: rule.frequency,
+        dayOfMonth: rule.dayOfMonth,
+        startDate: dateToLocalString(rule.startDate),
+        endDate: rule.endDate ? dateToLocalString(rule.endDate) : '',
+        amount: rule.amount,
+        currency: rule.currency,
+        categoryId: rule.categoryId ? rule.categoryId.id : '',
+        source: rule.source || '',
+        note: rule.note || '',
+      });
+    } else {
+      const today = new Date();
+      setFormData({
+        type: 'expense',
+        frequency: 'monthly',
+        dayOfMonth: today.getDate(),
+        startDate: dateToLocalString(today),
+        endDate: '',
+        amount: '',
+        currency: categories.length === 1 ? categories[0].currency : 'CRC',
+        categoryId: categories.length === 1 ? categories[0].uid : '',
+        source: '',
+        note: '',
+      });
+    }
+  }, [rule, open, categories]);
+
+  const usesDayOfMonth = formData.frequency === 'monthly' || formData.frequency === 'yearly';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const sanitizedAmount = sanitizeNumber(formData.amount);
+      const sanitizedNote = formData.note ? sanitizeWithMaxLength(formData.note, 500) : '';
+      const sanitizedSource = formData.type === 'income' ? sanitizeWithMaxLength(formData.source, 100) : '';
+      const dayOfMonth = usesDayOfMonth
+        ? sanitizeNumber(formData.dayOfMonth)
+        : createLocalDate(formData.startDate || dateToLocalString(new Date())).getDate();
+
+      if (!sanitizedAmount || sanitizedAmount <= 0) {
+        toast.error(t.recurring.amountValidation);
+        return;
+      }
+
+      if (formData.type === 'expense' && !formData.categoryId) {
+        toast.error(t.recurring.categoryValidation);
+        return;
+      }
+
+      if (formData.type === 'income' && sanitizedSource.length < 2) {
+        toast.error(t.recurring.sourceValidation);
+        return;
+      }
+
+      if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+        toast.error(t.recurring.dayOfMonthValidation);
+        return;
+      }
+
+      if (!formData.startDate) {
+        toast.error(t.recurring.startDateValidation);
+        return;
+      }
+
+      const startDate = createLocalDate(formData.startDate);
+      const endDate = formData.endDate ? createLocalDate(formData.endDate) : null;
+
+      if (endDate && endDate < startDate) {
+        toast.error(t.recurring.endDateValidation);
+        return;
+      }
+
+      setLoading(true);
+      await onSubmit({
+        type: formData.type,
+        frequency: formData.frequency,
+        dayOfMonth,
+        startDate: Timestamp.fromDate(startDate),
+        endDate: endDate ? Timestamp.fromDate(endDate) : null,
+        amount: sanitizedAmount,
+        currency: formData.currency,
+        categoryId: formData.type === 'expense' ? formData.categoryId : '',
+        source: sanitizedSource,
+        note: sanitizedNote,
+      });
+    } catch (error) {
+      console.error('Error submitting recurring rule:', error);
+      toast.error(error instanceof Error ? error.message : t.recurring.saveError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold bg-gradient-to-r from-indigo-600 to-sky-600 bg-clip-text text-transparent">
+            {rule ? t.recurring.formTitleEdit : t.recurring.formTitleNew}
+          </DialogTitle>
+          <DialogDescription>
+            {rule ? t.recurring.formDescriptionEdit : t.recurring.formDescriptionNew}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t.recurring.typeField}</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => setFormData({ ...formData, type: value as RecurringRuleType })}
+                  disabled={!!rule}
+                >
+                  <SelectTrigger className="bg-white dark:bg-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">{t.recurring.types.expense}</SelectItem>
+                    <SelectItem value="income">{t.recurring.types.income}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t.recurring.frequencyField}</Label>
+                <Select
+                  value={formData.frequency}
+                  onValueChange={(value) => setFormData({ ...formData, frequency: value as RecurringFrequency })}
+                >
+                  <SelectTrigger className="bg-white dark:bg-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FREQUENCIES.map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {t.recurring.frequencies[frequency]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {formData.type === 'expense' ? (
+              <div className="space-y-2">
+                <Label>{t.recurring.categoryField}</Label>
+                <Select
+                  value={formData.categoryId}
+                  onValueChange={(value) => setFormData({ ...formData, categoryId: value })}
+                >
+                  <SelectTrigger className="bg-white dark:bg-gray-900">
+                    <SelectValue placeholder={t.recurring.selectCategoryPlaceholder} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.uid} value={category.uid}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="source">{t.recurring.sourceField}</Label>
+                <Input
+                  id="source"
+                  placeholder={t.recurring.sourcePlaceholder}
+                  value={formData.source}
+                  onChange={(e) => setFormData({ ...formData, source: e.target.value })}
+                  className="bg-white dark:bg-gray-900"
+                  required
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="amount">{t.recurring.amountField}</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  placeholder={t.recurring.amountPlaceholder}
+                  value={formData.amount}
+                  onChange={(e) =>
+                    setFormData({ ...formData, amount: e.target.value === '' ? '' : parseFloat(e.target.value) })
+                  }
+                  className="bg-white dark:bg-gray-900"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t.recurring.currencyField}</Label>
+                <Select
+                  value={formData.currency}
+                  onValueChange={(value) => setFormData({ ...formData, currency: value })}
+                >
+                  <SelectTrigger className="bg-white dark:bg-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <SelectItem key={currency} value={currency}>
+                        {t.currencies[currency as keyof typeof t.currencies]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {usesDayOfMonth && (
+                <div className="space-y-2">
+                  <Label htmlFor="dayOfMonth">{t.recurring.dayOfMonthField}</Label>
+                  <Input
+                    id="dayOfMonth"
+                    type="number"
+                    min="1"
+                    max="31"
+                    step="1"
+                    value={formData.dayOfMonth}
+                    onChange={(e) =>
+                      setFormData({ ...formData, dayOfMonth: e.target.value === '' ? '' : parseInt(e.target.value) })
+                    }
+                    className="bg-white dark:bg-gray-900"
+                    required
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="startDate">{t.recurring.startDateField}</Label>
+                <Input
+                  id="startDate"
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                  className="bg-white dark:bg-gray-900"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="endDate">{t.recurring.endDateField}</Label>
+                <Input
+                  id="endDate"
+                  type="date"
+                  value={formData.endDate}
+                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                  className="bg-white dark:bg-gray-900"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t.recurring.scheduleHint}</p>
+
+            {formData.type === 'expense' && (
+              <div className="space-y-2">
+                <Label htmlFor="note">{t.recurring.noteField}</Label>
+                <Textarea
+                  id="note"
+                  placeholder={t.recurring.notePlaceholder}
+                  value={formData.note}
+                  onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                  className="bg-white dark:bg-gray-900 min-h-[80px]"
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={loading}
+              className="hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              {t.common.cancel}
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading}
+              className="bg-gradient-to-r from-indigo-600 to-sky-600 hover:from-indigo-700 hover:to-sky-700 text-white font-semibold shadow-lg shadow-indigo-500/50 dark:shadow-indigo-900/50"
+            >
+              {loading ? t.common.saving : rule ? t.common.update : t.common.create}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
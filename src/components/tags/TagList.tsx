@@ -0,0 +1,26 @@
+import { Tag } from 'lucide-react';
+
+interface TagListProps {
+  tags?: string[];
+}
+
+/**
+ * Etiquetas de un movimiento en las tarjetas de gastos e ingresos.
+ */
+export default function TagList({ tags }: TagListProps) {
+  if (!tags || tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 rounded-full bg-blue-100 dark:bg-blue-900/30 px-2 py-0.5 text-xs font-medium text-blue-700 dark:text-blue-300"
+        >
+          <Tag className="w-3 h-3" />
+          {tag}
+        </span>
+      ))}
+    </div>
+  );
+}
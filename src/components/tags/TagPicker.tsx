@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tag, X } from 'lucide-react';
+import { useUserTags } from '@/hooks/useUserCollection';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { getUserTagList, MAX_TAG_LENGTH, MAX_TAGS, normalizeTag } from '@/lib/utils/tags';
+
+// Sugerencias que se muestran a la vez
+const MAX_SUGGESTIONS = 6;
+
+interface TagPickerProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Selector de etiquetas libres para gastos e ingresos. Sugiere las etiquetas ya usadas
+ * (de la más a la menos frecuente) y normaliza las nuevas al agregarlas.
+ */
+export default function TagPicker({ value, onChange, disabled = false }: TagPickerProps) {
+  const { t } = useLanguage();
+  const { data: userTags } = useUserTags();
+  const [input, setInput] = useState('');
+  const [focused, setFocused] = useState(false);
+
+  const query = normalizeTag(input);
+  const suggestions = getUserTagList(userTags[0])
+    .filter(tag => !value.includes(tag) && (!query || tag.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+  const isFull = value.length >= MAX_TAGS;
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setInput('');
+    if (!tag || value.includes(tag) || isFull) return;
+    onChange([...value, tag]);
+  };
+
+  const removeTag = (tag: string) => onChange(value.filter(item => item !== tag));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      // Enter agrega la etiqueta en lugar de enviar el formulario
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && input === '' && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="tags">{t.tags.field}</Label>
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-1.5 rounded-md border border-input bg-white dark:bg-gray-900 px-2 py-1.5">
+          {value.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 rounded-full bg-blue-100 dark:bg-blue-900/30 px-2 py-0.5 text-xs font-medium text-blue-700 dark:text-blue-300"
+            >
+              <Tag className="w-3 h-3" />
+              {tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                disabled={disabled}
+                className="hover:text-blue-900 dark:hover:text-blue-100"
+                aria-label={t.tags.remove.replace('{tag}', tag)}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <Input
+            id="tags"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setFocused(true)}
+            onBlur={() => {
+              setFocused(false);
+              if (input) addTag(input);
+            }}
+            placeholder={isFull ? t.tags.limitReached.replace('{max}', MAX_TAGS.toString()) : t.tags.placeholder}
+            disabled={disabled || isFull}
+            maxLength={MAX_TAG_LENGTH}
+            className="h-7 flex-1 min-w-[8rem] border-0 p-0 shadow-none focus-visible:ring-0 bg-transparent dark:bg-transparent"
+          />
+        </div>
+        {focused && !isFull && suggestions.length > 0 && (
+          <ul className="absolute z-50 mt-1 w-full rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 py-1 shadow-lg">
+            {suggestions.map((tag) => (
+              <li key={tag}>
+                <button
+                  type="button"
+                  // mousedown evita que el blur del input se adelante al click
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    addTag(tag);
+                  }}
+                  className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+                >
+                  <Tag className="w-3 h-3 text-gray-400" />
+                  {tag}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">{t.tags.help}</p>
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
 import { User as FirebaseUser } from 'firebase/auth';
 import { User } from '@/lib/types/user';
 import { onAuthChange, signOut as firebaseSignOut } from '@/lib/firebase/auth';
-import { getUserDocument } from '@/lib/firebase/firestore/users';
+import { getUserDocument, updateUserDocument } from '@/lib/firebase/firestore/users';
+import { getLocalTimeZone } from '@/lib/utils/recurrence';
 import { verifyUserToken } from '@/lib/firebase/tokenValidation';
 import {
   registerSession,
@@ -15,6 +16,8 @@ import {
   enforceSessionLimit,
   updateSessionActivity,
 } from '@/lib/firebase/firestore/sessions';
+import { clearCollectionListeners } from '@/lib/firebase/firestore/listeners';
+import { flushPendingWrites, resetFirestoreCache } from '@/lib/firebase/client';
 import { toast } from 'sonner';
 
 interface AuthContextType {
@@ -40,6 +43,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [sessionId, setSessionId] = useState<string | null>(null);
+  // El cierre de sesión de esta pestaña ya borra la caché en signOut
+  const signingOut = useRef(false);
 
   const loadUserData = async (fbUser: FirebaseUser, retryCount = 0) => {
     try {
@@ -54,6 +59,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
 
       setUser(userData);
+
+      // Las Cloud Functions agrupan los gastos por mes en la zona horaria del usuario, igual que el navegador
+      const timeZone = getLocalTimeZone();
+      if (userData && userData.timeZone !== timeZone) {
+        updateUserDocument(fbUser.uid, { timeZone }).catch((error) => {
+          console.error('Error saving user time zone:', error);
+        });
+      }
     } catch (error) {
       console.error('Error loading user data:');
       setUser(null);
@@ -67,8 +80,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   useEffect(() => {
+    let hadUser = false;
     const unsubscribe = onAuthChange(async (fbUser) => {
       setFirebaseUser(fbUser);
+      const wasSignedIn = hadUser;
+      hadUser = !!fbUser;
 
       if (fbUser) {
         // Verificar que el token sea válido
@@ -134,6 +150,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           console.error('[Auth] Error al registrar sesión');
         }
       } else {
+        // Sesión cerrada en otra pestaña: esta también suelta (y borra) la caché local
+        if (wasSignedIn && !signingOut.current) {
+          clearCollectionListeners();
+          await resetFirestoreCache();
+        }
         setUser(null);
         setSessionId(null);
       }
@@ -158,7 +179,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
       }
 
-      await firebaseSignOut();
+      // Sincronizar lo pendiente mientras la sesión sigue activa
+      await flushPendingWrites();
+
+      // Cerrar los listeners antes de perder permisos de lectura
+      clearCollectionListeners();
+
+      signingOut.current = true;
+      try {
+        await firebaseSignOut();
+        await resetFirestoreCache();
+      } finally {
+        signingOut.current = false;
+      }
       setFirebaseUser(null);
       setUser(null);
       setSessionId(null);
@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { onIdTokenChanged, User as FirebaseUser } from 'firebase/auth';
+import { auth } from '@/lib/firebase/client';
+import { registerServiceWorker, updateServiceWorkerAuth } from '@/lib/pwa/serviceWorker';
+
+const sendAuthToWorker = async (firebaseUser: FirebaseUser | null) => {
+  if (!firebaseUser) {
+    updateServiceWorkerAuth(null);
+    return;
+  }
+
+  try {
+    const { token, expirationTime } = await firebaseUser.getIdTokenResult();
+    updateServiceWorkerAuth({
+      token,
+      expiresAt: new Date(expirationTime).getTime(),
+      userId: firebaseUser.uid,
+      projectId: auth.app.options.projectId || '',
+    });
+  } catch {
+    console.error('[Service Worker] Error al obtener el token');
+  }
+};
+
+/**
+ * Hook que registra el service worker de la PWA y le mantiene actualizado el
+ * ID token del usuario para que Background Sync pueda reenviar gastos encolados
+ */
+export function useServiceWorker() {
+  useEffect(() => {
+    registerServiceWorker();
+
+    // En la primera visita el worker toma control después de cargar la página
+    const handleControllerChange = () => sendAuthToWorker(auth.currentUser);
+    navigator.serviceWorker?.addEventListener('controllerchange', handleControllerChange);
+
+    // Firebase renueva el token cada hora mientras la app está abierta
+    const unsubscribe = onIdTokenChanged(auth, sendAuthToWorker);
+
+    return () => {
+      unsubscribe();
+      navigator.serviceWorker?.removeEventListener('controllerchange', handleControllerChange);
+    };
+  }, []);
+}
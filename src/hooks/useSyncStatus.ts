@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getSyncStatus, subscribeToSyncStatus, SyncStatus } from '@/lib/firebase/firestore/pendingWrites';
+
+const SERVER_STATUS: SyncStatus = { online: true, pendingIds: new Set(), failedCount: 0 };
+
+/**
+ * Hook que expone el estado de conexión y las escrituras pendientes de sincronizar
+ */
+export function useSyncStatus(): SyncStatus {
+  return useSyncExternalStore(subscribeToSyncStatus, getSyncStatus, () => SERVER_STATUS);
+}
@@ -0,0 +1,81 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  CollectionState,
+  collectionGroupPath,
+  getUserCollectionState,
+  subscribeToUserCollection,
+} from '@/lib/firebase/firestore/listeners';
+import { Category } from '@/lib/types/category';
+import { Expense } from '@/lib/types/expense';
+import { Income } from '@/lib/types/income';
+import { Installment } from '@/lib/types/installment';
+import Goal, { GoalContribution } from '@/lib/types/goal';
+import { ExchangeRate } from '@/lib/types/exchangeRate';
+import { RecurringRule } from '@/lib/types/recurringRule';
+import { GoalFundingRule } from '@/lib/types/goalFundingRule';
+import { AppNotification } from '@/lib/types/notification';
+import { Account } from '@/lib/types/account';
+import { Transfer } from '@/lib/types/transfer';
+import { UserTags } from '@/lib/types/tag';
+
+const SIGNED_OUT_STATE: CollectionState<never> = { data: [], loading: false, error: null };
+
+/**
+ * Hook que mantiene sincronizada en tiempo real una colección del usuario autenticado.
+ * Los cambios hechos en otra pestaña o dispositivo se reflejan sin recargar.
+ *
+ * @param collectionName - Ruta de la colección en Firestore (filtrada por userId); admite subcolecciones
+ *                         como 'goals/{goalId}/contributions'
+ */
+export function useUserCollection<T>(collectionName: string): CollectionState<T> {
+  const { user } = useAuth();
+  const userId = user?.uid;
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      if (!userId) return () => {};
+      return subscribeToUserCollection(collectionName, userId, onChange);
+    },
+    [collectionName, userId]
+  );
+
+  const getSnapshot = useCallback(
+    () => (userId ? getUserCollectionState<T>(collectionName, userId) : SIGNED_OUT_STATE),
+    [collectionName, userId]
+  );
+
+  return useSyncExternalStore(subscribe, getSnapshot, () => SIGNED_OUT_STATE);
+}
+
+export const useCategories = () => useUserCollection<Category>('categories');
+
+export const useExpenses = () => useUserCollection<Expense>('expenses');
+
+export const useIncomes = () => useUserCollection<Income>('income');
+
+export const useInstallments = () => useUserCollection<Installment>('installments');
+
+export const useGoals = () => useUserCollection<Goal>('goals');
+
+export const useGoalContributions = (goalId: string) =>
+  useUserCollection<GoalContribution>(`goals/${goalId}/contributions`);
+
+// Abonos de todas las metas del usuario
+export const useAllGoalContributions = () =>
+  useUserCollection<GoalContribution>(collectionGroupPath('contributions'));
+
+export const useGoalFundingRules = () => useUserCollection<GoalFundingRule>('goalFundingRules');
+
+export const useExchangeRates = () => useUserCollection<ExchangeRate>('exchangeRates');
+
+export const useRecurringRules = () => useUserCollection<RecurringRule>('recurringRules');
+
+export const useNotifications = () => useUserCollection<AppNotification>('notifications');
+
+export const useAccounts = () => useUserCollection<Account>('accounts');
+
+export const useTransfers = () => useUserCollection<Transfer>('transfers');
+
+// Un único documento por usuario (userTags/{userId}) con los usos de cada etiqueta
+export const useUserTags = () => useUserCollection<UserTags>('userTags');
@@ -1,6 +1,15 @@
 import { initializeApp, getApps } from 'firebase/app';
 import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import {
+  clearIndexedDbPersistence,
+  Firestore,
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  terminate,
+  waitForPendingWrites,
+} from 'firebase/firestore';
 
 
 const firebaseConfig = {
@@ -17,5 +26,60 @@ const firebaseConfig = {
 const app = getApps().length === 0 ? initializeApp(firebaseConfig) : getApps()[0];
 
 export const auth = getAuth(app);
-export const db = getFirestore(app);
+
+// Espera máxima para sincronizar las escrituras pendientes antes de cerrar sesión
+const SIGN_OUT_SYNC_TIMEOUT = 5000;
+
+// Caché persistente en IndexedDB: los datos se leen sin conexión y las escrituras
+// quedan encoladas hasta que vuelve la red (compartida entre pestañas).
+// La caché guarda los datos financieros del usuario, por eso se borra al cerrar sesión
+// (resetFirestoreCache) para que el siguiente usuario del dispositivo no pueda leerlos.
+const createFirestore = (): Firestore => {
+  if (typeof window === 'undefined') {
+    return getFirestore(app);
+  }
+  try {
+    return initializeFirestore(app, {
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+    });
+  } catch {
+    // Ya estaba inicializado (hot reload en desarrollo)
+    return getFirestore(app);
+  }
+};
+
+// `let`: resetFirestoreCache reemplaza la instancia y los módulos que importan `db` ven la nueva
+export let db = createFirestore();
+
+/**
+ * Da tiempo a que las escrituras encoladas lleguen al servidor antes de cerrar sesión
+ * (sin sesión ya no podrían sincronizarse). Sin conexión no se espera.
+ */
+export const flushPendingWrites = async (): Promise<void> => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+  await Promise.race([
+    waitForPendingWrites(db),
+    new Promise((resolve) => setTimeout(resolve, SIGN_OUT_SYNC_TIMEOUT)),
+  ]);
+};
+
+/**
+ * Cierra Firestore, borra la caché de IndexedDB y crea una instancia nueva.
+ * Se llama al cerrar sesión (también cuando la sesión se cierra en otra pestaña). El borrado
+ * solo funciona cuando ninguna pestaña tiene la caché abierta: cada pestaña lo intenta al
+ * cerrar su instancia, así la última en hacerlo lo completa.
+ */
+export const resetFirestoreCache = async (): Promise<void> => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    await terminate(db);
+    await clearIndexedDbPersistence(db);
+  } catch (error) {
+    console.warn('Firestore cache not cleared (still open in another tab):', error);
+  } finally {
+    db = createFirestore();
+  }
+};
+
 export default app;
@@ -0,0 +1,198 @@
+import {
+  getDocs,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  query,
+  writeBatch,
+  Timestamp,
+  QueryDocumentSnapshot,
+  WriteBatch
+} from "firebase/firestore";
+import { Account, CreateAccountData, UpdateAccountData } from "@/lib/types/account";
+import { db } from "../client";
+
+// Firestore admite como máximo 500 operaciones por batch
+const MAX_BATCH_SIZE = 500;
+
+export const createAccountDocument = async (data: CreateAccountData, uid: string): Promise<Account> => {
+  try {
+    const accountRef = doc(db, 'accounts', uid);
+
+    const accountData = {
+      uid,
+      name: data.name,
+      type: data.type,
+      currency: data.currency,
+      openingBalance: data.openingBalance,
+      closingDay: data.closingDay ?? null,
+      paymentDueDay: data.paymentDueDay ?? null,
+      userId: data.userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+
+    await setDoc(accountRef, accountData);
+
+    return {
+      ...accountData,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    } as Account;
+  } catch (error) {
+    console.error('Error creating account document:', error);
+    throw error;
+  }
+};
+
+export const getAccountDocument = async (uid: string): Promise<Account | null> => {
+  try {
+    const accountRef = doc(db, 'accounts', uid);
+    const accountDoc = await getDoc(accountRef);
+
+    if (!accountDoc.exists()) {
+      return null;
+    }
+
+    return accountDoc.data() as Account;
+  } catch (error) {
+    console.error('Error getting account document:', error);
+    throw error;
+  }
+};
+
+export const updateAccountDocument = async (uid: string, data: UpdateAccountData): Promise<void> => {
+  try {
+    const accountRef = doc(db, 'accounts', uid);
+    const updateData = {
+      ...data,
+      updatedAt: serverTimestamp(),
+    };
+    await updateDoc(accountRef, updateData);
+  } catch (error) {
+    console.error('Error updating account document:', error);
+    throw error;
+  }
+};
+
+/**
+ * Elimina una cuenta junto con sus transferencias. Los gastos, ingresos y deudas
+ * de la cuenta se conservan, pero quedan sin cuenta asignada.
+ */
+export const deleteAccountDocument = async (uid: string): Promise<void> => {
+  try {
+    const accountRef = doc(db, 'accounts', uid);
+    const account = await getAccountDocument(uid);
+
+    if (!account) {
+      await deleteDoc(accountRef);
+      return;
+    }
+
+    const byAccount = (collectionName: string, field: string) => getDocs(query(
+      collection(db, collectionName),
+      where('userId', '==', account.userId),
+      where(field, '==', uid)
+    ));
+    const [expenses, incomes, installments, transfersOut, transfersIn] = await Promise.all([
+      byAccount('expenses', 'accountId'),
+      byAccount('income', 'accountId'),
+      byAccount('installments', 'account_id'),
+      byAccount('transfers', 'fromAccountId'),
+      byAccount('transfers', 'toAccountId'),
+    ]);
+
+    const operations: ((batch: WriteBatch) => void)[] = [];
+    const clearField = (snapshot: QueryDocumentSnapshot, field: string) => {
+      operations.push(batch => batch.update(snapshot.ref, { [field]: null, updatedAt: serverTimestamp() }));
+    };
+    // Sin cuenta, un movimiento ya no pertenece a ninguna conciliación
+    const detachMovement = (snapshot: QueryDocumentSnapshot) => {
+      operations.push(batch => batch.update(snapshot.ref, {
+        accountId: null,
+        reconciledAt: null,
+        updatedAt: serverTimestamp(),
+      }));
+    };
+    expenses.docs.forEach(detachMovement);
+    incomes.docs.forEach(detachMovement);
+    installments.docs.forEach(installmentDoc => clearField(installmentDoc, 'account_id'));
+    [...transfersOut.docs, ...transfersIn.docs].forEach(transferDoc => {
+      operations.push(batch => batch.delete(transferDoc.ref));
+    });
+    // La cuenta se borra en el último batch, cuando ya no quedan referencias
+    operations.push(batch => batch.delete(accountRef));
+
+    for (let i = 0; i < operations.length; i += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      operations.slice(i, i + MAX_BATCH_SIZE).forEach(operation => operation(batch));
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error('Error deleting account document:', error);
+    throw error;
+  }
+};
+
+export interface ReconcileAccountData {
+  statementDate: Timestamp;
+  statementBalance: number;
+  expenseIds: string[]; // Gastos marcados como conciliados
+  incomeIds: string[]; // Ingresos marcados como conciliados
+}
+
+/**
+ * Concilia una cuenta con un estado de cuenta: marca los movimientos indicados con la
+ * fecha del estado y guarda el saldo final en la cuenta.
+ */
+export const reconcileAccount = async (uid: string, data: ReconcileAccountData): Promise<void> => {
+  try {
+    const operations: ((batch: WriteBatch) => void)[] = [];
+    const markReconciled = (collectionName: string, docId: string) => {
+      operations.push(batch => batch.update(doc(db, collectionName, docId), {
+        reconciledAt: data.statementDate,
+        updatedAt: serverTimestamp(),
+      }));
+    };
+    data.expenseIds.forEach(expenseId => markReconciled('expenses', expenseId));
+    data.incomeIds.forEach(incomeId => markReconciled('income', incomeId));
+    operations.push(batch => batch.update(doc(db, 'accounts', uid), {
+      lastReconciledAt: data.statementDate,
+      lastReconciledBalance: data.statementBalance,
+      updatedAt: serverTimestamp(),
+    }));
+
+    for (let i = 0; i < operations.length; i += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      operations.slice(i, i + MAX_BATCH_SIZE).forEach(operation => operation(batch));
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error('Error reconciling account:', error);
+    throw error;
+  }
+};
+
+export const getUserAccounts = async (userId: string): Promise<Account[]> => {
+  try {
+    const accountsRef = collection(db, 'accounts');
+    const q = query(accountsRef, where('userId', '==', userId));
+
+    const querySnapshot = await getDocs(q);
+    const accounts: Account[] = [];
+
+    querySnapshot.forEach((doc) => {
+      accounts.push(doc.data() as Account);
+    });
+
+    return accounts;
+  } catch (error) {
+    console.error('Error getting user accounts:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,38 @@
+import { doc, serverTimestamp, writeBatch } from "firebase/firestore";
+import { PlannedDocument } from "@/lib/utils/dataRestore";
+import { db } from "../client";
+
+// Firestore admite como máximo 500 operaciones por batch
+const MAX_BATCH_SIZE = 500;
+
+/**
+ * Escribe los documentos de un plan de restauración (ver planRestore).
+ * Usa set sobre UIDs nuevos, por lo que nunca sobrescribe datos existentes.
+ * Devuelve la cantidad de documentos escritos.
+ */
+export const restoreBackupDocuments = async (documents: PlannedDocument[]): Promise<number> => {
+  try {
+    let written = 0;
+
+    for (let i = 0; i < documents.length; i += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+
+      documents.slice(i, i + MAX_BATCH_SIZE).forEach(({ collection, uid, data }) => {
+        batch.set(doc(db, collection, uid), {
+          uid,
+          ...data,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+      });
+
+      await batch.commit();
+      written += Math.min(MAX_BATCH_SIZE, documents.length - i);
+    }
+
+    return written;
+  } catch (error) {
+    console.error('Error restoring backup documents:', error);
+    throw error;
+  }
+};
@@ -45,7 +45,9 @@ export const createCategoryDocumentDebug = async(data: CreateCategoryData, uid:
         userId: data.userId,
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp(),
-        ...(data.activeMonths && { activeMonths: data.activeMonths })
+        ...(data.activeMonths && { activeMonths: data.activeMonths }),
+        ...(data.rollover && { rollover: data.rollover }),
+        ...(data.budgetOverrides && { budgetOverrides: data.budgetOverrides })
     };
 
     console.log("3. Datos a enviar a Firestore:", {
@@ -30,6 +30,8 @@ export const createCategoryDocument = async(data: CreateCategoryData, uid: strin
             monthly_limit: data.monthly_limit,
             type: data.type,
             userId: data.userId,
+            ...(data.rollover ? { rollover: data.rollover } : {}),
+            ...(data.budgetOverrides ? { budgetOverrides: data.budgetOverrides } : {}),
             createdAt: serverTimestamp(),
             updatedAt: serverTimestamp(),
         };
@@ -0,0 +1,102 @@
+import {
+  getDocs,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  query,
+  Timestamp
+} from "firebase/firestore";
+import { ExchangeRate, CreateExchangeRateData, UpdateExchangeRateData } from "@/lib/types/exchangeRate";
+import { db } from "../client";
+
+export const createExchangeRateDocument = async (data: CreateExchangeRateData, uid: string): Promise<ExchangeRate> => {
+  try {
+    const rateRef = doc(db, 'exchangeRates', uid);
+
+    const rateData = {
+      uid,
+      fromCurrency: data.fromCurrency,
+      toCurrency: data.toCurrency,
+      rate: data.rate,
+      date: data.date,
+      userId: data.userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+
+    await setDoc(rateRef, rateData);
+
+    return {
+      ...rateData,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    } as ExchangeRate;
+  } catch (error) {
+    console.error('Error creating exchange rate document:', error);
+    throw error;
+  }
+};
+
+export const getExchangeRateDocument = async (uid: string): Promise<ExchangeRate | null> => {
+  try {
+    const rateRef = doc(db, 'exchangeRates', uid);
+    const rateDoc = await getDoc(rateRef);
+
+    if (!rateDoc.exists()) {
+      return null;
+    }
+
+    return rateDoc.data() as ExchangeRate;
+  } catch (error) {
+    console.error('Error getting exchange rate document:', error);
+    throw error;
+  }
+};
+
+export const updateExchangeRateDocument = async (uid: string, data: UpdateExchangeRateData): Promise<void> => {
+  try {
+    const rateRef = doc(db, 'exchangeRates', uid);
+    const updateData = {
+      ...data,
+      updatedAt: serverTimestamp(),
+    };
+    await updateDoc(rateRef, updateData);
+  } catch (error) {
+    console.error('Error updating exchange rate document:', error);
+    throw error;
+  }
+};
+
+export const deleteExchangeRateDocument = async (uid: string): Promise<void> => {
+  try {
+    const rateRef = doc(db, 'exchangeRates', uid);
+    await deleteDoc(rateRef);
+  } catch (error) {
+    console.error('Error deleting exchange rate document:', error);
+    throw error;
+  }
+};
+
+export const getUserExchangeRates = async (userId: string): Promise<ExchangeRate[]> => {
+  try {
+    const ratesRef = collection(db, 'exchangeRates');
+    const q = query(ratesRef, where('userId', '==', userId));
+
+    const querySnapshot = await getDocs(q);
+    const rates: ExchangeRate[] = [];
+
+    querySnapshot.forEach((doc) => {
+      rates.push(doc.data() as ExchangeRate);
+    });
+
+    return rates;
+  } catch (error) {
+    console.error('Error getting user exchange rates:', error);
+    throw error;
+  }
+};
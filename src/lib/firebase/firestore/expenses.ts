@@ -1,5 +1,6 @@
 import {
   getDocs,
+  getDocsFromCache,
   collection,
   deleteDoc,
   doc,
@@ -8,27 +9,48 @@ import {
   setDoc,
   updateDoc,
   where,
-  query
+  query,
+  writeBatch,
+  orderBy,
+  limit as limitTo,
+  startAfter,
+  getAggregateFromServer,
+  sum,
+  count,
+  Timestamp,
+  QueryConstraint,
+  QueryDocumentSnapshot
 } from "firebase/firestore";
 import { Expense, CreateExpenseData, UpdateExpenseData } from "@/lib/types/expense";
 import { db } from "../client";
+import { CurrencyConversion, sumByCurrency } from "@/lib/utils/currencyConversion";
+import { buildSplitFields, sumExpensesByCategory } from "@/lib/utils/expenseSplits";
+import { budgetMonthKey } from "@/lib/utils/budgetRollover";
+import { startOfMonth, endOfMonth } from "date-fns";
+
+// Datos del documento de gasto; compartido por la creación individual, la importación en batch
+// y la cola de Background Sync del service worker (src/lib/pwa/serviceWorker.ts)
+export const buildExpenseData = (data: CreateExpenseData, uid: string) => ({
+  uid,
+  amount: data.amount,
+  categoryId: data.categoryId,
+  currency: data.currency,
+  date: data.date,
+  installmentId: data.installmentId || null,
+  note: data.note || '',
+  ...(data.fitId ? { fitId: data.fitId } : {}),
+  ...buildSplitFields(data.splits),
+  accountId: data.accountId || null,
+  tags: data.tags || [],
+  userId: data.userId,
+  createdAt: serverTimestamp(),
+  updatedAt: serverTimestamp(),
+});
 
 export const createExpenseDocument = async (data: CreateExpenseData, uid: string): Promise<Expense> => {
   try {
     const expenseRef = doc(db, 'expenses', uid);
-
-    const expenseData = {
-      uid,
-      amount: data.amount,
-      categoryId: data.categoryId,
-      currency: data.currency,
-      date: data.date,
-      installmentId: data.installmentId || null,
-      note: data.note || '',
-      userId: data.userId,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp(),
-    };
+    const expenseData = buildExpenseData(data, uid);
 
     await setDoc(expenseRef, expenseData);
 
@@ -43,6 +65,37 @@ export const createExpenseDocument = async (data: CreateExpenseData, uid: string
   }
 };
 
+// Firestore admite como máximo 500 operaciones por batch
+const MAX_BATCH_SIZE = 500;
+
+/**
+ * Crea varios gastos con escrituras en batch (importaciones masivas).
+ * Cada batch es atómico: si un documento no cumple las reglas, ese batch completo falla.
+ */
+export const createExpenseDocumentsBatch = async (
+  entries: { uid: string; data: CreateExpenseData }[]
+): Promise<number> => {
+  try {
+    let written = 0;
+
+    for (let i = 0; i < entries.length; i += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+
+      entries.slice(i, i + MAX_BATCH_SIZE).forEach(({ uid, data }) => {
+        batch.set(doc(db, 'expenses', uid), buildExpenseData(data, uid));
+      });
+
+      await batch.commit();
+      written += Math.min(MAX_BATCH_SIZE, entries.length - i);
+    }
+
+    return written;
+  } catch (error) {
+    console.error('Error creating expense documents batch:', error);
+    throw error;
+  }
+};
+
 export const getExpenseDocument = async (uid: string): Promise<Expense | null> => {
   try {
     const expenseRef = doc(db, 'expenses', uid);
@@ -64,6 +117,8 @@ export const updateExpenseDocument = async (uid: string, data: UpdateExpenseData
     const expenseRef = doc(db, 'expenses', uid);
     const updateData = {
       ...data,
+      // Al cambiar la división se recalculan los campos derivados para las consultas
+      ...(data.splits !== undefined ? buildSplitFields(data.splits) : {}),
       updatedAt: serverTimestamp(),
     };
     await updateDoc(expenseRef, updateData);
@@ -83,10 +138,14 @@ export const deleteExpenseDocument = async (uid: string): Promise<void> => {
   }
 };
 
-export const getUserExpenses = async (userId: string): Promise<Expense[]> => {
+/**
+ * Todos los gastos del usuario, sin paginar. Con `since` solo los de esa fecha en adelante
+ * (índice compuesto (userId, date)). Sin `since` solo lo usa la copia de seguridad completa.
+ */
+export const getUserExpenses = async (userId: string, since?: Date): Promise<Expense[]> => {
   try {
     const expensesRef = collection(db, 'expenses');
-    const q = query(expensesRef, where('userId', '==', userId));
+    const q = query(expensesRef, ...buildExpenseFilters(userId, { startDate: since }));
 
     const querySnapshot = await getDocs(q);
     const expenses: Expense[] = [];
@@ -102,26 +161,248 @@ export const getUserExpenses = async (userId: string): Promise<Expense[]> => {
   }
 };
 
-export const getCategoryExpenses = async (categoryId: string, userId: string): Promise<Expense[]> => {
+export interface ExpensePageOptions {
+  pageSize: number;
+  cursor?: QueryDocumentSnapshot | null;
+  startDate?: Date;
+  endDate?: Date;
+  categoryId?: string;
+  tag?: string;
+}
+
+export interface ExpensePage {
+  expenses: Expense[];
+  cursor: QueryDocumentSnapshot | null; // Último documento de la página, para pedir la siguiente
+  hasMore: boolean;
+}
+
+// Filtros comunes: siempre por userId (lo exigen las reglas), opcionalmente por categoría, etiqueta y rango de fechas
+const buildExpenseFilters = (
+  userId: string,
+  options: { startDate?: Date; endDate?: Date; categoryId?: string; tag?: string }
+): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = [where('userId', '==', userId)];
+
+  if (options.categoryId) {
+    constraints.push(where('categoryId', '==', doc(db, 'categories', options.categoryId)));
+  }
+  if (options.tag) {
+    constraints.push(where('tags', 'array-contains', options.tag));
+  }
+  if (options.startDate) {
+    constraints.push(where('date', '>=', Timestamp.fromDate(options.startDate)));
+  }
+  if (options.endDate) {
+    constraints.push(where('date', '<=', Timestamp.fromDate(options.endDate)));
+  }
+
+  return constraints;
+};
+
+/**
+ * Obtiene una página de gastos ordenados por fecha descendente.
+ * Para la página siguiente se pasa el `cursor` devuelto por la anterior.
+ * Requiere los índices compuestos (userId, date), (userId, categoryId, date) y (userId, tags, date)
+ * de firestore.indexes.json.
+ */
+export const getUserExpensesPage = async (userId: string, options: ExpensePageOptions): Promise<ExpensePage> => {
   try {
-    const categoryRef = doc(db, 'categories', categoryId);
-    const expensesRef = collection(db, 'expenses');
+    const constraints = [
+      ...buildExpenseFilters(userId, options),
+      orderBy('date', 'desc'),
+      // Se pide un documento extra para saber si hay más páginas
+      limitTo(options.pageSize + 1),
+    ];
+    if (options.cursor) {
+      constraints.push(startAfter(options.cursor));
+    }
 
-    // Query por userId (permitido por las reglas) y filtrar por categoryId en el cliente
-    const q = query(expensesRef, where('userId', '==', userId));
+    const querySnapshot = await getDocs(query(collection(db, 'expenses'), ...constraints));
+    const docs = querySnapshot.docs.slice(0, options.pageSize);
 
-    const querySnapshot = await getDocs(q);
-    const expenses: Expense[] = [];
+    return {
+      expenses: docs.map((docSnapshot) => docSnapshot.data() as Expense),
+      cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+      hasMore: querySnapshot.docs.length > options.pageSize,
+    };
+  } catch (error) {
+    console.error('Error getting user expenses page:', error);
+    throw error;
+  }
+};
+
+// Documento de expenseRollups (escrito por la Cloud Function updateExpenseRollups)
+interface ExpenseRollup {
+  userId: string;
+  month: string; // 'YYYY-MM'
+  byCategory: Record<string, number>;
+}
+
+export interface ExpenseSummary {
+  totalsByCurrency: Record<string, number>;
+  totalsByCategory: Record<string, number>;
+  count: number;
+}
+
+// Resumen calculado en el cliente a partir de los gastos en la caché local
+const summarizeCachedExpenses = async (userId: string, startDate: Date, endDate: Date): Promise<ExpenseSummary> => {
+  const q = query(collection(db, 'expenses'), ...buildExpenseFilters(userId, { startDate, endDate }));
+  const expenses = (await getDocsFromCache(q)).docs.map((docSnapshot) => docSnapshot.data() as Expense);
+
+  return {
+    totalsByCurrency: getTotalExpensesByCurrency(expenses),
+    totalsByCategory: sumExpensesByCategory(expenses),
+    count: expenses.length,
+  };
+};
+
+// Las agregaciones por categoría suman el total de cada gasto en su categoryId principal;
+// para los gastos divididos se resta ese total y se suma cada línea a su categoría.
+// Requiere el índice compuesto (userId, isSplit, date).
+const applySplitCorrections = async (
+  userId: string,
+  startDate: Date,
+  endDate: Date,
+  totalsByCategory: Record<string, number>
+): Promise<void> => {
+  const q = query(
+    collection(db, 'expenses'),
+    ...buildExpenseFilters(userId, { startDate, endDate }),
+    where('isSplit', '==', true)
+  );
+  const splitExpenses = (await getDocs(q)).docs.map((docSnapshot) => docSnapshot.data() as Expense);
+
+  splitExpenses.forEach((expense) => {
+    const primaryId = expense.categoryId.id;
+    totalsByCategory[primaryId] = (totalsByCategory[primaryId] || 0) - expense.amount;
+  });
+  Object.entries(sumExpensesByCategory(splitExpenses)).forEach(([categoryId, amount]) => {
+    totalsByCategory[categoryId] = (totalsByCategory[categoryId] || 0) + amount;
+  });
+};
 
-    querySnapshot.forEach((docSnapshot) => {
-      const expenseData = docSnapshot.data() as Expense;
-      // Filtrar en el cliente por categoryId comparando paths
-      if (expenseData.categoryId.path === categoryRef.path) {
-        expenses.push(expenseData);
+// Totales por categoría de la acumulación del mes, o null si aún no existe (sin gastos escritos
+// desde que existe la función). Un error al leerla tampoco impide el resumen: se usan las agregaciones.
+const getRollupTotals = async (userId: string, year: number, month: number): Promise<Record<string, number> | null> => {
+  try {
+    const rollupSnapshot = await getDoc(doc(db, 'expenseRollups', `${userId}_${budgetMonthKey(year, month)}`));
+    return rollupSnapshot.exists() ? { ...(rollupSnapshot.data() as ExpenseRollup).byCategory } : null;
+  } catch (error) {
+    console.error('Error getting expense rollup:', error);
+    return null;
+  }
+};
+
+// Totales por categoría con una agregación por categoría. Solo se usa para los meses que aún
+// no tienen acumulación en expenseRollups.
+const getCategoryTotalsByAggregation = async (
+  userId: string,
+  startDate: Date,
+  endDate: Date,
+  categoryIds: string[]
+): Promise<Record<string, number>> => {
+  const results = await Promise.all(categoryIds.map((categoryId) =>
+    getAggregateFromServer(
+      query(collection(db, 'expenses'), ...buildExpenseFilters(userId, { startDate, endDate, categoryId })),
+      { total: sum('amount') }
+    )
+  ));
+
+  const totalsByCategory: Record<string, number> = {};
+  results.forEach((result, index) => {
+    totalsByCategory[categoryIds[index]] = result.data().total;
+  });
+  await applySplitCorrections(userId, startDate, endDate, totalsByCategory);
+
+  return totalsByCategory;
+};
+
+/**
+ * Totales de un mes sin descargar los gastos: una agregación por moneda (total y cantidad)
+ * y los totales por categoría de la acumulación `expenseRollups/{userId}_{YYYY-MM}` que mantiene
+ * la Cloud Function updateExpenseRollups. Los totales por categoría suman montos sin convertir
+ * y reparten los gastos divididos entre sus categorías.
+ * Las agregaciones requieren conexión: sin red se calculan con los gastos de la caché local.
+ */
+export const getExpenseSummaryByMonth = async (
+  userId: string,
+  year: number,
+  month: number,
+  currencies: string[],
+  categoryIds: string[]
+): Promise<ExpenseSummary> => {
+  const startDate = startOfMonth(new Date(year, month));
+  const endDate = endOfMonth(new Date(year, month));
+
+  try {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      return await summarizeCachedExpenses(userId, startDate, endDate);
+    }
+
+    const [currencyResults, rollupTotals] = await Promise.all([
+      Promise.all(currencies.map((currency) =>
+        getAggregateFromServer(
+          query(
+            collection(db, 'expenses'),
+            ...buildExpenseFilters(userId, { startDate, endDate }),
+            where('currency', '==', currency)
+          ),
+          { total: sum('amount'), count: count() }
+        )
+      )),
+      getRollupTotals(userId, year, month),
+    ]);
+
+    const summary: ExpenseSummary = { totalsByCurrency: {}, totalsByCategory: {}, count: 0 };
+
+    currencyResults.forEach((result, index) => {
+      const { total, count: currencyCount } = result.data();
+      if (currencyCount > 0) {
+        summary.totalsByCurrency[currencies[index]] = total;
+        summary.count += currencyCount;
       }
     });
 
-    return expenses;
+    const totalsByCategory = rollupTotals ??
+      await getCategoryTotalsByAggregation(userId, startDate, endDate, categoryIds);
+
+    Object.entries(totalsByCategory).forEach(([categoryId, total]) => {
+      // Se redondea a centavos para descartar restos de punto flotante de las sumas
+      if (Math.round(total * 100) > 0) {
+        summary.totalsByCategory[categoryId] = total;
+      }
+    });
+
+    return summary;
+  } catch (error) {
+    console.error('Error getting expense summary:', error);
+    throw error;
+  }
+};
+
+/**
+ * Gastos de una categoría, incluidos los gastos divididos que tienen alguna línea en ella.
+ */
+export const getCategoryExpenses = async (categoryId: string, userId: string): Promise<Expense[]> => {
+  try {
+    const expensesRef = collection(db, 'expenses');
+    const [directSnapshot, splitSnapshot] = await Promise.all([
+      getDocs(query(expensesRef, ...buildExpenseFilters(userId, { categoryId }), orderBy('date', 'desc'))),
+      getDocs(query(
+        expensesRef,
+        where('userId', '==', userId),
+        where('splitCategoryIds', 'array-contains', categoryId)
+      )),
+    ]);
+
+    // Un gasto dividido puede aparecer en ambas consultas si su categoría principal es esta
+    const expensesById = new Map<string, Expense>();
+    [...directSnapshot.docs, ...splitSnapshot.docs].forEach((docSnapshot) => {
+      expensesById.set(docSnapshot.id, docSnapshot.data() as Expense);
+    });
+
+    return Array.from(expensesById.values())
+      .sort((a, b) => b.date.toMillis() - a.date.toMillis());
   } catch (error) {
     console.error('Error getting category expenses:', error);
     throw error;
@@ -131,23 +412,16 @@ export const getCategoryExpenses = async (categoryId: string, userId: string): P
 export const getInstallmentExpenses = async (installmentId: string, userId: string): Promise<Expense[]> => {
   try {
     const installmentRef = doc(db, 'installments', installmentId);
-    const expensesRef = collection(db, 'expenses');
 
-    // Query por userId (permitido por las reglas) y filtrar por installmentId en el cliente
-    const q = query(expensesRef, where('userId', '==', userId));
+    // Solo igualdades: Firestore las resuelve con índices simples, sin índice compuesto
+    const q = query(
+      collection(db, 'expenses'),
+      where('userId', '==', userId),
+      where('installmentId', '==', installmentRef)
+    );
 
     const querySnapshot = await getDocs(q);
-    const expenses: Expense[] = [];
-
-    querySnapshot.forEach((docSnapshot) => {
-      const expenseData = docSnapshot.data() as Expense;
-      // Filtrar en el cliente por installmentId comparando paths
-      if (expenseData.installmentId?.path === installmentRef.path) {
-        expenses.push(expenseData);
-      }
-    });
-
-    return expenses;
+    return querySnapshot.docs.map((docSnapshot) => docSnapshot.data() as Expense);
   } catch (error) {
     console.error('Error getting installment expenses:', error);
     throw error;
@@ -155,15 +429,26 @@ export const getInstallmentExpenses = async (installmentId: string, userId: stri
 };
 
 // Funci�n para calcular el total de gastos por moneda
-export const getTotalExpensesByCurrency = (expenses: Expense[]): Record<string, number> => {
-  return expenses.reduce((acc, expense) => {
-    const currency = expense.currency;
-    if (!acc[currency]) {
-      acc[currency] = 0;
-    }
-    acc[currency] += expense.amount;
-    return acc;
-  }, {} as Record<string, number>);
+// Si se pasa una conversión, los montos se reportan en la moneda base usando la tasa de la fecha del gasto
+export const getTotalExpensesByCurrency = (
+  expenses: Expense[],
+  conversion?: CurrencyConversion | null
+): Record<string, number> => {
+  if (!conversion) {
+    return expenses.reduce((acc, expense) => {
+      const currency = expense.currency;
+      if (!acc[currency]) {
+        acc[currency] = 0;
+      }
+      acc[currency] += expense.amount;
+      return acc;
+    }, {} as Record<string, number>);
+  }
+
+  return sumByCurrency(
+    expenses.map((expense) => ({ amount: expense.amount, currency: expense.currency, date: expense.date })),
+    conversion
+  );
 };
 
 // Funci�n para obtener gastos de un per�odo espec�fico
@@ -173,13 +458,14 @@ export const getExpensesByDateRange = async (
   endDate: Date
 ): Promise<Expense[]> => {
   try {
-    const expenses = await getUserExpenses(userId);
+    const q = query(
+      collection(db, 'expenses'),
+      ...buildExpenseFilters(userId, { startDate, endDate }),
+      orderBy('date', 'desc')
+    );
 
-    // Filtrar por rango de fechas en el cliente
-    return expenses.filter((expense) => {
-      const expenseDate = expense.date.toDate ? expense.date.toDate() : new Date(expense.date as any);
-      return expenseDate >= startDate && expenseDate <= endDate;
-    });
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((docSnapshot) => docSnapshot.data() as Expense);
   } catch (error) {
     console.error('Error getting expenses by date range:', error);
     throw error;
@@ -189,16 +475,8 @@ export const getExpensesByDateRange = async (
 // Funci�n para obtener el gasto m�s reciente de un usuario
 export const getRecentExpenses = async (userId: string, limit: number = 10): Promise<Expense[]> => {
   try {
-    const expenses = await getUserExpenses(userId);
-
-    // Ordenar por fecha descendente y limitar
-    return expenses
-      .sort((a, b) => {
-        const dateA = a.date.toDate ? a.date.toDate() : new Date(a.date as any);
-        const dateB = b.date.toDate ? b.date.toDate() : new Date(b.date as any);
-        return dateB.getTime() - dateA.getTime();
-      })
-      .slice(0, limit);
+    const { expenses } = await getUserExpensesPage(userId, { pageSize: limit });
+    return expenses;
   } catch (error) {
     console.error('Error getting recent expenses:', error);
     throw error;
@@ -0,0 +1,161 @@
+import {
+  getDocs,
+  collection,
+  deleteDoc,
+  doc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  query,
+  Timestamp
+} from "firebase/firestore";
+import {
+  CreateGoalFundingRuleData,
+  GoalFundingRule,
+  UpdateGoalFundingRuleData
+} from "@/lib/types/goalFundingRule";
+import { Income } from "@/lib/types/income";
+import { getFundingAmount, getMatchingFundingRules } from "@/lib/utils/goalFunding";
+import { db } from "../client";
+import { addContributionToGoal, getGoalDocument } from "./goals";
+
+export const createGoalFundingRuleDocument = async (
+  data: CreateGoalFundingRuleData,
+  uid: string
+): Promise<GoalFundingRule> => {
+  try {
+    const ruleRef = doc(db, 'goalFundingRules', uid);
+
+    const ruleData = {
+      uid,
+      goalId: data.goalId,
+      sourcePattern: data.sourcePattern.trim(),
+      currency: data.currency,
+      percentage: data.percentage,
+      active: data.active,
+      userId: data.userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+
+    await setDoc(ruleRef, ruleData);
+
+    return {
+      ...ruleData,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    } as GoalFundingRule;
+  } catch (error) {
+    console.error('Error creating goal funding rule document:', error);
+    throw error;
+  }
+};
+
+export const updateGoalFundingRuleDocument = async (uid: string, data: UpdateGoalFundingRuleData): Promise<void> => {
+  try {
+    const ruleRef = doc(db, 'goalFundingRules', uid);
+    await updateDoc(ruleRef, {
+      ...data,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error updating goal funding rule document:', error);
+    throw error;
+  }
+};
+
+export const deleteGoalFundingRuleDocument = async (uid: string): Promise<void> => {
+  try {
+    const ruleRef = doc(db, 'goalFundingRules', uid);
+    await deleteDoc(ruleRef);
+  } catch (error) {
+    console.error('Error deleting goal funding rule document:', error);
+    throw error;
+  }
+};
+
+export const getUserGoalFundingRules = async (userId: string): Promise<GoalFundingRule[]> => {
+  try {
+    const rulesRef = collection(db, 'goalFundingRules');
+    const q = query(rulesRef, where('userId', '==', userId));
+
+    const querySnapshot = await getDocs(q);
+    const rules: GoalFundingRule[] = [];
+
+    querySnapshot.forEach((doc) => {
+      rules.push(doc.data() as GoalFundingRule);
+    });
+
+    return rules;
+  } catch (error) {
+    console.error('Error getting user goal funding rules:', error);
+    throw error;
+  }
+};
+
+type FundedIncome = Pick<Income, 'uid' | 'amount' | 'currency' | 'source' | 'receivedAt' | 'userId'>;
+
+// Crea los abonos de las reglas que coinciden con el ingreso; la meta se lee de nuevo en cada
+// regla para no superar lo que le falta después de los abonos anteriores
+const applyRulesToIncome = async (rules: GoalFundingRule[], income: FundedIncome): Promise<number> => {
+  let created = 0;
+
+  for (const rule of getMatchingFundingRules(rules, income)) {
+    const goal = await getGoalDocument(rule.goalId);
+    if (!goal || goal.currency !== income.currency) continue;
+
+    const remaining = Math.max(0, goal.targetAmount - goal.currentAmount);
+    const amount = Math.min(getFundingAmount(rule, income.amount), remaining);
+    if (amount <= 0) continue;
+
+    await addContributionToGoal(goal.uid, {
+      amount,
+      date: income.receivedAt,
+      sourceIncomeId: income.uid,
+      userId: income.userId,
+    });
+    created++;
+  }
+
+  return created;
+};
+
+/**
+ * Aplica las reglas de financiamiento activas a un ingreso recién creado: cada regla
+ * que coincide crea un abono en su meta, sin superar lo que le falta a la meta.
+ * Los ingresos de reglas recurrentes los financia la Cloud Function materializeRecurringRules.
+ *
+ * @returns cantidad de abonos creados
+ */
+export const applyGoalFundingRules = async (income: FundedIncome): Promise<number> => {
+  try {
+    const rules = await getUserGoalFundingRules(income.userId);
+    return await applyRulesToIncome(rules, income);
+  } catch (error) {
+    console.error('Error applying goal funding rules:', error);
+    throw error;
+  }
+};
+
+/**
+ * Igual que applyGoalFundingRules para varios ingresos del mismo usuario (importaciones),
+ * leyendo las reglas una sola vez. Los ingresos se procesan en orden.
+ *
+ * @returns cantidad de abonos creados
+ */
+export const applyGoalFundingRulesToIncomes = async (incomes: FundedIncome[]): Promise<number> => {
+  if (incomes.length === 0) return 0;
+
+  try {
+    const rules = await getUserGoalFundingRules(incomes[0].userId);
+    let created = 0;
+    for (const income of incomes) {
+      created += await applyRulesToIncome(rules, income);
+    }
+    return created;
+  } catch (error) {
+    console.error('Error applying goal funding rules to incomes:', error);
+    throw error;
+  }
+};
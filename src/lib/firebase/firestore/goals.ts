@@ -4,15 +4,28 @@ import {
   deleteDoc,
   doc,
   getDoc,
+  runTransaction,
   serverTimestamp,
   setDoc,
   updateDoc,
   where,
-  query
+  query,
+  writeBatch
 } from "firebase/firestore";
-import Goal, { CreateGoalData, UpdateGoalData } from "@/lib/types/goal";
+import Goal, {
+  CreateGoalContributionData,
+  CreateGoalData,
+  GoalContribution,
+  UpdateGoalData
+} from "@/lib/types/goal";
 import { db } from "../client";
 
+// ID del abono inicial que respalda el currentAmount de las metas anteriores al historial de abonos
+// (lo crean las Cloud Functions de functions/src/migrateLegacyGoalAmounts.ts)
+export const OPENING_CONTRIBUTION_ID = 'opening';
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
 export const createGoalDocument = async (data: CreateGoalData, uid: string): Promise<Goal> => {
   try {
     const goalRef = doc(db, 'goals', uid);
@@ -61,8 +74,12 @@ export const getGoalDocument = async (uid: string): Promise<Goal | null> => {
 export const updateGoalDocument = async (uid: string, data: UpdateGoalData): Promise<void> => {
   try {
     const goalRef = doc(db, 'goals', uid);
+    // Campos explícitos: currentAmount nunca se escribe desde aquí
     const updateData = {
-      ...data,
+      ...(data.title !== undefined ? { title: data.title } : {}),
+      ...(data.targetAmount !== undefined ? { targetAmount: data.targetAmount } : {}),
+      ...(data.currency !== undefined ? { currency: data.currency } : {}),
+      ...(data.dueDate !== undefined ? { dueDate: data.dueDate } : {}),
       updatedAt: serverTimestamp(),
     };
     await updateDoc(goalRef, updateData);
@@ -75,6 +92,32 @@ export const updateGoalDocument = async (uid: string, data: UpdateGoalData): Pro
 export const deleteGoalDocument = async (uid: string): Promise<void> => {
   try {
     const goalRef = doc(db, 'goals', uid);
+    const goal = await getGoalDocument(uid);
+
+    // Firestore no borra las subcolecciones: se eliminan los abonos (y las reglas
+    // de financiamiento de la meta) junto con la meta
+    if (goal) {
+      const contributionsQuery = query(
+        collection(db, 'goals', uid, 'contributions'),
+        where('userId', '==', goal.userId)
+      );
+      const fundingRulesQuery = query(
+        collection(db, 'goalFundingRules'),
+        where('userId', '==', goal.userId),
+        where('goalId', '==', uid)
+      );
+      const [contributionsSnapshot, fundingRulesSnapshot] = await Promise.all([
+        getDocs(contributionsQuery),
+        getDocs(fundingRulesQuery),
+      ]);
+      const batch = writeBatch(db);
+      contributionsSnapshot.forEach((contributionDoc) => batch.delete(contributionDoc.ref));
+      fundingRulesSnapshot.forEach((ruleDoc) => batch.delete(ruleDoc.ref));
+      batch.delete(goalRef);
+      await batch.commit();
+      return;
+    }
+
     await deleteDoc(goalRef);
   } catch (error) {
     console.error('Error deleting goal document:', error);
@@ -101,21 +144,87 @@ export const getUserGoals = async (userId: string): Promise<Goal[]> => {
   }
 };
 
-export const addContributionToGoal = async (uid: string, amount: number): Promise<void> => {
+/**
+ * Registra un abono en goals/{goalId}/contributions y suma su monto a currentAmount
+ * en la misma transacción, para que el total siempre coincida con el historial.
+ */
+export const addContributionToGoal = async (
+  goalId: string,
+  data: CreateGoalContributionData
+): Promise<GoalContribution> => {
   try {
-    const goal = await getGoalDocument(uid);
-    if (!goal) {
-      throw new Error('Goal not found');
-    }
+    const goalRef = doc(db, 'goals', goalId);
+    // ID automático: varios abonos del mismo usuario pueden crearse en el mismo milisegundo (reglas de financiamiento)
+    const contributionRef = doc(collection(db, 'goals', goalId, 'contributions'));
+
+    const contribution = {
+      uid: contributionRef.id,
+      goalId,
+      amount: data.amount,
+      date: data.date,
+      note: data.note || null,
+      sourceIncomeId: data.sourceIncomeId || null,
+      userId: data.userId,
+      createdAt: serverTimestamp(),
+    };
+
+    await runTransaction(db, async (transaction) => {
+      const goalDoc = await transaction.get(goalRef);
+      if (!goalDoc.exists()) {
+        throw new Error('Goal not found');
+      }
+
+      const goal = goalDoc.data() as Goal;
+      transaction.set(contributionRef, contribution);
+      transaction.update(goalRef, {
+        currentAmount: goal.currentAmount + data.amount,
+        updatedAt: serverTimestamp(),
+      });
+    });
 
-    const newAmount = goal.currentAmount + amount;
-    await updateGoalDocument(uid, { currentAmount: newAmount });
+    return contribution as unknown as GoalContribution;
   } catch (error) {
     console.error('Error adding contribution to goal:', error);
     throw error;
   }
 };
 
+/**
+ * Deshace un abono: lo elimina del historial y resta su monto de currentAmount.
+ */
+export const undoGoalContribution = async (goalId: string, contributionId: string): Promise<void> => {
+  try {
+    const goalRef = doc(db, 'goals', goalId);
+    const contributionRef = doc(db, 'goals', goalId, 'contributions', contributionId);
+
+    await runTransaction(db, async (transaction) => {
+      const [goalDoc, contributionDoc] = await Promise.all([
+        transaction.get(goalRef),
+        transaction.get(contributionRef),
+      ]);
+      if (!goalDoc.exists()) {
+        throw new Error('Goal not found');
+      }
+      if (!contributionDoc.exists()) {
+        throw new Error('Contribution not found');
+      }
+
+      const goal = goalDoc.data() as Goal;
+      const contribution = contributionDoc.data() as GoalContribution;
+      transaction.delete(contributionRef);
+      transaction.update(goalRef, {
+        // currentAmount es la suma de los abonos (los saldos antiguos se migran a OPENING_CONTRIBUTION_ID);
+        // solo se redondea a centavos para no arrastrar restos de punto flotante
+        currentAmount: Math.max(0, roundCents(goal.currentAmount - contribution.amount)),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error undoing goal contribution:', error);
+    throw error;
+  }
+};
+
 export const isGoalComplete = (goal: Goal): boolean => {
   return goal.currentAmount >= goal.targetAmount;
 };
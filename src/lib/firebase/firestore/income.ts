@@ -1,21 +1,27 @@
-import {getDocs, collection, deleteDoc, doc, getDoc, serverTimestamp, setDoc, updateDoc, where, query } from "firebase/firestore";
+import {getDocs, collection, deleteDoc, doc, getDoc, serverTimestamp, setDoc, updateDoc, where, query, writeBatch, Timestamp } from "firebase/firestore";
 import { Income, CreateIncomeData, UpdateIncomeData } from "@/lib/types/income";
 import { db } from "../client";
+import { CurrencyConversion, sumByCurrency } from "@/lib/utils/currencyConversion";
+
+// Datos del documento de ingreso; compartido por la creación individual y la importación en batch
+const buildIncomeData = (data: CreateIncomeData, uid: string) => ({
+    uid,
+    amount: data.amount,
+    currency: data.currency,
+    source: data.source,
+    receivedAt: data.receivedAt,
+    ...(data.fitId ? { fitId: data.fitId } : {}),
+    accountId: data.accountId || null,
+    tags: data.tags || [],
+    userId: data.userId,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+});
 
 export const createIncomeDocument = async (data : CreateIncomeData, uid: string): Promise<Income> => {
     try{
         const incomeRef = doc(db, 'income', uid);
-
-        const incomeData = {
-            uid,
-            amount: data.amount,
-            currency: data.currency,
-            source: data.source,
-            receivedAt: data.receivedAt,
-            userId: data.userId,
-            createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp(),
-        };
+        const incomeData = buildIncomeData(data, uid);
 
         await setDoc(incomeRef, incomeData);
 
@@ -30,6 +36,34 @@ export const createIncomeDocument = async (data : CreateIncomeData, uid: string)
     }
 };
 
+// Firestore admite como máximo 500 operaciones por batch
+const MAX_BATCH_SIZE = 500;
+
+// Crea varios ingresos con escrituras en batch (importaciones masivas)
+export const createIncomeDocumentsBatch = async (
+    entries: { uid: string; data: CreateIncomeData }[]
+): Promise<number> => {
+    try{
+        let written = 0;
+
+        for (let i = 0; i < entries.length; i += MAX_BATCH_SIZE) {
+            const batch = writeBatch(db);
+
+            entries.slice(i, i + MAX_BATCH_SIZE).forEach(({ uid, data }) => {
+                batch.set(doc(db, 'income', uid), buildIncomeData(data, uid));
+            });
+
+            await batch.commit();
+            written += Math.min(MAX_BATCH_SIZE, entries.length - i);
+        }
+
+        return written;
+    } catch (error){
+        console.error('Error creating income documents batch:', error);
+        throw error;
+    }
+};
+
 export const getIncomeDocument = async (uid: string): Promise<Income | null> => {
     try{
         const incomeRef = doc(db, 'income', uid);
@@ -70,10 +104,13 @@ export const deleteIncomeDocument = async (uid: string): Promise<void> => {
     }
 }
 
-export const getUserIncomes = async (userId: string): Promise<Income[]> => {
+// Con `since` solo los ingresos recibidos desde esa fecha (índice compuesto (userId, receivedAt))
+export const getUserIncomes = async (userId: string, since?: Date): Promise<Income[]> => {
     try{
         const incomeRef = collection(db, 'income');
-        const q = query(incomeRef, where('userId', '==', userId));
+        const q = since
+            ? query(incomeRef, where('userId', '==', userId), where('receivedAt', '>=', Timestamp.fromDate(since)))
+            : query(incomeRef, where('userId', '==', userId));
 
         const querySnapshot = await getDocs(q);
         const incomes: Income[] = [];
@@ -89,9 +126,12 @@ export const getUserIncomes = async (userId: string): Promise<Income[]> => {
     }
 }
 
-export const getTotalIncomesByCurrency = async (userId: string): Promise<{ [currency: string]: number }> => {
-    try {
-        const incomes = await getUserIncomes(userId);
+// Suma ingresos por moneda; con una conversión, los reporta en la moneda base usando la tasa de la fecha de recepción
+export const sumIncomesByCurrency = (
+    incomes: Income[],
+    conversion?: CurrencyConversion | null
+): { [currency: string]: number } => {
+    if (!conversion) {
         const totals: { [currency: string]: number } = {};
         incomes.forEach((income) => {
             if (!totals[income.currency]) {
@@ -100,6 +140,21 @@ export const getTotalIncomesByCurrency = async (userId: string): Promise<{ [curr
             totals[income.currency] += income.amount;
         });
         return totals;
+    }
+
+    return sumByCurrency(
+        incomes.map((income) => ({ amount: income.amount, currency: income.currency, date: income.receivedAt })),
+        conversion
+    );
+}
+
+export const getTotalIncomesByCurrency = async (
+    userId: string,
+    conversion?: CurrencyConversion | null
+): Promise<{ [currency: string]: number }> => {
+    try {
+        const incomes = await getUserIncomes(userId);
+        return sumIncomesByCurrency(incomes, conversion);
     } catch (error) {
         console.error('Error calculating total incomes by currency:', error);
         throw error;
@@ -9,10 +9,14 @@ import {
   setDoc,
   updateDoc,
   where,
-  query
+  query,
+  runTransaction,
+  Timestamp
 } from "firebase/firestore";
 import { Installment, CreateInstallmentData, UpdateInstallmentData } from "@/lib/types/installment";
 import { db } from "../client";
+import { getInstallmentPayment, getRemainingPrincipal } from "@/lib/utils/amortization";
+import { getLocalTimeZone } from "@/lib/utils/recurrence";
 
 export const createInstallmentDocument = async (data: CreateInstallmentData, uid: string): Promise<Installment> => {
   try {
@@ -32,6 +36,10 @@ export const createInstallmentDocument = async (data: CreateInstallmentData, uid
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
       tax: data.tax,
+      interest_type: data.interest_type,
+      annual_rate: data.annual_rate,
+      account_id: data.account_id || null,
+      timeZone: getLocalTimeZone(),
     };
 
     await setDoc(installmentRef, installmentData);
@@ -68,6 +76,8 @@ export const updateInstallmentDocument = async (uid: string, data: UpdateInstall
     const installmentRef = doc(db, 'installments', uid);
     const updateData = {
       ...data,
+      // Las cuotas vencen en la zona horaria de quien fijó la fecha de inicio
+      ...(data.start_date ? { timeZone: getLocalTimeZone() } : {}),
       updatedAt: serverTimestamp(),
     };
     await updateDoc(installmentRef, updateData);
@@ -136,15 +146,84 @@ export const updateCurrentInstallment = async (uid: string, currentInstallment:
   }
 };
 
+// Fecha de vencimiento de la cuota `number` (1 = primera cuota, en start_date), a mediodía local.
+// postInstallmentPayments la calcula igual en la zona horaria guardada en el plan (`timeZone`)
+export const getInstallmentDueDate = (installment: Installment, number: number): Date => {
+  const start = installment.start_date.toDate();
+  const year = start.getFullYear();
+  const month = start.getMonth() + number - 1;
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(start.getDate(), lastDay), 12, 0, 0, 0);
+};
+
+// ID determinístico del gasto de cada cuota; la Cloud Function postInstallmentPayments usa el mismo
+export const getInstallmentExpenseId = (installmentUid: string, number: number): string => {
+  return `${installmentUid}_${number}`;
+};
+
+/**
+ * Registra el pago de la siguiente cuota: crea el gasto vinculado (installmentId)
+ * y avanza current_installment en una misma transacción.
+ * Devuelve el número de la cuota pagada.
+ */
+export const payNextInstallment = async (uid: string): Promise<number> => {
+  try {
+    const installmentRef = doc(db, 'installments', uid);
+
+    return await runTransaction(db, async (transaction) => {
+      const installmentDoc = await transaction.get(installmentRef);
+      if (!installmentDoc.exists()) {
+        throw new Error('Installment not found');
+      }
+
+      const installment = installmentDoc.data() as Installment;
+      if (installment.current_installment >= installment.installments) {
+        throw new Error('Installment already completed');
+      }
+
+      const number = installment.current_installment + 1;
+      const expenseId = getInstallmentExpenseId(uid, number);
+      const expenseRef = doc(db, 'expenses', expenseId);
+
+      // ID determinístico: si la Cloud Function ya registró la cuota, el gasto se conserva tal cual
+      // (puede estar conciliado, etiquetado o dividido) y solo se avanza current_installment
+      const expenseDoc = await transaction.get(expenseRef);
+      if (!expenseDoc.exists()) {
+        transaction.set(expenseRef, {
+          uid: expenseId,
+          amount: getInstallmentPayment(installment, number),
+          categoryId: installment.category_id,
+          currency: installment.currency,
+          date: Timestamp.fromDate(getInstallmentDueDate(installment, number)),
+          installmentId: installmentRef,
+          note: `${installment.description} (${number}/${installment.installments})`,
+          accountId: installment.account_id || null,
+          userId: installment.userId,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+      }
+      transaction.update(installmentRef, {
+        current_installment: number,
+        updatedAt: serverTimestamp(),
+      });
+
+      return number;
+    });
+  } catch (error) {
+    console.error('Error paying installment:', error);
+    throw error;
+  }
+};
+
 // Función para verificar si las cuotas están completas
 export const isInstallmentComplete = (installment: Installment): boolean => {
   return installment.current_installment >= installment.installments;
 };
 
-// Función para calcular el monto restante
+// Función para calcular el monto restante (capital pendiente según la tabla de amortización)
 export const getRemainingAmount = (installment: Installment): number => {
-  const remainingInstallments = installment.installments - installment.current_installment;
-  return remainingInstallments * installment.monthly_amount;
+  return getRemainingPrincipal(installment);
 };
 
 // Función para obtener el progreso en porcentaje
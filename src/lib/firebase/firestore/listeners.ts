@@ -0,0 +1,123 @@
+import { collection, collectionGroup, onSnapshot, query, where, Unsubscribe } from "firebase/firestore";
+import { db } from "../client";
+
+export interface CollectionState<T> {
+  data: T[];
+  loading: boolean;
+  error: Error | null;
+}
+
+interface CacheEntry {
+  state: CollectionState<unknown>;
+  subscribers: Set<() => void>;
+  unsubscribe: Unsubscribe | null;
+  releaseTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Tiempo que se mantiene vivo un listener sin suscriptores, para que navegar
+// entre páginas no vuelva a descargar la colección
+const RELEASE_DELAY = 30 * 1000;
+
+const INITIAL_STATE: CollectionState<never> = { data: [], loading: true, error: null };
+
+// Un único listener por colección y usuario, compartido por todos los componentes
+const cache = new Map<string, CacheEntry>();
+
+const cacheKey = (collectionName: string, userId: string) => `${collectionName}:${userId}`;
+
+// Prefijo para escuchar un grupo de colecciones (todas las subcolecciones con ese nombre)
+const COLLECTION_GROUP_PREFIX = '**/';
+
+/**
+ * Ruta que identifica un grupo de colecciones, p. ej. collectionGroupPath('contributions')
+ * escucha los abonos de todas las metas.
+ */
+export const collectionGroupPath = (collectionId: string) => `${COLLECTION_GROUP_PREFIX}${collectionId}`;
+
+const setEntryState = (entry: CacheEntry, state: CollectionState<unknown>) => {
+  // Se reemplaza el objeto para que useSyncExternalStore detecte el cambio
+  entry.state = state;
+  entry.subscribers.forEach((notify) => notify());
+};
+
+const startListener = (collectionName: string, userId: string, entry: CacheEntry) => {
+  const source = collectionName.startsWith(COLLECTION_GROUP_PREFIX)
+    ? collectionGroup(db, collectionName.slice(COLLECTION_GROUP_PREFIX.length))
+    : collection(db, collectionName);
+  const q = query(source, where('userId', '==', userId));
+
+  entry.unsubscribe = onSnapshot(
+    q,
+    (querySnapshot) => {
+      setEntryState(entry, {
+        data: querySnapshot.docs.map((docSnapshot) => docSnapshot.data()),
+        loading: false,
+        error: null,
+      });
+    },
+    (error) => {
+      console.error(`Error listening to ${collectionName}:`, error);
+      setEntryState(entry, { ...entry.state, loading: false, error });
+    }
+  );
+};
+
+/**
+ * Suscribe a los documentos de una colección del usuario (filtrados por userId).
+ * Todos los suscriptores de la misma colección comparten un solo onSnapshot.
+ * Devuelve la función para cancelar la suscripción.
+ */
+export const subscribeToUserCollection = (
+  collectionName: string,
+  userId: string,
+  onChange: () => void
+): Unsubscribe => {
+  const key = cacheKey(collectionName, userId);
+  let entry = cache.get(key);
+
+  if (!entry) {
+    entry = { state: INITIAL_STATE, subscribers: new Set(), unsubscribe: null, releaseTimer: null };
+    cache.set(key, entry);
+  }
+
+  if (entry.releaseTimer) {
+    clearTimeout(entry.releaseTimer);
+    entry.releaseTimer = null;
+  }
+
+  entry.subscribers.add(onChange);
+  if (!entry.unsubscribe) {
+    startListener(collectionName, userId, entry);
+  }
+
+  const current = entry;
+  return () => {
+    current.subscribers.delete(onChange);
+    if (current.subscribers.size > 0) return;
+
+    current.releaseTimer = setTimeout(() => {
+      current.unsubscribe?.();
+      cache.delete(key);
+    }, RELEASE_DELAY);
+  };
+};
+
+/**
+ * Último estado conocido de la colección del usuario.
+ * Devuelve siempre el mismo objeto mientras no haya cambios.
+ */
+export const getUserCollectionState = <T>(collectionName: string, userId: string): CollectionState<T> => {
+  const entry = cache.get(cacheKey(collectionName, userId));
+  return (entry?.state ?? INITIAL_STATE) as CollectionState<T>;
+};
+
+/**
+ * Cierra todos los listeners activos (por ejemplo, al cerrar sesión).
+ */
+export const clearCollectionListeners = (): void => {
+  cache.forEach((entry) => {
+    if (entry.releaseTimer) clearTimeout(entry.releaseTimer);
+    entry.unsubscribe?.();
+  });
+  cache.clear();
+};
@@ -0,0 +1,49 @@
+import {
+  deleteDoc,
+  doc,
+  updateDoc,
+  writeBatch
+} from "firebase/firestore";
+import { AppNotification, BudgetAlertSettings } from "@/lib/types/notification";
+import { db } from "../client";
+
+// Debe coincidir con DEFAULT_SETTINGS de functions/src/checkBudgetAlerts.ts
+export const DEFAULT_BUDGET_ALERT_SETTINGS: BudgetAlertSettings = {
+  enabled: true,
+  thresholds: [80, 100],
+  email: false,
+};
+
+export const markNotificationRead = async (uid: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'notifications', uid), { read: true });
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    throw error;
+  }
+};
+
+export const markAllNotificationsRead = async (notifications: AppNotification[]): Promise<void> => {
+  try {
+    const unread = notifications.filter((notification) => !notification.read);
+    if (unread.length === 0) return;
+
+    const batch = writeBatch(db);
+    unread.forEach((notification) => {
+      batch.update(doc(db, 'notifications', notification.uid), { read: true });
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    throw error;
+  }
+};
+
+export const deleteNotificationDocument = async (uid: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, 'notifications', uid));
+  } catch (error) {
+    console.error('Error deleting notification document:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,147 @@
+// Seguimiento de escrituras encoladas en la caché local de Firestore.
+// Sin conexión, setDoc/updateDoc/deleteDoc aplican el cambio localmente pero su
+// promesa no se resuelve hasta que el servidor lo confirma; aquí se registra qué
+// documentos siguen pendientes para mostrarlo en la UI. La fuente de verdad es
+// `metadata.hasPendingWrites` de la instantánea de cada documento escrito.
+
+import { doc, onSnapshot, Unsubscribe } from "firebase/firestore";
+import { db } from "../client";
+
+export type WriteResult = 'synced' | 'queued';
+
+export interface SyncStatus {
+  online: boolean;
+  pendingIds: ReadonlySet<string>;
+  failedCount: number; // Escrituras encoladas que el servidor rechazó al sincronizar
+}
+
+// Tiempo que se espera la confirmación del servidor antes de devolver el control al formulario
+// como 'queued'; no decide si el documento sigue pendiente (eso lo indica la instantánea)
+const QUEUE_TIMEOUT = 3000;
+
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pendingIds: new Set(),
+  failedCount: 0,
+};
+
+const subscribers = new Set<() => void>();
+
+const setStatus = (changes: Partial<SyncStatus>) => {
+  // Se reemplaza el objeto para que useSyncExternalStore detecte el cambio
+  status = { ...status, ...changes };
+  subscribers.forEach((notify) => notify());
+};
+
+const setPending = (uid: string, pending: boolean) => {
+  if (status.pendingIds.has(uid) === pending) return;
+  const pendingIds = new Set(status.pendingIds);
+  if (pending) {
+    pendingIds.add(uid);
+  } else {
+    pendingIds.delete(uid);
+  }
+  setStatus({ pendingIds });
+};
+
+// Listeners activos por ruta de documento; cada uno se cierra cuando el servidor confirma la escritura
+const watchers = new Map<string, Unsubscribe>();
+
+/**
+ * Escucha el documento con includeMetadataChanges mientras tenga escrituras locales sin confirmar.
+ * Cubre también los borrados: la instantánea del documento borrado localmente trae hasPendingWrites.
+ */
+const watchPendingWrites = (collectionPath: string, uid: string) => {
+  const ref = doc(db, collectionPath, uid);
+  watchers.get(ref.path)?.();
+
+  const stop = () => {
+    unsubscribe();
+    if (watchers.get(ref.path) === unsubscribe) {
+      watchers.delete(ref.path);
+    }
+  };
+
+  const unsubscribe = onSnapshot(
+    ref,
+    { includeMetadataChanges: true },
+    (snapshot) => {
+      setPending(uid, snapshot.metadata.hasPendingWrites);
+      if (!snapshot.metadata.hasPendingWrites) stop();
+    },
+    (error) => {
+      console.error('Error watching pending writes:', error);
+      setPending(uid, false);
+      stop();
+    }
+  );
+  watchers.set(ref.path, unsubscribe);
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => setStatus({ online: true }));
+  window.addEventListener('offline', () => setStatus({ online: false }));
+}
+
+/**
+ * Registra una escritura de Firestore sobre el documento `collectionPath/uid`.
+ *
+ * Si el servidor la confirma a tiempo devuelve 'synced'; si no hay conexión (o tarda
+ * más de QUEUE_TIMEOUT) devuelve 'queued' sin esperar: el cambio ya está en la caché
+ * local y Firestore lo enviará al recuperar la conexión. Los errores que llegan antes
+ * del timeout se propagan igual que antes. El estado pendiente del documento lo mantiene
+ * su instantánea (watchPendingWrites), no el resultado devuelto.
+ */
+export const trackWrite = (collectionPath: string, uid: string, write: Promise<unknown>): Promise<WriteResult> => {
+  watchPendingWrites(collectionPath, uid);
+
+  let queued = false;
+
+  return new Promise<WriteResult>((resolve, reject) => {
+    const queueTimer = setTimeout(() => {
+      queued = true;
+      resolve('queued');
+    }, status.online ? QUEUE_TIMEOUT : 0);
+
+    write.then(
+      () => {
+        clearTimeout(queueTimer);
+        resolve('synced');
+      },
+      (error) => {
+        clearTimeout(queueTimer);
+        if (queued) {
+          // Ya se informó al usuario que se guardó: se refleja en el indicador de sincronización
+          console.error('Error syncing queued write:', error);
+          setStatus({ failedCount: status.failedCount + 1 });
+          return;
+        }
+        reject(error);
+      }
+    );
+  });
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const subscribeToSyncStatus = (onChange: () => void): (() => void) => {
+  subscribers.add(onChange);
+  return () => {
+    subscribers.delete(onChange);
+  };
+};
+
+/**
+ * Cuenta un error de sincronización informado fuera del SDK (p. ej. un gasto rechazado
+ * al reenviarlo desde el service worker).
+ */
+export const reportSyncFailure = (): void => {
+  setStatus({ failedCount: status.failedCount + 1 });
+};
+
+/**
+ * Limpia el contador de errores una vez que el usuario los vio.
+ */
+export const clearSyncErrors = (): void => {
+  setStatus({ failedCount: 0 });
+};
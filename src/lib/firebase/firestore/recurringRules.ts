@@ -0,0 +1,123 @@
+import {
+  getDocs,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  query,
+  Timestamp
+} from "firebase/firestore";
+import { RecurringRule, CreateRecurringRuleData, UpdateRecurringRuleData } from "@/lib/types/recurringRule";
+import { db } from "../client";
+import { getLocalTimeZone } from "@/lib/utils/recurrence";
+
+export const createRecurringRuleDocument = async (data: CreateRecurringRuleData, uid: string): Promise<RecurringRule> => {
+  try {
+    const ruleRef = doc(db, 'recurringRules', uid);
+
+    const ruleData = {
+      uid,
+      type: data.type,
+      frequency: data.frequency,
+      dayOfMonth: data.dayOfMonth,
+      startDate: data.startDate,
+      endDate: data.endDate || null,
+      nextRunDate: data.nextRunDate,
+      lastRunDate: null,
+      amount: data.amount,
+      currency: data.currency,
+      categoryId: data.categoryId || null,
+      source: data.source || '',
+      note: data.note || '',
+      active: data.active,
+      timeZone: data.timeZone || getLocalTimeZone(),
+      userId: data.userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+
+    await setDoc(ruleRef, ruleData);
+
+    return {
+      ...ruleData,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    } as RecurringRule;
+  } catch (error) {
+    console.error('Error creating recurring rule document:', error);
+    throw error;
+  }
+};
+
+export const getRecurringRuleDocument = async (uid: string): Promise<RecurringRule | null> => {
+  try {
+    const ruleRef = doc(db, 'recurringRules', uid);
+    const ruleDoc = await getDoc(ruleRef);
+
+    if (!ruleDoc.exists()) {
+      return null;
+    }
+
+    return ruleDoc.data() as RecurringRule;
+  } catch (error) {
+    console.error('Error getting recurring rule document:', error);
+    throw error;
+  }
+};
+
+export const updateRecurringRuleDocument = async (uid: string, data: UpdateRecurringRuleData): Promise<void> => {
+  try {
+    const ruleRef = doc(db, 'recurringRules', uid);
+    const updateData = {
+      ...data,
+      updatedAt: serverTimestamp(),
+    };
+    await updateDoc(ruleRef, updateData);
+  } catch (error) {
+    console.error('Error updating recurring rule document:', error);
+    throw error;
+  }
+};
+
+export const deleteRecurringRuleDocument = async (uid: string): Promise<void> => {
+  try {
+    const ruleRef = doc(db, 'recurringRules', uid);
+    await deleteDoc(ruleRef);
+  } catch (error) {
+    console.error('Error deleting recurring rule document:', error);
+    throw error;
+  }
+};
+
+export const getUserRecurringRules = async (userId: string): Promise<RecurringRule[]> => {
+  try {
+    const rulesRef = collection(db, 'recurringRules');
+    const q = query(rulesRef, where('userId', '==', userId));
+
+    const querySnapshot = await getDocs(q);
+    const rules: RecurringRule[] = [];
+
+    querySnapshot.forEach((doc) => {
+      rules.push(doc.data() as RecurringRule);
+    });
+
+    return rules;
+  } catch (error) {
+    console.error('Error getting user recurring rules:', error);
+    throw error;
+  }
+};
+
+// Función para pausar o reactivar una regla recurrente
+export const setRecurringRuleActive = async (uid: string, active: boolean): Promise<void> => {
+  try {
+    await updateRecurringRuleDocument(uid, { active });
+  } catch (error) {
+    console.error('Error toggling recurring rule:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,73 @@
+import {
+  getDocs,
+  collection,
+  deleteDoc,
+  doc,
+  serverTimestamp,
+  setDoc,
+  where,
+  query,
+  Timestamp
+} from "firebase/firestore";
+import { Transfer, CreateTransferData } from "@/lib/types/transfer";
+import { db } from "../client";
+
+export const createTransferDocument = async (data: CreateTransferData, uid: string): Promise<Transfer> => {
+  try {
+    const transferRef = doc(db, 'transfers', uid);
+
+    const transferData = {
+      uid,
+      fromAccountId: data.fromAccountId,
+      toAccountId: data.toAccountId,
+      amount: data.amount,
+      currency: data.currency,
+      toAmount: data.toAmount,
+      date: data.date,
+      note: data.note || null,
+      userId: data.userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+
+    await setDoc(transferRef, transferData);
+
+    return {
+      ...transferData,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    } as Transfer;
+  } catch (error) {
+    console.error('Error creating transfer document:', error);
+    throw error;
+  }
+};
+
+export const deleteTransferDocument = async (uid: string): Promise<void> => {
+  try {
+    const transferRef = doc(db, 'transfers', uid);
+    await deleteDoc(transferRef);
+  } catch (error) {
+    console.error('Error deleting transfer document:', error);
+    throw error;
+  }
+};
+
+export const getUserTransfers = async (userId: string): Promise<Transfer[]> => {
+  try {
+    const transfersRef = collection(db, 'transfers');
+    const q = query(transfersRef, where('userId', '==', userId));
+
+    const querySnapshot = await getDocs(q);
+    const transfers: Transfer[] = [];
+
+    querySnapshot.forEach((doc) => {
+      transfers.push(doc.data() as Transfer);
+    });
+
+    return transfers;
+  } catch (error) {
+    console.error('Error getting user transfers:', error);
+    throw error;
+  }
+};
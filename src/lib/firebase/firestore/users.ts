@@ -1,6 +1,7 @@
 import { doc, setDoc, getDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '../client';
 import { User } from 'firebase/auth';
+import { BudgetAlertSettings } from '@/lib/types/notification';
 
 export interface UserData {
   uid: string;
@@ -8,6 +9,9 @@ export interface UserData {
   name: string;
   photoURL?: string;
   language: string;
+  baseCurrency?: string;
+  budgetAlerts?: BudgetAlertSettings;
+  timeZone?: string;
   createdAt: any;
   updatedAt: any;
 }
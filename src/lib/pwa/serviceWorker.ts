@@ -0,0 +1,170 @@
+import { DocumentReference, FieldValue, Timestamp } from 'firebase/firestore';
+import { CreateExpenseData } from '@/lib/types/expense';
+import { db } from '@/lib/firebase/client';
+import { buildExpenseData } from '@/lib/firebase/firestore/expenses';
+import { reportSyncFailure } from '@/lib/firebase/firestore/pendingWrites';
+
+// Debe coincidir con EXPENSE_SYNC_TAG de public/sw.js
+const EXPENSE_SYNC_TAG = 'expense-queue';
+
+// Background Sync todavía no está en los tipos de lib.dom
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> };
+}
+
+export interface WorkerAuth {
+  token: string;
+  expiresAt: number; // Vencimiento del ID token (ms); el worker no lo usa después de esa hora
+  userId: string;
+  projectId: string;
+}
+
+type WorkerMessage =
+  | { type: 'AUTH'; auth: WorkerAuth | null }
+  | { type: 'QUEUE_EXPENSE'; expense: QueuedExpense }
+  | { type: 'EXPENSE_SYNCED'; uid: string }
+  | { type: 'REPLAY_QUEUE' }
+  | { type: 'RETRY_REJECTED' };
+
+// Mensajes que el worker envía a las pestañas abiertas
+type ClientMessage = { type: 'EXPENSE_REJECTED'; uid: string; status: number };
+
+// Valor de la API REST de Firestore (https://firebase.google.com/docs/firestore/reference/rest/v1/Value)
+type RestValue =
+  | { nullValue: null }
+  | { booleanValue: boolean }
+  | { integerValue: string }
+  | { doubleValue: number }
+  | { stringValue: string }
+  | { timestampValue: string }
+  | { referenceValue: string }
+  | { arrayValue: { values: RestValue[] } }
+  | { mapValue: { fields: Record<string, RestValue> } };
+
+// Gasto listo para la API REST: los campos salen de buildExpenseData, así el worker no replica el esquema
+interface QueuedExpense {
+  uid: string;
+  userId: string;
+  fields: Record<string, RestValue>;
+  serverTimestampFields: string[]; // Campos con serverTimestamp(), enviados como transformaciones REQUEST_TIME
+}
+
+const getDocumentsPath = () =>
+  `projects/${db.app.options.projectId}/databases/(default)/documents`;
+
+// Convierte un valor del SDK (Timestamp, DocumentReference, arreglos, mapas) al formato REST
+const toRestValue = (value: unknown, documentsPath: string): RestValue => {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  }
+  if (typeof value === 'string') return { stringValue: value };
+  if (value instanceof Timestamp) return { timestampValue: value.toDate().toISOString() };
+  if (value instanceof DocumentReference) return { referenceValue: `${documentsPath}/${value.path}` };
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map((item) => toRestValue(item, documentsPath)) } };
+  }
+  return { mapValue: { fields: toRestFields(value as Record<string, unknown>, documentsPath).fields } };
+};
+
+const toRestFields = (data: Record<string, unknown>, documentsPath: string) => {
+  const fields: Record<string, RestValue> = {};
+  const serverTimestampFields: string[] = [];
+
+  Object.entries(data).forEach(([key, value]) => {
+    if (value === undefined) return;
+    // buildExpenseData solo usa serverTimestamp() como FieldValue
+    if (value instanceof FieldValue) {
+      serverTimestampFields.push(key);
+      return;
+    }
+    fields[key] = toRestValue(value, documentsPath);
+  });
+
+  return { fields, serverTimestampFields };
+};
+
+const isSupported = () => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+const postToWorker = (message: WorkerMessage) => {
+  if (!isSupported()) return;
+  navigator.serviceWorker.controller?.postMessage(message);
+};
+
+/**
+ * Registra el service worker (solo en producción, para no cachear el servidor de desarrollo).
+ */
+export const registerServiceWorker = async (): Promise<void> => {
+  if (!isSupported() || process.env.NODE_ENV !== 'production') return;
+
+  try {
+    await navigator.serviceWorker.register('/sw.js', { scope: '/' });
+
+    // Navegadores sin Background Sync: se pide el reenvío al recuperar la conexión
+    window.addEventListener('online', () => postToWorker({ type: 'REPLAY_QUEUE' }));
+
+    // El servidor rechazó un gasto encolado: se muestra en el indicador de sincronización
+    // y queda en la cola hasta que el usuario pida reintentarlo
+    navigator.serviceWorker.addEventListener('message', (event: MessageEvent<ClientMessage>) => {
+      if (event.data?.type === 'EXPENSE_REJECTED') {
+        console.error(`Queued expense ${event.data.uid} rejected (${event.data.status})`);
+        reportSyncFailure();
+      }
+    });
+  } catch (error) {
+    console.error('Error registering service worker:', error);
+  }
+};
+
+/**
+ * Envía al service worker el ID token vigente para que pueda reenviar gastos
+ * aunque la app esté cerrada. Con null (sesión cerrada) se descarta el token.
+ *
+ * El worker lo guarda en su IndexedDB porque Background Sync puede dispararse sin ninguna
+ * pestaña abierta a la que pedírselo. Solo se guarda el ID token (vence en una hora y
+ * solo permite lo que las reglas de Firestore permiten al usuario), nunca el refresh token.
+ */
+export const updateServiceWorkerAuth = (auth: WorkerAuth | null): void => {
+  postToWorker({ type: 'AUTH', auth });
+};
+
+/**
+ * Vuelve a poner en la cola los gastos que el servidor rechazó (400/403) y pide reenviarlos.
+ */
+export const retryRejectedExpenses = (): void => {
+  postToWorker({ type: 'RETRY_REJECTED' });
+};
+
+/**
+ * Encola en el service worker un gasto creado sin conexión y registra el Background Sync.
+ * Si el SDK de Firestore lo sincroniza primero (`write` se resuelve), se quita de la cola.
+ */
+export const queueExpenseForBackgroundSync = async (
+  uid: string,
+  data: CreateExpenseData,
+  write: Promise<unknown>
+): Promise<void> => {
+  if (!isSupported() || !navigator.serviceWorker.controller) return;
+
+  try {
+    postToWorker({
+      type: 'QUEUE_EXPENSE',
+      expense: {
+        uid,
+        userId: data.userId,
+        ...toRestFields(buildExpenseData(data, uid), getDocumentsPath()),
+      },
+    });
+
+    write.then(
+      () => postToWorker({ type: 'EXPENSE_SYNCED', uid }),
+      () => postToWorker({ type: 'EXPENSE_SYNCED', uid })
+    );
+
+    const registration = (await navigator.serviceWorker.ready) as SyncCapableRegistration;
+    await registration.sync?.register(EXPENSE_SYNC_TAG);
+  } catch (error) {
+    console.error('Error queueing expense for background sync:', error);
+  }
+};
@@ -0,0 +1,38 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type AccountType = 'checking' | 'savings' | 'creditCard' | 'cash';
+
+// Cuenta o billetera donde se registran los movimientos
+export interface Account {
+  uid: string;
+  name: string;
+  type: AccountType;
+  currency: string;
+  openingBalance: number; // Saldo inicial; negativo para una tarjeta con deuda
+  closingDay?: number | null; // Tarjetas: día de corte del estado de cuenta (1-31)
+  paymentDueDay?: number | null; // Tarjetas: día límite de pago (1-31)
+  lastReconciledAt?: Timestamp | null; // Fecha del último estado de cuenta conciliado
+  lastReconciledBalance?: number | null; // Saldo final de ese estado de cuenta
+  userId: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface CreateAccountData {
+  name: string;
+  type: AccountType;
+  currency: string;
+  openingBalance: number;
+  closingDay?: number | null;
+  paymentDueDay?: number | null;
+  userId: string;
+}
+
+export interface UpdateAccountData {
+  name?: string;
+  type?: AccountType;
+  currency?: string;
+  openingBalance?: number;
+  closingDay?: number | null;
+  paymentDueDay?: number | null;
+}
@@ -1,5 +1,9 @@
 import { Timestamp } from 'firebase/firestore';
 
+// Qué se arrastra del presupuesto de un mes al siguiente
+// none: nada, surplus: solo el sobrante, deficit: solo el exceso, both: ambos
+export type BudgetRollover = 'none' | 'surplus' | 'deficit' | 'both';
+
 export interface Category {
   uid: string;
   name: string;
@@ -8,6 +12,8 @@ export interface Category {
   type: string;
   userId: string;
   activeMonths?: number[]; // Array de meses (0-11) donde la categoría está activa
+  rollover?: BudgetRollover; // Sin definir equivale a 'none'
+  budgetOverrides?: Record<string, number>; // Límite de meses puntuales, clave 'YYYY-MM' (mes 01-12)
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -19,6 +25,8 @@ export interface CreateCategoryData {
   type: string;
   userId: string;
   activeMonths?: number[];
+  rollover?: BudgetRollover;
+  budgetOverrides?: Record<string, number>;
 }
 
 export interface UpdateCategoryData {
@@ -27,4 +35,6 @@ export interface UpdateCategoryData {
   monthly_limit?: number;
   type?: string;
   activeMonths?: number[];
+  rollover?: BudgetRollover;
+  budgetOverrides?: Record<string, number>;
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { Timestamp } from 'firebase/firestore';
+
+// 1 fromCurrency = rate toCurrency, vigente a partir de `date`
+export interface ExchangeRate {
+  uid: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: Timestamp;
+  userId: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface CreateExchangeRateData {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: Timestamp;
+  userId: string;
+}
+
+export interface UpdateExchangeRateData {
+  fromCurrency?: string;
+  toCurrency?: string;
+  rate?: number;
+  date?: Timestamp;
+}
@@ -2,6 +2,13 @@ import { Timestamp, DocumentReference } from 'firebase/firestore';
 import { Category } from './category';
 import { Installment } from './installment';
 
+// Línea de un gasto dividido entre varias categorías (la suma de los montos es el total)
+export interface ExpenseSplit {
+    categoryId: DocumentReference<Category>;
+    amount: number;
+    note?: string;
+}
+
 export interface Expense {
     uid: string;
     amount: number;
@@ -10,6 +17,14 @@ export interface Expense {
     date: Timestamp;
     installmentId?: DocumentReference<Installment>;
     note?: string;
+    recurringRuleId?: string; // Regla recurrente que generó el gasto (si aplica)
+    fitId?: string; // FITID del extracto OFX importado (clave de deduplicación)
+    splits?: ExpenseSplit[] | null; // Si existe, reemplaza a categoryId para los totales por categoría
+    splitCategoryIds?: string[] | null; // IDs de las categorías de splits (para consultas array-contains)
+    isSplit?: boolean;
+    accountId?: string | null; // Cuenta de la que salió el gasto (opcional)
+    reconciledAt?: Timestamp | null; // Fecha del estado de cuenta con el que se concilió
+    tags?: string[]; // Etiquetas libres normalizadas (ver src/lib/utils/tags.ts)
     userId: string;
     createdAt: Timestamp;
     updatedAt: Timestamp;
@@ -22,6 +37,10 @@ export interface CreateExpenseData {
     date: Timestamp;
     installmentId?: DocumentReference<Installment>;
     note?: string;
+    fitId?: string;
+    splits?: ExpenseSplit[] | null;
+    accountId?: string | null;
+    tags?: string[];
     userId: string;
 }
 
@@ -32,4 +51,8 @@ export interface UpdateExpenseData {
     date?: Timestamp;
     installmentId?: DocumentReference<Installment> | null;
     note?: string;
+    splits?: ExpenseSplit[] | null; // null quita la división
+    accountId?: string | null;
+    reconciledAt?: Timestamp | null; // null lo saca de la conciliación
+    tags?: string[];
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { Timestamp } from 'firebase/firestore';
+
 export default interface Goal {
     uid: string;
     title: string;
@@ -18,10 +20,30 @@ export interface CreateGoalData {
     userId: string;
 }
 
+// currentAmount no se edita: solo cambia con los abonos (addContributionToGoal / undoGoalContribution)
 export interface UpdateGoalData {
     title?: string;
     targetAmount?: number;
-    currentAmount?: number;
     currency?: string;
     dueDate?: Date;
-}
\ No newline at end of file
+}
+
+// Abono a una meta, guardado en la subcolección goals/{goalId}/contributions
+export interface GoalContribution {
+    uid: string;
+    goalId: string;
+    amount: number;
+    date: Timestamp;
+    note?: string | null;
+    sourceIncomeId?: string | null; // Ingreso del que proviene el abono (si aplica)
+    userId: string;
+    createdAt: Timestamp;
+}
+
+export interface CreateGoalContributionData {
+    amount: number;
+    date: Timestamp;
+    note?: string;
+    sourceIncomeId?: string;
+    userId: string;
+}
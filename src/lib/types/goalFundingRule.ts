@@ -0,0 +1,29 @@
+import { Timestamp } from 'firebase/firestore';
+
+// Regla que destina un porcentaje de los ingresos que coinciden a una meta
+export interface GoalFundingRule {
+  uid: string;
+  goalId: string;
+  sourcePattern: string; // Texto a buscar en el origen del ingreso; admite '*' como comodín
+  currency: string; // Moneda de la meta: solo se aplican ingresos en esa moneda
+  percentage: number; // 0-100
+  active: boolean;
+  userId: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface CreateGoalFundingRuleData {
+  goalId: string;
+  sourcePattern: string;
+  currency: string;
+  percentage: number;
+  active: boolean;
+  userId: string;
+}
+
+export interface UpdateGoalFundingRuleData {
+  sourcePattern?: string;
+  percentage?: number;
+  active?: boolean;
+}
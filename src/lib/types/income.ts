@@ -6,6 +6,11 @@ export interface Income {
   currency: string;
   source: string;
   receivedAt: Timestamp;
+  recurringRuleId?: string; // Regla recurrente que generó el ingreso (si aplica)
+  fitId?: string; // FITID del extracto OFX importado (clave de deduplicación)
+  accountId?: string | null; // Cuenta donde se recibió el ingreso (opcional)
+  reconciledAt?: Timestamp | null; // Fecha del estado de cuenta con el que se concilió
+  tags?: string[]; // Etiquetas libres normalizadas (ver src/lib/utils/tags.ts)
   userId: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
@@ -16,6 +21,9 @@ export interface CreateIncomeData {
   currency: string;
   source: string;
   receivedAt: Timestamp;
+  fitId?: string;
+  accountId?: string | null;
+  tags?: string[];
   userId: string;
 }
 
@@ -24,4 +32,7 @@ export interface UpdateIncomeData {
   currency?: string;
   source?: string;
   receivedAt?: Timestamp;
+  accountId?: string | null;
+  reconciledAt?: Timestamp | null; // null lo saca de la conciliación
+  tags?: string[];
 }
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { Timestamp, DocumentReference } from 'firebase/firestore';
 import { Category } from './category';
 
+// flat: recargo fijo `tax`; french/german: interés anual `annual_rate` sobre el saldo
+export type InstallmentInterestType = 'flat' | 'french' | 'german';
+
 export interface Installment {
   uid: string;
   category_id: DocumentReference<Category>;
@@ -15,6 +18,10 @@ export interface Installment {
   createdAt: Timestamp;
   updatedAt: Timestamp;
   tax : number;
+  interest_type?: InstallmentInterestType; // Sin valor: 'flat' (planes anteriores)
+  annual_rate?: number; // Tasa de interés anual en %
+  account_id?: string | null; // Cuenta desde la que se pagan las cuotas
+  timeZone?: string; // Zona horaria IANA en la que vencen las cuotas (la usa postInstallmentPayments)
 }
 
 export interface CreateInstallmentData {
@@ -28,6 +35,9 @@ export interface CreateInstallmentData {
   total_amount: number;
   userId: string;
   tax: number;
+  interest_type: InstallmentInterestType;
+  annual_rate: number;
+  account_id?: string | null;
 }
 
 export interface UpdateInstallmentData {
@@ -40,4 +50,7 @@ export interface UpdateInstallmentData {
   start_date?: Timestamp;
   total_amount?: number;
   tax?: number;
+  interest_type?: InstallmentInterestType;
+  annual_rate?: number;
+  account_id?: string | null;
 }
@@ -0,0 +1,26 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type NotificationType = 'budgetAlert';
+
+// Notificación en la app; la crea la Cloud Function checkBudgetAlerts (functions/src)
+export interface AppNotification {
+  uid: string;
+  userId: string;
+  type: NotificationType;
+  categoryId: string;
+  categoryName: string;
+  threshold: number; // Porcentaje del límite mensual que se cruzó
+  spent: number;
+  limit: number;
+  currency: string;
+  month: string; // 'YYYY-MM'
+  read: boolean;
+  createdAt: Timestamp;
+}
+
+// Preferencias de alertas de presupuesto (se guardan en el documento del usuario)
+export interface BudgetAlertSettings {
+  enabled: boolean;
+  thresholds: number[]; // Porcentajes, p. ej. [80, 100]
+  email: boolean; // Además de la notificación en la app, enviar un correo
+}
@@ -0,0 +1,59 @@
+import { Timestamp, DocumentReference } from 'firebase/firestore';
+import { Category } from './category';
+
+export type RecurringRuleType = 'expense' | 'income';
+
+export type RecurringFrequency = 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+
+export interface RecurringRule {
+  uid: string;
+  type: RecurringRuleType;
+  frequency: RecurringFrequency;
+  dayOfMonth: number; // 1-31, usado por las frecuencias mensual y anual
+  startDate: Timestamp;
+  endDate?: Timestamp | null;
+  nextRunDate: Timestamp; // Próxima ocurrencia pendiente de materializar
+  lastRunDate?: Timestamp | null;
+  amount: number;
+  currency: string;
+  categoryId?: DocumentReference<Category> | null; // Solo para gastos
+  source?: string; // Solo para ingresos
+  note?: string;
+  active: boolean;
+  timeZone?: string; // Zona horaria IANA en la que se calculan las ocurrencias
+  userId: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface CreateRecurringRuleData {
+  type: RecurringRuleType;
+  frequency: RecurringFrequency;
+  dayOfMonth: number;
+  startDate: Timestamp;
+  endDate?: Timestamp | null;
+  nextRunDate: Timestamp;
+  amount: number;
+  currency: string;
+  categoryId?: DocumentReference<Category> | null;
+  source?: string;
+  note?: string;
+  active: boolean;
+  timeZone?: string;
+  userId: string;
+}
+
+export interface UpdateRecurringRuleData {
+  frequency?: RecurringFrequency;
+  dayOfMonth?: number;
+  startDate?: Timestamp;
+  endDate?: Timestamp | null;
+  nextRunDate?: Timestamp;
+  amount?: number;
+  currency?: string;
+  categoryId?: DocumentReference<Category> | null;
+  source?: string;
+  note?: string;
+  active?: boolean;
+  timeZone?: string;
+}
@@ -0,0 +1,9 @@
+import { Timestamp } from 'firebase/firestore';
+
+// Documento userTags/{userId}, escrito por las Cloud Functions updateExpenseTags/updateIncomeTags
+export interface UserTags {
+  userId: string;
+  counts: Record<string, number>; // Gastos e ingresos que usan cada etiqueta
+  seededAt: Timestamp;
+  updatedAt: Timestamp;
+}
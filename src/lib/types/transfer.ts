@@ -0,0 +1,27 @@
+import { Timestamp } from 'firebase/firestore';
+
+// Movimiento entre dos cuentas del usuario; no cuenta como gasto ni como ingreso
+export interface Transfer {
+  uid: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number; // Monto que sale, en la moneda de la cuenta de origen
+  currency: string;
+  toAmount: number; // Monto que entra, en la moneda de la cuenta de destino
+  date: Timestamp;
+  note?: string | null;
+  userId: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface CreateTransferData {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  currency: string;
+  toAmount: number;
+  date: Timestamp;
+  note?: string | null;
+  userId: string;
+}
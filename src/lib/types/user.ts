@@ -1,4 +1,5 @@
 import { Timestamp } from 'firebase/firestore';
+import { BudgetAlertSettings } from './notification';
 
 export interface User {
   uid: string;
@@ -6,6 +7,9 @@ export interface User {
   name: string;
   photoURL?: string;
   language: string;
+  baseCurrency?: string; // Moneda en la que se reportan los totales del dashboard
+  budgetAlerts?: BudgetAlertSettings; // Sin definir se usan los valores por defecto
+  timeZone?: string; // Zona horaria IANA del navegador; las Cloud Functions agrupan los gastos por mes en ella
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
@@ -22,4 +26,6 @@ export interface UpdateUserData {
   email?: string;
   photoURL?: string;
   language?: string;
+  baseCurrency?: string;
+  budgetAlerts?: BudgetAlertSettings;
 }
@@ -0,0 +1,105 @@
+import { Timestamp } from 'firebase/firestore';
+import { Account, AccountType } from '@/lib/types/account';
+import { Expense } from '@/lib/types/expense';
+import { Income } from '@/lib/types/income';
+import { Transfer } from '@/lib/types/transfer';
+import { ExchangeRate } from '@/lib/types/exchangeRate';
+import { convertAmount } from './currencyConversion';
+
+export const ACCOUNT_TYPES: AccountType[] = ['checking', 'savings', 'creditCard', 'cash'];
+
+// Movimientos usados para calcular los saldos
+export interface AccountMovements {
+  expenses: Expense[];
+  incomes: Income[];
+  transfers: Transfer[];
+  rates: ExchangeRate[];
+}
+
+export interface AccountBalance {
+  account: Account;
+  balance: number; // Saldo al cierre de la fecha pedida
+  change: number; // Variación dentro del periodo pedido
+  unconverted: number; // Movimientos sin tasa de cambio (se suman sin convertir)
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Monto expresado en la moneda de la cuenta, con la tasa de la fecha del movimiento.
+ *
+ * @returns el monto convertido, o null si no hay tasa de cambio
+ */
+export function toAccountCurrency(
+  account: Account,
+  amount: number,
+  currency: string,
+  date: Timestamp,
+  rates: ExchangeRate[]
+): number | null {
+  if (currency === account.currency) return amount;
+  return convertAmount(amount, currency, account.currency, date, rates);
+}
+
+/**
+ * Saldo de una cuenta hasta `end` (inclusive): saldo inicial + ingresos − gastos
+ * ± transferencias. Los movimientos en otra moneda se convierten con la tasa de su fecha;
+ * si no hay tasa se suman sin convertir y se informan en `unconverted`.
+ *
+ * Si se indica `start`, `change` es la variación entre `start` y `end`.
+ */
+export function getAccountBalance(
+  account: Account,
+  { expenses, incomes, transfers, rates }: AccountMovements,
+  end: Date = new Date(),
+  start?: Date
+): AccountBalance {
+  let balance = account.openingBalance;
+  let change = 0;
+  let unconverted = 0;
+
+  const add = (amount: number, currency: string, date: Timestamp) => {
+    const moment = date.toDate();
+    if (moment > end) return;
+
+    let value = amount;
+    const converted = toAccountCurrency(account, Math.abs(amount), currency, date, rates);
+    if (converted === null) {
+      unconverted++;
+    } else {
+      value = Math.sign(amount) * converted;
+    }
+
+    balance += value;
+    if (start && moment >= start) change += value;
+  };
+
+  incomes
+    .filter(income => income.accountId === account.uid)
+    .forEach(income => add(income.amount, income.currency, income.receivedAt));
+  expenses
+    .filter(expense => expense.accountId === account.uid)
+    .forEach(expense => add(-expense.amount, expense.currency, expense.date));
+  transfers.forEach(transfer => {
+    if (transfer.fromAccountId === account.uid) add(-transfer.amount, transfer.currency, transfer.date);
+    if (transfer.toAccountId === account.uid) add(transfer.toAmount, account.currency, transfer.date);
+  });
+
+  return { account, balance: roundCents(balance), change: roundCents(change), unconverted };
+}
+
+/**
+ * Saldos de todas las cuentas, ordenados por tipo y nombre.
+ */
+export function getAccountBalances(
+  accounts: Account[],
+  movements: AccountMovements,
+  end: Date = new Date(),
+  start?: Date
+): AccountBalance[] {
+  return [...accounts]
+    .sort((a, b) =>
+      ACCOUNT_TYPES.indexOf(a.type) - ACCOUNT_TYPES.indexOf(b.type) || a.name.localeCompare(b.name)
+    )
+    .map(account => getAccountBalance(account, movements, end, start));
+}
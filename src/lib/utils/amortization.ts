@@ -0,0 +1,125 @@
+import { Installment, InstallmentInterestType } from '@/lib/types/installment';
+
+export const INTEREST_TYPES: InstallmentInterestType[] = ['flat', 'french', 'german'];
+
+// Fila de la tabla de amortización de una cuota
+export interface AmortizationRow {
+  number: number; // 1 = primera cuota
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number; // Capital pendiente después de pagar la cuota
+}
+
+export interface AmortizationParams {
+  principal: number;
+  periods: number;
+  interestType: InstallmentInterestType;
+  annualRate?: number; // Tasa anual en %, para 'french' y 'german'
+  flatRate?: number; // Recargo total en % sobre el capital, para 'flat'
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Genera la tabla de amortización completa (capital, interés y saldo por cuota).
+ *
+ * - flat: recargo fijo sobre el capital repartido en cuotas iguales (el antiguo `tax`).
+ * - french: cuota constante; el interés se calcula sobre el saldo y baja cada mes.
+ * - german: amortización de capital constante; la cuota baja cada mes.
+ *
+ * Los montos se redondean a centavos y la última cuota absorbe la diferencia,
+ * para que el saldo final sea exactamente 0.
+ */
+export function buildAmortizationSchedule({
+  principal,
+  periods,
+  interestType,
+  annualRate = 0,
+  flatRate = 0,
+}: AmortizationParams): AmortizationRow[] {
+  if (principal <= 0 || periods <= 0) return [];
+
+  const n = Math.floor(periods);
+  const monthlyRate = annualRate / 100 / 12;
+  const frenchPayment = monthlyRate > 0
+    ? principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -n))
+    : principal / n;
+
+  const rows: AmortizationRow[] = [];
+  let balance = principal;
+
+  for (let number = 1; number <= n; number++) {
+    let interest: number;
+    let principalPart: number;
+
+    if (interestType === 'flat') {
+      interest = roundCents(principal * flatRate / 100 / n);
+      principalPart = roundCents(principal / n);
+    } else {
+      interest = roundCents(balance * monthlyRate);
+      principalPart = interestType === 'german'
+        ? roundCents(principal / n)
+        : roundCents(frenchPayment - interest);
+    }
+
+    if (number === n) {
+      principalPart = roundCents(balance);
+    }
+
+    balance = roundCents(balance - principalPart);
+    rows.push({
+      number,
+      payment: roundCents(principalPart + interest),
+      principal: principalPart,
+      interest,
+      balance: Math.max(0, balance),
+    });
+  }
+
+  return rows;
+}
+
+// Planes creados antes de la tabla de amortización usan el recargo fijo `tax`
+export const getInterestType = (installment: Installment): InstallmentInterestType => {
+  return installment.interest_type || 'flat';
+};
+
+/**
+ * Tabla de amortización de un plan de cuotas guardado.
+ */
+export function getInstallmentSchedule(installment: Installment): AmortizationRow[] {
+  return buildAmortizationSchedule({
+    principal: installment.total_amount,
+    periods: installment.installments,
+    interestType: getInterestType(installment),
+    annualRate: installment.annual_rate || 0,
+    flatRate: installment.tax || 0,
+  });
+}
+
+/**
+ * Monto de la cuota `number` (1 = primera). Con amortización alemana cada cuota es distinta.
+ */
+export function getInstallmentPayment(installment: Installment, number: number): number {
+  if (getInterestType(installment) !== 'german') return installment.monthly_amount;
+  const row = getInstallmentSchedule(installment).find(item => item.number === number);
+  return row ? row.payment : installment.monthly_amount;
+}
+
+/**
+ * Capital pendiente después de pagar `paidCount` cuotas.
+ */
+export function getBalanceAfter(installment: Installment, paidCount: number): number {
+  if (paidCount <= 0) return installment.total_amount;
+  const schedule = getInstallmentSchedule(installment);
+  const row = schedule[Math.min(paidCount, schedule.length) - 1];
+  return row ? row.balance : 0;
+}
+
+/**
+ * Capital pendiente después de las cuotas ya pagadas (current_installment).
+ */
+export function getRemainingPrincipal(installment: Installment): number {
+  return getBalanceAfter(installment, installment.current_installment);
+}
@@ -0,0 +1,143 @@
+import { Timestamp } from 'firebase/firestore';
+import { BudgetRollover, Category } from '@/lib/types/category';
+import { Expense } from '@/lib/types/expense';
+import { ExchangeRate } from '@/lib/types/exchangeRate';
+import { getCategoryAmount } from './expenseSplits';
+import { convertAmount } from './currencyConversion';
+
+export const BUDGET_ROLLOVER_MODES: BudgetRollover[] = ['none', 'surplus', 'deficit', 'both'];
+
+// Límite de meses hacia atrás que se recorren para calcular el arrastre
+const MAX_HISTORY_MONTHS = 36;
+
+/**
+ * Estado del presupuesto de una categoría en un mes.
+ * available = limit + carriedOver - spent
+ */
+export interface BudgetMonth {
+  year: number;
+  month: number; // 0-11
+  limit: number;
+  carriedOver: number; // Sobrante (positivo) o exceso (negativo) arrastrado del mes anterior
+  spent: number;
+  available: number;
+}
+
+const monthIndex = (year: number, month: number) => year * 12 + month;
+
+const toDate = (value: Timestamp | Date | null | undefined): Date | null => {
+  if (!value) return null;
+  return value instanceof Date ? value : value.toDate();
+};
+
+/**
+ * Clave de budgetOverrides para un mes: 'YYYY-MM' con el mes de 01 a 12.
+ */
+export function budgetMonthKey(year: number, month: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Límite de la categoría para un mes: el límite específico de ese mes si existe,
+ * si no el monthly_limit general.
+ */
+export function getMonthlyLimit(category: Category, year: number, month: number): number {
+  const override = category.budgetOverrides?.[budgetMonthKey(year, month)];
+  return typeof override === 'number' ? override : category.monthly_limit;
+}
+
+// Sin activeMonths la categoría está activa todo el año
+const isActiveMonth = (category: Category, month: number): boolean =>
+  !category.activeMonths || category.activeMonths.length === 0 || category.activeMonths.includes(month);
+
+/**
+ * Parte del saldo de un mes que pasa al siguiente según el modo de arrastre.
+ */
+export function getCarryForward(mode: BudgetRollover | undefined, available: number): number {
+  switch (mode) {
+    case 'surplus':
+      return Math.max(available, 0);
+    case 'deficit':
+      return Math.min(available, 0);
+    case 'both':
+      return available;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Parte del gasto que cuenta para el presupuesto de la categoría, en la moneda de la categoría.
+ * Los montos en otra moneda se convierten con la tasa de la fecha del gasto; sin tasa no se suman.
+ * checkBudgetAlerts (functions/src) aplica la misma regla.
+ */
+export function getBudgetAmount(expense: Expense, category: Category, rates: ExchangeRate[]): number {
+  const amount = getCategoryAmount(expense, category.uid);
+  if (amount === 0) return 0;
+  return convertAmount(amount, expense.currency, category.currency, expense.date, rates) ?? 0;
+}
+
+/**
+ * Historial del presupuesto de una categoría, mes a mes, desde el mes en que se
+ * creó la categoría hasta el mes indicado (inclusive). El último elemento es el mes pedido.
+ *
+ * @param expenses - Gastos del usuario (pueden incluir otras categorías; se filtran aquí)
+ * @param rates - Tasas para convertir los gastos en otra moneda (ver getBudgetAmount)
+ */
+export function getBudgetHistory(
+  category: Category,
+  expenses: Expense[],
+  rates: ExchangeRate[],
+  year: number,
+  month: number
+): BudgetMonth[] {
+  const target = monthIndex(year, month);
+  const createdAt = toDate(category.createdAt);
+  const created = createdAt ? monthIndex(createdAt.getFullYear(), createdAt.getMonth()) : target;
+  const start = Math.max(Math.min(created, target), target - MAX_HISTORY_MONTHS + 1);
+
+  // Gasto por mes de esta categoría (un gasto dividido solo aporta su parte)
+  const spentByMonth = new Map<number, number>();
+  expenses.forEach(expense => {
+    const date = toDate(expense.date);
+    if (!date) return;
+    const index = monthIndex(date.getFullYear(), date.getMonth());
+    if (index < start || index > target) return;
+
+    const amount = getBudgetAmount(expense, category, rates);
+    if (amount > 0) {
+      spentByMonth.set(index, (spentByMonth.get(index) || 0) + amount);
+    }
+  });
+
+  const history: BudgetMonth[] = [];
+  let carriedOver = 0;
+
+  for (let index = start; index <= target; index++) {
+    const entryYear = Math.floor(index / 12);
+    const entryMonth = index % 12;
+    // En los meses en que la categoría no está activa no hay presupuesto que arrastrar
+    const limit = isActiveMonth(category, entryMonth) ? getMonthlyLimit(category, entryYear, entryMonth) : 0;
+    const spent = spentByMonth.get(index) || 0;
+    const available = limit + carriedOver - spent;
+
+    history.push({ year: entryYear, month: entryMonth, limit, carriedOver, spent, available });
+    carriedOver = getCarryForward(category.rollover, available);
+  }
+
+  return history;
+}
+
+/**
+ * Presupuesto de la categoría en el mes indicado, con el arrastre de los meses anteriores.
+ */
+export function getBudgetForMonth(
+  category: Category,
+  expenses: Expense[],
+  rates: ExchangeRate[],
+  year: number,
+  month: number
+): BudgetMonth {
+  const history = getBudgetHistory(category, expenses, rates, year, month);
+  return history[history.length - 1];
+}
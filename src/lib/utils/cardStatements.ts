@@ -0,0 +1,196 @@
+import { addDays, addMonths, endOfDay, startOfDay } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { Account } from '@/lib/types/account';
+import { Expense } from '@/lib/types/expense';
+import { Installment } from '@/lib/types/installment';
+import { getInstallmentDueDate } from '@/lib/firebase/firestore/installments';
+import { getInstallmentPayment } from './amortization';
+import { AccountMovements, getAccountBalance, toAccountCurrency } from './accountBalances';
+
+// Estados de cuenta cerrados que se muestran en el historial
+export const STATEMENT_HISTORY_MONTHS = 6;
+
+// Ciclos futuros en los que se muestran las cuotas por cobrar
+export const UPCOMING_STATEMENTS = 3;
+
+export interface StatementCycle {
+  start: Date; // Día siguiente al corte anterior
+  closingDate: Date; // Fin del día de corte
+  dueDate: Date; // Fecha límite de pago del estado de cuenta
+}
+
+// Cuota de una deuda pagada con la tarjeta que cae en un estado de cuenta
+export interface StatementInstallment {
+  installment: Installment;
+  number: number;
+  amount: number;
+  date: Date;
+  posted: boolean; // Ya registrada como gasto (cuota pagada)
+}
+
+export interface CardStatement extends StatementCycle {
+  status: 'closed' | 'open' | 'upcoming';
+  charges: Expense[];
+  chargesTotal: number; // Gastos del ciclo, en la moneda de la tarjeta
+  paymentsTotal: number; // Pagos (transferencias e ingresos a la tarjeta) del ciclo
+  installments: StatementInstallment[];
+  pendingInstallmentsTotal: number; // Cuotas del ciclo que aún no se registraron como gasto
+  balance: number; // Saldo de la tarjeta al corte (negativo = monto adeudado)
+}
+
+export interface CardSummary {
+  statementBalance: number; // Monto adeudado al último corte
+  amountDue: number; // Lo que falta pagar del último estado de cuenta
+  dueDate: Date | null;
+  nextClosingDate: Date;
+}
+
+// Día del mes ajustado a la duración del mes (p. ej. 31 -> 28 en febrero)
+const dayInMonth = (year: number, month: number, day: number): Date => {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(day, lastDay));
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Indica si la cuenta es una tarjeta con ciclo de facturación configurado.
+ */
+export function hasStatementCycle(account: Account): boolean {
+  return account.type === 'creditCard' && !!account.closingDay && !!account.paymentDueDay;
+}
+
+/**
+ * Ciclo cuyo corte cae en el mes indicado. El pago vence en el mismo mes si el día
+ * de pago es posterior al de corte, y si no en el mes siguiente.
+ */
+export function getCycleForClosingMonth(account: Account, year: number, month: number): StatementCycle {
+  const closingDay = account.closingDay || 1;
+  const paymentDueDay = account.paymentDueDay || 1;
+  const closing = dayInMonth(year, month, closingDay);
+  const previousClosing = dayInMonth(year, month - 1, closingDay);
+  const dueMonth = paymentDueDay > closingDay ? month : month + 1;
+
+  return {
+    start: startOfDay(addDays(previousClosing, 1)),
+    closingDate: endOfDay(closing),
+    dueDate: endOfDay(dayInMonth(year, dueMonth, paymentDueDay)),
+  };
+}
+
+/**
+ * Ciclo de facturación que contiene la fecha.
+ */
+export function getStatementCycle(account: Account, date: Date): StatementCycle {
+  const cycle = getCycleForClosingMonth(account, date.getFullYear(), date.getMonth());
+  if (date <= cycle.closingDate) return cycle;
+  const next = addMonths(new Date(date.getFullYear(), date.getMonth(), 1), 1);
+  return getCycleForClosingMonth(account, next.getFullYear(), next.getMonth());
+}
+
+const inCycle = (cycle: StatementCycle, date: Date) => date >= cycle.start && date <= cycle.closingDate;
+
+/**
+ * Estados de cuenta de una tarjeta: los últimos STATEMENT_HISTORY_MONTHS cerrados,
+ * el ciclo abierto y los próximos UPCOMING_STATEMENTS con cuotas por cobrar.
+ *
+ * Los gastos se agrupan por fecha dentro de cada ciclo; las cuotas de las deudas
+ * asignadas a la tarjeta se ubican en el ciclo donde cae su vencimiento.
+ * Ordenados del más reciente al más antiguo.
+ */
+export function getCardStatements(
+  account: Account,
+  movements: AccountMovements,
+  installments: Installment[],
+  today: Date = new Date()
+): CardStatement[] {
+  const current = getStatementCycle(account, today);
+  const cardInstallments = installments.filter(installment => installment.account_id === account.uid);
+  const cardExpenses = movements.expenses.filter(expense => expense.accountId === account.uid);
+  const toCardCurrency = (amount: number, currency: string, date: Timestamp) =>
+    toAccountCurrency(account, amount, currency, date, movements.rates) ?? amount;
+
+  const statements: CardStatement[] = [];
+
+  for (let offset = -STATEMENT_HISTORY_MONTHS; offset <= UPCOMING_STATEMENTS; offset++) {
+    const closingMonth = addMonths(current.closingDate, offset);
+    const cycle = getCycleForClosingMonth(account, closingMonth.getFullYear(), closingMonth.getMonth());
+    const status = offset < 0 ? 'closed' : offset === 0 ? 'open' : 'upcoming';
+
+    const charges = cardExpenses
+      .filter(expense => inCycle(cycle, expense.date.toDate()))
+      .sort((a, b) => a.date.toMillis() - b.date.toMillis());
+    const chargesTotal = charges.reduce(
+      (sum, expense) => sum + toCardCurrency(expense.amount, expense.currency, expense.date),
+      0
+    );
+
+    const paymentsTotal =
+      movements.transfers
+        .filter(transfer => transfer.toAccountId === account.uid && inCycle(cycle, transfer.date.toDate()))
+        .reduce((sum, transfer) => sum + transfer.toAmount, 0) +
+      movements.incomes
+        .filter(income => income.accountId === account.uid && inCycle(cycle, income.receivedAt.toDate()))
+        .reduce((sum, income) => sum + toCardCurrency(income.amount, income.currency, income.receivedAt), 0);
+
+    const statementInstallments: StatementInstallment[] = [];
+    cardInstallments.forEach(installment => {
+      for (let number = 1; number <= installment.installments; number++) {
+        const date = getInstallmentDueDate(installment, number);
+        if (!inCycle(cycle, date)) continue;
+        statementInstallments.push({
+          installment,
+          number,
+          amount: getInstallmentPayment(installment, number),
+          date,
+          posted: number <= installment.current_installment,
+        });
+      }
+    });
+    const pendingInstallmentsTotal = statementInstallments
+      .filter(item => !item.posted)
+      .reduce((sum, item) => sum + toCardCurrency(item.amount, item.installment.currency, Timestamp.fromDate(item.date)), 0);
+
+    if (status === 'upcoming' && statementInstallments.length === 0) continue;
+
+    statements.push({
+      ...cycle,
+      status,
+      charges,
+      chargesTotal: roundCents(chargesTotal),
+      paymentsTotal: roundCents(paymentsTotal),
+      installments: statementInstallments,
+      pendingInstallmentsTotal: roundCents(pendingInstallmentsTotal),
+      balance: getAccountBalance(account, movements, cycle.closingDate).balance,
+    });
+  }
+
+  return statements.reverse();
+}
+
+/**
+ * Saldo al último corte y lo que falta pagar de ese estado de cuenta; el saldo actual
+ * es el de getAccountBalance.
+ */
+export function getCardSummary(account: Account, movements: AccountMovements, today: Date = new Date()): CardSummary {
+  const current = getStatementCycle(account, today);
+  const previousMonth = addMonths(current.closingDate, -1);
+  const last = getCycleForClosingMonth(account, previousMonth.getFullYear(), previousMonth.getMonth());
+
+  const statementBalance = Math.max(0, -getAccountBalance(account, movements, last.closingDate).balance);
+  const paidSinceClosing =
+    movements.transfers
+      .filter(transfer => transfer.toAccountId === account.uid && inCycle(current, transfer.date.toDate()))
+      .reduce((sum, transfer) => sum + transfer.toAmount, 0) +
+    movements.incomes
+      .filter(income => income.accountId === account.uid && inCycle(current, income.receivedAt.toDate()))
+      .reduce((sum, income) =>
+        sum + (toAccountCurrency(account, income.amount, income.currency, income.receivedAt, movements.rates) ?? income.amount), 0);
+
+  return {
+    statementBalance: roundCents(statementBalance),
+    amountDue: roundCents(Math.max(0, statementBalance - paidSinceClosing)),
+    dueDate: statementBalance > 0 ? last.dueDate : null,
+    nextClosingDate: current.closingDate,
+  };
+}
@@ -0,0 +1,242 @@
+import { ImportedTransaction } from './importReview';
+
+/**
+ * Columnas del CSV que el usuario asigna a cada campo.
+ * Los valores son índices de columna; currency es opcional (si falta se usa la moneda por defecto).
+ */
+export interface CsvColumnMapping {
+  date: number | null;
+  amount: number | null;
+  description: number | null;
+  currency: number | null;
+}
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export interface CsvImportOptions {
+  mapping: CsvColumnMapping;
+  dateFormat: CsvDateFormat;
+  defaultCurrency: string;
+  hasHeader: boolean;
+  // Si es true, los montos negativos son gastos (formato de la mayoría de bancos)
+  negativeIsExpense: boolean;
+}
+
+export interface CsvRowResult {
+  rowNumber: number; // Número de línea en el archivo (1-based)
+  transaction: ImportedTransaction | null;
+  error?: 'date' | 'amount' | 'currency';
+}
+
+/**
+ * Detecta el separador más probable (coma, punto y coma o tabulador)
+ * contando ocurrencias fuera de comillas en la primera línea.
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+
+  for (const candidate of candidates) {
+    let count = 0;
+    let inQuotes = false;
+    for (const char of firstLine) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (char === candidate && !inQuotes) count++;
+    }
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Parsea un CSV (RFC 4180): soporta campos entre comillas, comillas escapadas ("")
+ * y saltos de línea dentro de comillas. Omite las líneas vacías.
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Quitar BOM que agregan algunos exportadores (Excel)
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(value => value.trim() !== '')) rows.push(row);
+
+  return rows.map(r => r.map(value => value.trim()));
+}
+
+/**
+ * Intenta adivinar la asignación de columnas a partir de los encabezados.
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const find = (patterns: RegExp[]): number | null => {
+    const index = headers.findIndex(header => patterns.some(pattern => pattern.test(header)));
+    return index >= 0 ? index : null;
+  };
+
+  return {
+    date: find([/fecha/i, /date/i]),
+    amount: find([/monto/i, /importe/i, /amount/i, /valor/i]),
+    description: find([/descrip/i, /concepto/i, /detalle/i, /memo/i, /description/i, /payee/i]),
+    currency: find([/moneda/i, /currency/i, /divisa/i]),
+  };
+}
+
+/**
+ * Convierte una fecha del CSV a Date local (mediodía, igual que createLocalDate).
+ */
+export function parseCsvDate(value: string, format: CsvDateFormat): Date | null {
+  const parts = value.trim().split(/[-/.\s]/).filter(Boolean).map(Number);
+  if (parts.length < 3 || parts.some(isNaN)) return null;
+
+  let year: number, month: number, day: number;
+  if (format === 'YYYY-MM-DD') {
+    [year, month, day] = parts;
+  } else if (format === 'DD/MM/YYYY') {
+    [day, month, year] = parts;
+  } else {
+    [month, day, year] = parts;
+  }
+  if (year < 100) year += 2000;
+
+  const date = new Date(year, month - 1, day, 12, 0, 0, 0);
+  // Rechazar fechas desbordadas (ej: 31/02)
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+// Parte entera con separador de miles: 1-3 dígitos y luego grupos de exactamente 3
+const isGroupedInteger = (integer: string, separator: string): boolean => {
+  const groups = integer.split(separator);
+  return /^[1-9]\d{0,2}$/.test(groups[0]) && groups.slice(1).every(group => /^\d{3}$/.test(group));
+};
+
+/**
+ * Convierte un monto del CSV a número con signo.
+ * Acepta símbolos de moneda, separadores de miles "." o "," y negativos entre paréntesis.
+ * - Con ambos separadores, el último es el decimal (1.234,56 / 1,234.56).
+ * - Con uno solo: seguido de 1-2 dígitos es decimal (12,50); seguido de grupos de 3 dígitos
+ *   es separador de miles (1.234 = 1234, como en los extractos en español).
+ * Los valores ambiguos (0.123, 1.2345, 12.) devuelven null en lugar de adivinar.
+ */
+export function parseCsvAmount(value: string): number | null {
+  let cleaned = value.trim();
+  if (!cleaned) return null;
+
+  const negative = /^\(.*\)$/.test(cleaned) || cleaned.includes('-');
+  cleaned = cleaned.replace(/[^\d.,]/g, '');
+  if (!cleaned) return null;
+
+  const lastSeparator = Math.max(cleaned.lastIndexOf(','), cleaned.lastIndexOf('.'));
+  let normalized: string;
+
+  if (lastSeparator === -1) {
+    normalized = cleaned;
+  } else {
+    const separator = cleaned[lastSeparator];
+    const otherSeparator = separator === ',' ? '.' : ',';
+    const integer = cleaned.slice(0, lastSeparator);
+    const decimals = cleaned.slice(lastSeparator + 1);
+
+    if (integer.includes(otherSeparator)) {
+      // Ambos separadores: el último es el decimal y el otro agrupa miles
+      if (decimals.length < 1 || decimals.length > 2 || integer.includes(separator) ||
+          !isGroupedInteger(integer, otherSeparator)) {
+        return null;
+      }
+      normalized = `${integer.split(otherSeparator).join('')}.${decimals}`;
+    } else if (isGroupedInteger(cleaned, separator)) {
+      normalized = cleaned.split(separator).join('');
+    } else if (!integer.includes(separator) && /^\d+$/.test(integer) && /^\d{1,2}$/.test(decimals)) {
+      normalized = `${integer}.${decimals}`;
+    } else {
+      return null;
+    }
+  }
+
+  const amount = parseFloat(normalized);
+  if (isNaN(amount) || !isFinite(amount)) return null;
+
+  return negative ? -amount : amount;
+}
+
+/**
+ * Aplica la asignación de columnas a las filas del CSV y devuelve
+ * una transacción normalizada por fila, o el motivo por el que no se pudo leer.
+ */
+export function mapCsvRows(
+  rows: string[][],
+  options: CsvImportOptions,
+  supportedCurrencies: readonly string[]
+): CsvRowResult[] {
+  const { mapping } = options;
+  const dataRows = options.hasHeader ? rows.slice(1) : rows;
+  const offset = options.hasHeader ? 2 : 1;
+
+  return dataRows.map((row, index) => {
+    const rowNumber = index + offset;
+    const date = mapping.date !== null ? parseCsvDate(row[mapping.date] || '', options.dateFormat) : null;
+    if (!date) return { rowNumber, transaction: null, error: 'date' };
+
+    const rawAmount = mapping.amount !== null ? parseCsvAmount(row[mapping.amount] || '') : null;
+    if (rawAmount === null || rawAmount === 0) return { rowNumber, transaction: null, error: 'amount' };
+
+    const currency = mapping.currency !== null && row[mapping.currency]
+      ? row[mapping.currency].toUpperCase()
+      : options.defaultCurrency;
+    if (!supportedCurrencies.includes(currency)) return { rowNumber, transaction: null, error: 'currency' };
+
+    const isExpense = options.negativeIsExpense ? rawAmount < 0 : rawAmount > 0;
+
+    return {
+      rowNumber,
+      transaction: {
+        type: isExpense ? 'expense' : 'income',
+        date,
+        amount: Math.abs(rawAmount),
+        currency,
+        description: mapping.description !== null ? row[mapping.description] || '' : '',
+      },
+    };
+  });
+}
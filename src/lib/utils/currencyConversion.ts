@@ -0,0 +1,124 @@
+import { Timestamp } from 'firebase/firestore';
+import { ExchangeRate } from '@/lib/types/exchangeRate';
+
+// Monedas aceptadas por las reglas de Firestore
+export const SUPPORTED_CURRENCIES = ['CRC', 'USD', 'EUR', 'MXN', 'COP', 'ARS'];
+
+/**
+ * Configuración para reportar montos en una moneda base
+ */
+export interface CurrencyConversion {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+}
+
+/**
+ * Movimiento mínimo necesario para convertir: monto, moneda y fecha de la transacción
+ */
+export interface ConvertibleAmount {
+  amount: number;
+  currency: string;
+  date: Timestamp | Date;
+}
+
+const toDate = (value: Timestamp | Date): Date => {
+  return value instanceof Date ? value : value.toDate();
+};
+
+/**
+ * Busca la tasa directa (o inversa) entre dos monedas para una fecha.
+ * Usa la tasa más reciente registrada en o antes de la fecha; si no hay
+ * ninguna anterior, usa la más antigua disponible.
+ *
+ * @returns cuántas unidades de `to` equivalen a 1 unidad de `from`, o null si no hay tasa
+ */
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  date: Timestamp | Date
+): number | null {
+  if (from === to) return 1;
+
+  const target = toDate(date).getTime();
+  const candidates = rates
+    .filter(rate =>
+      rate.rate > 0 &&
+      ((rate.fromCurrency === from && rate.toCurrency === to) ||
+        (rate.fromCurrency === to && rate.toCurrency === from))
+    )
+    .map(rate => ({
+      time: toDate(rate.date).getTime(),
+      value: rate.fromCurrency === from ? rate.rate : 1 / rate.rate,
+    }))
+    .sort((a, b) => a.time - b.time);
+
+  if (candidates.length === 0) return null;
+
+  const previous = candidates.filter(candidate => candidate.time <= target);
+  return previous.length > 0 ? previous[previous.length - 1].value : candidates[0].value;
+}
+
+/**
+ * Convierte un monto entre monedas usando la tasa histórica de la fecha dada.
+ * Si no existe tasa directa, intenta pasar por una moneda intermedia.
+ *
+ * @returns el monto convertido, o null si no hay forma de convertirlo
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  date: Timestamp | Date,
+  rates: ExchangeRate[]
+): number | null {
+  const direct = findExchangeRate(rates, from, to, date);
+  if (direct !== null) return amount * direct;
+
+  const intermediates = new Set(
+    rates.flatMap(rate => [rate.fromCurrency, rate.toCurrency])
+  );
+
+  for (const currency of intermediates) {
+    if (currency === from || currency === to) continue;
+    const first = findExchangeRate(rates, from, currency, date);
+    if (first === null) continue;
+    const second = findExchangeRate(rates, currency, to, date);
+    if (second === null) continue;
+    return amount * first * second;
+  }
+
+  return null;
+}
+
+/**
+ * Suma montos agrupados por moneda. Si se indica una conversión, todo lo que
+ * tenga tasa se reporta en la moneda base; lo que no, queda en su propia moneda.
+ */
+export function sumByCurrency(
+  entries: ConvertibleAmount[],
+  conversion?: CurrencyConversion | null
+): Record<string, number> {
+  const totals = entries.reduce((acc, entry) => {
+    let currency = entry.currency;
+    let amount = entry.amount;
+
+    if (conversion) {
+      const converted = convertAmount(amount, currency, conversion.baseCurrency, entry.date, conversion.rates);
+      if (converted !== null) {
+        currency = conversion.baseCurrency;
+        amount = converted;
+      }
+    }
+
+    acc[currency] = (acc[currency] || 0) + amount;
+    return acc;
+  }, {} as Record<string, number>);
+
+  // Redondear a 2 decimales para evitar ruido de punto flotante
+  Object.keys(totals).forEach(currency => {
+    totals[currency] = Math.round(totals[currency] * 100) / 100;
+  });
+
+  return totals;
+}
@@ -0,0 +1,302 @@
+import { DocumentReference, Timestamp } from 'firebase/firestore';
+import { Category } from '@/lib/types/category';
+import { Expense } from '@/lib/types/expense';
+import { Income } from '@/lib/types/income';
+import { Installment } from '@/lib/types/installment';
+import Goal from '@/lib/types/goal';
+import { Account } from '@/lib/types/account';
+import { Transfer } from '@/lib/types/transfer';
+import { getUserCategories } from '@/lib/firebase/firestore/categories';
+import { getUserExpenses } from '@/lib/firebase/firestore/expenses';
+import { getUserIncomes } from '@/lib/firebase/firestore/income';
+import { getUserInstallments } from '@/lib/firebase/firestore/installments';
+import { getUserGoals } from '@/lib/firebase/firestore/goals';
+import { getUserAccounts } from '@/lib/firebase/firestore/accounts';
+import { getUserTransfers } from '@/lib/firebase/firestore/transfers';
+import { createZip } from './zip';
+import { buildXlsx, SheetCell } from './xlsx';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export interface UserDataSnapshot {
+  categories: Category[];
+  expenses: Expense[];
+  incomes: Income[];
+  installments: Installment[];
+  goals: Goal[];
+  accounts: Account[];
+  transfers: Transfer[];
+}
+
+export interface ExportTable {
+  name: keyof UserDataSnapshot;
+  columns: string[];
+  rows: SheetCell[][];
+}
+
+// Versión del formato del archivo JSON; la restauración la usa para validar compatibilidad
+export const EXPORT_ARCHIVE_VERSION = 1;
+
+/**
+ * Obtiene todos los datos del usuario en paralelo.
+ * La copia completa necesita todos los documentos, por lo que aquí las lecturas no se paginan;
+ * solo ocurre cuando el usuario pide una exportación.
+ */
+export async function gatherUserData(userId: string): Promise<UserDataSnapshot> {
+  const [categories, expenses, incomes, installments, goals, accounts, transfers] = await Promise.all([
+    getUserCategories(userId),
+    getUserExpenses(userId),
+    getUserIncomes(userId),
+    getUserInstallments(userId),
+    getUserGoals(userId),
+    getUserAccounts(userId),
+    getUserTransfers(userId),
+  ]);
+
+  return { categories, expenses, incomes, installments, goals, accounts, transfers };
+}
+
+// Goal declara Date pero Firestore devuelve Timestamp: se aceptan ambos
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  if (typeof value === 'object' && 'toDate' in value && typeof value.toDate === 'function') {
+    return value.toDate();
+  }
+  return null;
+};
+
+const toIsoDate = (value: unknown): string => {
+  const date = toDate(value);
+  return date ? date.toISOString().split('T')[0] : '';
+};
+
+const refId = (ref: DocumentReference | string | null | undefined): string => {
+  if (!ref) return '';
+  return typeof ref === 'string' ? ref : ref.id;
+};
+
+// Etiquetas en una sola celda, separadas por espacios (las etiquetas no tienen espacios)
+const joinTags = (tags: string[] | undefined): string => (tags || []).join(' ');
+
+/**
+ * Convierte los datos en tablas planas, resolviendo las referencias
+ * (categoryId, installmentId, category_id, accountId, fromAccountId, toAccountId) a nombres legibles.
+ */
+export function buildExportTables(data: UserDataSnapshot): ExportTable[] {
+  const categoryNames = new Map(data.categories.map(category => [category.uid, category.name]));
+  const installmentNames = new Map(data.installments.map(installment => [installment.uid, installment.description]));
+  const accountNames = new Map(data.accounts.map(account => [account.uid, account.name]));
+
+  return [
+    {
+      name: 'categories',
+      columns: ['name', 'type', 'currency', 'monthly_limit', 'active_months'],
+      rows: data.categories.map(category => [
+        category.name,
+        category.type,
+        category.currency,
+        category.monthly_limit,
+        category.activeMonths?.map(month => month + 1).join(' ') || '',
+      ]),
+    },
+    {
+      name: 'expenses',
+      columns: ['date', 'amount', 'currency', 'category', 'installment', 'note', 'splits', 'account', 'tags'],
+      rows: data.expenses.map(expense => [
+        toIsoDate(expense.date),
+        expense.amount,
+        expense.currency,
+        categoryNames.get(refId(expense.categoryId)) || '',
+        installmentNames.get(refId(expense.installmentId)) || '',
+        expense.note || '',
+        // Gasto dividido: "Categoría: monto; Categoría: monto"
+        (expense.splits || [])
+          .map(split => `${categoryNames.get(refId(split.categoryId)) || ''}: ${split.amount}`)
+          .join('; '),
+        accountNames.get(expense.accountId || '') || '',
+        joinTags(expense.tags),
+      ]),
+    },
+    {
+      name: 'incomes',
+      columns: ['date', 'amount', 'currency', 'source', 'account', 'tags'],
+      rows: data.incomes.map(income => [
+        toIsoDate(income.receivedAt),
+        income.amount,
+        income.currency,
+        income.source,
+        accountNames.get(income.accountId || '') || '',
+        joinTags(income.tags),
+      ]),
+    },
+    {
+      name: 'installments',
+      columns: ['description', 'category', 'currency', 'total_amount', 'monthly_amount', 'installments', 'current_installment', 'start_date', 'tax', 'interest_type', 'annual_rate'],
+      rows: data.installments.map(installment => [
+        installment.description,
+        categoryNames.get(refId(installment.category_id)) || '',
+        installment.currency,
+        installment.total_amount,
+        installment.monthly_amount,
+        installment.installments,
+        installment.current_installment,
+        toIsoDate(installment.start_date),
+        installment.tax,
+        installment.interest_type || 'flat',
+        installment.annual_rate || 0,
+      ]),
+    },
+    {
+      name: 'goals',
+      columns: ['title', 'target_amount', 'current_amount', 'currency', 'due_date'],
+      rows: data.goals.map(goal => [
+        goal.title,
+        goal.targetAmount,
+        goal.currentAmount,
+        goal.currency,
+        toIsoDate(goal.dueDate),
+      ]),
+    },
+    {
+      name: 'accounts',
+      columns: ['name', 'type', 'currency', 'opening_balance', 'closing_day', 'payment_due_day'],
+      rows: data.accounts.map(account => [
+        account.name,
+        account.type,
+        account.currency,
+        account.openingBalance,
+        account.closingDay ?? '',
+        account.paymentDueDay ?? '',
+      ]),
+    },
+    {
+      name: 'transfers',
+      columns: ['date', 'from_account', 'to_account', 'amount', 'currency', 'to_amount', 'note'],
+      rows: data.transfers.map(transfer => [
+        toIsoDate(transfer.date),
+        accountNames.get(transfer.fromAccountId) || '',
+        accountNames.get(transfer.toAccountId) || '',
+        transfer.amount,
+        transfer.currency,
+        transfer.toAmount,
+        transfer.note || '',
+      ]),
+    },
+  ];
+}
+
+/**
+ * Serializa un campo de Firestore a JSON: Timestamp -> ISO, DocumentReference -> ID.
+ */
+const serializeValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp || value instanceof Date) return toDate(value)!.toISOString();
+  if (value instanceof DocumentReference) return value.id;
+  if (Array.isArray(value)) return value.map(serializeValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, serializeValue(inner)]));
+  }
+  return value;
+};
+
+/**
+ * Archivo JSON con todas las colecciones. Conserva los IDs originales
+ * (para poder restaurar las referencias) y agrega los nombres resueltos.
+ */
+export function buildJsonArchive(data: UserDataSnapshot, exportedAt: Date = new Date()): string {
+  const categoryNames = new Map(data.categories.map(category => [category.uid, category.name]));
+  const installmentNames = new Map(data.installments.map(installment => [installment.uid, installment.description]));
+
+  const archive = {
+    version: EXPORT_ARCHIVE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    categories: data.categories.map(serializeValue),
+    expenses: data.expenses.map(expense => ({
+      ...(serializeValue(expense) as object),
+      categoryName: categoryNames.get(refId(expense.categoryId)) || null,
+      installmentName: installmentNames.get(refId(expense.installmentId)) || null,
+    })),
+    incomes: data.incomes.map(serializeValue),
+    installments: data.installments.map(installment => ({
+      ...(serializeValue(installment) as object),
+      categoryName: categoryNames.get(refId(installment.category_id)) || null,
+    })),
+    goals: data.goals.map(serializeValue),
+    accounts: data.accounts.map(serializeValue),
+    transfers: data.transfers.map(serializeValue),
+  };
+
+  return JSON.stringify(archive, null, 2);
+}
+
+const escapeCsvCell = (value: SheetCell): string => {
+  if (value === null) return '';
+  let text = String(value);
+  // Evitar inyección de fórmulas al abrir el CSV en una hoja de cálculo
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function tableToCsv(table: ExportTable): string {
+  return [table.columns, ...table.rows]
+    .map(row => row.map(escapeCsvCell).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Genera el archivo de exportación en el formato pedido.
+ * CSV produce un ZIP con un archivo por colección.
+ */
+export function buildExportFile(
+  data: UserDataSnapshot,
+  exportFormat: ExportFormat,
+  exportedAt: Date = new Date()
+): { fileName: string; content: BlobPart; mimeType: string } {
+  const stamp = exportedAt.toISOString().split('T')[0];
+
+  if (exportFormat === 'json') {
+    return {
+      fileName: `expenses-export-${stamp}.json`,
+      content: buildJsonArchive(data, exportedAt),
+      mimeType: 'application/json',
+    };
+  }
+
+  const tables = buildExportTables(data);
+
+  if (exportFormat === 'xlsx') {
+    return {
+      fileName: `expenses-export-${stamp}.xlsx`,
+      content: buildXlsx(tables.map(table => ({ name: table.name, rows: [table.columns, ...table.rows] }))) as BlobPart,
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    };
+  }
+
+  // BOM para que Excel detecte UTF-8 (tildes y ñ)
+  return {
+    fileName: `expenses-export-${stamp}.zip`,
+    content: createZip(
+      tables.map(table => ({ name: `${table.name}.csv`, content: `\ufeff${tableToCsv(table)}` })),
+      exportedAt
+    ) as BlobPart,
+    mimeType: 'application/zip',
+  };
+}
+
+/**
+ * Descarga un archivo generado en el navegador.
+ */
+export function downloadFile(fileName: string, content: BlobPart, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,541 @@
+import { doc, Timestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase/client';
+import { AccountType } from '@/lib/types/account';
+import { BudgetRollover } from '@/lib/types/category';
+import { InstallmentInterestType } from '@/lib/types/installment';
+import { SUPPORTED_CURRENCIES } from './currencyConversion';
+import { EXPORT_ARCHIVE_VERSION, UserDataSnapshot } from './dataExport';
+import { BUDGET_ROLLOVER_MODES } from './budgetRollover';
+import { INTEREST_TYPES } from './amortization';
+import { ACCOUNT_TYPES } from './accountBalances';
+import { buildSplitFields, SplitFormLine, toExpenseSplits, validateSplits } from './expenseSplits';
+import { normalizeTags } from './tags';
+
+type BackupRecord = Record<string, unknown>;
+
+export type RestoreCollection = 'categories' | 'installments' | 'goals' | 'accounts' | 'expenses' | 'income' | 'transfers';
+
+/**
+ * Archivo JSON generado por buildJsonArchive.
+ */
+export interface BackupArchive {
+  version: number;
+  exportedAt: string;
+  categories: BackupRecord[];
+  expenses: BackupRecord[];
+  incomes: BackupRecord[];
+  installments: BackupRecord[];
+  goals: BackupRecord[];
+  accounts: BackupRecord[]; // Ausente en los respaldos anteriores a las cuentas
+  transfers: BackupRecord[];
+}
+
+export type RestoreIssueReason =
+  | 'categoryExists' // Ya existe una categoría con el mismo nombre: se reutiliza
+  | 'installmentExists' // Ya existe la deuda: se reutiliza
+  | 'goalExists' // Ya existe una meta con el mismo título: se omite
+  | 'accountExists' // Ya existe una cuenta con el mismo nombre: se reutiliza
+  | 'duplicateEntry' // Gasto, ingreso o transferencia ya registrado: se omite
+  | 'missingCategory' // Referencia a una categoría que no está en el respaldo
+  | 'missingAccount' // Transferencia con una cuenta que no está en el respaldo
+  | 'invalidData'; // No cumple las validaciones de firestore.rules
+
+export interface RestoreIssue {
+  collection: RestoreCollection;
+  label: string;
+  reason: RestoreIssueReason;
+}
+
+export interface PlannedDocument {
+  collection: RestoreCollection;
+  uid: string;
+  data: Record<string, unknown>;
+}
+
+export interface RestorePlan {
+  documents: PlannedDocument[];
+  conflicts: RestoreIssue[];
+  invalid: RestoreIssue[];
+  counts: Record<RestoreCollection, number>;
+}
+
+/**
+ * Valida la estructura general del archivo de respaldo.
+ */
+export function parseBackupArchive(text: string): BackupArchive {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Invalid archive');
+  }
+
+  const archive = parsed as Partial<BackupArchive>;
+  if (archive.version !== EXPORT_ARCHIVE_VERSION) {
+    throw new Error(`Unsupported archive version: ${archive.version}`);
+  }
+
+  const collections = ['categories', 'expenses', 'incomes', 'installments', 'goals'] as const;
+  for (const name of collections) {
+    if (!Array.isArray(archive[name])) {
+      throw new Error(`Missing collection: ${name}`);
+    }
+  }
+
+  // Las cuentas y transferencias se agregaron después: un respaldo anterior no las trae
+  for (const name of ['accounts', 'transfers'] as const) {
+    if (archive[name] === undefined) {
+      archive[name] = [];
+    } else if (!Array.isArray(archive[name])) {
+      throw new Error(`Invalid collection: ${name}`);
+    }
+  }
+
+  return archive as BackupArchive;
+}
+
+// ===== Lectura de campos =====
+
+const readString = (record: BackupRecord, key: string): string => {
+  const value = record[key];
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+const readNumber = (record: BackupRecord, key: string): number => {
+  const value = record[key];
+  return typeof value === 'number' && isFinite(value) ? value : NaN;
+};
+
+const readDate = (record: BackupRecord, key: string): Date | null => {
+  const value = record[key];
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Líneas de un gasto dividido con las categorías ya reasignadas; null si no está dividido.
+// Devuelve undefined si alguna línea apunta a una categoría que no está en el respaldo.
+const readSplits = (record: BackupRecord, categoryIds: Map<string, string>): SplitFormLine[] | null | undefined => {
+  const value = record.splits;
+  if (!Array.isArray(value) || value.length === 0) return null;
+
+  const lines: SplitFormLine[] = [];
+  for (const split of value) {
+    const line = (split && typeof split === 'object' ? split : {}) as BackupRecord;
+    const categoryUid = categoryIds.get(readString(line, 'categoryId'));
+    if (!categoryUid) return undefined;
+    lines.push({ categoryId: categoryUid, amount: readNumber(line, 'amount'), note: readString(line, 'note').slice(0, 100) });
+  }
+  return lines;
+};
+
+// Límites por mes ('YYYY-MM' -> monto); se descartan las claves o montos inválidos
+const readBudgetOverrides = (record: BackupRecord): Record<string, number> | undefined => {
+  const value = record.budgetOverrides;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+
+  const entries = Object.entries(value).filter(([key, amount]) =>
+    /^\d{4}-(0[1-9]|1[0-2])$/.test(key) && typeof amount === 'number' && amount >= 0 && amount < 1000000000
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) as Record<string, number> : undefined;
+};
+
+// Etiquetas normalizadas con los mismos límites que el formulario; las que no son texto se descartan
+const readTags = (record: BackupRecord): string[] => {
+  const value = record.tags;
+  if (!Array.isArray(value)) return [];
+  return normalizeTags(value.filter((tag): tag is string => typeof tag === 'string'));
+};
+
+// Día del mes opcional de las tarjetas (corte y pago); null si falta o no es válido
+const readDayOfMonth = (record: BackupRecord, key: string): number | null => {
+  const value = record[key];
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 31 ? value as number : null;
+};
+
+const isSupportedCurrency = (currency: string): boolean => SUPPORTED_CURRENCIES.includes(currency);
+
+const isValidAmount = (amount: number): boolean => amount > 0 && amount < 1000000000;
+
+const isValidLength = (text: string, max: number): boolean => text.length > 0 && text.length <= max;
+
+const normalize = (text: string): string => text.trim().toLowerCase();
+
+const sameDay = (a: Date, b: Date): boolean => a.toDateString() === b.toDateString();
+
+/**
+ * Prepara la restauración sin escribir nada (sirve también como dry-run).
+ *
+ * Todos los documentos reciben UIDs nuevos; las referencias (categoryId,
+ * installmentId, category_id, accountId, fromAccountId, toAccountId) se reasignan a los
+ * nuevos UIDs o a los documentos existentes con los que hay conflicto. Nunca se
+ * sobrescribe un documento existente. En los respaldos anteriores a las cuentas,
+ * accountId se conserva solo si la cuenta existe.
+ */
+export function planRestore(archive: BackupArchive, existing: UserDataSnapshot, userId: string): RestorePlan {
+  const documents: PlannedDocument[] = [];
+  const conflicts: RestoreIssue[] = [];
+  const invalid: RestoreIssue[] = [];
+  const prefix = `${userId}_${Date.now()}`;
+  const categoryIds = new Map<string, string>();
+  const installmentIds = new Map<string, string>();
+  const accountIds = new Map<string, string>();
+  const existingAccountIds = new Set(existing.accounts.map(account => account.uid));
+  const readAccountId = (record: BackupRecord, key = 'accountId'): string | null => {
+    const accountId = readString(record, key);
+    return accountIds.get(accountId) || (existingAccountIds.has(accountId) ? accountId : null);
+  };
+
+  // Categorías
+  archive.categories.forEach((record, index) => {
+    const name = readString(record, 'name');
+    const monthlyLimit = readNumber(record, 'monthly_limit');
+    const currency = readString(record, 'currency');
+    const type = readString(record, 'type');
+    const oldUid = readString(record, 'uid');
+
+    const valid = isValidLength(name, 100) &&
+      monthlyLimit >= 0 && monthlyLimit < 1000000000 &&
+      isSupportedCurrency(currency) &&
+      ['fixed', 'variable'].includes(type);
+    if (!valid) {
+      invalid.push({ collection: 'categories', label: name || oldUid, reason: 'invalidData' });
+      return;
+    }
+
+    const match = existing.categories.find(category => normalize(category.name) === normalize(name));
+    if (match) {
+      categoryIds.set(oldUid, match.uid);
+      conflicts.push({ collection: 'categories', label: name, reason: 'categoryExists' });
+      return;
+    }
+
+    const uid = `${prefix}_c${index}`;
+    categoryIds.set(oldUid, uid);
+    const activeMonths = Array.isArray(record.activeMonths)
+      ? record.activeMonths.filter((month): month is number => Number.isInteger(month) && month >= 0 && month <= 11)
+      : undefined;
+    const rollover = readString(record, 'rollover') as BudgetRollover;
+    const budgetOverrides = readBudgetOverrides(record);
+
+    documents.push({
+      collection: 'categories',
+      uid,
+      data: {
+        name,
+        currency,
+        monthly_limit: monthlyLimit,
+        type,
+        ...(activeMonths ? { activeMonths } : {}),
+        ...(BUDGET_ROLLOVER_MODES.includes(rollover) ? { rollover } : {}),
+        ...(budgetOverrides ? { budgetOverrides } : {}),
+        userId,
+      },
+    });
+  });
+
+  // Deudas (antes que los gastos, que pueden referenciarlas)
+  archive.installments.forEach((record, index) => {
+    const description = readString(record, 'description');
+    const totalAmount = readNumber(record, 'total_amount');
+    const monthlyAmount = readNumber(record, 'monthly_amount');
+    const installments = readNumber(record, 'installments');
+    const currentInstallment = readNumber(record, 'current_installment');
+    const currency = readString(record, 'currency');
+    const startDate = readDate(record, 'start_date');
+    const tax = readNumber(record, 'tax');
+    const interestType = readString(record, 'interest_type') as InstallmentInterestType;
+    // Respaldos anteriores a la tabla de amortización no traen tasa anual
+    const annualRate = record.annual_rate === undefined ? 0 : readNumber(record, 'annual_rate');
+    const oldUid = readString(record, 'uid');
+    const categoryUid = categoryIds.get(readString(record, 'category_id'));
+
+    if (!categoryUid) {
+      invalid.push({ collection: 'installments', label: description || oldUid, reason: 'missingCategory' });
+      return;
+    }
+
+    const valid = isValidLength(description, 500) &&
+      isValidAmount(totalAmount) &&
+      Number.isInteger(installments) && installments > 0 && installments <= 360 &&
+      Number.isInteger(currentInstallment) && currentInstallment >= 0 && currentInstallment <= installments &&
+      monthlyAmount > 0 &&
+      isSupportedCurrency(currency) &&
+      !!startDate &&
+      tax >= 0 && tax <= 100 &&
+      annualRate >= 0 && annualRate <= 200;
+    if (!valid || !startDate) {
+      invalid.push({ collection: 'installments', label: description || oldUid, reason: 'invalidData' });
+      return;
+    }
+
+    const match = existing.installments.find(installment =>
+      normalize(installment.description) === normalize(description) &&
+      sameDay(installment.start_date.toDate(), startDate)
+    );
+    if (match) {
+      installmentIds.set(oldUid, match.uid);
+      conflicts.push({ collection: 'installments', label: description, reason: 'installmentExists' });
+      return;
+    }
+
+    const uid = `${prefix}_d${index}`;
+    installmentIds.set(oldUid, uid);
+    documents.push({
+      collection: 'installments',
+      uid,
+      data: {
+        category_id: doc(db, 'categories', categoryUid),
+        currency,
+        current_installment: currentInstallment,
+        description,
+        installments,
+        monthly_amount: monthlyAmount,
+        start_date: Timestamp.fromDate(startDate),
+        total_amount: totalAmount,
+        userId,
+        tax,
+        ...(INTEREST_TYPES.includes(interestType) ? { interest_type: interestType, annual_rate: annualRate } : {}),
+      },
+    });
+  });
+
+  // Metas
+  archive.goals.forEach((record, index) => {
+    const title = readString(record, 'title');
+    const targetAmount = readNumber(record, 'targetAmount');
+    const currentAmount = readNumber(record, 'currentAmount');
+    const currency = readString(record, 'currency');
+    const dueDate = readDate(record, 'dueDate');
+
+    const valid = isValidLength(title, 100) &&
+      isValidAmount(targetAmount) &&
+      currentAmount >= 0 && currentAmount <= targetAmount &&
+      isSupportedCurrency(currency) &&
+      !!dueDate;
+    if (!valid || !dueDate) {
+      invalid.push({ collection: 'goals', label: title || readString(record, 'uid'), reason: 'invalidData' });
+      return;
+    }
+
+    if (existing.goals.some(goal => normalize(goal.title) === normalize(title))) {
+      conflicts.push({ collection: 'goals', label: title, reason: 'goalExists' });
+      return;
+    }
+
+    documents.push({
+      collection: 'goals',
+      uid: `${prefix}_g${index}`,
+      data: {
+        title,
+        targetAmount,
+        currentAmount,
+        currency,
+        dueDate: Timestamp.fromDate(dueDate),
+        userId,
+      },
+    });
+  });
+
+  // Cuentas (antes que los movimientos y transferencias, que las referencian)
+  archive.accounts.forEach((record, index) => {
+    const name = readString(record, 'name');
+    const type = readString(record, 'type') as AccountType;
+    const currency = readString(record, 'currency');
+    const openingBalance = readNumber(record, 'openingBalance');
+    const oldUid = readString(record, 'uid');
+
+    const valid = isValidLength(name, 100) &&
+      ACCOUNT_TYPES.includes(type) &&
+      isSupportedCurrency(currency) &&
+      openingBalance > -1000000000 && openingBalance < 1000000000;
+    if (!valid) {
+      invalid.push({ collection: 'accounts', label: name || oldUid, reason: 'invalidData' });
+      return;
+    }
+
+    const match = existing.accounts.find(account => normalize(account.name) === normalize(name));
+    if (match) {
+      accountIds.set(oldUid, match.uid);
+      conflicts.push({ collection: 'accounts', label: name, reason: 'accountExists' });
+      return;
+    }
+
+    const uid = `${prefix}_a${index}`;
+    accountIds.set(oldUid, uid);
+    documents.push({
+      collection: 'accounts',
+      uid,
+      data: {
+        name,
+        type,
+        currency,
+        openingBalance,
+        closingDay: readDayOfMonth(record, 'closingDay'),
+        paymentDueDay: readDayOfMonth(record, 'paymentDueDay'),
+        userId,
+      },
+    });
+  });
+
+  // Gastos
+  archive.expenses.forEach((record, index) => {
+    const amount = readNumber(record, 'amount');
+    const currency = readString(record, 'currency');
+    const date = readDate(record, 'date');
+    const note = readString(record, 'note').slice(0, 500);
+    const fitId = readString(record, 'fitId');
+    const label = `${readString(record, 'date').split('T')[0]} ${amount} ${currency}`;
+    const categoryUid = categoryIds.get(readString(record, 'categoryId'));
+    const installmentUid = installmentIds.get(readString(record, 'installmentId'));
+    const splits = readSplits(record, categoryIds);
+
+    if (!categoryUid || splits === undefined) {
+      invalid.push({ collection: 'expenses', label, reason: 'missingCategory' });
+      return;
+    }
+    if (!isValidAmount(amount) || !isSupportedCurrency(currency) || !date ||
+        (splits && !validateSplits(splits, amount))) {
+      invalid.push({ collection: 'expenses', label, reason: 'invalidData' });
+      return;
+    }
+
+    const duplicate = existing.expenses.some(expense =>
+      (fitId && expense.fitId === fitId) ||
+      (expense.amount === amount &&
+        expense.currency === currency &&
+        (expense.note || '') === note &&
+        sameDay(expense.date.toDate(), date))
+    );
+    if (duplicate) {
+      conflicts.push({ collection: 'expenses', label, reason: 'duplicateEntry' });
+      return;
+    }
+
+    documents.push({
+      collection: 'expenses',
+      uid: `${prefix}_e${index}`,
+      data: {
+        amount,
+        categoryId: doc(db, 'categories', categoryUid),
+        currency,
+        date: Timestamp.fromDate(date),
+        installmentId: installmentUid ? doc(db, 'installments', installmentUid) : null,
+        note,
+        ...(fitId ? { fitId } : {}),
+        ...buildSplitFields(toExpenseSplits(splits)),
+        accountId: readAccountId(record),
+        tags: readTags(record),
+        userId,
+      },
+    });
+  });
+
+  // Ingresos
+  archive.incomes.forEach((record, index) => {
+    const amount = readNumber(record, 'amount');
+    const currency = readString(record, 'currency');
+    const source = readString(record, 'source');
+    const receivedAt = readDate(record, 'receivedAt');
+    const fitId = readString(record, 'fitId');
+    const label = `${source} ${amount} ${currency}`;
+
+    if (!isValidAmount(amount) || !isSupportedCurrency(currency) || !isValidLength(source, 100) || !receivedAt) {
+      invalid.push({ collection: 'income', label, reason: 'invalidData' });
+      return;
+    }
+
+    const duplicate = existing.incomes.some(income =>
+      (fitId && income.fitId === fitId) ||
+      (income.amount === amount &&
+        income.currency === currency &&
+        normalize(income.source) === normalize(source) &&
+        sameDay(income.receivedAt.toDate(), receivedAt))
+    );
+    if (duplicate) {
+      conflicts.push({ collection: 'income', label, reason: 'duplicateEntry' });
+      return;
+    }
+
+    documents.push({
+      collection: 'income',
+      uid: `${prefix}_i${index}`,
+      data: {
+        amount,
+        currency,
+        source,
+        receivedAt: Timestamp.fromDate(receivedAt),
+        ...(fitId ? { fitId } : {}),
+        accountId: readAccountId(record),
+        tags: readTags(record),
+        userId,
+      },
+    });
+  });
+
+  // Transferencias
+  archive.transfers.forEach((record, index) => {
+    const amount = readNumber(record, 'amount');
+    const toAmount = readNumber(record, 'toAmount');
+    const currency = readString(record, 'currency');
+    const date = readDate(record, 'date');
+    const note = readString(record, 'note');
+    const label = `${readString(record, 'date').split('T')[0]} ${amount} ${currency}`;
+    const fromAccountId = readAccountId(record, 'fromAccountId');
+    const toAccountId = readAccountId(record, 'toAccountId');
+
+    if (!fromAccountId || !toAccountId) {
+      invalid.push({ collection: 'transfers', label, reason: 'missingAccount' });
+      return;
+    }
+    if (fromAccountId === toAccountId || !isValidAmount(amount) || !isValidAmount(toAmount) ||
+        !isSupportedCurrency(currency) || !date || note.length > 500) {
+      invalid.push({ collection: 'transfers', label, reason: 'invalidData' });
+      return;
+    }
+
+    const duplicate = existing.transfers.some(transfer =>
+      transfer.fromAccountId === fromAccountId &&
+      transfer.toAccountId === toAccountId &&
+      transfer.amount === amount &&
+      transfer.currency === currency &&
+      sameDay(transfer.date.toDate(), date)
+    );
+    if (duplicate) {
+      conflicts.push({ collection: 'transfers', label, reason: 'duplicateEntry' });
+      return;
+    }
+
+    documents.push({
+      collection: 'transfers',
+      uid: `${prefix}_t${index}`,
+      data: {
+        fromAccountId,
+        toAccountId,
+        amount,
+        currency,
+        toAmount,
+        date: Timestamp.fromDate(date),
+        note: note || null,
+        userId,
+      },
+    });
+  });
+
+  const counts: Record<RestoreCollection, number> = {
+    categories: 0,
+    installments: 0,
+    goals: 0,
+    accounts: 0,
+    expenses: 0,
+    income: 0,
+    transfers: 0,
+  };
+  documents.forEach(document => counts[document.collection]++);
+
+  return { documents, conflicts, invalid, counts };
+}
@@ -0,0 +1,178 @@
+import { addMonths, endOfMonth } from 'date-fns';
+import { Installment } from '@/lib/types/installment';
+import { getInstallmentPayment, getInterestType, getRemainingPrincipal } from './amortization';
+
+export type PayoffStrategy = 'snowball' | 'avalanche';
+
+export const PAYOFF_STRATEGIES: PayoffStrategy[] = ['snowball', 'avalanche'];
+
+// Límite de la simulación, por si el pago mensual no alcanza a cubrir los intereses
+export const MAX_PAYOFF_MONTHS = 600;
+
+// Deuda tal como entra a la simulación
+export interface PayoffDebt {
+  uid: string;
+  description: string;
+  balance: number; // Capital pendiente hoy
+  monthlyRate: number; // Interés mensual sobre el saldo (fracción, 0.02 = 2%); en flat, el equivalente sobre el saldo de hoy
+  fixedInterest: number | null; // Recargo fijo: interés de cada cuota, sin importar el saldo
+  minimumPayment: number; // Cuota mínima del plan
+  fixedPrincipal: number | null; // Amortización alemana: capital fijo de cada cuota
+}
+
+// Fila del plan mes a mes
+export interface PayoffMonth {
+  month: number; // 1 = próximo mes
+  date: Date;
+  focusId: string | null; // Deuda que recibe el pago extra
+  payment: number;
+  interest: number;
+  balance: number; // Saldo total al cierre del mes
+  paidOffIds: string[]; // Deudas que quedan saldadas este mes
+}
+
+export interface PayoffResult {
+  strategy: PayoffStrategy;
+  months: PayoffMonth[];
+  payoffDate: Date | null; // null: la simulación no logra saldar las deudas
+  totalInterest: number;
+  totalPaid: number;
+  payoffOrder: { uid: string; description: string; month: number; date: Date }[];
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Convierte un plan de cuotas en una deuda para la simulación.
+ * - flat: cada cuota paga el mismo interés que en buildAmortizationSchedule (el recargo `tax`
+ *   repartido entre las cuotas); adelantar pagos ahorra los recargos de las cuotas que ya no se pagan.
+ * - french/german: `annual_rate` / 12 sobre el saldo.
+ */
+export function toPayoffDebt(installment: Installment): PayoffDebt {
+  const interestType = getInterestType(installment);
+  const balance = getRemainingPrincipal(installment);
+  const fixedInterest = interestType === 'flat'
+    ? roundCents(installment.total_amount * (installment.tax || 0) / 100 / Math.max(1, installment.installments))
+    : null;
+  const monthlyRate = fixedInterest !== null
+    ? (balance > 0 ? fixedInterest / balance : 0)
+    : (installment.annual_rate || 0) / 100 / 12;
+
+  return {
+    uid: installment.uid,
+    description: installment.description,
+    balance,
+    monthlyRate,
+    fixedInterest,
+    minimumPayment: getInstallmentPayment(installment, installment.current_installment + 1),
+    fixedPrincipal: interestType === 'german'
+      ? roundCents(installment.total_amount / Math.max(1, installment.installments))
+      : null,
+  };
+}
+
+// Orden en que cada estrategia destina el pago extra
+const sortByStrategy = (debts: PayoffDebt[], balances: Map<string, number>, strategy: PayoffStrategy) => {
+  return [...debts].sort((a, b) => {
+    if (strategy === 'avalanche' && a.monthlyRate !== b.monthlyRate) {
+      return b.monthlyRate - a.monthlyRate;
+    }
+    return (balances.get(a.uid) || 0) - (balances.get(b.uid) || 0);
+  });
+};
+
+/**
+ * Simula el pago de las deudas con un presupuesto mensual fijo: la suma de las cuotas
+ * mínimas actuales más `extraPayment`. Cada mes se paga la cuota mínima de todas las
+ * deudas y el resto va a la deuda prioritaria de la estrategia:
+ * - snowball: la de menor saldo.
+ * - avalanche: la de mayor interés (a igual interés, la de menor saldo).
+ * Las cuotas de las deudas saldadas se suman al pago de las siguientes.
+ */
+export function simulatePayoff(
+  debts: PayoffDebt[],
+  strategy: PayoffStrategy,
+  extraPayment: number = 0,
+  today: Date = new Date()
+): PayoffResult {
+  const activeDebts = debts.filter(debt => debt.balance > 0);
+  const balances = new Map(activeDebts.map(debt => [debt.uid, debt.balance]));
+  const budget = activeDebts.reduce((sum, debt) => sum + debt.minimumPayment, 0) + Math.max(0, extraPayment);
+
+  const months: PayoffMonth[] = [];
+  const payoffOrder: PayoffResult['payoffOrder'] = [];
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  for (let month = 1; month <= MAX_PAYOFF_MONTHS && payoffOrder.length < activeDebts.length; month++) {
+    const date = endOfMonth(addMonths(today, month));
+    const pending = activeDebts.filter(debt => (balances.get(debt.uid) || 0) > 0);
+    const owed = new Map<string, number>();
+    let interest = 0;
+
+    // Intereses del mes: sobre el saldo, o el recargo fijo de la cuota
+    pending.forEach(debt => {
+      const balance = balances.get(debt.uid) || 0;
+      const debtInterest = debt.fixedInterest !== null ? debt.fixedInterest : roundCents(balance * debt.monthlyRate);
+      interest += debtInterest;
+      owed.set(debt.uid, balance + debtInterest);
+    });
+
+    // Cuota mínima de cada deuda
+    let available = budget;
+    pending.forEach(debt => {
+      const debtOwed = owed.get(debt.uid) || 0;
+      const minimum = debt.fixedPrincipal !== null
+        ? debt.fixedPrincipal + (debtOwed - (balances.get(debt.uid) || 0))
+        : debt.minimumPayment;
+      const payment = Math.min(debtOwed, minimum, available);
+      owed.set(debt.uid, debtOwed - payment);
+      available -= payment;
+    });
+
+    // El resto del presupuesto va a la deuda prioritaria, y lo que sobre a la siguiente
+    const ordered = sortByStrategy(pending, balances, strategy);
+    const focus = ordered.find(debt => (owed.get(debt.uid) || 0) > 0) || null;
+    for (const debt of ordered) {
+      if (available <= 0) break;
+      const debtOwed = owed.get(debt.uid) || 0;
+      const payment = Math.min(debtOwed, available);
+      owed.set(debt.uid, debtOwed - payment);
+      available -= payment;
+    }
+
+    const paidOffIds: string[] = [];
+    pending.forEach(debt => {
+      const remaining = roundCents(owed.get(debt.uid) || 0);
+      balances.set(debt.uid, Math.max(0, remaining));
+      if (remaining <= 0) {
+        paidOffIds.push(debt.uid);
+        payoffOrder.push({ uid: debt.uid, description: debt.description, month, date });
+      }
+    });
+
+    const payment = roundCents(budget - available);
+    totalInterest += interest;
+    totalPaid += payment;
+    months.push({
+      month,
+      date,
+      focusId: focus ? focus.uid : null,
+      payment,
+      interest: roundCents(interest),
+      balance: roundCents(Array.from(balances.values()).reduce((sum, balance) => sum + balance, 0)),
+      paidOffIds,
+    });
+  }
+
+  const isPaidOff = payoffOrder.length === activeDebts.length;
+
+  return {
+    strategy,
+    months,
+    payoffDate: isPaidOff && months.length > 0 ? months[months.length - 1].date : null,
+    totalInterest: roundCents(totalInterest),
+    totalPaid: roundCents(totalPaid),
+    payoffOrder,
+  };
+}
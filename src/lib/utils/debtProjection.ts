@@ -0,0 +1,69 @@
+import { addMonths, subMonths } from 'date-fns';
+import { Installment } from '@/lib/types/installment';
+import { getInstallmentDueDate } from '@/lib/firebase/firestore/installments';
+import { getBalanceAfter } from './amortization';
+
+/**
+ * Cuotas cuyo vencimiento ya llegó en `date` según el calendario del plan.
+ */
+export function getScheduledInstallmentsAt(installment: Installment, date: Date): number {
+  let count = 0;
+  while (count < installment.installments && getInstallmentDueDate(installment, count + 1) <= date) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Fecha en que se paga la próxima cuota pendiente: su vencimiento según el calendario del plan,
+ * o `today` si ya está atrasada.
+ */
+function getNextPaymentDate(installment: Installment, today: Date): Date {
+  const nextDueDate = getInstallmentDueDate(installment, installment.current_installment + 1);
+  return nextDueDate < today ? today : nextDueDate;
+}
+
+/**
+ * Cuotas pagadas al cierre de `date`.
+ * - En el pasado se asume que se pagaron en su vencimiento, sin superar las registradas hoy.
+ * - En el futuro se proyecta una cuota por mes a partir de la próxima cuota pendiente.
+ */
+export function getPaidInstallmentsAt(installment: Installment, date: Date, today: Date = new Date()): number {
+  if (date <= today) {
+    return Math.min(getScheduledInstallmentsAt(installment, date), installment.current_installment);
+  }
+  const remaining = installment.installments - installment.current_installment;
+  if (remaining <= 0) return installment.installments;
+
+  const nextPaymentDate = getNextPaymentDate(installment, today);
+  let paid = 0;
+  while (paid < remaining && addMonths(nextPaymentDate, paid) <= date) {
+    paid++;
+  }
+  return installment.current_installment + paid;
+}
+
+/**
+ * Capital pendiente de un plan al cierre de `date`. Antes del mes previo a la
+ * primera cuota la deuda todavía no existía.
+ */
+export function getInstallmentBalanceAt(installment: Installment, date: Date, today: Date = new Date()): number {
+  if (date < subMonths(installment.start_date.toDate(), 1)) return 0;
+  return getBalanceAfter(installment, getPaidInstallmentsAt(installment, date, today));
+}
+
+/**
+ * Fecha en que se paga la última cuota pendiente: para cada deuda, la próxima cuota
+ * más una por mes hasta completar las que faltan; se toma la más tardía.
+ *
+ * @returns fecha de la última cuota, o null si no hay deudas pendientes
+ */
+export function getDebtFreeDate(installments: Installment[], today: Date = new Date()): Date | null {
+  return installments.reduce<Date | null>((latest, installment) => {
+    const remaining = installment.installments - installment.current_installment;
+    if (remaining <= 0) return latest;
+
+    const lastPaymentDate = addMonths(getNextPaymentDate(installment, today), remaining - 1);
+    return latest && latest >= lastPaymentDate ? latest : lastPaymentDate;
+  }, null);
+}
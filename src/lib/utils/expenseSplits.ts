@@ -0,0 +1,103 @@
+import { doc, DocumentReference } from 'firebase/firestore';
+import { db } from '@/lib/firebase/client';
+import { Expense, ExpenseSplit } from '@/lib/types/expense';
+import { Category } from '@/lib/types/category';
+
+// Máximo de líneas por gasto dividido (coincide con firestore.rules)
+export const MAX_EXPENSE_SPLITS = 20;
+
+export interface CategoryAllocation {
+  categoryId: string;
+  amount: number;
+}
+
+// Línea de la división tal como la envía ExpenseForm (categoría por ID)
+export interface SplitFormLine {
+  categoryId: string;
+  amount: number;
+  note?: string;
+}
+
+/**
+ * Reparte el monto de un gasto entre sus categorías.
+ * Un gasto sin división asigna el total a su categoryId.
+ */
+export function getExpenseAllocations(expense: Pick<Expense, 'amount' | 'categoryId' | 'splits'>): CategoryAllocation[] {
+  if (expense.splits && expense.splits.length > 0) {
+    return expense.splits.map(split => ({ categoryId: split.categoryId.id, amount: split.amount }));
+  }
+
+  const categoryId = typeof expense.categoryId === 'string' ? expense.categoryId : expense.categoryId.id;
+  return [{ categoryId, amount: expense.amount }];
+}
+
+/**
+ * Parte del gasto que corresponde a una categoría (0 si no participa).
+ */
+export function getCategoryAmount(expense: Pick<Expense, 'amount' | 'categoryId' | 'splits'>, categoryId: string): number {
+  return getExpenseAllocations(expense)
+    .filter(allocation => allocation.categoryId === categoryId)
+    .reduce((sum, allocation) => sum + allocation.amount, 0);
+}
+
+/**
+ * Suma los gastos por categoría respetando las divisiones.
+ * `amountOf` permite convertir cada parte (por ejemplo a la moneda base).
+ */
+export function sumExpensesByCategory(
+  expenses: Expense[],
+  amountOf: (amount: number, expense: Expense) => number = amount => amount
+): Record<string, number> {
+  return expenses.reduce((acc, expense) => {
+    getExpenseAllocations(expense).forEach(({ categoryId, amount }) => {
+      acc[categoryId] = (acc[categoryId] || 0) + amountOf(amount, expense);
+    });
+    return acc;
+  }, {} as Record<string, number>);
+}
+
+// Redondeo a centavos para comparar sumas de montos con decimales
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Valida que las líneas sumen exactamente el total y que cada una tenga categoría y monto positivo.
+ */
+export function validateSplits(splits: SplitFormLine[], total: number): boolean {
+  if (splits.length < 2 || splits.length > MAX_EXPENSE_SPLITS) return false;
+  if (splits.some(split => !split.categoryId || !(split.amount > 0))) return false;
+
+  const splitTotal = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+  return splitTotal === toCents(total);
+}
+
+/**
+ * Convierte las líneas del formulario en splits con referencias a categorías.
+ */
+export function toExpenseSplits(lines: SplitFormLine[] | null | undefined): ExpenseSplit[] | null {
+  if (!lines || lines.length === 0) return null;
+
+  return lines.map(line => ({
+    categoryId: doc(db, 'categories', line.categoryId) as DocumentReference<Category>,
+    amount: line.amount,
+    ...(line.note ? { note: line.note } : {}),
+  }));
+}
+
+/**
+ * Campos derivados que se guardan junto a `splits` para poder consultar por categoría.
+ */
+export function buildSplitFields(splits: ExpenseSplit[] | null | undefined) {
+  if (!splits || splits.length === 0) {
+    return { splits: null, splitCategoryIds: null, isSplit: false };
+  }
+
+  return {
+    splits: splits.map(split => ({
+      categoryId: split.categoryId,
+      amount: split.amount,
+      ...(split.note ? { note: split.note } : {}),
+    })),
+    splitCategoryIds: Array.from(new Set(splits.map(split => split.categoryId.id))),
+    isSplit: true,
+  };
+}
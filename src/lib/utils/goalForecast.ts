@@ -0,0 +1,144 @@
+import { addDays, differenceInCalendarDays, startOfMonth, subMonths } from 'date-fns';
+import Goal, { GoalContribution } from '@/lib/types/goal';
+import { Expense } from '@/lib/types/expense';
+import { Income } from '@/lib/types/income';
+import { ExchangeRate } from '@/lib/types/exchangeRate';
+import { convertAmount } from './currencyConversion';
+
+export type GoalForecastStatus = 'completed' | 'onTrack' | 'atRisk';
+
+// De dónde sale el ritmo de ahorro usado en la proyección
+export type GoalForecastSource = 'contributions' | 'savings';
+
+export interface GoalForecast {
+  status: GoalForecastStatus;
+  source: GoalForecastSource | null; // null: no hay datos para proyectar
+  monthlyRate: number; // Ritmo de ahorro mensual estimado (moneda de la meta)
+  requiredMonthly: number; // Monto mensual necesario para llegar a dueDate
+  projectedDate: Date | null; // Fecha estimada de cumplimiento
+}
+
+// Meses de historial que se usan para estimar el ritmo de ahorro
+export const FORECAST_LOOKBACK_MONTHS = 6;
+
+// Meses completos usados para el promedio de ingresos menos gastos
+export const SAVINGS_AVERAGE_MONTHS = 3;
+
+const AVERAGE_DAYS_PER_MONTH = 30.44;
+
+const toDate = (value: Date | { toDate: () => Date }): Date => {
+  return value instanceof Date ? value : value.toDate();
+};
+
+/**
+ * Ritmo mensual de los abonos de los últimos FORECAST_LOOKBACK_MONTHS meses.
+ * Si el primer abono es más reciente, se promedia desde ese abono (mínimo un mes).
+ *
+ * @returns monto mensual promedio, o null si no hay abonos en el periodo
+ */
+export function getContributionMonthlyRate(
+  contributions: GoalContribution[],
+  today: Date = new Date()
+): number | null {
+  const windowStart = subMonths(today, FORECAST_LOOKBACK_MONTHS);
+  const recent = contributions.filter(contribution => {
+    const date = contribution.date.toDate();
+    return date >= windowStart && date <= today;
+  });
+
+  if (recent.length === 0) return null;
+
+  const firstDate = recent.reduce(
+    (earliest, contribution) => {
+      const date = contribution.date.toDate();
+      return date < earliest ? date : earliest;
+    },
+    today
+  );
+  const months = Math.max(1, differenceInCalendarDays(today, firstDate) / AVERAGE_DAYS_PER_MONTH);
+  const total = recent.reduce((sum, contribution) => sum + contribution.amount, 0);
+
+  return total / months;
+}
+
+/**
+ * Ahorro mensual promedio (ingresos menos gastos) de los últimos SAVINGS_AVERAGE_MONTHS
+ * meses completos, expresado en `currency`. Los montos sin tasa de cambio se omiten.
+ *
+ * @returns ahorro mensual promedio, o null si no hubo ingresos en el periodo
+ */
+export function getAverageMonthlySavings(
+  incomes: Income[],
+  expenses: Expense[],
+  currency: string,
+  rates: ExchangeRate[],
+  today: Date = new Date()
+): number | null {
+  const end = startOfMonth(today);
+  const start = subMonths(end, SAVINGS_AVERAGE_MONTHS);
+  const inPeriod = (date: Date) => date >= start && date < end;
+
+  const periodIncomes = incomes.filter(income => inPeriod(income.receivedAt.toDate()));
+  if (periodIncomes.length === 0) return null;
+
+  const incomeTotal = periodIncomes.reduce(
+    (sum, income) => sum + (convertAmount(income.amount, income.currency, currency, income.receivedAt, rates) ?? 0),
+    0
+  );
+  const expenseTotal = expenses
+    .filter(expense => inPeriod(expense.date.toDate()))
+    .reduce(
+      (sum, expense) => sum + (convertAmount(expense.amount, expense.currency, currency, expense.date, rates) ?? 0),
+      0
+    );
+
+  return (incomeTotal - expenseTotal) / SAVINGS_AVERAGE_MONTHS;
+}
+
+/**
+ * Proyecta el cumplimiento de una meta. El ritmo de ahorro sale del historial de
+ * abonos; si la meta no tiene abonos recientes, del ahorro mensual promedio del usuario.
+ * La meta está en riesgo si a ese ritmo no se llega antes de dueDate.
+ */
+export function getGoalForecast(
+  goal: Goal,
+  options: {
+    contributions?: GoalContribution[];
+    monthlySavings?: number | null;
+    today?: Date;
+  } = {}
+): GoalForecast {
+  const today = options.today ?? new Date();
+  const remaining = Math.max(0, goal.targetAmount - goal.currentAmount);
+
+  if (remaining === 0) {
+    return { status: 'completed', source: null, monthlyRate: 0, requiredMonthly: 0, projectedDate: null };
+  }
+
+  // Meses hasta la fecha límite; si ya venció, lo que falta se necesita de inmediato
+  const daysLeft = differenceInCalendarDays(toDate(goal.dueDate), today);
+  const monthsLeft = daysLeft / AVERAGE_DAYS_PER_MONTH;
+  const requiredMonthly = monthsLeft >= 1 ? remaining / monthsLeft : remaining;
+
+  const contributionRate = options.contributions
+    ? getContributionMonthlyRate(options.contributions, today)
+    : null;
+  const savingsRate = options.monthlySavings && options.monthlySavings > 0 ? options.monthlySavings : null;
+
+  const source: GoalForecastSource | null = contributionRate !== null
+    ? 'contributions'
+    : savingsRate !== null
+    ? 'savings'
+    : null;
+  const monthlyRate = contributionRate ?? savingsRate ?? 0;
+
+  if (monthlyRate <= 0) {
+    return { status: 'atRisk', source, monthlyRate: 0, requiredMonthly, projectedDate: null };
+  }
+
+  const monthsToComplete = remaining / monthlyRate;
+  const projectedDate = addDays(today, Math.ceil(monthsToComplete * AVERAGE_DAYS_PER_MONTH));
+  const status: GoalForecastStatus = daysLeft >= 0 && monthlyRate >= requiredMonthly ? 'onTrack' : 'atRisk';
+
+  return { status, source, monthlyRate, requiredMonthly, projectedDate };
+}
@@ -0,0 +1,90 @@
+import { startOfMonth, subMonths } from 'date-fns';
+import Goal from '@/lib/types/goal';
+import { GoalFundingRule } from '@/lib/types/goalFundingRule';
+import { Income } from '@/lib/types/income';
+
+// Meses de ingresos usados en la vista previa de las reglas
+export const FUNDING_PREVIEW_MONTHS = 3;
+
+const escapeRegExp = (text: string) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Indica si el origen de un ingreso coincide con el patrón de una regla.
+ * Sin comodines busca el texto dentro del origen (sin distinguir mayúsculas);
+ * con '*' el patrón debe cubrir todo el origen. Un patrón vacío coincide con todo.
+ */
+export function matchesSourcePattern(pattern: string, source: string): boolean {
+  const normalizedPattern = pattern.trim().toLowerCase();
+  const normalizedSource = source.trim().toLowerCase();
+
+  if (!normalizedPattern) return true;
+  if (!normalizedPattern.includes('*')) return normalizedSource.includes(normalizedPattern);
+
+  const regex = new RegExp(`^${normalizedPattern.split('*').map(escapeRegExp).join('.*')}$`);
+  return regex.test(normalizedSource);
+}
+
+/**
+ * Reglas activas que aplican a un ingreso (misma moneda y origen que coincide con el patrón).
+ */
+export function getMatchingFundingRules(
+  rules: GoalFundingRule[],
+  income: Pick<Income, 'currency' | 'source'>
+): GoalFundingRule[] {
+  return rules.filter(rule =>
+    rule.active &&
+    rule.currency === income.currency &&
+    matchesSourcePattern(rule.sourcePattern, income.source)
+  );
+}
+
+/**
+ * Monto que una regla destina de un ingreso, redondeado a centavos.
+ */
+export function getFundingAmount(rule: GoalFundingRule, incomeAmount: number): number {
+  return Math.round(incomeAmount * rule.percentage) / 100;
+}
+
+export interface FundingPreview {
+  goal: Goal;
+  total: number; // Lo que habrían aportado las reglas (sin superar lo que falta para la meta)
+  uncappedTotal: number;
+  incomeCount: number; // Ingresos que habrían generado al menos un abono
+}
+
+/**
+ * Simula cómo las reglas activas habrían financiado cada meta con los ingresos
+ * de los últimos FUNDING_PREVIEW_MONTHS meses (incluido el mes actual).
+ */
+export function getFundingPreview(
+  rules: GoalFundingRule[],
+  goals: Goal[],
+  incomes: Income[],
+  today: Date = new Date()
+): FundingPreview[] {
+  const start = startOfMonth(subMonths(today, FUNDING_PREVIEW_MONTHS - 1));
+  const recentIncomes = incomes.filter(income => {
+    const date = income.receivedAt.toDate();
+    return date >= start && date <= today;
+  });
+
+  return goals
+    .map(goal => {
+      const goalRules = rules.filter(rule => rule.goalId === goal.uid);
+      let uncappedTotal = 0;
+      let incomeCount = 0;
+
+      recentIncomes.forEach(income => {
+        const amount = getMatchingFundingRules(goalRules, income)
+          .reduce((sum, rule) => sum + getFundingAmount(rule, income.amount), 0);
+        if (amount > 0) {
+          uncappedTotal += amount;
+          incomeCount++;
+        }
+      });
+
+      const remaining = Math.max(0, goal.targetAmount - goal.currentAmount);
+      return { goal, total: Math.min(uncappedTotal, remaining), uncappedTotal, incomeCount };
+    })
+    .filter(preview => rules.some(rule => rule.goalId === preview.goal.uid));
+}
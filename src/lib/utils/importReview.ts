@@ -0,0 +1,129 @@
+import { Expense } from '@/lib/types/expense';
+import { Income } from '@/lib/types/income';
+import { Category } from '@/lib/types/category';
+import { SUPPORTED_CURRENCIES } from './currencyConversion';
+
+/**
+ * Movimiento normalizado leído de un extracto bancario, independiente del formato de origen.
+ * amount siempre es positivo; type indica si es gasto o ingreso.
+ */
+export interface ImportedTransaction {
+  type: 'expense' | 'income';
+  date: Date;
+  amount: number;
+  currency: string;
+  description: string;
+  fitId?: string; // Identificador del banco (OFX), si el formato lo provee
+}
+
+// Límites de firestore.rules (isValidExpense / isValidIncome)
+export const MAX_IMPORT_AMOUNT = 1000000000;
+export const MAX_INCOME_SOURCE_LENGTH = 100;
+
+const normalizeText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const getCategoryIdOf = (expense: Expense): string => {
+  return typeof expense.categoryId === 'string' ? expense.categoryId : expense.categoryId.id;
+};
+
+const isSameDay = (a: Date, b: Date): boolean => {
+  return a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate();
+};
+
+const isSameAmount = (a: number, b: number): boolean => Math.abs(a - b) < 0.005;
+
+/**
+ * Sugiere una categoría para un gasto importado:
+ * 1. La categoría usada en el gasto previo más reciente con la misma nota.
+ * 2. La primera categoría cuyo nombre aparece en la descripción.
+ */
+export function suggestCategoryId(
+  description: string,
+  categories: Category[],
+  existingExpenses: Expense[]
+): string | null {
+  const normalized = normalizeText(description);
+  if (!normalized) return null;
+
+  const previous = existingExpenses
+    .filter(expense => expense.note && normalizeText(expense.note) === normalized)
+    .sort((a, b) => b.date.toMillis() - a.date.toMillis())[0];
+  if (previous) {
+    const categoryId = getCategoryIdOf(previous);
+    if (categories.some(category => category.uid === categoryId)) return categoryId;
+  }
+
+  const byName = categories.find(category => {
+    const name = normalizeText(category.name);
+    return name.length > 0 && normalized.includes(name);
+  });
+
+  return byName?.uid || null;
+}
+
+/**
+ * Busca un gasto existente con el mismo FITID o, en su defecto, un gasto sin FITID
+ * (registrado a mano) con la misma fecha (día), monto y moneda.
+ */
+export function findDuplicateExpense(transaction: ImportedTransaction, existingExpenses: Expense[]): Expense | undefined {
+  if (transaction.fitId) {
+    const byFitId = existingExpenses.find(expense => expense.fitId === transaction.fitId);
+    if (byFitId) return byFitId;
+  }
+
+  return existingExpenses.find(expense =>
+    (!transaction.fitId || !expense.fitId) &&
+    expense.currency === transaction.currency &&
+    isSameAmount(expense.amount, transaction.amount) &&
+    isSameDay(expense.date.toDate(), transaction.date)
+  );
+}
+
+/**
+ * Busca un ingreso existente con el mismo FITID o, en su defecto, un ingreso sin FITID
+ * (registrado a mano) con la misma fecha (día), monto y moneda.
+ */
+export function findDuplicateIncome(transaction: ImportedTransaction, existingIncomes: Income[]): Income | undefined {
+  if (transaction.fitId) {
+    const byFitId = existingIncomes.find(income => income.fitId === transaction.fitId);
+    if (byFitId) return byFitId;
+  }
+
+  return existingIncomes.find(income =>
+    (!transaction.fitId || !income.fitId) &&
+    income.currency === transaction.currency &&
+    isSameAmount(income.amount, transaction.amount) &&
+    isSameDay(income.receivedAt.toDate(), transaction.date)
+  );
+}
+
+/**
+ * Replica isValidExpense / isValidIncome de firestore.rules para descartar
+ * filas antes de escribirlas: un batch con una sola fila inválida falla completo.
+ */
+export function isImportableTransaction(transaction: ImportedTransaction, categoryId: string | null): boolean {
+  const validAmount = transaction.amount > 0 && transaction.amount < MAX_IMPORT_AMOUNT;
+  const validCurrency = SUPPORTED_CURRENCIES.includes(transaction.currency);
+  const validDate = !isNaN(transaction.date.getTime());
+
+  if (!validAmount || !validCurrency || !validDate) return false;
+
+  // Los ingresos siempre tienen fuente (getIncomeSource usa un valor por defecto)
+  return transaction.type === 'income' || !!categoryId;
+}
+
+/**
+ * Fuente del ingreso a partir de la descripción, recortada al máximo de las reglas.
+ */
+export function getIncomeSource(description: string, fallback: string): string {
+  return (description.trim() || fallback).slice(0, MAX_INCOME_SOURCE_LENGTH);
+}
@@ -0,0 +1,89 @@
+import { ImportedTransaction } from './importReview';
+
+/**
+ * Indica si el contenido parece un extracto OFX/QFX (1.x SGML o 2.x XML).
+ */
+export function isOfxContent(text: string): boolean {
+  return /OFXHEADER|<OFX>/i.test(text.slice(0, 2000));
+}
+
+const decodeEntities = (value: string): string => {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+};
+
+/**
+ * Lee el valor de un elemento. Sirve para ambas versiones:
+ * en 1.x (SGML) los elementos no se cierran y el valor termina en el siguiente "<" o salto de línea;
+ * en 2.x (XML) el valor termina en la etiqueta de cierre.
+ */
+const readElement = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  if (!match) return null;
+  const value = decodeEntities(match[1].trim());
+  return value || null;
+};
+
+/**
+ * Convierte una fecha OFX (YYYYMMDD[HHMMSS[.XXX][TZ]]) a Date local a mediodía.
+ * Se ignora la hora: solo interesa el día contable del movimiento.
+ */
+export function parseOfxDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day, 12, 0, 0, 0);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+const parseOfxAmount = (value: string): number | null => {
+  const amount = parseFloat(value.replace(',', '.').replace(/[^\d.+-]/g, ''));
+  return isNaN(amount) || !isFinite(amount) ? null : amount;
+};
+
+/**
+ * Parsea un extracto OFX 1.x (SGML) o 2.x (XML) y devuelve los movimientos normalizados.
+ * Los débitos (monto negativo) se convierten en gastos y los créditos en ingresos.
+ * El FITID de cada movimiento se conserva como clave de deduplicación.
+ */
+export function parseOfx(text: string): ImportedTransaction[] {
+  const transactions: ImportedTransaction[] = [];
+
+  // Un archivo puede traer varios estados de cuenta (bancarios y de tarjeta), cada uno con su moneda
+  const statements = [...text.matchAll(/<(CC)?STMTRS>([\s\S]*?)<\/(CC)?STMTRS>/gi)].map(match => match[2]);
+  if (statements.length === 0) statements.push(text);
+
+  for (const statement of statements) {
+    const currency = (readElement(statement, 'CURDEF') || '').toUpperCase();
+    const blocks = [...statement.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)].map(match => match[1]);
+
+    for (const block of blocks) {
+      const date = parseOfxDate(readElement(block, 'DTPOSTED') || '');
+      const amount = parseOfxAmount(readElement(block, 'TRNAMT') || '');
+      if (!date || amount === null || amount === 0) continue;
+
+      const name = readElement(block, 'NAME') || readElement(block, 'PAYEE') || '';
+      const memo = readElement(block, 'MEMO') || '';
+      const description = name && memo && name !== memo ? `${name} - ${memo}` : name || memo;
+      const transactionCurrency = (readElement(block, 'CURSYM') || currency).toUpperCase();
+
+      transactions.push({
+        type: amount < 0 ? 'expense' : 'income',
+        date,
+        amount: Math.abs(amount),
+        currency: transactionCurrency,
+        description,
+        fitId: readElement(block, 'FITID') || undefined,
+      });
+    }
+  }
+
+  return transactions;
+}
@@ -0,0 +1,100 @@
+import { endOfDay } from 'date-fns';
+import { Account } from '@/lib/types/account';
+import { Expense } from '@/lib/types/expense';
+import { Income } from '@/lib/types/income';
+import { AccountMovements, toAccountCurrency } from './accountBalances';
+
+// Movimientos seleccionados durante la conciliación
+export interface ClearedSelection {
+  expenseIds: Set<string>;
+  incomeIds: Set<string>;
+}
+
+export interface ReconciliationCandidates {
+  expenses: Expense[];
+  incomes: Income[];
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Indica si el movimiento ya fue conciliado y está bloqueado para edición.
+ */
+export function isReconciled(movement: Pick<Expense, 'reconciledAt'> | Pick<Income, 'reconciledAt'>): boolean {
+  return !!movement.reconciledAt;
+}
+
+// Campos que el estado de cuenta respalda: cambiarlos saca al movimiento de la conciliación
+export interface ReconciledFields {
+  amount: number;
+  date: string; // 'YYYY-MM-DD'
+  accountId: string | null;
+}
+
+/**
+ * Indica si una edición cambia el monto, la fecha o la cuenta de un movimiento. Solo esos
+ * cambios lo sacan de la conciliación (firestore.rules rechaza cambiarlos si sigue conciliado).
+ */
+export function changesReconciledFields(before: ReconciledFields, after: ReconciledFields): boolean {
+  return roundCents(before.amount) !== roundCents(after.amount) ||
+    before.date !== after.date ||
+    (before.accountId || null) !== (after.accountId || null);
+}
+
+/**
+ * Gastos e ingresos de la cuenta hasta la fecha del estado de cuenta que aún no
+ * fueron conciliados, del más antiguo al más reciente.
+ */
+export function getReconciliationCandidates(
+  account: Account,
+  { expenses, incomes }: AccountMovements,
+  statementDate: Date
+): ReconciliationCandidates {
+  const end = endOfDay(statementDate);
+  return {
+    expenses: expenses
+      .filter(expense => expense.accountId === account.uid && !isReconciled(expense) && expense.date.toDate() <= end)
+      .sort((a, b) => a.date.toMillis() - b.date.toMillis()),
+    incomes: incomes
+      .filter(income => income.accountId === account.uid && !isReconciled(income) && income.receivedAt.toDate() <= end)
+      .sort((a, b) => a.receivedAt.toMillis() - b.receivedAt.toMillis()),
+  };
+}
+
+/**
+ * Saldo conciliado hasta la fecha del estado de cuenta: saldo inicial + movimientos ya
+ * conciliados + los marcados en `selection`. Las transferencias se consideran siempre
+ * conciliadas porque no se editan. Los montos sin tasa de cambio se suman sin convertir.
+ */
+export function getClearedBalance(
+  account: Account,
+  { expenses, incomes, transfers, rates }: AccountMovements,
+  statementDate: Date,
+  selection: ClearedSelection
+): number {
+  const end = endOfDay(statementDate);
+  let balance = account.openingBalance;
+
+  incomes
+    .filter(income => income.accountId === account.uid && income.receivedAt.toDate() <= end)
+    .filter(income => isReconciled(income) || selection.incomeIds.has(income.uid))
+    .forEach(income => {
+      balance += toAccountCurrency(account, income.amount, income.currency, income.receivedAt, rates) ?? income.amount;
+    });
+  expenses
+    .filter(expense => expense.accountId === account.uid && expense.date.toDate() <= end)
+    .filter(expense => isReconciled(expense) || selection.expenseIds.has(expense.uid))
+    .forEach(expense => {
+      balance -= toAccountCurrency(account, expense.amount, expense.currency, expense.date, rates) ?? expense.amount;
+    });
+  transfers
+    .filter(transfer => transfer.date.toDate() <= end)
+    .forEach(transfer => {
+      if (transfer.fromAccountId === account.uid) {
+        balance -= toAccountCurrency(account, transfer.amount, transfer.currency, transfer.date, rates) ?? transfer.amount;
+      }
+      if (transfer.toAccountId === account.uid) balance += transfer.toAmount;
+    });
+
+  return roundCents(balance);
+}
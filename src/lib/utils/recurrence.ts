@@ -0,0 +1,95 @@
+import { RecurringFrequency } from '@/lib/types/recurringRule';
+
+/**
+ * Datos mínimos para calcular las ocurrencias de una regla recurrente.
+ *
+ * IMPORTANTE: la Cloud Function `materializeRecurringRules` (functions/src)
+ * replica este cálculo en la zona horaria guardada en la regla (`timeZone`);
+ * si cambia aquí, debe cambiar allá también.
+ */
+export interface RecurrenceSchedule {
+  frequency: RecurringFrequency;
+  dayOfMonth: number;
+  startDate: Date;
+}
+
+/**
+ * Zona horaria IANA del navegador (p. ej. "America/Costa_Rica"). Se guarda en la regla
+ * para que el servidor genere las ocurrencias en las mismas fechas que muestra la vista previa.
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+const daysInMonth = (year: number, month: number): number => {
+  return new Date(year, month + 1, 0).getDate();
+};
+
+// Fecha a mediodía local, igual que createLocalDate, para evitar saltos de día por zona horaria
+const atNoon = (year: number, month: number, day: number): Date => {
+  return new Date(year, month, Math.min(day, daysInMonth(year, month)), 12, 0, 0, 0);
+};
+
+const startOfDay = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+/**
+ * Devuelve la primera ocurrencia de la regla en o después de `from`
+ * (nunca antes de la fecha de inicio de la regla).
+ */
+export function getOccurrenceOnOrAfter(schedule: RecurrenceSchedule, from: Date): Date {
+  const start = schedule.startDate;
+  const target = startOfDay(from < start ? start : from);
+
+  if (schedule.frequency === 'weekly' || schedule.frequency === 'biweekly') {
+    const stepDays = schedule.frequency === 'weekly' ? 7 : 14;
+    const anchor = atNoon(start.getFullYear(), start.getMonth(), start.getDate());
+    const elapsedDays = Math.round((target.getTime() - startOfDay(anchor).getTime()) / (1000 * 60 * 60 * 24));
+    const steps = Math.max(0, Math.ceil(elapsedDays / stepDays));
+    return atNoon(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + steps * stepDays);
+  }
+
+  if (schedule.frequency === 'yearly') {
+    let candidate = atNoon(target.getFullYear(), start.getMonth(), schedule.dayOfMonth);
+    if (candidate < target) {
+      candidate = atNoon(target.getFullYear() + 1, start.getMonth(), schedule.dayOfMonth);
+    }
+    return candidate;
+  }
+
+  // Mensual: si el día no existe en el mes (ej. 31 en febrero) se usa el último día del mes
+  let candidate = atNoon(target.getFullYear(), target.getMonth(), schedule.dayOfMonth);
+  if (candidate < target) {
+    candidate = atNoon(target.getFullYear(), target.getMonth() + 1, schedule.dayOfMonth);
+  }
+  return candidate;
+}
+
+/**
+ * Devuelve la ocurrencia siguiente a una ocurrencia dada
+ */
+export function getNextOccurrence(schedule: RecurrenceSchedule, occurrence: Date): Date {
+  const nextDay = new Date(occurrence.getFullYear(), occurrence.getMonth(), occurrence.getDate() + 1);
+  return getOccurrenceOnOrAfter(schedule, nextDay);
+}
+
+/**
+ * Lista las próximas `count` ocurrencias a partir de `from`, respetando la fecha de fin
+ */
+export function getUpcomingOccurrences(
+  schedule: RecurrenceSchedule,
+  from: Date,
+  count: number,
+  endDate?: Date | null
+): Date[] {
+  const occurrences: Date[] = [];
+  let current = getOccurrenceOnOrAfter(schedule, from);
+
+  while (occurrences.length < count && (!endDate || current <= endDate)) {
+    occurrences.push(current);
+    current = getNextOccurrence(schedule, current);
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,94 @@
+import { Timestamp } from 'firebase/firestore';
+import { Expense } from '@/lib/types/expense';
+import { Income } from '@/lib/types/income';
+import { UserTags } from '@/lib/types/tag';
+import { sumByCurrency } from './currencyConversion';
+
+// Límites compartidos con firestore.rules (isValidTags)
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+export interface TagTotals {
+  tag: string;
+  expenses: Record<string, number>; // Total de gastos por moneda
+  incomes: Record<string, number>; // Total de ingresos por moneda
+  count: number; // Movimientos con la etiqueta en el periodo
+}
+
+/**
+ * Normaliza una etiqueta: minúsculas, sin espacios en los extremos y con guiones
+ * en lugar de espacios internos (p. ej. "Vacation 2026" -> "vacation-2026").
+ */
+export function normalizeTag(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    // Letras (incluidas las acentuadas), números, guiones y guiones bajos
+    .replace(/[^a-z0-9\u00C0-\u024F_-]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Normaliza y deduplica una lista de etiquetas, respetando MAX_TAGS.
+ */
+export function normalizeTags(values: string[]): string[] {
+  const tags = values.map(normalizeTag).filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+// Etiquetas de la más usada a la menos usada (a igual uso, en orden alfabético)
+const sortByUsage = (counts: Record<string, number>): string[] => {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+};
+
+/**
+ * Etiquetas usadas en los movimientos, de la más usada a la menos usada.
+ */
+export function collectTags(movements: { tags?: string[] }[]): string[] {
+  const counts: Record<string, number> = {};
+  movements.forEach(movement => {
+    (movement.tags || []).forEach(tag => {
+      counts[tag] = (counts[tag] || 0) + 1;
+    });
+  });
+  return sortByUsage(counts);
+}
+
+/**
+ * Etiquetas del usuario según userTags (para el autocompletado y los filtros), sin leer sus movimientos.
+ */
+export function getUserTagList(userTags: UserTags | undefined): string[] {
+  return userTags ? sortByUsage(userTags.counts) : [];
+}
+
+/**
+ * Totales por etiqueta y moneda de los gastos e ingresos entre `start` y `end` (inclusive).
+ * Un movimiento con varias etiquetas suma en cada una de ellas. Ordenado por cantidad de movimientos.
+ */
+export function getTagTotals(expenses: Expense[], incomes: Income[], start: Date, end: Date): TagTotals[] {
+  const inRange = (date: Timestamp) => {
+    const moment = date.toDate();
+    return moment >= start && moment <= end;
+  };
+  const expensesInRange = expenses.filter(expense => inRange(expense.date));
+  const incomesInRange = incomes.filter(income => inRange(income.receivedAt));
+  const tags = collectTags([...expensesInRange, ...incomesInRange]);
+
+  return tags
+    .map(tag => {
+      const taggedExpenses = expensesInRange.filter(expense => expense.tags?.includes(tag));
+      const taggedIncomes = incomesInRange.filter(income => income.tags?.includes(tag));
+      return {
+        tag,
+        expenses: sumByCurrency(taggedExpenses),
+        incomes: sumByCurrency(taggedIncomes.map(income => ({ ...income, date: income.receivedAt }))),
+        count: taggedExpenses.length + taggedIncomes.length,
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -17,6 +17,8 @@ export function middleware(request: NextRequest) {
   img-src 'self' blob: data: https: http:;
   font-src 'self' data: https://fonts.gstatic.com;
   object-src 'none';
+  worker-src 'self';
+  manifest-src 'self';
   base-uri 'self';
   form-action 'self';
   frame-ancestors 'none';
@@ -39,6 +41,12 @@ export function middleware(request: NextRequest) {
 
   response.headers.set('Content-Security-Policy', cspHeader);
 
+  // ===== Service Worker =====
+  // Sin caché HTTP para que el navegador detecte siempre la última versión del worker
+  if (request.nextUrl.pathname === '/sw.js') {
+    response.headers.set('Cache-Control', 'no-cache, no-store, must-revalidate');
+  }
+
   // ===== X-Frame-Options =====
   // Previene que tu sitio sea embebido en un iframe (clickjacking)
   response.headers.set('X-Frame-Options', 'DENY');